@@ -0,0 +1,24 @@
+// Module hooks that let `node --test` import the app's TypeScript directly: extensionless relative
+// imports resolve to `.ts` files, which are transpiled on load (types are stripped, never checked).
+
+import { readFile } from 'node:fs/promises';
+import ts from 'typescript';
+
+export const resolve = async (specifier, context, nextResolve) => {
+  try {
+    return await nextResolve(specifier, context);
+  } catch (error) {
+    if (error?.code !== 'ERR_MODULE_NOT_FOUND' || !specifier.startsWith('.')) throw error;
+    return nextResolve(`${specifier}.ts`, context);
+  }
+};
+
+export const load = async (url, context, nextLoad) => {
+  if (!url.endsWith('.ts')) return nextLoad(url, context);
+  const source = await readFile(new URL(url), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: url,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+};
@@ -0,0 +1,352 @@
+// Self-hostable sync server for trips, a stand-in for Firebase Realtime Database.
+// No dependencies: plain Node http plus a minimal WebSocket implementation.
+//
+// REST
+//   GET    /api/data/<path>   value at path (null when missing)
+//   PUT    /api/data/<path>   replace value at path (null removes it)
+//   PATCH  /api/data          { "<path>": value, ... } written atomically
+//   POST   /api/cas/<path>    { expected, value } — 409 with the current value if it changed
+// WebSocket /ws
+//   -> { type: 'subscribe' | 'unsubscribe', path }
+//   <- { type: 'value', path, value } on subscribe and after every write touching path
+//
+// Access: with SYNC_TOKEN set, /api requests need `Authorization: Bearer <token>` and /ws needs
+// `?token=<token>`. Without it anyone who can reach the server can read and overwrite every trip.
+// ALLOWED_ORIGIN limits which site may call the API from a browser (default: any).
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync, writeFile } from 'node:fs';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.DATA_FILE ?? '';
+const SYNC_TOKEN = process.env.SYNC_TOKEN ?? '';
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+const PERSIST_DELAY_MS = 500;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+let root = null;
+if (DATA_FILE) {
+  try {
+    root = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+  } catch {
+    root = null;
+  }
+}
+
+let persistTimer = null;
+const schedulePersist = () => {
+  if (!DATA_FILE || persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    writeFile(DATA_FILE, JSON.stringify(root), (error) => {
+      if (error) console.error('Failed to persist data', error);
+    });
+  }, PERSIST_DELAY_MS);
+};
+
+// --- Data tree -------------------------------------------------------------
+
+const isRecord = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const checkSegments = (segments) => {
+  if (segments.some((segment) => FORBIDDEN_KEYS.has(segment))) {
+    throw new Error(`Invalid path: ${segments.join('/')}`);
+  }
+  return segments;
+};
+
+const splitPath = (path) => checkSegments(path.split('/').filter(Boolean));
+
+// URL paths arrive percent-encoded, one segment at a time.
+const splitUrlPath = (path) => checkSegments(path.split('/').filter(Boolean).map(decodeURIComponent));
+
+// Like Firebase: no undefined, and empty arrays or objects are the same as absent.
+const prune = (value) => {
+  if (Array.isArray(value)) {
+    const items = value.map(prune);
+    return items.length > 0 ? items : null;
+  }
+  if (isRecord(value)) {
+    const entries = Object.entries(value)
+      .filter(([key]) => !FORBIDDEN_KEYS.has(key))
+      .map(([key, item]) => [key, prune(item)])
+      .filter(([, item]) => item !== null);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+  return value === undefined ? null : value;
+};
+
+const sortedJson = (value) => JSON.stringify(value, (_, item) => (
+  isRecord(item) ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b))) : item
+));
+
+const readPath = (segments) => segments.reduce((node, key) => (node !== null && typeof node === 'object' ? node[key] ?? null : null), root);
+
+const writeAt = (node, segments, value) => {
+  if (segments.length === 0) return value;
+  const [key, ...rest] = segments;
+  const container = node !== null && typeof node === 'object' ? { ...node } : {};
+  container[key] = writeAt(container[key] ?? null, rest, value);
+  return prune(container);
+};
+
+const writePath = (segments, value) => {
+  root = writeAt(root, segments, prune(value));
+};
+
+// --- Access ----------------------------------------------------------------
+
+const isAuthorized = (request) => {
+  if (!SYNC_TOKEN) return true;
+  const header = request.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : new URL(request.url ?? '/', 'http://localhost').searchParams.get('token') ?? '';
+  const expected = Buffer.from(SYNC_TOKEN);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// --- WebSocket -------------------------------------------------------------
+
+const sockets = new Set();
+
+const sendFrame = (socket, text) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  socket.write(Buffer.concat([header, payload]));
+};
+
+const sendValue = (client, path) => {
+  sendFrame(client.socket, JSON.stringify({ type: 'value', path, value: readPath(splitPath(path)) }));
+};
+
+// A write to a/b/c changes the value seen by subscribers of a, a/b and a/b/c/d alike.
+const overlaps = (a, b) => a.length === 0 || b.length === 0 || a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+
+const broadcast = (changedPaths) => {
+  for (const client of sockets) {
+    for (const path of client.paths) {
+      if (changedPaths.some((changed) => overlaps(splitPath(changed).join('/'), splitPath(path).join('/')))) {
+        sendValue(client, path);
+      }
+    }
+  }
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (typeof message?.path !== 'string') return;
+  try {
+    splitPath(message.path);
+  } catch {
+    return;
+  }
+  if (message.type === 'subscribe') {
+    client.paths.add(message.path);
+    sendValue(client, message.path);
+  } else if (message.type === 'unsubscribe') {
+    client.paths.delete(message.path);
+  }
+};
+
+// Decodes as many complete client frames as the buffer holds; returns the unread remainder.
+const readFrames = (client, buffer) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) return buffer;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return buffer;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return buffer;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let index = 0; index < payload.length; index += 1) {
+        payload[index] ^= buffer[maskOffset + (index % 4)];
+      }
+    }
+    buffer = buffer.subarray(offset + length);
+
+    if (opcode === 0x1) {
+      handleMessage(client, payload.toString('utf8'));
+    } else if (opcode === 0x8) {
+      client.socket.end(Buffer.from([0x88, 0x00]));
+      return Buffer.alloc(0);
+    } else if (opcode === 0x9) {
+      client.socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+    }
+  }
+  return buffer;
+};
+
+const acceptWebSocket = (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  if (pathname !== '/ws' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  if (!isAuthorized(request)) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  const client = { socket, paths: new Set() };
+  sockets.add(client);
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    pending = readFrames(client, Buffer.concat([pending, chunk]));
+  });
+  socket.on('close', () => sockets.delete(client));
+  socket.on('error', () => sockets.delete(client));
+};
+
+// --- HTTP ------------------------------------------------------------------
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  request.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    const text = Buffer.concat(chunks).toString('utf8');
+    try {
+      resolve(text ? JSON.parse(text) : null);
+    } catch (error) {
+      reject(error);
+    }
+  });
+  request.on('error', reject);
+});
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, PATCH, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  response.end(JSON.stringify(body));
+};
+
+const handleRequest = async (request, response) => {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    sendJson(response, 204, null);
+    return;
+  }
+  if (pathname === '/health') {
+    sendJson(response, 200, { ok: true, clients: sockets.size });
+    return;
+  }
+  if (!isAuthorized(request)) {
+    sendJson(response, 401, { error: 'Missing or wrong sync token' });
+    return;
+  }
+
+  if (pathname.startsWith('/api/data')) {
+    const segments = splitUrlPath(pathname.slice('/api/data'.length));
+    if (request.method === 'GET') {
+      sendJson(response, 200, readPath(segments));
+      return;
+    }
+    if (request.method === 'PUT') {
+      writePath(segments, await readBody(request));
+      schedulePersist();
+      broadcast([segments.join('/')]);
+      sendJson(response, 200, { ok: true });
+      return;
+    }
+    if (request.method === 'PATCH' && segments.length === 0) {
+      const updates = await readBody(request);
+      if (!isRecord(updates)) {
+        sendJson(response, 400, { error: 'Expected an object of path → value' });
+        return;
+      }
+      const entries = Object.entries(updates).map(([key, value]) => [splitPath(key), value]);
+      entries.forEach(([keySegments, value]) => writePath(keySegments, value));
+      schedulePersist();
+      broadcast(entries.map(([keySegments]) => keySegments.join('/')));
+      sendJson(response, 200, { ok: true });
+      return;
+    }
+  }
+
+  if (pathname.startsWith('/api/cas/') && request.method === 'POST') {
+    const segments = splitUrlPath(pathname.slice('/api/cas'.length));
+    const body = await readBody(request);
+    const current = readPath(segments);
+    if (!isRecord(body) || sortedJson(prune(body.expected)) !== sortedJson(current)) {
+      sendJson(response, 409, { value: current });
+      return;
+    }
+    writePath(segments, body.value);
+    schedulePersist();
+    broadcast([segments.join('/')]);
+    sendJson(response, 200, { value: readPath(segments) });
+    return;
+  }
+
+  sendJson(response, 404, { error: 'Not found' });
+};
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    sendJson(response, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+  });
+});
+
+server.on('upgrade', acceptWebSocket);
+server.listen(PORT, () => {
+  console.log(`Sync server listening on :${PORT}${DATA_FILE ? `, persisting to ${DATA_FILE}` : ''}`);
+});
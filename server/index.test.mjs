@@ -0,0 +1,258 @@
+// Checks the sync server end to end, through the app's own client in src/sync/serverBackend.ts.
+// Run with `npm test`; every test starts a throwaway server on a free port.
+
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { connect, createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+const SERVER_FILE = fileURLToPath(new URL('./index.mjs', import.meta.url));
+const CLIENT_SOURCE = fileURLToPath(new URL('../src/sync/serverBackend.ts', import.meta.url));
+
+const loadClient = async () => {
+  const { outputText } = ts.transpileModule(readFileSync(CLIENT_SOURCE, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 }
+  });
+  const file = join(tmpdir(), `serverBackend-${process.pid}.mjs`);
+  writeFileSync(file, outputText);
+  try {
+    return await import(pathToFileURL(file).href);
+  } finally {
+    rmSync(file, { force: true });
+  }
+};
+
+const findFreePort = () => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.on('error', reject);
+  probe.listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  });
+});
+
+const startServer = async (env = {}) => {
+  const port = await findFreePort();
+  const child = spawn(process.execPath, [SERVER_FILE], {
+    env: { ...process.env, PORT: String(port), DATA_FILE: '', SYNC_TOKEN: '', ...env },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  await new Promise((resolve, reject) => {
+    child.on('exit', (code) => reject(new Error(`Sync server exited with ${code}`)));
+    child.stdout.on('data', (chunk) => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+  });
+  return { url: `http://127.0.0.1:${port}`, port, stop: () => child.kill() };
+};
+
+// Same check the app's commitGuardedChange makes before a compare-and-set write.
+const guardedUpdater = (base, value) => (current) =>
+  JSON.stringify(current) === JSON.stringify(base) || JSON.stringify(current) === JSON.stringify(value) ? value : undefined;
+
+// --- Minimal WebSocket client ---------------------------------------------
+
+const openSocket = (port, path = '/ws') => new Promise((resolve, reject) => {
+  const socket = connect(port, '127.0.0.1');
+  let buffer = Buffer.alloc(0);
+  let handshake = '';
+  const frames = [];
+  const waiting = [];
+
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      if (buffer.length < offset + length) return;
+      frames.push(JSON.parse(buffer.subarray(offset, offset + length).toString('utf8')));
+      buffer = buffer.subarray(offset + length);
+    }
+    while (waiting.length > 0 && frames.length > 0) waiting.shift()(frames.shift());
+  };
+
+  socket.on('error', reject);
+  socket.on('data', (chunk) => {
+    if (handshake !== null) {
+      handshake += chunk.toString('latin1');
+      const end = handshake.indexOf('\r\n\r\n');
+      if (end === -1) return;
+      const status = handshake.split(' ')[1];
+      const rest = Buffer.from(handshake.slice(end + 4), 'latin1');
+      handshake = null;
+      if (status !== '101') {
+        resolve({ status });
+        socket.destroy();
+        return;
+      }
+      resolve({
+        status,
+        send: (message) => {
+          const payload = Buffer.from(JSON.stringify(message));
+          const mask = randomBytes(4);
+          const masked = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+          socket.write(Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]));
+        },
+        next: () => new Promise((resolveFrame) => {
+          waiting.push(resolveFrame);
+          readFrames();
+        }),
+        close: () => socket.destroy()
+      });
+      buffer = rest;
+      readFrames();
+      return;
+    }
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.write([
+    `GET ${path} HTTP/1.1`,
+    'Host: localhost',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+    'Sec-WebSocket-Version: 13',
+    '',
+    ''
+  ].join('\r\n'));
+});
+
+// --- Tests -----------------------------------------------------------------
+
+const { createServerBackend } = await loadClient();
+
+describe('sync server', () => {
+  let server;
+  let backend;
+
+  before(async () => {
+    server = await startServer();
+    backend = createServerBackend(server.url);
+  });
+  after(() => server.stop());
+
+  test('set, get and multi-path update', async () => {
+    await backend.set('trips/rest', { name: 'Rome', tags: [], flights: { f1: { price: 100 } } });
+    assert.deepEqual(await backend.get('trips/rest'), { name: 'Rome', flights: { f1: { price: 100 } } });
+
+    await backend.update({ 'trips/rest/name': 'Lisbon', 'trips/rest/flights/f1': null, 'trips/rest/meta/updatedAt': 1 });
+    assert.deepEqual(await backend.get('trips/rest'), { name: 'Lisbon', meta: { updatedAt: 1 } });
+    assert.equal(await backend.get('trips/missing'), null);
+  });
+
+  test('compare-and-set commits on the expected value and answers 409 with the current one otherwise', async () => {
+    await backend.set('trips/cas/price', 100);
+    const committed = await fetch(`${server.url}/api/cas/trips/cas/price`, { method: 'POST', body: JSON.stringify({ expected: 100, value: 120 }) });
+    assert.equal(committed.status, 200);
+    assert.deepEqual(await committed.json(), { value: 120 });
+
+    const stale = await fetch(`${server.url}/api/cas/trips/cas/price`, { method: 'POST', body: JSON.stringify({ expected: 100, value: 130 }) });
+    assert.equal(stale.status, 409);
+    assert.deepEqual(await stale.json(), { value: 120 });
+    assert.equal(await backend.get('trips/cas/price'), 120);
+  });
+
+  test('transaction retries when someone writes between its read and its write', async () => {
+    await backend.set('trips/retry/count', 1);
+    // A teammate's write lands just before this client's first compare-and-set.
+    const realFetch = globalThis.fetch;
+    let interfered = false;
+    globalThis.fetch = async (url, init) => {
+      if (!interfered && init?.method === 'POST') {
+        interfered = true;
+        await realFetch(`${server.url}/api/data/trips/retry/count`, { method: 'PUT', body: '5' });
+      }
+      return realFetch(url, init);
+    };
+
+    const seen = [];
+    try {
+      const result = await backend.transaction('trips/retry/count', (current) => {
+        seen.push(current);
+        return current + 1;
+      });
+      assert.deepEqual(result, { committed: true, value: 6 });
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+    assert.deepEqual(seen, [1, 5]);
+    assert.equal(await backend.get('trips/retry/count'), 6);
+  });
+
+  test('replaying queued writes keeps a teammate\'s newer edit as a conflict', async () => {
+    await backend.set('trips/replay', { flights: { f1: { price: 100, description: 'Ryanair' } } });
+    // While this client was offline a teammate changed the price.
+    await backend.update({ 'trips/replay/flights/f1/price': 110 });
+
+    const queued = [
+      { path: 'trips/replay/flights/f2', value: { price: 90 }, guarded: false },
+      { path: 'trips/replay/flights/f1/price', value: 120, base: 100, guarded: true },
+      { path: 'trips/replay/flights/f1/description', value: 'Aer Lingus', base: 'Ryanair', guarded: true }
+    ];
+    const results = [];
+    for (const mutation of queued) {
+      if (mutation.guarded) {
+        results.push(await backend.transaction(mutation.path, guardedUpdater(mutation.base, mutation.value)));
+      } else {
+        await backend.update({ [mutation.path]: mutation.value });
+      }
+    }
+
+    assert.deepEqual(results, [{ committed: false, value: 110 }, { committed: true, value: 'Aer Lingus' }]);
+    assert.deepEqual(await backend.get('trips/replay/flights'), {
+      f1: { price: 110, description: 'Aer Lingus' },
+      f2: { price: 90 }
+    });
+  });
+
+  test('subscribers get the value on subscribe and after every write under it', async () => {
+    const socket = await openSocket(server.port);
+    assert.equal(socket.status, '101');
+    try {
+      socket.send({ type: 'subscribe', path: 'trips/live' });
+      assert.deepEqual(await socket.next(), { type: 'value', path: 'trips/live', value: null });
+
+      await backend.update({ 'trips/live/name': 'Porto' });
+      assert.deepEqual(await socket.next(), { type: 'value', path: 'trips/live', value: { name: 'Porto' } });
+    } finally {
+      socket.close();
+    }
+  });
+});
+
+describe('sync server with SYNC_TOKEN', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ SYNC_TOKEN: 'team-secret' });
+  });
+  after(() => server.stop());
+
+  test('rejects requests without the token', async () => {
+    const response = await fetch(`${server.url}/api/data/trips`);
+    assert.equal(response.status, 401);
+    await assert.rejects(createServerBackend(server.url, 'wrong').get('trips'), /401/);
+    assert.equal((await openSocket(server.port)).status, '401');
+  });
+
+  test('accepts the token from the client', async () => {
+    const backend = createServerBackend(server.url, 'team-secret');
+    await backend.set('trips/private/name', 'Oslo');
+    assert.equal(await backend.get('trips/private/name'), 'Oslo');
+
+    const socket = await openSocket(server.port, '/ws?token=team-secret');
+    assert.equal(socket.status, '101');
+    socket.close();
+  });
+});
@@ -1,29 +1,48 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRef } from 'react';
 import { Button, Container, Form, InputGroup, Modal, Navbar, Offcanvas, Spinner, Table } from 'react-bootstrap';
-import { get, onValue, ref, set, update } from 'firebase/database';
 import Sidebar from './components/Sidebar';
 import DestinationView from './components/DestinationView';
 import AddDestinationModal from './components/AddDestinationModal';
 import DataPersistence from './components/DataPersistence';
 import PersistentBudgetStatus from './components/PersistentBudgetStatus';
+import SyncConflictBanner from './components/SyncConflictBanner';
+import ActivityFeed from './components/ActivityFeed';
+import TripImportModal, { PendingTripImport } from './components/TripImportModal';
+import AvailabilityCalendar from './components/AvailabilityCalendar';
+import { toDateStr } from './components/DateRangePicker';
 import { useLocalStorage } from './useLocalStorage';
-import { Accommodation, BudgetAttempt, BudgetEstimatorState, Destination, ExtraCost, Flight, PlannerSettings, SearchLinkTemplate, TripVotes } from './types';
+import { useUndoHistory } from './useUndoHistory';
+import { Accommodation, AccommodationRoom, ActivityEvent, BudgetAttempt, BudgetEstimatorState, Destination, ExtraCost, ExtraCostCategory, ExtraCostScaling, Flight, FlightDraft, FlightSegment, MemberAvailability, PlannerSettings, SearchLinkTemplate, SecretBallot, SettlementLedger, StaySelection, TripVotes, VoteBallot, VoteBlocker, VoteCategory, VoteMode, VotePoll } from './types';
 import { DEFAULT_SEARCH_LINKS } from './utils/bookingLinks';
+import { DEFAULT_BASE_CURRENCY, isCurrencyCode, rebaseExchangeRates } from './utils/currency';
+import { EXTRA_COST_CATEGORIES, EXTRA_COST_SCALINGS } from './utils/extraCosts';
+import { createPlaceholderSeats, PLACEHOLDER_SEAT } from './utils/flightAssignments';
+import { createRoundTripSegments, createSegment } from './utils/flightSegments';
 import PersonSelector from './components/PersonSelector';
 import VoteSummary from './components/VoteSummary';
-import { FaCog, FaLink, FaPlane, FaPlus, FaPoll, FaSync, FaTrash, FaUsers, FaWallet } from 'react-icons/fa';
-import { firebaseDatabase, isFirebaseConfigured } from './firebase';
+import DestinationComparison from './components/DestinationComparison';
+import CurrencySettingsModal from './components/CurrencySettingsModal';
+import { FaCalendarCheck, FaCog, FaColumns, FaExchangeAlt, FaHistory, FaLink, FaPlane, FaPlus, FaPoll, FaRedo, FaSync, FaTrash, FaUndo, FaUsers, FaWallet } from 'react-icons/fa';
+import { syncBackend } from './sync';
+import { SyncChange, SyncConflict, applySyncChanges, decodeDestinations, diffDestinations, diffTripSlices, encodeDestinations, isKeyedLayout, isSameStoredValue, toStoredShape } from './utils/tripSync';
+import { PendingMutation, countPendingForTrip, enqueueMutation } from './utils/syncQueue';
+import { ACTIVITY_LIMIT, ActivityDraft, describeDestinationChanges, describeBlocker, describePollChange, describeSecretBallotChange, describeVote, describeVoteModeChange, mergeActivity } from './utils/activity';
+import { ImportMode, TripContent, migrateTripBundle } from './utils/tripBundle';
+import { DEFAULT_TRIP_NIGHTS, DayStatus, findBestWindows, getTopWindows, setDayStatus } from './utils/availability';
+import { VOTE_CATEGORIES, VOTE_MODES, areVotersHidden, getBlockers, getDecision, getPoll, getRevealedBlockerMap, getRevealedSupporterMap, isSameVoter, isSecretBallot, isVotingOpen, pruneRemovedOptions, setBallot, setBallotScope, setBlocker, setPoll, setSecretBallot, setVoteMode, toggleVote } from './utils/voting';
+import { v4 as uuidv4 } from 'uuid';
 import 'bootstrap/dist/css/bootstrap.min.css';
 import 'leaflet/dist/leaflet.css';
 
-type LegacyExtraCost = { description?: unknown; value?: unknown };
+type LegacyExtraCost = { id?: unknown; description?: unknown; value?: unknown; currency?: unknown; paidBy?: unknown; category?: unknown; scaling?: unknown };
 type LegacyBudgetAttempt = {
   id?: unknown;
   name?: unknown;
   createdAt?: unknown;
   flightAssignments?: unknown;
   selectedAccommodationId?: unknown;
+  stays?: unknown;
   totalCost?: unknown;
   remaining?: unknown;
   perPersonTotal?: unknown;
@@ -31,10 +50,13 @@ type LegacyBudgetAttempt = {
 type LegacyBudgetEstimator = {
   flightAssignments?: unknown;
   selectedAccommodationId?: unknown;
+  stays?: unknown;
   fixedAttemptId?: unknown;
   attempts?: unknown;
 };
-type LegacyDestination = Omit<Destination, 'notes' | 'extraCosts' | 'budgetEstimator' | 'flightDraft' | 'accommodationDraft'> & {
+type LegacyDestination = Omit<Destination, 'notes' | 'extraCosts' | 'budgetEstimator' | 'flightDraft' | 'accommodationDraft' | 'flights' | 'accommodations'> & {
+  flights?: unknown;
+  accommodations?: unknown;
   notes?: unknown;
   extraCosts?: unknown;
   budgetEstimator?: unknown;
@@ -46,15 +68,37 @@ type TripSyncPayload = {
   settings?: unknown;
   tripMembers?: unknown;
   votes?: unknown;
+  availability?: unknown;
+  activity?: unknown;
   meta?: {
     updatedAt?: unknown;
     updatedBy?: unknown;
   };
 };
-const DEFAULT_SETTINGS: PlannerSettings = { totalBudget: 5000, peopleCount: 5, searchLinks: DEFAULT_SEARCH_LINKS };
+// Everything collaborators share under trips/{code}; undo snapshots are taken per slice.
+type TripState = {
+  destinations: Destination[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  votes: TripVotes;
+  availability: MemberAvailability[];
+};
+const DEFAULT_SETTINGS: PlannerSettings = {
+  totalBudget: 5000,
+  peopleCount: 5,
+  searchLinks: DEFAULT_SEARCH_LINKS,
+  baseCurrency: DEFAULT_BASE_CURRENCY,
+  exchangeRates: {}
+};
 const TRIP_CODE_MIN_LENGTH = 4;
 const TRIP_CODE_MAX_LENGTH = 12;
 
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit', 'range', 'color', 'file'].includes((target as HTMLInputElement).type);
+};
+
 const normalizeTripCode = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, TRIP_CODE_MAX_LENGTH);
 
 const parseTimestamp = (value: unknown): number | null => {
@@ -79,10 +123,21 @@ const getOrCreateSyncClientId = (): string => {
   return generatedValue;
 };
 
-const normalizeExtraCosts = (extraCosts: unknown): ExtraCost[] => {
+// Items saved before multi-currency support have no currency; they were entered in the base currency.
+const normalizeItemCurrency = (currency: unknown, baseCurrency: string): string => {
+  return isCurrencyCode(currency) ? currency : baseCurrency;
+};
+
+const isExtraCostCategory = (value: unknown): value is ExtraCostCategory =>
+  EXTRA_COST_CATEGORIES.some((category) => category.id === value);
+
+const isExtraCostScaling = (value: unknown): value is ExtraCostScaling =>
+  EXTRA_COST_SCALINGS.some((scaling) => scaling.id === value);
+
+const normalizeExtraCosts = (extraCosts: unknown, baseCurrency: string): ExtraCost[] => {
   if (typeof extraCosts === 'number') {
     return Number.isFinite(extraCosts) && extraCosts > 0
-      ? [{ description: 'General extra cost', value: extraCosts }]
+      ? [{ id: 'extra-cost-1', description: 'General extra cost', value: extraCosts, currency: baseCurrency }]
       : [];
   }
 
@@ -90,13 +145,25 @@ const normalizeExtraCosts = (extraCosts: unknown): ExtraCost[] => {
     return [];
   }
 
-  return extraCosts.map((extraCost) => {
+  // Ids derived from position keep legacy lists stable across clients until someone rewrites them.
+  return extraCosts.map((extraCost, index) => {
     const typedExtraCost = extraCost as LegacyExtraCost;
+    const id = typeof typedExtraCost.id === 'string' && typedExtraCost.id ? typedExtraCost.id : `extra-cost-${index + 1}`;
     const description = typeof typedExtraCost.description === 'string' ? typedExtraCost.description : '';
     const parsedValue = typedExtraCost.value;
     const value = typeof parsedValue === 'number' && Number.isFinite(parsedValue) && parsedValue >= 0 ? parsedValue : 0;
 
-    return { description, value };
+    const paidBy = typeof typedExtraCost.paidBy === 'string' && typedExtraCost.paidBy.trim() ? typedExtraCost.paidBy : undefined;
+
+    return {
+      id,
+      description,
+      value,
+      currency: normalizeItemCurrency(typedExtraCost.currency, baseCurrency),
+      ...(paidBy ? { paidBy } : {}),
+      ...(isExtraCostCategory(typedExtraCost.category) ? { category: typedExtraCost.category } : {}),
+      ...(isExtraCostScaling(typedExtraCost.scaling) ? { scaling: typedExtraCost.scaling } : {})
+    };
   });
 };
 
@@ -108,22 +175,31 @@ const hasInvalidExtraCosts = (extraCosts: unknown): boolean => {
   return extraCosts.some((extraCost) => {
     const typedExtraCost = extraCost as LegacyExtraCost;
     return (
+      typeof typedExtraCost.id !== 'string' ||
+      !typedExtraCost.id ||
       typeof typedExtraCost.description !== 'string' ||
       typeof typedExtraCost.value !== 'number' ||
       !Number.isFinite(typedExtraCost.value) ||
-      typedExtraCost.value < 0
+      typedExtraCost.value < 0 ||
+      !isCurrencyCode(typedExtraCost.currency) ||
+      (typedExtraCost.paidBy !== undefined && typeof typedExtraCost.paidBy !== 'string') ||
+      (typedExtraCost.category !== undefined && !isExtraCostCategory(typedExtraCost.category)) ||
+      (typedExtraCost.scaling !== undefined && !isExtraCostScaling(typedExtraCost.scaling))
     );
   });
 };
 
-const normalizeFlightAssignments = (flightAssignments: unknown): Record<string, number> => {
+// Before named assignments a flight stored a head count; those become placeholder seats to fill in later.
+const normalizeFlightAssignments = (flightAssignments: unknown): Record<string, string[]> => {
   if (!flightAssignments || typeof flightAssignments !== 'object' || Array.isArray(flightAssignments)) {
     return {};
   }
 
-  return Object.entries(flightAssignments as Record<string, unknown>).reduce<Record<string, number>>((acc, [flightId, count]) => {
-    if (typeof count === 'number' && Number.isFinite(count) && count >= 0) {
-      acc[flightId] = Math.floor(count);
+  return Object.entries(flightAssignments as Record<string, unknown>).reduce<Record<string, string[]>>((acc, [flightId, seats]) => {
+    if (typeof seats === 'number' && Number.isFinite(seats) && seats > 0) {
+      acc[flightId] = createPlaceholderSeats(seats);
+    } else if (Array.isArray(seats) && seats.length > 0) {
+      acc[flightId] = seats.map((seat) => (typeof seat === 'string' ? seat : PLACEHOLDER_SEAT));
     }
     return acc;
   }, {});
@@ -134,11 +210,41 @@ const hasInvalidFlightAssignments = (flightAssignments: unknown): boolean => {
     return true;
   }
 
-  return Object.values(flightAssignments as Record<string, unknown>).some((count) => {
-    return typeof count !== 'number' || !Number.isFinite(count) || count < 0;
+  return Object.values(flightAssignments as Record<string, unknown>).some((seats) => {
+    return !Array.isArray(seats) || seats.some((seat) => typeof seat !== 'string');
   });
 };
 
+// Firebase drops empty member lists, so a whole-group stay can come back without `members`.
+const normalizeStaySelections = (stays: unknown): StaySelection[] | undefined => {
+  if (!Array.isArray(stays)) {
+    return undefined;
+  }
+
+  const normalized = stays
+    .filter((stay): stay is Record<string, unknown> => Boolean(stay) && typeof stay === 'object' && !Array.isArray(stay))
+    .filter((stay) => typeof stay.accommodationId === 'string' && stay.accommodationId)
+    .map((stay) => ({
+      accommodationId: stay.accommodationId as string,
+      members: Array.isArray(stay.members) ? stay.members.filter((member): member is string => typeof member === 'string') : []
+    }));
+  return normalized.length > 0 ? normalized : undefined;
+};
+
+const hasInvalidStaySelections = (stays: unknown): boolean => {
+  if (stays === undefined) {
+    return false;
+  }
+
+  return !Array.isArray(stays) || stays.some((stay) => (
+    !stay ||
+    typeof stay !== 'object' ||
+    typeof stay.accommodationId !== 'string' ||
+    !Array.isArray(stay.members) ||
+    stay.members.some((member: unknown) => typeof member !== 'string')
+  ));
+};
+
 const normalizeBudgetAttempts = (attempts: unknown): BudgetAttempt[] => {
   if (!Array.isArray(attempts)) {
     return [];
@@ -164,12 +270,15 @@ const normalizeBudgetAttempts = (attempts: unknown): BudgetAttempt[] => {
         ? typedAttempt.perPersonTotal
         : 0;
 
+      const stays = normalizeStaySelections(typedAttempt.stays);
+
       return {
         id: typeof typedAttempt.id === 'string' && typedAttempt.id.trim() ? typedAttempt.id : `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
         name: typeof typedAttempt.name === 'string' && typedAttempt.name.trim() ? typedAttempt.name : 'Saved attempt',
         createdAt,
         flightAssignments: normalizeFlightAssignments(typedAttempt.flightAssignments),
         selectedAccommodationId: typeof typedAttempt.selectedAccommodationId === 'string' ? typedAttempt.selectedAccommodationId : '',
+        ...(stays ? { stays } : {}),
         totalCost,
         remaining,
         perPersonTotal
@@ -200,6 +309,7 @@ const hasInvalidBudgetAttempts = (attempts: unknown): boolean => {
       typeof typedAttempt.createdAt !== 'number' ||
       !Number.isFinite(typedAttempt.createdAt) ||
       typeof typedAttempt.selectedAccommodationId !== 'string' ||
+      hasInvalidStaySelections(typedAttempt.stays) ||
       hasInvalidFlightAssignments(typedAttempt.flightAssignments) ||
       typeof typedAttempt.totalCost !== 'number' ||
       !Number.isFinite(typedAttempt.totalCost) ||
@@ -217,10 +327,12 @@ const normalizeBudgetEstimator = (budgetEstimator: unknown): BudgetEstimatorStat
   const fixedAttemptId = typeof typedBudgetEstimator?.fixedAttemptId === 'string' ? typedBudgetEstimator.fixedAttemptId : '';
   const normalizedAttempts = attempts.slice(0, 5);
   const normalizedFixedAttemptId = normalizedAttempts.some((a) => a.id === fixedAttemptId) ? fixedAttemptId : (normalizedAttempts[0]?.id || '');
+  const stays = normalizeStaySelections(typedBudgetEstimator?.stays);
 
   return {
     flightAssignments: normalizeFlightAssignments(typedBudgetEstimator?.flightAssignments),
     selectedAccommodationId: typeof typedBudgetEstimator?.selectedAccommodationId === 'string' ? typedBudgetEstimator.selectedAccommodationId : '',
+    ...(stays ? { stays } : {}),
     fixedAttemptId: normalizedFixedAttemptId,
     attempts: normalizedAttempts
   };
@@ -235,19 +347,20 @@ const hasInvalidBudgetEstimator = (budgetEstimator: unknown): boolean => {
   return (
     'changeHistory' in typedBudgetEstimator ||
     typeof typedBudgetEstimator.selectedAccommodationId !== 'string' ||
+    hasInvalidStaySelections(typedBudgetEstimator.stays) ||
     hasInvalidFlightAssignments(typedBudgetEstimator.flightAssignments) ||
     typeof typedBudgetEstimator.fixedAttemptId !== 'string' ||
     hasInvalidBudgetAttempts(typedBudgetEstimator.attempts)
   );
 };
 
-const normalizeFlightDraft = (flightDraft: unknown): Partial<Flight> => {
+const normalizeFlightDraft = (flightDraft: unknown): FlightDraft => {
   if (!flightDraft || typeof flightDraft !== 'object' || Array.isArray(flightDraft)) {
     return {};
   }
 
   const typedDraft = flightDraft as Record<string, unknown>;
-  const normalizedDraft: Partial<Flight> = {};
+  const normalizedDraft: FlightDraft = {};
 
   if (typeof typedDraft.link === 'string') normalizedDraft.link = typedDraft.link;
   if (typeof typedDraft.description === 'string') normalizedDraft.description = typedDraft.description;
@@ -256,6 +369,7 @@ const normalizeFlightDraft = (flightDraft: unknown): Partial<Flight> => {
   if (typeof typedDraft.departureTime === 'string') normalizedDraft.departureTime = typedDraft.departureTime;
   if (typeof typedDraft.arrivalTime === 'string') normalizedDraft.arrivalTime = typedDraft.arrivalTime;
   if (typeof typedDraft.origin === 'string') normalizedDraft.origin = typedDraft.origin;
+  if (isCurrencyCode(typedDraft.currency)) normalizedDraft.currency = typedDraft.currency;
   if (typeof typedDraft.pricePerPerson === 'number' && Number.isFinite(typedDraft.pricePerPerson) && typedDraft.pricePerPerson >= 0) {
     normalizedDraft.pricePerPerson = typedDraft.pricePerPerson;
   }
@@ -279,6 +393,7 @@ const normalizeAccommodationDraft = (accommodationDraft: unknown): Partial<Accom
     normalizedDraft.totalPrice = typedDraft.totalPrice;
   }
   if (typeof typedDraft.imageUrl === 'string') normalizedDraft.imageUrl = typedDraft.imageUrl;
+  if (isCurrencyCode(typedDraft.currency)) normalizedDraft.currency = typedDraft.currency;
   if (typeof typedDraft.rooms === 'number' && Number.isFinite(typedDraft.rooms) && typedDraft.rooms > 0) {
     normalizedDraft.rooms = typedDraft.rooms;
   }
@@ -302,6 +417,9 @@ const hasInvalidFlightDraft = (flightDraft: unknown): boolean => {
     if (key === 'link' || key === 'description' || key === 'startDate' || key === 'endDate' || key === 'departureTime' || key === 'arrivalTime' || key === 'origin') {
       return typeof value !== 'string';
     }
+    if (key === 'currency') {
+      return !isCurrencyCode(value);
+    }
     return true;
   });
 };
@@ -322,6 +440,9 @@ const hasInvalidAccommodationDraft = (accommodationDraft: unknown): boolean => {
     if (key === 'link' || key === 'description' || key === 'startDate' || key === 'endDate' || key === 'imageUrl') {
       return typeof value !== 'string';
     }
+    if (key === 'currency') {
+      return !isCurrencyCode(value);
+    }
     return true;
   });
 };
@@ -349,19 +470,44 @@ const normalizeStayLinks = (raw: unknown): { label: string; url: string }[] | un
   return result.length > 0 ? result : undefined;
 };
 
-const normalizeDestination = (destination: LegacyDestination): Destination => {
+// Firebase drops empty objects and arrays, so a synced ledger may come back with missing parts.
+const normalizeSettlementLedger = (raw: unknown): SettlementLedger | undefined => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const parsed = raw as Record<string, unknown>;
+  const flightPayers: Record<string, string[]> = {};
+  if (parsed.flightPayers && typeof parsed.flightPayers === 'object' && !Array.isArray(parsed.flightPayers)) {
+    for (const [flightId, payers] of Object.entries(parsed.flightPayers as Record<string, unknown>)) {
+      if (!Array.isArray(payers)) continue;
+      flightPayers[flightId] = payers.map((payer) => (typeof payer === 'string' ? payer : ''));
+    }
+  }
+  const stayPayers = parsed.stayPayers && typeof parsed.stayPayers === 'object' && !Array.isArray(parsed.stayPayers)
+    ? Object.fromEntries(Object.entries(parsed.stayPayers as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+  return {
+    flightPayers,
+    accommodationPayer: typeof parsed.accommodationPayer === 'string' ? parsed.accommodationPayer : '',
+    ...(Object.keys(stayPayers).length > 0 ? { stayPayers } : {})
+  };
+};
+
+const normalizeDestination = (destination: LegacyDestination, baseCurrency: string): Destination => {
   const raw = destination as Record<string, unknown>;
   const customGroupLinks = normalizeCustomGroupLinks(raw.customGroupLinks);
   const stayLinks = normalizeStayLinks(raw.stayLinks);
+  const ledger = normalizeSettlementLedger(raw.ledger);
   return {
     ...destination,
+    flights: normalizeFlightList(destination.flights, baseCurrency, destination.name),
+    accommodations: normalizeAccommodationList(destination.accommodations, baseCurrency),
     notes: typeof destination.notes === 'string' ? destination.notes : '',
-    extraCosts: normalizeExtraCosts(destination.extraCosts),
+    extraCosts: normalizeExtraCosts(destination.extraCosts, baseCurrency),
     budgetEstimator: normalizeBudgetEstimator(destination.budgetEstimator),
     flightDraft: normalizeFlightDraft(destination.flightDraft),
     accommodationDraft: normalizeAccommodationDraft(destination.accommodationDraft),
     ...(customGroupLinks ? { customGroupLinks } : {}),
-    ...(stayLinks ? { stayLinks } : {})
+    ...(stayLinks ? { stayLinks } : {}),
+    ...(ledger ? { ledger } : {})
   };
 };
 
@@ -378,7 +524,28 @@ const parseNumberValue = (value: unknown): number | null => {
   return null;
 };
 
-const normalizeFlightList = (flights: unknown): Flight[] => {
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const normalizeFlightSegments = (segments: unknown): FlightSegment[] => {
+  if (!Array.isArray(segments)) {
+    return [];
+  }
+
+  return segments
+    .filter((segment): segment is Record<string, unknown> => Boolean(segment) && typeof segment === 'object' && !Array.isArray(segment))
+    .map((segment) => createSegment(segment.direction === 'return' ? 'return' : 'outbound', {
+      from: readString(segment.from),
+      to: readString(segment.to),
+      date: readString(segment.date),
+      departureTime: readString(segment.departureTime),
+      arrivalTime: readString(segment.arrivalTime),
+      carrier: readString(segment.carrier),
+      flightNumber: readString(segment.flightNumber)
+    }));
+};
+
+// Flights saved before segments existed carry one origin, a date range and two times; they become a round trip.
+const normalizeFlightList = (flights: unknown, baseCurrency: string, destinationName: string): Flight[] => {
   if (!Array.isArray(flights)) {
     return [];
   }
@@ -395,16 +562,23 @@ const normalizeFlightList = (flights: unknown): Flight[] => {
       }
 
       const parsedPrice = parseNumberValue(typedFlight.pricePerPerson);
+      const segments = normalizeFlightSegments(typedFlight.segments);
       return {
         id: typedFlight.id,
         link: typeof typedFlight.link === 'string' ? typedFlight.link : '',
         description: typeof typedFlight.description === 'string' ? typedFlight.description : '',
-        startDate: typeof typedFlight.startDate === 'string' ? typedFlight.startDate : '',
-        endDate: typeof typedFlight.endDate === 'string' ? typedFlight.endDate : '',
-        departureTime: typeof typedFlight.departureTime === 'string' ? typedFlight.departureTime : '',
-        arrivalTime: typeof typedFlight.arrivalTime === 'string' ? typedFlight.arrivalTime : '',
-        origin: typeof typedFlight.origin === 'string' ? typedFlight.origin : '',
+        segments: segments.length > 0
+          ? segments
+          : createRoundTripSegments({
+            origin: readString(typedFlight.origin),
+            destination: destinationName,
+            startDate: readString(typedFlight.startDate),
+            endDate: readString(typedFlight.endDate),
+            arrivalTime: readString(typedFlight.arrivalTime),
+            departureTime: readString(typedFlight.departureTime)
+          }),
         pricePerPerson: parsedPrice !== null && parsedPrice >= 0 ? parsedPrice : 0,
+        currency: normalizeItemCurrency(typedFlight.currency, baseCurrency),
         ...(typeof typedFlight.createdAt === 'number' && Number.isFinite(typedFlight.createdAt) ? { createdAt: typedFlight.createdAt } : {}),
         ...(typeof typedFlight.updatedAt === 'number' && Number.isFinite(typedFlight.updatedAt) ? { updatedAt: typedFlight.updatedAt } : {})
       };
@@ -412,7 +586,37 @@ const normalizeFlightList = (flights: unknown): Flight[] => {
     .filter((flight): flight is Flight => flight !== null);
 };
 
-const normalizeAccommodationList = (accommodations: unknown): Accommodation[] => {
+const normalizeRoomLayout = (roomLayout: unknown, roomAllocation: unknown): Pick<Accommodation, 'roomLayout' | 'roomAllocation'> => {
+  if (!Array.isArray(roomLayout)) {
+    return {};
+  }
+
+  const toCount = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0);
+  const rooms: AccommodationRoom[] = roomLayout
+    .filter((room): room is Record<string, unknown> => Boolean(room) && typeof room === 'object' && typeof (room as Record<string, unknown>).id === 'string')
+    .map((room) => ({
+      id: room.id as string,
+      name: typeof room.name === 'string' && room.name.trim() ? room.name : 'Room',
+      beds: toCount(room.beds),
+      sofaBeds: toCount(room.sofaBeds),
+      shared: room.shared === true
+    }));
+  if (rooms.length === 0) {
+    return {};
+  }
+
+  const roomIds = new Set(rooms.map((room) => room.id));
+  const allocation = roomAllocation && typeof roomAllocation === 'object' && !Array.isArray(roomAllocation)
+    ? Object.fromEntries(Object.entries(roomAllocation as Record<string, unknown>)
+      .filter(([roomId, names]) => roomIds.has(roomId) && Array.isArray(names))
+      .map(([roomId, names]) => [roomId, (names as unknown[]).filter((name): name is string => typeof name === 'string' && name.length > 0)])
+      .filter(([, names]) => names.length > 0))
+    : {};
+
+  return { roomLayout: rooms, ...(Object.keys(allocation).length > 0 ? { roomAllocation: allocation } : {}) };
+};
+
+const normalizeAccommodationList = (accommodations: unknown, baseCurrency: string): Accommodation[] => {
   if (!Array.isArray(accommodations)) {
     return [];
   }
@@ -436,17 +640,34 @@ const normalizeAccommodationList = (accommodations: unknown): Accommodation[] =>
         startDate: typeof typedAccommodation.startDate === 'string' ? typedAccommodation.startDate : '',
         endDate: typeof typedAccommodation.endDate === 'string' ? typedAccommodation.endDate : '',
         totalPrice: parsedPrice !== null && parsedPrice >= 0 ? parsedPrice : 0,
+        currency: normalizeItemCurrency(typedAccommodation.currency, baseCurrency),
         ...(typeof typedAccommodation.imageUrl === 'string' && typedAccommodation.imageUrl ? { imageUrl: typedAccommodation.imageUrl } : {}),
         ...(typeof typedAccommodation.createdAt === 'number' && Number.isFinite(typedAccommodation.createdAt) ? { createdAt: typedAccommodation.createdAt } : {}),
         ...(typeof typedAccommodation.updatedAt === 'number' && Number.isFinite(typedAccommodation.updatedAt) ? { updatedAt: typedAccommodation.updatedAt } : {}),
         ...(typeof typedAccommodation.rooms === 'number' && Number.isFinite(typedAccommodation.rooms) && typedAccommodation.rooms > 0 ? { rooms: typedAccommodation.rooms } : {}),
-        ...(typeof typedAccommodation.beds === 'number' && Number.isFinite(typedAccommodation.beds) && typedAccommodation.beds > 0 ? { beds: typedAccommodation.beds } : {})
+        ...(typeof typedAccommodation.beds === 'number' && Number.isFinite(typedAccommodation.beds) && typedAccommodation.beds > 0 ? { beds: typedAccommodation.beds } : {}),
+        ...normalizeRoomLayout(typedAccommodation.roomLayout, typedAccommodation.roomAllocation)
       };
     })
     .filter((accommodation): accommodation is Accommodation => accommodation !== null);
 };
 
-const normalizeDestinationCandidate = (candidate: unknown): Destination | null => {
+const hasInvalidPricedItems = (items: unknown): boolean => {
+  if (!Array.isArray(items)) {
+    return true;
+  }
+
+  return items.some((item) => !item || typeof item !== 'object' || !isCurrencyCode((item as Record<string, unknown>).currency));
+};
+
+const hasInvalidFlightList = (flights: unknown): boolean => {
+  return hasInvalidPricedItems(flights) || (flights as unknown[]).some((flight) => {
+    const segments = (flight as Record<string, unknown>).segments;
+    return !Array.isArray(segments) || segments.length === 0 || 'origin' in (flight as Record<string, unknown>);
+  });
+};
+
+const normalizeDestinationCandidate = (candidate: unknown, baseCurrency: string): Destination | null => {
   if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
     return null;
   }
@@ -464,6 +685,7 @@ const normalizeDestinationCandidate = (candidate: unknown): Destination | null =
 
   const customGroupLinks = normalizeCustomGroupLinks(parsed.customGroupLinks);
   const stayLinks = normalizeStayLinks(parsed.stayLinks);
+  const ledger = normalizeSettlementLedger(parsed.ledger);
 
   const legacyDestination: LegacyDestination = {
     id: parsed.id,
@@ -475,13 +697,14 @@ const normalizeDestinationCandidate = (candidate: unknown): Destination | null =
     budgetEstimator: parsed.budgetEstimator,
     flightDraft: parsed.flightDraft,
     accommodationDraft: parsed.accommodationDraft,
-    flights: normalizeFlightList(parsed.flights),
-    accommodations: normalizeAccommodationList(parsed.accommodations),
+    flights: parsed.flights,
+    accommodations: parsed.accommodations,
     ...(customGroupLinks ? { customGroupLinks } : {}),
-    ...(stayLinks ? { stayLinks } : {})
+    ...(stayLinks ? { stayLinks } : {}),
+    ...(ledger ? { ledger } : {})
   };
 
-  return normalizeDestination(legacyDestination);
+  return normalizeDestination(legacyDestination, baseCurrency);
 };
 
 const normalizeSearchLinks = (candidate: unknown, fallback: SearchLinkTemplate[]): SearchLinkTemplate[] => {
@@ -519,6 +742,19 @@ const normalizeSearchLinks = (candidate: unknown, fallback: SearchLinkTemplate[]
   return normalized.length > 0 ? normalized : fallback;
 };
 
+const normalizeExchangeRates = (candidate: unknown, baseCurrency: string): Record<string, number> => {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    return {};
+  }
+
+  return Object.entries(candidate as Record<string, unknown>).reduce<Record<string, number>>((acc, [code, rate]) => {
+    if (isCurrencyCode(code) && code !== baseCurrency && typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+      acc[code] = rate;
+    }
+    return acc;
+  }, {});
+};
+
 const normalizeSettings = (candidate: unknown, fallback: PlannerSettings): PlannerSettings => {
   if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
     return fallback;
@@ -533,8 +769,23 @@ const normalizeSettings = (candidate: unknown, fallback: PlannerSettings): Plann
     : fallback.peopleCount;
 
   const searchLinks = normalizeSearchLinks(parsed.searchLinks, fallback.searchLinks);
+  const baseCurrency = isCurrencyCode(parsed.baseCurrency) ? parsed.baseCurrency : fallback.baseCurrency;
+  const exchangeRates = normalizeExchangeRates(parsed.exchangeRates, baseCurrency);
+  const tripNights = typeof parsed.tripNights === 'number' && Number.isInteger(parsed.tripNights) && parsed.tripNights > 0
+    ? parsed.tripNights
+    : fallback.tripNights;
+
+  return { totalBudget, peopleCount, searchLinks, baseCurrency, exchangeRates, ...(tripNights ? { tripNights } : {}) };
+};
 
-  return { totalBudget, peopleCount, searchLinks };
+const hasInvalidSettings = (candidate: PlannerSettings): boolean => {
+  const typed = candidate as Partial<PlannerSettings>;
+  return (
+    !isCurrencyCode(typed.baseCurrency) ||
+    !typed.exchangeRates ||
+    typeof typed.exchangeRates !== 'object' ||
+    Array.isArray(typed.exchangeRates)
+  );
 };
 
 const DEFAULT_VOTES: TripVotes = { destinations: {}, flights: {}, accommodations: {} };
@@ -552,15 +803,108 @@ const normalizeVoteRecord = (candidate: unknown): Record<string, string[]> => {
   return result;
 };
 
+const isVoteMode = (value: unknown): value is VoteMode =>
+  VOTE_MODES.some((mode) => mode.id === value);
+
+// Synced lists can come back keyed by index.
+const toList = (candidate: unknown): unknown[] =>
+  Array.isArray(candidate) ? candidate : candidate && typeof candidate === 'object' ? Object.values(candidate as Record<string, unknown>) : [];
+
+// Ballots are keyed by voter slot; lists saved before that keep their indexes as slots until each voter next votes.
+const normalizeVoteBallots = (candidate: unknown): Record<string, VoteBallot> => Object.fromEntries(
+  (candidate && typeof candidate === 'object' ? Object.entries(candidate as Record<string, unknown>) : [])
+    .filter((entry): entry is [string, Record<string, unknown>] => Boolean(entry[1]) && typeof entry[1] === 'object' && typeof (entry[1] as Record<string, unknown>).voter === 'string')
+    .map(([slot, item]) => {
+      const ranking = toList(item.ranking).filter((id): id is string => typeof id === 'string');
+      const points = item.points && typeof item.points === 'object' && !Array.isArray(item.points)
+        ? Object.fromEntries(Object.entries(item.points as Record<string, unknown>).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > 0))
+        : {};
+      return [slot, {
+        voter: item.voter as string,
+        ...(ranking.length > 0 ? { ranking } : {}),
+        ...(Object.keys(points).length > 0 ? { points } : {})
+      }] as const;
+    })
+    .filter(([, ballot]) => ballot.ranking || ballot.points)
+);
+
+/** Remote writes for the ballot slots that differ, so a vote never overwrites a teammate's ballot. */
+const getBallotUpdates = (previous: TripVotes, next: TripVotes, category: VoteCategory): Record<string, VoteBallot | null> => {
+  const before = previous.ballots?.[category] ?? {};
+  const after = next.ballots?.[category] ?? {};
+  return Object.fromEntries(
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter((slot) => !isSameStoredValue(before[slot], after[slot]))
+      .map((slot) => [`votes/ballots/${category}/${slot}`, after[slot] ?? null])
+  );
+};
+
+const getChangedEntryUpdates = (prefix: string, before: Record<string, unknown>, after: Record<string, unknown>): [string, unknown][] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((key) => !isSameStoredValue(before[key], after[key]))
+    .map((key) => [`${prefix}/${key}`, after[key] ?? null]);
+
+// The remote writes for votes, ballots and blockers that changed, leaving every other vote path alone.
+const getVoteEntryUpdates = (previous: TripVotes, next: TripVotes): Record<string, unknown> =>
+  Object.fromEntries(VOTE_CATEGORIES.flatMap((category) => [
+    ...getChangedEntryUpdates(`votes/${category}`, previous[category], next[category]),
+    ...Object.entries(getBallotUpdates(previous, next, category)),
+    ...getChangedEntryUpdates(`votes/blockers/${category}`, previous.blockers?.[category] ?? {}, next.blockers?.[category] ?? {})
+  ]));
+
+const normalizeVoteBlockers = (candidate: unknown): Record<string, VoteBlocker[]> => {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) return {};
+  const result: Record<string, VoteBlocker[]> = {};
+  for (const [key, value] of Object.entries(candidate as Record<string, unknown>)) {
+    const blockers = toList(value)
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && typeof (item as Record<string, unknown>).voter === 'string')
+      .map((item) => ({ voter: item.voter as string, ...(typeof item.reason === 'string' && item.reason ? { reason: item.reason } : {}) }));
+    if (blockers.length > 0) result[key] = blockers;
+  }
+  return result;
+};
+
+const normalizeVotePoll = (candidate: unknown): VotePoll | null => {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) return null;
+  const typed = candidate as Record<string, unknown>;
+  if (typed.status !== 'open' && typed.status !== 'closed' && typed.status !== 'decided') return null;
+  return {
+    status: typed.status,
+    ...(typeof typed.deadline === 'number' && Number.isFinite(typed.deadline) ? { deadline: typed.deadline } : {}),
+    ...(typed.status === 'decided' && typeof typed.decision === 'string' && typed.decision ? { decision: typed.decision } : {})
+  };
+};
+
+const normalizeSecretBallot = (candidate: unknown): SecretBallot | null => {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) return null;
+  const typed = candidate as Record<string, unknown>;
+  return typeof typed.salt === 'string' && typed.salt ? { enabled: typed.enabled === true, salt: typed.salt } : null;
+};
+
+// Votes saved before voting modes existed are plain approval votes and need no migration.
 const normalizeVotes = (candidate: unknown): TripVotes => {
   if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
     return DEFAULT_VOTES;
   }
   const typed = candidate as Record<string, unknown>;
+  const rawModes = typed.modes && typeof typed.modes === 'object' ? typed.modes as Record<string, unknown> : {};
+  const rawBallots = typed.ballots && typeof typed.ballots === 'object' ? typed.ballots as Record<string, unknown> : {};
+  const rawBlockers = typed.blockers && typeof typed.blockers === 'object' ? typed.blockers as Record<string, unknown> : {};
+  const rawPolls = typed.polls && typeof typed.polls === 'object' ? typed.polls as Record<string, unknown> : {};
+  const modes = Object.fromEntries(VOTE_CATEGORIES.filter((category) => isVoteMode(rawModes[category])).map((category) => [category, rawModes[category]]));
+  const ballots = Object.fromEntries(VOTE_CATEGORIES.map((category) => [category, normalizeVoteBallots(rawBallots[category])]).filter(([, record]) => Object.keys(record).length > 0));
+  const blockers = Object.fromEntries(VOTE_CATEGORIES.map((category) => [category, normalizeVoteBlockers(rawBlockers[category])]).filter(([, record]) => Object.keys(record).length > 0));
+  const polls = Object.fromEntries(VOTE_CATEGORIES.map((category) => [category, normalizeVotePoll(rawPolls[category])]).filter(([, poll]) => poll !== null));
+  const secretBallot = normalizeSecretBallot(typed.secretBallot);
   return {
     destinations: normalizeVoteRecord(typed.destinations),
     flights: normalizeVoteRecord(typed.flights),
     accommodations: normalizeVoteRecord(typed.accommodations),
+    ...(Object.keys(modes).length > 0 ? { modes } : {}),
+    ...(Object.keys(ballots).length > 0 ? { ballots } : {}),
+    ...(Object.keys(blockers).length > 0 ? { blockers } : {}),
+    ...(Object.keys(polls).length > 0 ? { polls } : {}),
+    ...(secretBallot ? { secretBallot } : {})
   };
 };
 
@@ -569,29 +913,96 @@ const normalizeTripMembers = (candidate: unknown): string[] => {
   return candidate.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
 };
 
-const parseTripSyncPayload = (payload: unknown, fallbackSettings: PlannerSettings): { destinations: Destination[]; settings: PlannerSettings; tripMembers: string[]; votes: TripVotes; remoteUpdatedAt: number | null } | null => {
+const isDateString = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const normalizeAvailability = (candidate: unknown): MemberAvailability[] =>
+  toList(candidate)
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && typeof (item as Record<string, unknown>).member === 'string')
+    .map((item) => ({
+      member: item.member as string,
+      available: toList(item.available).filter(isDateString).sort(),
+      unavailable: toList(item.unavailable).filter(isDateString).sort()
+    }))
+    .filter((item) => item.available.length > 0 || item.unavailable.length > 0);
+
+// Remote activity is keyed by event id; locally it is a list, oldest first.
+const normalizeActivity = (candidate: unknown): ActivityEvent[] => {
+  const items = Array.isArray(candidate)
+    ? candidate
+    : candidate && typeof candidate === 'object' ? Object.values(candidate as Record<string, unknown>) : [];
+
+  return items
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && !Array.isArray(item))
+    .filter((item) => typeof item.id === 'string' && typeof item.message === 'string' && typeof item.at === 'number' && Number.isFinite(item.at))
+    .map((item) => ({
+      id: item.id as string,
+      at: item.at as number,
+      actor: typeof item.actor === 'string' ? item.actor : '',
+      message: item.message as string,
+      key: typeof item.key === 'string' ? item.key : (item.id as string),
+      ...(typeof item.destinationId === 'string' ? { destinationId: item.destinationId } : {}),
+      ...(typeof item.from === 'string' ? { from: item.from } : {}),
+      ...(typeof item.to === 'string' ? { to: item.to } : {})
+    }))
+    .sort((a, b) => a.at - b.at)
+    .slice(-ACTIVITY_LIMIT);
+};
+
+// Remote events beyond the newest ACTIVITY_LIMIT (and anything unreadable); the next activity write deletes them.
+const getExpiredActivityIds = (candidate: unknown, kept: ActivityEvent[]): string[] => {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) return [];
+  const keptIds = new Set(kept.map((event) => event.id));
+  return Object.keys(candidate).filter((id) => !keptIds.has(id));
+};
+
+// Sections an export does not contain (older files only had destinations) keep their current value.
+const normalizeTripBundle = (bundle: Record<string, unknown>, current: TripContent): { content: TripContent; skippedDestinations: number } => {
+  const settings = bundle.settings === undefined ? current.settings : normalizeSettings(bundle.settings, current.settings);
+  const rawDestinations = Array.isArray(bundle.destinations) ? bundle.destinations : [];
+  const destinations = rawDestinations
+    .map((destination) => normalizeDestinationCandidate(destination, settings.baseCurrency))
+    .filter((destination): destination is Destination => destination !== null);
+
+  return {
+    content: {
+      destinations,
+      settings,
+      tripMembers: bundle.tripMembers === undefined ? current.tripMembers : normalizeTripMembers(bundle.tripMembers),
+      votes: bundle.votes === undefined ? current.votes : normalizeVotes(bundle.votes),
+      availability: bundle.availability === undefined ? current.availability : normalizeAvailability(bundle.availability),
+      activity: normalizeActivity(bundle.activity)
+    },
+    skippedDestinations: rawDestinations.length - destinations.length
+  };
+};
+
+const parseTripSyncPayload = (payload: unknown, fallbackSettings: PlannerSettings): { destinations: Destination[]; settings: PlannerSettings; tripMembers: string[]; votes: TripVotes; availability: MemberAvailability[]; activity: ActivityEvent[]; remoteUpdatedAt: number | null } | null => {
   if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
     return null;
   }
 
   const typedPayload = payload as TripSyncPayload;
-  if (!Array.isArray(typedPayload.destinations)) {
+  const rawDestinations = decodeDestinations(typedPayload.destinations);
+  if (!Array.isArray(rawDestinations)) {
     return null;
   }
 
-  const destinations = typedPayload.destinations
-    .map((destination) => normalizeDestinationCandidate(destination))
+  const settings = normalizeSettings(typedPayload.settings, fallbackSettings);
+  const destinations = rawDestinations
+    .map((destination) => normalizeDestinationCandidate(destination, settings.baseCurrency))
     .filter((destination): destination is Destination => destination !== null);
 
-  if (typedPayload.destinations.length > 0 && destinations.length === 0) {
+  if (rawDestinations.length > 0 && destinations.length === 0) {
     return null;
   }
 
   return {
     destinations,
-    settings: normalizeSettings(typedPayload.settings, fallbackSettings),
+    settings,
     tripMembers: normalizeTripMembers(typedPayload.tripMembers),
     votes: normalizeVotes(typedPayload.votes),
+    availability: normalizeAvailability(typedPayload.availability),
+    activity: normalizeActivity(typedPayload.activity),
     remoteUpdatedAt: parseTimestamp(typedPayload.meta?.updatedAt)
   };
 };
@@ -604,13 +1015,23 @@ function App() {
   const [activeSection, setActiveSection] = useLocalStorage<string>('hackathon-active-section', 'overview');
   const [showAddModal, setShowAddModal] = useState(false);
   const [showSearchLinksModal, setShowSearchLinksModal] = useState(false);
+  const [showCurrencyModal, setShowCurrencyModal] = useState(false);
   const [showVoteSummary, setShowVoteSummary] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   const [showSettingsDrawer, setShowSettingsDrawer] = useState(false);
   const [currentPerson, setCurrentPerson] = useLocalStorage<string>('hackathon-current-person', '');
   const [tripMembers, setTripMembers] = useLocalStorage<string[]>('hackathon-trip-members', []);
   const [votes, setVotes] = useLocalStorage<TripVotes>('hackathon-votes', DEFAULT_VOTES);
-
-  // Keep settingsRef in sync so the onValue Firebase listener always has the latest settings
+  const [availability, setAvailability] = useLocalStorage<MemberAvailability[]>('hackathon-availability', []);
+  const [showAvailability, setShowAvailability] = useState(false);
+  const [activity, setActivity] = useLocalStorage<ActivityEvent[]>('hackathon-activity', []);
+  // Several events can be logged before React re-renders (e.g. in one microtask), so merge against a ref.
+  const activityRef = useRef(activity);
+  activityRef.current = activity;
+  const [showActivityFeed, setShowActivityFeed] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingTripImport | null>(null);
+
+  // Keep settingsRef in sync so the trip subscription always has the latest settings
   settingsRef.current = settings;
 
   // Sync state
@@ -621,11 +1042,24 @@ function App() {
   const [pendingJoinCode, setPendingJoinCode] = useState('');
   const [syncClientId] = useState(getOrCreateSyncClientId);
   const isRemoteUpdate = useRef(false);
-  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
-
-  const isTripSyncAvailable = isFirebaseConfigured && firebaseDatabase !== null;
+  // Trips created before keyed sync hold destinations as an array; the first write converts them.
+  const isRemoteLayoutKeyed = useRef(true);
+  const expiredActivityIds = useRef<string[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error' | 'offline'>('idle');
+  // Backends only buffer offline writes in memory (if at all), so ours are persisted and replayed on reconnect.
+  const [pendingMutations, setPendingMutations] = useLocalStorage<PendingMutation[]>('hackathon-sync-queue', []);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const isReplaying = useRef(false);
+  const pendingMutationsRef = useRef(pendingMutations);
+  pendingMutationsRef.current = pendingMutations;
+  const history = useUndoHistory<TripState>();
+  const undoRedoRef = useRef<{ undo: () => void; redo: () => void }>({ undo: () => {}, redo: () => {} });
+
+  const isTripSyncAvailable = syncBackend !== null;
   const normalizedSyncedCode = normalizeTripCode(syncedTripCode);
   const isSyncing = normalizedSyncedCode.length >= TRIP_CODE_MIN_LENGTH && isTripSyncAvailable;
+  setBallotScope(normalizedSyncedCode);
 
   // Auto-join from ?trip=CODE in URL
   useEffect(() => {
@@ -646,22 +1080,23 @@ function App() {
 
     // Auto-join: set the input and trigger join
     setTripCodeInput(code);
-    const database = firebaseDatabase;
-    if (!isTripSyncAvailable || !database) return;
+    const backend = syncBackend;
+    if (!isTripSyncAvailable || !backend) return;
 
     setIsJoining(true);
-    get(ref(database, `trips/${code}`)).then((snapshot) => {
-      if (snapshot.exists() && destinations.length > 0) {
+    backend.get(`trips/${code}`).then((remoteTrip) => {
+      if (remoteTrip !== null && destinations.length > 0) {
         setPendingJoinCode(code);
         setShowJoinModal(true);
-      } else if (snapshot.exists()) {
+      } else if (remoteTrip !== null) {
         setSyncedTripCode(code);
       } else {
         const payload: TripSyncPayload = {
-          destinations, settings, tripMembers, votes,
+          destinations: encodeDestinations(destinations), settings, tripMembers, votes, availability,
+          activity: Object.fromEntries(activity.map((event) => [event.id, event])),
           meta: { updatedAt: Date.now(), updatedBy: syncClientId }
         };
-        return set(ref(database, `trips/${code}`), payload).then(() => {
+        return backend.set(`trips/${code}`, payload).then(() => {
           setSyncedTripCode(code);
         });
       }
@@ -691,10 +1126,19 @@ function App() {
   }, [destinations, activeId]);
 
   useEffect(() => {
+    if (hasInvalidSettings(settings)) {
+      setSettings(normalizeSettings(settings, DEFAULT_SETTINGS));
+    }
+  }, [settings, setSettings]);
+
+  useEffect(() => {
+    const baseCurrency = isCurrencyCode(settings.baseCurrency) ? settings.baseCurrency : DEFAULT_BASE_CURRENCY;
     const hasMissingFields = destinations.some((destination) => {
       const legacyDestination = destination as LegacyDestination;
       return (
         typeof legacyDestination.notes !== 'string' ||
+        hasInvalidFlightList(legacyDestination.flights) ||
+        hasInvalidPricedItems(legacyDestination.accommodations) ||
         hasInvalidExtraCosts(legacyDestination.extraCosts) ||
         hasInvalidBudgetEstimator(legacyDestination.budgetEstimator) ||
         hasInvalidFlightDraft(legacyDestination.flightDraft) ||
@@ -703,68 +1147,48 @@ function App() {
     });
 
     if (hasMissingFields) {
-      setDestinations(destinations.map((destination) => normalizeDestination(destination as LegacyDestination)));
+      setDestinations(destinations.map((destination) => normalizeDestination(destination as LegacyDestination, baseCurrency)));
     }
-  }, [destinations, setDestinations]);
+  }, [destinations, setDestinations, settings.baseCurrency]);
 
   useEffect(() => {
-    const validDestIds = new Set(destinations.map((d) => d.id));
-    const validFlightIds = new Set(destinations.flatMap((d) => d.flights.map((f) => f.id)));
-    const validAccIds = new Set(destinations.flatMap((d) => d.accommodations.map((a) => a.id)));
-
-    const prune = (record: Record<string, string[]>, validIds: Set<string>): Record<string, string[]> | null => {
-      const pruned: Record<string, string[]> = {};
-      let changed = false;
-      for (const [key, value] of Object.entries(record)) {
-        if (validIds.has(key)) {
-          pruned[key] = value;
-        } else {
-          changed = true;
-        }
-      }
-      return changed ? pruned : null;
-    };
-
-    const prunedDest = prune(votes.destinations, validDestIds);
-    const prunedFlights = prune(votes.flights, validFlightIds);
-    const prunedAcc = prune(votes.accommodations, validAccIds);
-
-    if (prunedDest || prunedFlights || prunedAcc) {
-      const prunedVotes = {
-        destinations: prunedDest ?? votes.destinations,
-        flights: prunedFlights ?? votes.flights,
-        accommodations: prunedAcc ?? votes.accommodations,
-      };
-      setVotes(prunedVotes);
-
-      if (isSyncing && firebaseDatabase && !isRemoteUpdate.current) {
-        void set(ref(firebaseDatabase, `trips/${normalizedSyncedCode}/votes`), prunedVotes);
-      }
+    const prunedVotes = pruneRemovedOptions(votes, destinations);
+    if (prunedVotes === votes) return;
+    setVotes(prunedVotes);
+    if (!isRemoteUpdate.current) {
+      syncPathsToBackend(getVoteEntryUpdates(votes, prunedVotes));
     }
-  }, [destinations, votes, setVotes, isSyncing, normalizedSyncedCode, firebaseDatabase]);
+  }, [destinations, votes, setVotes, isSyncing, normalizedSyncedCode]);
 
   // Real-time sync: single listener on the full trip path
   useEffect(() => {
-    const database = firebaseDatabase;
-    if (!isSyncing || !database) {
+    const backend = syncBackend;
+    if (!isSyncing || !backend) {
       return;
     }
 
-    const tripRef = ref(database, `trips/${normalizedSyncedCode}`);
-    const unsub = onValue(tripRef, (snapshot) => {
-      if (!snapshot.exists()) {
+    const unsub = backend.subscribe(`trips/${normalizedSyncedCode}`, (payload) => {
+      if (payload === null) {
         return;
       }
-      const parsed = parseTripSyncPayload(snapshot.val(), settingsRef.current);
+      const parsed = parseTripSyncPayload(payload, settingsRef.current);
       if (!parsed) {
         return;
       }
 
+      isRemoteLayoutKeyed.current = isKeyedLayout((payload as TripSyncPayload).destinations);
+      expiredActivityIds.current = getExpiredActivityIds((payload as TripSyncPayload).activity, parsed.activity);
+      // Local edits not yet replayed would be clobbered; the replay pulls a fresh copy when it is done.
+      if (countPendingForTrip(pendingMutationsRef.current, normalizedSyncedCode) > 0) {
+        return;
+      }
       isRemoteUpdate.current = true;
       setDestinations(parsed.destinations);
       setSettings(parsed.settings);
       setTripMembers(parsed.tripMembers);
       setVotes(parsed.votes);
+      setAvailability(parsed.availability);
+      setActivity(parsed.activity);
       setSyncStatus('synced');
       // Reset the flag after React processes the batch
       requestAnimationFrame(() => { isRemoteUpdate.current = false; });
@@ -774,91 +1198,415 @@ function App() {
       unsub();
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isSyncing, normalizedSyncedCode, firebaseDatabase]);
+  }, [isSyncing, normalizedSyncedCode]);
+
+  useEffect(() => {
+    const backend = syncBackend;
+    if (!isSyncing || !backend) {
+      return;
+    }
+
+    // Backends report disconnected before the first handshake; only trust that once we have been online.
+    let hasConnected = false;
+    const unsub = backend.subscribeConnection((connected) => {
+      hasConnected = hasConnected || connected;
+      if (connected || hasConnected || !navigator.onLine) {
+        setIsOnline(connected);
+      }
+    });
+
+    return () => {
+      unsub();
+    };
+  }, [isSyncing]);
+
+  useEffect(() => {
+    if (!isSyncing) return;
+    setSyncStatus((status) => (!isOnline ? 'offline' : status === 'offline' ? 'synced' : status));
+  }, [isSyncing, isOnline]);
+
+  // Undo history belongs to one trip; reverting into another trip's state would overwrite it remotely.
+  useEffect(() => {
+    history.clear();
+    setSyncConflicts([]);
+    expiredActivityIds.current = [];
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [normalizedSyncedCode]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEditingTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoRedoRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        undoRedoRef.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const activeDestination = destinations.find((destination) => destination.id === activeId);
+  const now = new Date();
+  const today = toDateStr(now.getFullYear(), now.getMonth(), now.getDate());
+  const tripNights = settings.tripNights ?? DEFAULT_TRIP_NIGHTS;
+  const dateWindows = useMemo(() => findBestWindows(availability, tripMembers, tripNights, today), [availability, tripMembers, tripNights, today]);
+  const bestWindows = useMemo(() => getTopWindows(dateWindows), [dateWindows]);
+
+  // Re-render when the next voting deadline passes so the vote buttons lock without a reload.
+  const [, setDeadlineTick] = useState(0);
+  useEffect(() => {
+    const upcoming = Object.values(votes.polls ?? {})
+      .map((poll) => poll?.deadline)
+      .filter((deadline): deadline is number => deadline !== undefined && deadline > Date.now());
+    if (upcoming.length === 0) return;
+    const timer = window.setTimeout(() => setDeadlineTick((tick) => tick + 1), Math.min(Math.min(...upcoming) - Date.now() + 100, 2 ** 31 - 1));
+    return () => window.clearTimeout(timer);
+  }, [votes.polls]);
+  const pendingCount = countPendingForTrip(pendingMutations, normalizedSyncedCode);
+
+  // Sync backend write helpers — only write when syncing
+  const enqueueChanges = (changes: SyncChange[]) => {
+    const queuedAt = Date.now();
+    setPendingMutations((prev) => changes.reduce(
+      (queue, change) => enqueueMutation(queue, { ...change, tripCode: normalizedSyncedCode, queuedAt }),
+      prev
+    ));
+  };
 
-  // Firebase write helpers — only write when syncing
-  const syncToFirebase = (subPath: string, data: unknown) => {
-    if (!isSyncing || !firebaseDatabase) return;
+  const syncPathsToBackend = (data: Record<string, unknown>) => {
+    if (!isSyncing || !syncBackend) return;
+    if (!isOnline) {
+      enqueueChanges(Object.entries(data).map(([path, value]) => ({ path, value, base: null, guarded: false, label: path })));
+      return;
+    }
     setSyncStatus('syncing');
     // Atomic multi-path update: data + meta in a single write
     const updates: Record<string, unknown> = {
-      [`trips/${normalizedSyncedCode}/${subPath}`]: data,
       [`trips/${normalizedSyncedCode}/meta`]: { updatedAt: Date.now(), updatedBy: syncClientId }
     };
-    update(ref(firebaseDatabase), updates)
+    for (const [subPath, value] of Object.entries(data)) {
+      updates[`trips/${normalizedSyncedCode}/${subPath}`] = value;
+    }
+    syncBackend.update(updates)
       .then(() => setSyncStatus('synced'))
       .catch(() => setSyncStatus('error'));
   };
 
-  const handleForceRefresh = () => {
-    if (!isSyncing || !firebaseDatabase) return;
+  const syncToBackend = (subPath: string, data: unknown) => {
+    syncPathsToBackend({ [subPath]: data });
+  };
+
+  // Events are written one path each. The same write deletes the events that fell out of the newest
+  // ACTIVITY_LIMIT, here or in the last remote copy, so the synced feed stays bounded.
+  const logActivity = (drafts: ActivityDraft[]) => {
+    if (drafts.length === 0) return;
+    const at = Date.now();
+    const events: ActivityEvent[] = [];
+    let nextActivity = activityRef.current;
+    for (const draft of drafts) {
+      const latest = [...nextActivity].reverse().find((event) => event.key === draft.key && event.actor === currentPerson);
+      const { destinationId, from, to, ...merged } = mergeActivity(latest, { ...draft, id: uuidv4(), at, actor: currentPerson });
+      // Backends reject undefined values.
+      const event: ActivityEvent = {
+        ...merged,
+        ...(destinationId !== undefined ? { destinationId } : {}),
+        ...(from !== undefined ? { from } : {}),
+        ...(to !== undefined ? { to } : {})
+      };
+      nextActivity = [...nextActivity.filter((item) => item.id !== event.id), event].slice(-ACTIVITY_LIMIT);
+      events.push(event);
+    }
+    const keptIds = new Set(nextActivity.map((event) => event.id));
+    const expired = [...expiredActivityIds.current, ...activityRef.current.filter((event) => !keptIds.has(event.id)).map((event) => event.id)];
+    expiredActivityIds.current = [];
+    activityRef.current = nextActivity;
+    setActivity(nextActivity);
+    syncPathsToBackend({
+      ...Object.fromEntries(expired.map((id) => [`activity/${id}`, null])),
+      ...Object.fromEntries(events.map((event) => [`activity/${event.id}`, event]))
+    });
+  };
+
+  // Structural changes go out in one multi-path update. Field edits are compare-and-set against the
+  // value they were based on: if a collaborator changed that field first, the write is dropped and
+  // both versions are kept as a conflict for the user to resolve.
+  const syncDestinationChanges = (previous: Destination[], next: Destination[]) => {
+    if (!isSyncing || !syncBackend) return;
+    if (!isRemoteLayoutKeyed.current) {
+      syncToBackend('destinations', encodeDestinations(next));
+      isRemoteLayoutKeyed.current = true;
+      return;
+    }
+
+    const changes = diffDestinations(previous, next);
+    if (changes.length === 0) return;
+    syncChanges(changes);
+  };
+
+  const syncChanges = (changes: SyncChange[]) => {
+    if (!isSyncing || !syncBackend) return;
+    const structural = changes.filter((change) => !change.guarded);
+    syncPathsToBackend(Object.fromEntries(structural.map((change) => [change.path, change.value])));
+
+    const guarded = changes.filter((change) => change.guarded);
+    if (!isOnline) {
+      enqueueChanges(guarded);
+      return;
+    }
+    guarded.forEach((change) => {
+      commitGuardedChange(change).catch(() => setSyncStatus('error'));
+    });
+  };
+
+  const commitGuardedChange = async (change: SyncChange) => {
+    if (!syncBackend) return;
+    const result = await syncBackend.transaction(`trips/${normalizedSyncedCode}/${change.path}`, (current) => (
+      isSameStoredValue(current, change.base) || isSameStoredValue(current, change.value) ? toStoredShape(change.value) : undefined
+    ));
+    if (result.committed) return;
+    setSyncConflicts((prev) => [
+      ...prev.filter((conflict) => conflict.path !== change.path),
+      { id: `${change.path}:${Date.now()}`, path: change.path, label: change.label, mine: change.value, theirs: result.value }
+    ]);
+  };
+
+  // Replays queued writes in order against whatever the remote holds now: plain writes are applied,
+  // field edits go through compare-and-set and surface as conflicts if a teammate got there first.
+  const replayPendingMutations = async () => {
+    const backend = syncBackend;
+    const queued = pendingMutationsRef.current.filter((item) => item.tripCode === normalizedSyncedCode);
+    if (!backend || isReplaying.current || queued.length === 0) return;
+
+    isReplaying.current = true;
     setSyncStatus('syncing');
-    get(ref(firebaseDatabase, `trips/${normalizedSyncedCode}`)).then((snapshot) => {
-      if (!snapshot.exists()) { setSyncStatus('synced'); return; }
-      const parsed = parseTripSyncPayload(snapshot.val(), settingsRef.current);
+    try {
+      for (const mutation of queued) {
+        if (mutation.guarded) {
+          await commitGuardedChange(mutation);
+        } else {
+          await backend.update({
+            [`trips/${normalizedSyncedCode}/${mutation.path}`]: mutation.value,
+            [`trips/${normalizedSyncedCode}/meta`]: { updatedAt: Date.now(), updatedBy: syncClientId }
+          });
+        }
+        setPendingMutations((prev) => prev.filter((item) => item !== mutation));
+      }
+      pendingMutationsRef.current = pendingMutationsRef.current.filter((item) => !queued.includes(item));
+      pullRemoteTrip();
+    } catch {
+      setSyncStatus('error');
+    } finally {
+      isReplaying.current = false;
+    }
+  };
+
+  const handleKeepMine = (conflict: SyncConflict) => {
+    syncToBackend(conflict.path, conflict.mine);
+    setSyncConflicts((prev) => prev.filter((item) => item.id !== conflict.id));
+  };
+
+  // The remote value is already applied locally, so keeping theirs only dismisses the conflict.
+  const handleKeepTheirs = (conflict: SyncConflict) => {
+    setSyncConflicts((prev) => prev.filter((item) => item.id !== conflict.id));
+  };
+
+  // Undo and redo apply only what the step itself changed, on top of the current state. A field a
+  // teammate has changed since is left as they set it locally, and its compare-and-set write comes
+  // back as a conflict instead of silently reverting their edit.
+  const applyHistoryStep = (from: Partial<TripState>, to: Partial<TripState>) => {
+    const changes = diffTripSlices(from, to);
+    if (changes.length === 0) return;
+    const next = applySyncChanges({ destinations, settings, tripMembers, votes, availability }, changes);
+    const touched = new Set(changes.map((change) => change.path.split('/')[0]));
+    if (touched.has('destinations')) setDestinations(next.destinations);
+    if (touched.has('settings')) setSettings(next.settings);
+    if (touched.has('tripMembers')) setTripMembers(next.tripMembers);
+    if (touched.has('votes')) setVotes(next.votes);
+    if (touched.has('availability')) setAvailability(next.availability);
+
+    if (touched.has('destinations') && !isRemoteLayoutKeyed.current) {
+      syncDestinationChanges(destinations, next.destinations);
+      syncChanges(changes.filter((change) => !change.path.startsWith('destinations/')));
+    } else {
+      syncChanges(changes);
+    }
+  };
+
+  const handleUndo = () => {
+    const entry = history.undo();
+    if (!entry) return;
+    applyHistoryStep(entry.after, entry.before);
+    logActivity([{ key: `undo:${Date.now()}`, message: `undid "${entry.label}"` }]);
+  };
+
+  const handleRedo = () => {
+    const entry = history.redo();
+    if (!entry) return;
+    applyHistoryStep(entry.before, entry.after);
+    logActivity([{ key: `redo:${Date.now()}`, message: `redid "${entry.label}"` }]);
+  };
+
+  undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+
+  const pullRemoteTrip = () => {
+    if (!isSyncing || !syncBackend) return;
+    setSyncStatus('syncing');
+    syncBackend.get(`trips/${normalizedSyncedCode}`).then((payload) => {
+      if (payload === null) { setSyncStatus('synced'); return; }
+      const parsed = parseTripSyncPayload(payload, settingsRef.current);
       if (!parsed) { setSyncStatus('error'); return; }
+      isRemoteLayoutKeyed.current = isKeyedLayout((payload as TripSyncPayload).destinations);
+      expiredActivityIds.current = getExpiredActivityIds((payload as TripSyncPayload).activity, parsed.activity);
       isRemoteUpdate.current = true;
       setDestinations(parsed.destinations);
       setSettings(parsed.settings);
       setTripMembers(parsed.tripMembers);
       setVotes(parsed.votes);
+      setAvailability(parsed.availability);
+      setActivity(parsed.activity);
       requestAnimationFrame(() => { isRemoteUpdate.current = false; });
       setSyncStatus('synced');
     }).catch(() => setSyncStatus('error'));
   };
 
+  const handleForceRefresh = () => {
+    if (pendingCount > 0) {
+      void replayPendingMutations();
+    } else {
+      pullRemoteTrip();
+    }
+  };
+
+  useEffect(() => {
+    if (isSyncing && isOnline && pendingCount > 0) {
+      void replayPendingMutations();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSyncing, isOnline, pendingCount]);
+
   const handleUpdateDestination = (destinationId: string, updater: (currentDestination: Destination) => Destination) => {
+    const destinationName = destinations.find((d) => d.id === destinationId)?.name ?? 'destination';
     // Functional updater ensures sequential calls in the same event (e.g. onChange + onDraftChange)
     // each build on the previous result rather than on a shared stale snapshot.
+    let oldDests: Destination[] = [];
     let newDests: Destination[] = [];
     setDestinations((prevDests) => {
+      oldDests = prevDests;
       newDests = prevDests.map((d) => d.id === destinationId ? updater(d) : d);
       return newDests;
     });
     queueMicrotask(() => {
-      if (!isRemoteUpdate.current) syncToFirebase('destinations', newDests);
+      if (isRemoteUpdate.current) return;
+      history.record(`Edit ${destinationName}`, { destinations: oldDests }, { destinations: newDests }, `destination:${destinationId}`);
+      syncDestinationChanges(oldDests, newDests);
+      logActivity(describeDestinationChanges(oldDests, newDests));
     });
   };
 
   const handleAddDestination = (newDest: Destination) => {
-    const destination = normalizeDestination(newDest);
+    const destination = normalizeDestination(newDest, settings.baseCurrency);
+    let oldDests: Destination[] = [];
     let newDests: Destination[] = [];
     setDestinations((prevDests) => {
+      oldDests = prevDests;
       newDests = [...prevDests, destination];
       return newDests;
     });
     setActiveId(newDest.id);
-    queueMicrotask(() => syncToFirebase('destinations', newDests));
+    queueMicrotask(() => {
+      history.record(`Add ${destination.name}`, { destinations: oldDests }, { destinations: newDests });
+      syncDestinationChanges(oldDests, newDests);
+      logActivity(describeDestinationChanges(oldDests, newDests));
+    });
   };
 
   const handleRemoveDestination = (id: string) => {
+    const removedName = destinations.find((d) => d.id === id)?.name ?? 'destination';
+    let oldDests: Destination[] = [];
     let newDests: Destination[] = [];
     setDestinations((prevDests) => {
+      oldDests = prevDests;
       newDests = prevDests.filter((d) => d.id !== id);
       return newDests;
     });
     queueMicrotask(() => {
-      syncToFirebase('destinations', newDests);
+      history.record(`Remove ${removedName}`, { destinations: oldDests }, { destinations: newDests });
+      syncDestinationChanges(oldDests, newDests);
+      logActivity(describeDestinationChanges(oldDests, newDests));
       if (activeId === id) {
         setActiveId(newDests.length > 0 ? newDests[0].id : null);
       }
     });
   };
 
-  const handleImport = (data: Destination[]) => {
-    const normalizedData = data.map((d) => normalizeDestination(d as LegacyDestination));
-    setDestinations(normalizedData);
-    if (normalizedData.length > 0) {
-      setActiveId(normalizedData[0].id);
+  const currentTrip: TripContent = { destinations, settings, tripMembers, votes, availability, activity };
+
+  // Parsing and migration happen up front so the preview shows exactly what applying would do.
+  const handleImportFile = (data: unknown, fileName: string): string | null => {
+    try {
+      const { bundle, fromVersion } = migrateTripBundle(data);
+      const { content, skippedDestinations } = normalizeTripBundle(bundle, currentTrip);
+      if (content.destinations.length === 0 && skippedDestinations > 0) {
+        return 'Invalid file format. Each destination must have id, name, and valid coordinates.';
+      }
+      setPendingImport({
+        fileName,
+        fromVersion,
+        exportedAt: typeof bundle.exportedAt === 'string' ? bundle.exportedAt : null,
+        skippedDestinations,
+        content
+      });
+      setShowSettingsDrawer(false);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Failed to read the trip file.';
+    }
+  };
+
+  const handleApplyImport = (next: TripContent, mode: ImportMode) => {
+    history.record(
+      'Import trip',
+      { destinations, settings, tripMembers, votes, availability },
+      { destinations: next.destinations, settings: next.settings, tripMembers: next.tripMembers, votes: next.votes, availability: next.availability }
+    );
+    setDestinations(next.destinations);
+    setSettings(next.settings);
+    setTripMembers(next.tripMembers);
+    setVotes(next.votes);
+    setAvailability(next.availability);
+    activityRef.current = next.activity;
+    setActivity(next.activity);
+    if (next.destinations.length > 0 && !next.destinations.some((destination) => destination.id === activeId)) {
+      setActiveId(next.destinations[0].id);
     }
-    syncToFirebase('destinations', normalizedData);
+    syncPathsToBackend({
+      destinations: encodeDestinations(next.destinations),
+      settings: next.settings,
+      tripMembers: next.tripMembers,
+      votes: next.votes,
+      availability: next.availability,
+      activity: Object.fromEntries(next.activity.map((event) => [event.id, event]))
+    });
+    logActivity([{ key: `import:${Date.now()}`, message: `${mode === 'merge' ? 'merged in' : 'replaced the trip with'} ${pendingImport?.fileName ?? 'an export'}` }]);
+    setPendingImport(null);
   };
 
   const updateSettings = (next: PlannerSettings) => {
+    history.record('Change settings', { settings }, { settings: next });
     setSettings(next);
-    syncToFirebase('settings', next);
+    syncToBackend('settings', next);
+    if (next.totalBudget !== settings.totalBudget) {
+      logActivity([{ key: 'settings:totalBudget', message: 'changed the total budget', from: String(settings.totalBudget), to: String(next.totalBudget) }]);
+    } else if (next.peopleCount !== settings.peopleCount) {
+      logActivity([{ key: 'settings:peopleCount', message: 'changed the group size', from: String(settings.peopleCount), to: String(next.peopleCount) }]);
+    } else {
+      logActivity([{ key: 'settings', message: 'changed the trip settings' }]);
+    }
   };
 
   const handleTotalBudgetChange = (value: string) => {
@@ -877,6 +1625,18 @@ function App() {
     });
   };
 
+  const handleBaseCurrencyChange = (baseCurrency: string) => {
+    if (!isCurrencyCode(baseCurrency) || baseCurrency === settings.baseCurrency) return;
+    // Without a rate for the new base the old rates could not be converted, so the base stays put.
+    const exchangeRates = rebaseExchangeRates(settings.exchangeRates, settings.baseCurrency, baseCurrency);
+    if (!exchangeRates) return;
+    updateSettings({ ...settings, baseCurrency, exchangeRates });
+  };
+
+  const handleExchangeRatesChange = (exchangeRates: Record<string, number>) => {
+    updateSettings({ ...settings, exchangeRates });
+  };
+
   const handleSearchLinkUpdate = (id: string, updates: Partial<SearchLinkTemplate>) => {
     updateSettings({
       ...settings,
@@ -916,54 +1676,116 @@ function App() {
     const trimmed = name.trim();
     if (!trimmed) return;
     const updated = tripMembers.includes(trimmed) ? tripMembers : [...tripMembers, trimmed];
+    history.record(`Add ${trimmed}`, { tripMembers }, { tripMembers: updated });
     setTripMembers(updated);
-    syncToFirebase('tripMembers', updated);
+    syncToBackend('tripMembers', updated);
+    if (updated !== tripMembers) logActivity([{ key: `member:${trimmed}`, message: `added ${trimmed} to the trip` }]);
   };
 
-  const handleToggleVote = (category: keyof TripVotes, entityId: string) => {
+  const handleAvailabilityChange = (date: string, status: DayStatus | null) => {
     if (!currentPerson) return;
-    const current = votes[category][entityId] || [];
-    const hasVoted = current.includes(currentPerson);
-    const next = hasVoted
-      ? current.filter((name) => name !== currentPerson)
-      : [...current, currentPerson];
-
-    setVotes((prev) => ({
-      ...prev,
-      [category]: {
-        ...prev[category],
-        [entityId]: next
-      }
-    }));
+    const next = setDayStatus(availability, currentPerson, date, status);
+    history.record('Mark availability', { availability }, { availability: next }, 'availability');
+    setAvailability(next);
+    syncToBackend('availability', next);
+    logActivity([{ key: 'availability', message: 'updated their availability' }]);
+  };
+
+  const handleTripNightsChange = (tripNights: number) => {
+    updateSettings({ ...settings, tripNights });
+  };
+
+  const handleToggleVote = (category: VoteCategory, entityId: string) => {
+    if (!currentPerson || !isVotingOpen(votes, category)) return;
+    const { votes: next, isAdding } = toggleVote(votes, category, entityId, currentPerson);
+    if (next === votes) return;
+    history.record(isAdding ? 'Vote' : 'Remove vote', { votes }, { votes: next }, `vote:${category}:${entityId}`);
+    setVotes(next);
+
+    if (next.modes?.[category] && next.modes[category] !== 'approval') {
+      syncPathsToBackend(getBallotUpdates(votes, next, category));
+    } else {
+      syncToBackend(`votes/${category}/${entityId}`, next[category][entityId]);
+    }
+    // A secret vote must not show up in the feed under the voter's name.
+    if (!isSecretBallot(votes)) logActivity([describeVote(destinations, category, entityId, isAdding)]);
+  };
+
+  const handleSetBlocker = (category: VoteCategory, key: string, reason: string | null) => {
+    if (!currentPerson || !isVotingOpen(votes, category)) return;
+    const next = setBlocker(votes, category, key, currentPerson, reason);
+    history.record(reason === null ? 'Lift block' : 'Block option', { votes }, { votes: next }, `blocker:${category}:${key}`);
+    setVotes(next);
+    const blockers = getBlockers(next, category, key);
+    syncToBackend(`votes/blockers/${category}/${key}`, blockers.length > 0 ? blockers : null);
+    if (!isSecretBallot(votes)) logActivity([describeBlocker(destinations, category, key, reason)]);
+  };
+
+  const handleVoteModeChange = (category: VoteCategory, mode: VoteMode) => {
+    if (!isVotingOpen(votes, category)) return;
+    const next = setVoteMode(votes, category, mode);
+    history.record('Change voting mode', { votes }, { votes: next });
+    setVotes(next);
+    syncPathsToBackend({
+      [`votes/modes/${category}`]: mode,
+      ...getBallotUpdates(votes, next, category)
+    });
+    logActivity([describeVoteModeChange(category, mode)]);
+  };
 
-    if (isSyncing && firebaseDatabase) {
-      set(ref(firebaseDatabase, `trips/${normalizedSyncedCode}/votes/${category}/${entityId}`), next)
-        .catch((err) => console.error('Vote sync failed:', err));
+  const handleBallotChange = (category: VoteCategory, ballot: VoteBallot) => {
+    if (!currentPerson || !isSameVoter(votes, ballot.voter, currentPerson) || !isVotingOpen(votes, category)) return;
+    const next = setBallot(votes, category, ballot);
+    history.record('Update ballot', { votes }, { votes: next }, `ballot:${category}`);
+    setVotes(next);
+    syncPathsToBackend(getBallotUpdates(votes, next, category));
+    if (!isSecretBallot(votes)) {
+      logActivity([{ key: `ballot:${category}`, message: `updated their ${category === 'accommodations' ? 'stay' : category.slice(0, -1)} ballot` }]);
     }
   };
 
+  const handlePollChange = (category: VoteCategory, poll: VotePoll) => {
+    const previous = getPoll(votes, category);
+    const next = setPoll(votes, category, poll);
+    history.record(poll.status === 'decided' ? 'Decide vote' : poll.status === previous.status ? 'Change voting deadline' : poll.status === 'open' ? 'Reopen voting' : 'Close voting', { votes }, { votes: next });
+    setVotes(next);
+    syncToBackend(`votes/polls/${category}`, next.polls?.[category] ?? null);
+    logActivity([describePollChange(destinations, category, previous, poll)]);
+  };
+
+  // Voter hashes are keyed by the trip code, so secret ballots need a shared trip.
+  const handleSecretBallotChange = (enabled: boolean) => {
+    if (enabled === isSecretBallot(votes) || (enabled && !isSyncing)) return;
+    const next = setSecretBallot(votes, enabled, tripMembers);
+    history.record(enabled ? 'Turn on secret ballots' : 'Turn off secret ballots', { votes }, { votes: next });
+    setVotes(next);
+    syncPathsToBackend({ ...getVoteEntryUpdates(votes, next), 'votes/secretBallot': next.secretBallot });
+    logActivity([describeSecretBallotChange(enabled)]);
+  };
+
   // Join / leave trip
   const handleJoinTrip = async () => {
     const code = normalizeTripCode(tripCodeInput);
-    if (code.length < TRIP_CODE_MIN_LENGTH || !isTripSyncAvailable || !firebaseDatabase) return;
+    if (code.length < TRIP_CODE_MIN_LENGTH || !isTripSyncAvailable || !syncBackend) return;
 
     setIsJoining(true);
     try {
-      const snapshot = await get(ref(firebaseDatabase, `trips/${code}`));
-      if (snapshot.exists() && destinations.length > 0) {
+      const remoteTrip = await syncBackend.get(`trips/${code}`);
+      if (remoteTrip !== null && destinations.length > 0) {
         // Remote exists and user has local data — warn before overriding
         setPendingJoinCode(code);
         setShowJoinModal(true);
-      } else if (snapshot.exists()) {
+      } else if (remoteTrip !== null) {
         // Remote exists, no local data — join directly
         setSyncedTripCode(code);
       } else {
         // No remote — create trip from local data
         const payload: TripSyncPayload = {
-          destinations, settings, tripMembers, votes,
+          destinations: encodeDestinations(destinations), settings, tripMembers, votes, availability,
+          activity: Object.fromEntries(activity.map((event) => [event.id, event])),
           meta: { updatedAt: Date.now(), updatedBy: syncClientId }
         };
-        await set(ref(firebaseDatabase, `trips/${code}`), payload);
+        await syncBackend.set(`trips/${code}`, payload);
         setSyncedTripCode(code);
       }
     } catch (error) {
@@ -985,6 +1807,10 @@ function App() {
   };
 
   const handleLeaveTrip = () => {
+    // Hashes only match while the trip code is known, so the copy kept here goes back to names.
+    if (isSecretBallot(votes)) {
+      setVotes(setSecretBallot(votes, false, tripMembers));
+    }
     setSyncedTripCode('');
     setTripCodeInput('');
     setSyncStatus('idle');
@@ -1029,15 +1855,46 @@ function App() {
                 )}
                 {isSyncing && (
                   <span
-                    title={syncStatus === 'synced' ? 'All changes synced' : syncStatus === 'syncing' ? 'Syncing...' : syncStatus === 'error' ? 'Sync error' : ''}
+                    title={syncStatus === 'synced' ? 'All changes synced' : syncStatus === 'syncing' ? 'Syncing...' : syncStatus === 'error' ? 'Sync error' : syncStatus === 'offline' ? `Offline, ${pendingCount} pending` : ''}
                     style={{
                       display: 'inline-block', width: 10, height: 10, borderRadius: '50%', flexShrink: 0,
                       backgroundColor: syncStatus === 'synced' ? 'var(--bs-success)' : syncStatus === 'syncing' ? 'var(--bs-warning)' : syncStatus === 'error' ? 'var(--bs-danger)' : 'var(--bs-secondary)',
-                      boxShadow: syncStatus === 'syncing' ? '0 0 0 2px var(--bs-warning-bg-subtle)' : syncStatus === 'synced' ? '0 0 0 2px var(--bs-success-bg-subtle)' : 'none',
+                      boxShadow: syncStatus === 'syncing' ? '0 0 0 2px var(--bs-warning-bg-subtle)' : syncStatus === 'synced' ? '0 0 0 2px var(--bs-success-bg-subtle)' : syncStatus === 'offline' ? '0 0 0 2px var(--bs-secondary-bg-subtle)' : 'none',
                     }}
                     aria-label={`Sync status: ${syncStatus}`}
                   />
                 )}
+                {isSyncing && (syncStatus === 'offline' || pendingCount > 0) && (
+                  <span className="small subtle-text text-nowrap" role="status">
+                    {syncStatus === 'offline' ? 'Offline' : 'Replaying'}, {pendingCount} pending
+                  </span>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline-secondary"
+                  onClick={handleUndo}
+                  disabled={!history.canUndo}
+                  title={history.canUndo ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                  aria-label="Undo"
+                >
+                  <FaUndo />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline-secondary"
+                  onClick={handleRedo}
+                  disabled={!history.canRedo}
+                  title={history.canRedo ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  aria-label="Redo"
+                >
+                  <FaRedo />
+                </Button>
+                <Button size="sm" variant="outline-secondary" onClick={() => setShowComparison(true)} disabled={destinations.length === 0} title="Compare destinations" aria-label="Compare destinations">
+                  <FaColumns />
+                </Button>
+                <Button size="sm" variant="outline-secondary" onClick={() => setShowActivityFeed(true)} title="Activity" aria-label="Open activity feed">
+                  <FaHistory />
+                </Button>
                 <Button size="sm" variant="outline-secondary" onClick={() => setShowSettingsDrawer(true)} title="Settings" aria-label="Open settings">
                   <FaCog />
                 </Button>
@@ -1047,6 +1904,22 @@ function App() {
         </Container>
       </Navbar>
 
+      <TripImportModal
+        pending={pendingImport}
+        current={currentTrip}
+        onApply={handleApplyImport}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <ActivityFeed
+        show={showActivityFeed}
+        onHide={() => setShowActivityFeed(false)}
+        events={activity}
+        destinations={destinations}
+        tripMembers={tripMembers}
+        currentPerson={currentPerson}
+      />
+
       <Offcanvas show={showSettingsDrawer} onHide={() => setShowSettingsDrawer(false)} placement="end">
         <Offcanvas.Header closeButton>
           <Offcanvas.Title>Settings</Offcanvas.Title>
@@ -1056,8 +1929,16 @@ function App() {
           <InputGroup size="sm" className="mb-3">
             <InputGroup.Text><FaWallet /></InputGroup.Text>
             <Form.Control type="number" step="10" min="0" placeholder="Total budget" aria-label="Total budget" value={settings.totalBudget} onChange={(e) => handleTotalBudgetChange(e.target.value)} />
+            <InputGroup.Text>{settings.baseCurrency}</InputGroup.Text>
           </InputGroup>
 
+          <h6 className="text-uppercase text-muted small fw-bold mb-2">Currency</h6>
+          <div className="d-flex gap-2 mb-3">
+            <Button size="sm" variant="outline-secondary" onClick={() => setShowCurrencyModal(true)} title="Base currency and exchange rates">
+              <FaExchangeAlt className="me-1" /> {settings.baseCurrency} · {Object.keys(settings.exchangeRates || {}).length} rate{Object.keys(settings.exchangeRates || {}).length === 1 ? '' : 's'}
+            </Button>
+          </div>
+
           <h6 className="text-uppercase text-muted small fw-bold mb-2">People</h6>
           <InputGroup size="sm" className="mb-3">
             <InputGroup.Text><FaUsers /></InputGroup.Text>
@@ -1070,8 +1951,9 @@ function App() {
           </div>
 
           <h6 className="text-uppercase text-muted small fw-bold mb-2">Votes &amp; Links</h6>
-          <div className="d-flex gap-2 mb-4">
+          <div className="d-flex flex-wrap gap-2 mb-4">
             <Button size="sm" variant="outline-secondary" onClick={() => setShowVoteSummary(true)} title="Vote results"><FaPoll className="me-1" /> Votes</Button>
+            <Button size="sm" variant="outline-secondary" onClick={() => setShowAvailability(true)} title="Member availability"><FaCalendarCheck className="me-1" /> Dates</Button>
             <Button size="sm" variant="outline-secondary" onClick={() => setShowSearchLinksModal(true)} title="Search link settings"><FaCog className="me-1" /> Search Links</Button>
           </div>
 
@@ -1099,14 +1981,14 @@ function App() {
               </div>
             )}
             {!isTripSyncAvailable && (
-              <div className="inline-status warning mt-1" role="status" aria-live="polite">Firebase config missing — sync disabled.</div>
+              <div className="inline-status warning mt-1" role="status" aria-live="polite">No sync backend configured (Firebase or sync server) — sync disabled.</div>
             )}
           </section>
 
           <hr />
 
           <h6 className="text-uppercase text-muted small fw-bold mb-2">Data</h6>
-          <DataPersistence destinations={destinations} onImport={handleImport} />
+          <DataPersistence trip={currentTrip} onImport={handleImportFile} />
         </Offcanvas.Body>
       </Offcanvas>
 
@@ -1117,13 +1999,19 @@ function App() {
           onSelect={(id) => { setActiveId(id); setActiveSection('overview'); }}
           onAddClick={() => setShowAddModal(true)}
           onRemove={handleRemoveDestination}
-          votes={votes.destinations}
+          votes={getRevealedSupporterMap(votes, 'destinations', currentPerson, tripMembers)}
+          blockers={getRevealedBlockerMap(votes, 'destinations', currentPerson, tripMembers)}
+          votingClosed={!isVotingOpen(votes, 'destinations')}
+          votersHidden={areVotersHidden(votes, 'destinations')}
+          decidedId={getDecision(votes, 'destinations')}
           currentPerson={currentPerson}
           onToggleVote={(destId) => handleToggleVote('destinations', destId)}
+          onSetBlocker={(destId, reason) => handleSetBlocker('destinations', destId, reason)}
         />
 
         <div className="workspace-pane flex-grow-1 d-flex flex-column overflow-hidden">
           <PersistentBudgetStatus destination={activeDestination} settings={settings} activeSection={activeSection} />
+          <SyncConflictBanner conflicts={syncConflicts} onKeepMine={handleKeepMine} onKeepTheirs={handleKeepTheirs} />
 
           <main className="app-content flex-grow-1 overflow-auto position-relative" aria-live="polite">
             {activeDestination ? (
@@ -1133,7 +2021,10 @@ function App() {
                 settings={settings}
                 votes={votes}
                 currentPerson={currentPerson}
+                tripMembers={tripMembers}
                 onToggleVote={handleToggleVote}
+                onSetBlocker={handleSetBlocker}
+                bestWindows={bestWindows}
                 onSectionChange={setActiveSection}
               />
             ) : (
@@ -1233,12 +2124,50 @@ function App() {
         </Modal.Body>
       </Modal>
 
+      <CurrencySettingsModal
+        show={showCurrencyModal}
+        onHide={() => setShowCurrencyModal(false)}
+        baseCurrency={settings.baseCurrency}
+        exchangeRates={settings.exchangeRates || {}}
+        onBaseCurrencyChange={handleBaseCurrencyChange}
+        onExchangeRatesChange={handleExchangeRatesChange}
+      />
+
       <VoteSummary
         show={showVoteSummary}
         onHide={() => setShowVoteSummary(false)}
         destinations={destinations}
         votes={votes}
         tripMembers={tripMembers}
+        currentPerson={currentPerson}
+        onModeChange={handleVoteModeChange}
+        onBallotChange={handleBallotChange}
+        onPollChange={handlePollChange}
+        onSecretBallotChange={handleSecretBallotChange}
+        isSharedTrip={isSyncing}
+      />
+
+      <AvailabilityCalendar
+        show={showAvailability}
+        onHide={() => setShowAvailability(false)}
+        availability={availability}
+        tripMembers={tripMembers}
+        currentPerson={currentPerson}
+        nights={tripNights}
+        onNightsChange={handleTripNightsChange}
+        windows={dateWindows}
+        today={today}
+        onDayChange={handleAvailabilityChange}
+      />
+
+      <DestinationComparison
+        show={showComparison}
+        onHide={() => setShowComparison(false)}
+        destinations={destinations}
+        settings={settings}
+        tripMembers={tripMembers}
+        votes={votes}
+        onSelect={(id) => { setActiveId(id); setActiveSection('overview'); }}
       />
 
       <Modal show={showJoinModal} onHide={handleCancelJoin} centered>
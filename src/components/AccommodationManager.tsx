@@ -1,7 +1,7 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { Table, Button, Form, Card, Modal, InputGroup, Row, Col, Badge } from 'react-bootstrap';
 import { v4 as uuidv4 } from 'uuid';
-import { Accommodation, Flight, SearchLinkTemplate } from '../types';
+import { Accommodation, Flight, SearchLinkTemplate, VoteBlocker } from '../types';
 import {
   FaTrash,
   FaEdit,
@@ -25,7 +25,16 @@ import { getUrlAutofill } from '../utils/urlAutofill';
 import DateRangePicker from './DateRangePicker';
 import { formatCurrency } from '../utils/budget';
 import { getAccommodationSearchLinks } from '../utils/bookingLinks';
-import VoteButton from './VoteButton';
+import VoteButton, { DecidedFlag } from './VoteButton';
+import BlockerButton, { BlockedFlag } from './BlockerButton';
+import { BestDatesFlag } from './AvailabilityCalendar';
+import CurrencySelect from './CurrencySelect';
+import { CurrencySettings, convertToBase } from '../utils/currency';
+import { getFlightEndDate, getFlightStartDate } from '../utils/flightSegments';
+import { STAY_PRICE_METRICS, StayPriceMetric, checkStayCapacity, getRoomCount, getStayPrices } from '../utils/capacity';
+import { DateWindow, findContainingWindow } from '../utils/availability';
+import { formatDay, plural } from '../utils/dates';
+import RoomLayoutModal, { RoomLayoutUpdate } from './RoomLayoutModal';
 
 interface Props {
   accommodations: Accommodation[];
@@ -36,13 +45,25 @@ interface Props {
   destinationName: string;
   searchLinks: SearchLinkTemplate[];
   peopleCount: number;
+  /** People the stay has to house and the members to place in rooms, from the budget plan. */
+  travellers: number;
+  stayMembers: string[];
   votes: Record<string, string[]>;
+  blockers: Record<string, VoteBlocker[]>;
   currentPerson: string;
   onToggleVote: (accId: string) => void;
+  onSetBlocker: (accId: string, reason: string | null) => void;
+  /** Date windows most members can make; date groups inside one are highlighted. */
+  bestWindows: DateWindow[];
+  votingClosed: boolean;
+  votersHidden: boolean;
+  /** The stay the group decided on, if any. */
+  decidedId: string | null;
   customGroupLinks: Record<string, Record<string, string>>;
   onCustomGroupLinksChange: (links: Record<string, Record<string, string>>) => void;
   stayLinks: { label: string; url: string }[];
   onStayLinksChange: (links: { label: string; url: string }[]) => void;
+  currencySettings: CurrencySettings;
 }
 
 interface AccommodationGroup {
@@ -63,7 +84,7 @@ interface ParsedBulkAccommodation {
   error: string;
 }
 
-type SortBy = 'price' | 'description' | 'startDate' | 'dateAdded';
+type SortBy = 'price' | 'nights' | 'perNight' | 'perPersonPerNight' | 'perBedPerNight' | 'description' | 'startDate' | 'dateAdded';
 type ImageStatus = 'idle' | 'loading' | 'valid' | 'error';
 
 const formatTimeAgo = (timestamp: number): string => {
@@ -130,13 +151,22 @@ const AccommodationManager: React.FC<Props> = ({
   destinationName,
   searchLinks,
   peopleCount,
+  travellers,
+  stayMembers,
   votes,
+  blockers,
   currentPerson,
   onToggleVote,
+  onSetBlocker,
+  bestWindows,
+  votingClosed,
+  votersHidden,
+  decidedId,
   customGroupLinks,
   onCustomGroupLinksChange,
   stayLinks,
-  onStayLinksChange
+  onStayLinksChange,
+  currencySettings
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Accommodation>>({});
@@ -145,10 +175,13 @@ const AccommodationManager: React.FC<Props> = ({
   const [attemptedAdd, setAttemptedAdd] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [maxPrice, setMaxPrice] = useState<string>('');
+  const [maxPriceMetric, setMaxPriceMetric] = useState<StayPriceMetric>('total');
+  const [minNights, setMinNights] = useState<string>('');
   const [sortBy, setSortBy] = useState<SortBy>('price');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [groupByDate, setGroupByDate] = useState(true);
   const [pendingClearGroup, setPendingClearGroup] = useState<AccommodationGroup | null>(null);
+  const [roomsAccommodationId, setRoomsAccommodationId] = useState<string | null>(null);
 
   const [editingGroupLink, setEditingGroupLink] = useState<{ groupKey: string; linkId: string; url: string } | null>(null);
   const [showAddStayLink, setShowAddStayLink] = useState(false);
@@ -193,19 +226,17 @@ const AccommodationManager: React.FC<Props> = ({
     const flightRangeKeys = new Set<string>();
     const ranges: { startDate: string; endDate: string; label: string }[] = [];
     for (const f of flights) {
-      if (!f.startDate || !f.endDate) continue;
-      const key = `${f.startDate}|${f.endDate}`;
+      const startDate = getFlightStartDate(f);
+      const endDate = getFlightEndDate(f);
+      if (!startDate || !endDate) continue;
+      const key = `${startDate}|${endDate}`;
       if (flightRangeKeys.has(key)) continue;
       flightRangeKeys.add(key);
       const hasAccommodation = accommodations.some(
-        (a) => a.startDate === f.startDate && a.endDate === f.endDate
+        (a) => a.startDate === startDate && a.endDate === endDate
       );
       if (hasAccommodation) continue;
-      const fmt = (d: string) => {
-        const dt = new Date(d + 'T00:00:00');
-        return dt.toLocaleDateString('en-IE', { day: 'numeric', month: 'short' });
-      };
-      ranges.push({ startDate: f.startDate, endDate: f.endDate, label: `${fmt(f.startDate)} – ${fmt(f.endDate)}` });
+      ranges.push({ startDate, endDate, label: `${formatDay(startDate)} – ${formatDay(endDate)}` });
     }
     return ranges;
   }, [flights, accommodations]);
@@ -234,6 +265,7 @@ const AccommodationManager: React.FC<Props> = ({
       link: draft.link,
       description: draft.description || '',
       totalPrice: Number(draft.totalPrice),
+      currency: draft.currency || currencySettings.baseCurrency,
       startDate: draft.startDate || '',
       endDate: draft.endDate || '',
       ...(draft.imageUrl ? { imageUrl: draft.imageUrl } : {}),
@@ -243,7 +275,7 @@ const AccommodationManager: React.FC<Props> = ({
     };
 
     onChange([...accommodations, acc]);
-    onDraftChange({});
+    onDraftChange(draft.currency ? { currency: draft.currency } : {});
     setAttemptedAdd(false);
 
     if (focusNext) {
@@ -308,6 +340,12 @@ const AccommodationManager: React.FC<Props> = ({
     cancelEdit();
   };
 
+  const handleRoomLayoutSave = (accommodationId: string, update: RoomLayoutUpdate) => {
+    onChange(accommodations.map((accommodation) => (
+      accommodation.id === accommodationId ? { ...accommodation, ...update, updatedAt: Date.now() } : accommodation
+    )));
+  };
+
   const handleQuickAddKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key !== 'Enter') {
       return;
@@ -346,6 +384,7 @@ const AccommodationManager: React.FC<Props> = ({
       id: uuidv4(),
       description: row.description,
       totalPrice: row.totalPrice,
+      currency: draft.currency || currencySettings.baseCurrency,
       link: row.link,
       startDate: row.startDate,
       endDate: row.endDate,
@@ -360,21 +399,36 @@ const AccommodationManager: React.FC<Props> = ({
   const displayedAccommodations = useMemo(() => {
     const parsedMaxPrice = Number(maxPrice);
     const hasMaxPrice = Number.isFinite(parsedMaxPrice) && parsedMaxPrice > 0;
+    const parsedMinNights = Number(minNights);
+    const hasMinNights = Number.isFinite(parsedMinNights) && parsedMinNights > 0;
     const query = searchQuery.trim().toLowerCase();
+    const prices = new Map(accommodations.map((accommodation) => [accommodation.id, getStayPrices(accommodation, currencySettings, travellers)]));
 
     const filteredAccommodations = accommodations.filter((accommodation) => {
+      const stayPrices = prices.get(accommodation.id)!;
       const matchesQuery = query.length === 0
         || accommodation.description.toLowerCase().includes(query)
         || accommodation.link.toLowerCase().includes(query);
-      const matchesPrice = !hasMaxPrice || accommodation.totalPrice <= parsedMaxPrice;
-      return matchesQuery && matchesPrice;
+      // A stay without dates or beds has no per-night price, so it can't be shown to be under the limit.
+      const metricPrice = stayPrices[maxPriceMetric];
+      const matchesPrice = !hasMaxPrice || (metricPrice !== null && metricPrice <= parsedMaxPrice);
+      const matchesNights = !hasMinNights || (stayPrices.nights ?? 0) >= parsedMinNights;
+      return matchesQuery && matchesPrice && matchesNights;
     });
 
     return filteredAccommodations.sort((a, b) => {
       const direction = sortDirection === 'asc' ? 1 : -1;
 
       if (sortBy === 'price') {
-        return (a.totalPrice - b.totalPrice) * direction;
+        return (convertToBase(a.totalPrice, a.currency, currencySettings) - convertToBase(b.totalPrice, b.currency, currencySettings)) * direction;
+      }
+
+      if (sortBy === 'nights' || sortBy === 'perNight' || sortBy === 'perPersonPerNight' || sortBy === 'perBedPerNight') {
+        const aValue = prices.get(a.id)![sortBy];
+        const bValue = prices.get(b.id)![sortBy];
+        // Stays the metric can't be worked out for go last in either direction.
+        if (aValue === null || bValue === null) return Number(aValue === null) - Number(bValue === null);
+        return (aValue - bValue) * direction;
       }
 
       if (sortBy === 'startDate') {
@@ -391,7 +445,7 @@ const AccommodationManager: React.FC<Props> = ({
 
       return (a.description || '').localeCompare(b.description || '') * direction;
     });
-  }, [accommodations, maxPrice, searchQuery, sortBy, sortDirection]);
+  }, [accommodations, maxPrice, maxPriceMetric, minNights, searchQuery, sortBy, sortDirection, currencySettings, travellers]);
 
   const accGroups = useMemo((): AccommodationGroup[] => {
     if (!groupByDate) return [];
@@ -427,105 +481,143 @@ const AccommodationManager: React.FC<Props> = ({
     }, 50);
   };
 
-  const renderAccRow = (accommodation: Accommodation) => (
-    <tr key={accommodation.id}>
-      <td>
-        {editingId === accommodation.id ? (
-          <div className="d-flex flex-column gap-2">
-            <Form.Control size="sm" placeholder="Description" value={editForm.description || ''} onChange={(e) => setEditForm({ ...editForm, description: e.target.value })} />
-            <DateRangePicker
-              startDate={editForm.startDate || ''}
-              endDate={editForm.endDate || ''}
-              minDate={minDate}
-              onChange={(start, end) => setEditForm({ ...editForm, startDate: start, endDate: end })}
-            />
-            <div className="d-flex gap-2 align-items-center">
-              <Form.Control size="sm" placeholder="Link" value={editForm.link || ''} onChange={(e) => setEditForm({ ...editForm, link: e.target.value })} />
-              {editForm.link && (
-                <a href={editForm.link} target="_blank" rel="noreferrer" className="btn btn-sm btn-outline-secondary" title="Open link"><FaExternalLinkAlt size={12} /></a>
-              )}
-            </div>
-            <div>
-              <Form.Control
-                size="sm"
-                placeholder="Image URL (optional)"
-                value={editForm.imageUrl || ''}
-                isInvalid={editImageStatus === 'error'}
-                isValid={editImageStatus === 'valid'}
-                onChange={(e) => setEditForm({ ...editForm, imageUrl: e.target.value })}
+  const renderAccRow = (accommodation: Accommodation) => {
+    const roomCount = getRoomCount(accommodation);
+    const capacity = checkStayCapacity(accommodation, travellers);
+    const stayPrices = getStayPrices(accommodation, currencySettings, travellers);
+
+    return (
+      <tr key={accommodation.id} className={[blockers[accommodation.id]?.length ? 'option-blocked' : '', accommodation.id === decidedId ? 'option-decided' : ''].filter(Boolean).join(' ') || undefined}>
+        <td>
+          {editingId === accommodation.id ? (
+            <div className="d-flex flex-column gap-2">
+              <Form.Control size="sm" placeholder="Description" value={editForm.description || ''} onChange={(e) => setEditForm({ ...editForm, description: e.target.value })} />
+              <DateRangePicker
+                startDate={editForm.startDate || ''}
+                endDate={editForm.endDate || ''}
+                minDate={minDate}
+                onChange={(start, end) => setEditForm({ ...editForm, startDate: start, endDate: end })}
               />
-              {editImageStatus === 'loading' && <div className="small text-muted mt-1">Checking image…</div>}
-              {editImageStatus === 'error' && <div className="small text-danger mt-1">Image could not be loaded. Check the URL.</div>}
-              {editImageStatus === 'valid' && (
-                <img src={editForm.imageUrl} alt="preview" style={{ marginTop: 6, width: 80, height: 56, objectFit: 'cover', borderRadius: 'var(--radius-xs)' }} />
-              )}
-            </div>
-            <div className="d-flex gap-2">
-              <Form.Control size="sm" type="number" min="0" step="1" placeholder="Rooms" value={editForm.rooms ?? ''} onChange={(e) => setEditForm({ ...editForm, rooms: e.target.value === '' ? undefined : Number(e.target.value) })} style={{ width: 80 }} />
-              <Form.Control size="sm" type="number" min="0" step="1" placeholder="Beds" value={editForm.beds ?? ''} onChange={(e) => setEditForm({ ...editForm, beds: e.target.value === '' ? undefined : Number(e.target.value) })} style={{ width: 80 }} />
-            </div>
-          </div>
-        ) : (
-          <div className="d-flex gap-2">
-            {accommodation.imageUrl && (
-              <a href={accommodation.imageUrl} target="_blank" rel="noreferrer" title="View image" style={{ display: 'block', alignSelf: 'stretch', flexShrink: 0 }}>
-                <img
-                  src={accommodation.imageUrl}
-                  alt={accommodation.description || 'Accommodation'}
-                  style={{ width: 72, height: '100%', objectFit: 'cover', borderRadius: 'var(--radius-xs)', display: 'block', border: '1px solid var(--bs-border-color)' }}
+              <div className="d-flex gap-2 align-items-center">
+                <Form.Control size="sm" placeholder="Link" value={editForm.link || ''} onChange={(e) => setEditForm({ ...editForm, link: e.target.value })} />
+                {editForm.link && (
+                  <a href={editForm.link} target="_blank" rel="noreferrer" className="btn btn-sm btn-outline-secondary" title="Open link"><FaExternalLinkAlt size={12} /></a>
+                )}
+              </div>
+              <div>
+                <Form.Control
+                  size="sm"
+                  placeholder="Image URL (optional)"
+                  value={editForm.imageUrl || ''}
+                  isInvalid={editImageStatus === 'error'}
+                  isValid={editImageStatus === 'valid'}
+                  onChange={(e) => setEditForm({ ...editForm, imageUrl: e.target.value })}
                 />
-              </a>
-            )}
-            <div>
-              <div className="fw-semibold">{accommodation.description || 'Accommodation Option'}</div>
-              <div className="small subtle-text my-1">
-                {accommodation.startDate || 'No start date'} <span className="mx-1">to</span> {accommodation.endDate || 'No end date'}
+                {editImageStatus === 'loading' && <div className="small text-muted mt-1">Checking image…</div>}
+                {editImageStatus === 'error' && <div className="small text-danger mt-1">Image could not be loaded. Check the URL.</div>}
+                {editImageStatus === 'valid' && (
+                  <img src={editForm.imageUrl} alt="preview" style={{ marginTop: 6, width: 80, height: 56, objectFit: 'cover', borderRadius: 'var(--radius-xs)' }} />
+                )}
+              </div>
+              <div className="d-flex gap-2">
+                <Form.Control size="sm" type="number" min="0" step="1" placeholder="Rooms" value={editForm.rooms ?? ''} onChange={(e) => setEditForm({ ...editForm, rooms: e.target.value === '' ? undefined : Number(e.target.value) })} style={{ width: 80 }} />
+                <Form.Control size="sm" type="number" min="0" step="1" placeholder="Beds" value={editForm.beds ?? ''} onChange={(e) => setEditForm({ ...editForm, beds: e.target.value === '' ? undefined : Number(e.target.value) })} style={{ width: 80 }} />
               </div>
-              <div className="d-flex flex-wrap align-items-center gap-2">
-                <a href={accommodation.link} target="_blank" rel="noreferrer" className="small text-decoration-none d-inline-flex align-items-center gap-1">
-                  View Stay <FaExternalLinkAlt size={10} />
+            </div>
+          ) : (
+            <div className="d-flex gap-2">
+              {accommodation.imageUrl && (
+                <a href={accommodation.imageUrl} target="_blank" rel="noreferrer" title="View image" style={{ display: 'block', alignSelf: 'stretch', flexShrink: 0 }}>
+                  <img
+                    src={accommodation.imageUrl}
+                    alt={accommodation.description || 'Accommodation'}
+                    style={{ width: 72, height: '100%', objectFit: 'cover', borderRadius: 'var(--radius-xs)', display: 'block', border: '1px solid var(--bs-border-color)' }}
+                  />
                 </a>
-                {accommodation.rooms != null && accommodation.rooms > 0 && (
-                  <span className="small subtle-text d-inline-flex align-items-center gap-1"><FaDoorOpen size={10} /> {accommodation.rooms} room{accommodation.rooms !== 1 ? 's' : ''}</span>
-                )}
-                {accommodation.beds != null && accommodation.beds > 0 && (
-                  <span className="small subtle-text d-inline-flex align-items-center gap-1"><FaBed size={10} /> {accommodation.beds} bed{accommodation.beds !== 1 ? 's' : ''}</span>
-                )}
-                {accommodation.createdAt && (
-                  <span className="small subtle-text" title={new Date(accommodation.createdAt).toLocaleString()}>Added {formatTimeAgo(accommodation.createdAt)}</span>
-                )}
-                {accommodation.updatedAt && (
-                  <span className="small subtle-text" title={new Date(accommodation.updatedAt).toLocaleString()}>Updated {formatTimeAgo(accommodation.updatedAt)}</span>
-                )}
+              )}
+              <div>
+                <div className="fw-semibold">{accommodation.description || 'Accommodation Option'}</div>
+                <div className="small subtle-text my-1">
+                  {accommodation.startDate || 'No start date'} <span className="mx-1">to</span> {accommodation.endDate || 'No end date'}
+                  {stayPrices.nights !== null && <span className="ms-1">({plural(stayPrices.nights, 'night')})</span>}
+                </div>
+                <div className="d-flex flex-wrap align-items-center gap-2">
+                  <a href={accommodation.link} target="_blank" rel="noreferrer" className="small text-decoration-none d-inline-flex align-items-center gap-1">
+                    View Stay <FaExternalLinkAlt size={10} />
+                  </a>
+                  {roomCount !== null && roomCount > 0 && (
+                    <span className="small subtle-text d-inline-flex align-items-center gap-1"><FaDoorOpen size={10} /> {roomCount} room{roomCount !== 1 ? 's' : ''}</span>
+                  )}
+                  {capacity.capacity !== null && capacity.capacity > 0 && (
+                    <span className="small subtle-text d-inline-flex align-items-center gap-1">
+                      <FaBed size={10} /> sleeps {capacity.capacity}{accommodation.roomLayout?.some((room) => room.sofaBeds > 0) ? ' incl. sofa beds' : ''}
+                    </span>
+                  )}
+                  {capacity.sharedRooms > 0 && (
+                    <Badge bg="light" text="dark" className="fw-normal">{plural(capacity.sharedRooms, 'shared room')}</Badge>
+                  )}
+                  {stayPrices.perBedPerNight !== null && (
+                    <span className="small subtle-text">{formatCurrency(stayPrices.perBedPerNight, currencySettings.baseCurrency)} / bed / night</span>
+                  )}
+                  {capacity.shortfall > 0 && (
+                    <Badge bg="warning" text="dark" className="d-inline-flex align-items-center gap-1" title={`Sleeps ${capacity.capacity} but ${travellers} travelers need a bed`}>
+                      <FaExclamationTriangle size={10} /> {plural(capacity.shortfall, 'bed')} short
+                    </Badge>
+                  )}
+                  {accommodation.id === decidedId && <DecidedFlag />}
+                  <BlockedFlag blockers={blockers[accommodation.id] || []} />
+                  {accommodation.createdAt && (
+                    <span className="small subtle-text" title={new Date(accommodation.createdAt).toLocaleString()}>Added {formatTimeAgo(accommodation.createdAt)}</span>
+                  )}
+                  {accommodation.updatedAt && (
+                    <span className="small subtle-text" title={new Date(accommodation.updatedAt).toLocaleString()}>Updated {formatTimeAgo(accommodation.updatedAt)}</span>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        )}
-      </td>
-      <td style={{ verticalAlign: editingId === accommodation.id ? 'top' : 'middle' }}>
-        {editingId === accommodation.id ? (
-          <Form.Control size="sm" type="number" step="10" min="0" value={editForm.totalPrice} onChange={(e) => setEditForm({ ...editForm, totalPrice: Number(e.target.value) })} />
-        ) : (
-          <strong>{formatCurrency(accommodation.totalPrice)}</strong>
-        )}
-      </td>
-      <td className="text-end" style={{ verticalAlign: editingId === accommodation.id ? 'top' : 'middle' }}>
-        {editingId === accommodation.id ? (
-          <div className="d-flex gap-2 justify-content-end">
-            <Button size="sm" variant="success" onClick={saveEdit} aria-label="Save accommodation changes"><FaSave /></Button>
-            <Button size="sm" variant="outline-secondary" onClick={cancelEdit}>Cancel</Button>
-          </div>
-        ) : (
-          <div className="d-flex align-items-center gap-2 justify-content-end">
-            <VoteButton voters={votes[accommodation.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(accommodation.id)} />
-            <Button variant="link" className="text-secondary p-0" onClick={() => startEdit(accommodation)} aria-label="Edit accommodation option"><FaEdit /></Button>
-            <Button variant="link" className="text-secondary p-0" onClick={() => handleDuplicate(accommodation)} aria-label="Duplicate accommodation option"><FaClone /></Button>
-            <Button variant="link" className="text-danger p-0" onClick={() => handleRemove(accommodation.id)} aria-label="Remove accommodation option"><FaTrash /></Button>
-          </div>
-        )}
-      </td>
-    </tr>
-  );
+          )}
+        </td>
+        <td style={{ verticalAlign: editingId === accommodation.id ? 'top' : 'middle' }}>
+          {editingId === accommodation.id ? (
+            <div className="d-flex flex-column gap-1">
+              <Form.Control size="sm" type="number" step="10" min="0" value={editForm.totalPrice} onChange={(e) => setEditForm({ ...editForm, totalPrice: Number(e.target.value) })} />
+              <CurrencySelect value={editForm.currency || currencySettings.baseCurrency} onChange={(currency) => setEditForm({ ...editForm, currency })} currencySettings={currencySettings} ariaLabel="Accommodation price currency" />
+            </div>
+          ) : (
+            <>
+              <strong>{formatCurrency(accommodation.totalPrice, accommodation.currency)}</strong>
+              {accommodation.currency !== currencySettings.baseCurrency && (
+                <div className="small subtle-text">≈ {formatCurrency(stayPrices.total, currencySettings.baseCurrency)}</div>
+              )}
+              {stayPrices.perNight !== null && (
+                <div className="small subtle-text">{formatCurrency(stayPrices.perNight, currencySettings.baseCurrency)} / night</div>
+              )}
+              {stayPrices.perPersonPerNight !== null && (
+                <div className="small subtle-text">{formatCurrency(stayPrices.perPersonPerNight, currencySettings.baseCurrency)} / person / night</div>
+              )}
+            </>
+          )}
+        </td>
+        <td className="text-end" style={{ verticalAlign: editingId === accommodation.id ? 'top' : 'middle' }}>
+          {editingId === accommodation.id ? (
+            <div className="d-flex gap-2 justify-content-end">
+              <Button size="sm" variant="success" onClick={saveEdit} aria-label="Save accommodation changes"><FaSave /></Button>
+              <Button size="sm" variant="outline-secondary" onClick={cancelEdit}>Cancel</Button>
+            </div>
+          ) : (
+            <div className="d-flex align-items-center gap-2 justify-content-end">
+              <VoteButton voters={votes[accommodation.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(accommodation.id)} closed={votingClosed} secret={votersHidden} />
+              <BlockerButton blockers={blockers[accommodation.id] || []} currentPerson={currentPerson} subject="this stay" onChange={(reason) => onSetBlocker(accommodation.id, reason)} closed={votingClosed} />
+              <Button variant="link" className="text-secondary p-0" onClick={() => setRoomsAccommodationId(accommodation.id)} aria-label="Rooms and sleeping arrangement" title="Rooms"><FaDoorOpen /></Button>
+              <Button variant="link" className="text-secondary p-0" onClick={() => startEdit(accommodation)} aria-label="Edit accommodation option"><FaEdit /></Button>
+              <Button variant="link" className="text-secondary p-0" onClick={() => handleDuplicate(accommodation)} aria-label="Duplicate accommodation option"><FaClone /></Button>
+              <Button variant="link" className="text-danger p-0" onClick={() => handleRemove(accommodation.id)} aria-label="Remove accommodation option"><FaTrash /></Button>
+            </div>
+          )}
+        </td>
+      </tr>
+    );
+  };
 
   return (
     <>
@@ -687,20 +779,27 @@ const AccommodationManager: React.FC<Props> = ({
 
             <Form.Group>
               <Form.Label className="small text-muted mb-1">Total Price</Form.Label>
-              <Form.Control
-                ref={quickAddPriceRef}
-                size="sm"
-                type="number"
-                inputMode="numeric"
-                step="10"
-                min="0"
-                placeholder="0"
-                value={draft.totalPrice ?? ''}
-                isInvalid={attemptedAdd && !isDraftPriceValid}
-                onChange={(e) => setDraftValue({ totalPrice: e.target.value === '' ? undefined : Number(e.target.value) })}
-                onKeyDown={handleQuickAddKeyDown}
-                aria-label="Accommodation total price"
-              />
+              <InputGroup size="sm">
+                <Form.Control
+                  ref={quickAddPriceRef}
+                  type="number"
+                  inputMode="numeric"
+                  step="10"
+                  min="0"
+                  placeholder="0"
+                  value={draft.totalPrice ?? ''}
+                  isInvalid={attemptedAdd && !isDraftPriceValid}
+                  onChange={(e) => setDraftValue({ totalPrice: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  onKeyDown={handleQuickAddKeyDown}
+                  aria-label="Accommodation total price"
+                />
+                <CurrencySelect
+                  value={draft.currency || currencySettings.baseCurrency}
+                  onChange={(currency) => setDraftValue({ currency })}
+                  currencySettings={currencySettings}
+                  ariaLabel="Accommodation price currency"
+                />
+              </InputGroup>
             </Form.Group>
 
             <Form.Group>
@@ -781,7 +880,7 @@ const AccommodationManager: React.FC<Props> = ({
         <Card.Body className="p-0">
           <div className="manager-controls">
             <Row className="g-2 align-items-end">
-              <Col md={5}>
+              <Col md={3}>
                 <Form.Label className="small text-muted mb-1">Search</Form.Label>
                 <Form.Control
                   size="sm"
@@ -792,9 +891,16 @@ const AccommodationManager: React.FC<Props> = ({
                 />
               </Col>
               <Col md={3}>
-                <Form.Label className="small text-muted mb-1">Max total</Form.Label>
+                <Form.Label className="small text-muted mb-1">Max price ({currencySettings.baseCurrency})</Form.Label>
                 <InputGroup size="sm">
                   <InputGroup.Text><FaFilter /></InputGroup.Text>
+                  <Form.Select
+                    value={maxPriceMetric}
+                    onChange={(event) => setMaxPriceMetric(event.target.value as StayPriceMetric)}
+                    aria-label="Price the max filter applies to"
+                  >
+                    {STAY_PRICE_METRICS.map((metric) => <option key={metric.id} value={metric.id}>{metric.label}</option>)}
+                  </Form.Select>
                   <Form.Control
                     type="number"
                     min="0"
@@ -805,10 +911,26 @@ const AccommodationManager: React.FC<Props> = ({
                   />
                 </InputGroup>
               </Col>
+              <Col md={2}>
+                <Form.Label className="small text-muted mb-1">Min nights</Form.Label>
+                <Form.Control
+                  size="sm"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={minNights}
+                  onChange={(event) => setMinNights(event.target.value)}
+                  aria-label="Filter by minimum number of nights"
+                />
+              </Col>
               <Col md={2}>
                 <Form.Label className="small text-muted mb-1">Sort by</Form.Label>
                 <Form.Select size="sm" value={sortBy} onChange={(event) => setSortBy(event.target.value as SortBy)} aria-label="Sort accommodation by">
-                  <option value="price">Price</option>
+                  <option value="price">Total price</option>
+                  <option value="perNight">Price per night</option>
+                  <option value="perPersonPerNight">Price per person / night</option>
+                  <option value="perBedPerNight">Price per bed / night</option>
+                  <option value="nights">Nights</option>
                   <option value="description">Name</option>
                   <option value="startDate">Start date</option>
                   <option value="dateAdded">Date added</option>
@@ -848,14 +970,16 @@ const AccommodationManager: React.FC<Props> = ({
                   {accGroups.map((group) => {
                     const groupSearchLinks = getAccommodationSearchLinks(searchLinks, destinationName, group.startDate, group.endDate, peopleCount);
                     const groupCustomLinks = customGroupLinks[group.key] || {};
+                    const bestWindow = findContainingWindow(bestWindows, group.startDate, group.endDate);
                     return (
                       <React.Fragment key={group.key}>
-                        <tr className="table-light">
+                        <tr className={`table-light${bestWindow ? ' best-window-group' : ''}`}>
                           <td colSpan={3}>
                             <div className="d-flex flex-wrap align-items-center justify-content-between gap-2 py-1">
                               <div className="d-flex align-items-center gap-2">
                                 <strong>{group.label}</strong>
                                 <Badge bg="secondary" pill>{group.accommodations.length}</Badge>
+                                <BestDatesFlag window={bestWindow} />
                               </div>
                               <div className="d-flex flex-wrap gap-2 align-items-center">
                                 {groupSearchLinks.map((sl) => {
@@ -1052,6 +1176,14 @@ const AccommodationManager: React.FC<Props> = ({
           }}>Clear Group</Button>
         </Modal.Footer>
       </Modal>
+
+      <RoomLayoutModal
+        accommodation={accommodations.find((accommodation) => accommodation.id === roomsAccommodationId) ?? null}
+        members={stayMembers}
+        travellers={travellers}
+        onSave={handleRoomLayoutSave}
+        onHide={() => setRoomsAccommodationId(null)}
+      />
     </>
   );
 };
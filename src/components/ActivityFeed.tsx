@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Form, Offcanvas } from 'react-bootstrap';
+import { ActivityEvent, Destination } from '../types';
+
+interface Props {
+  show: boolean;
+  onHide: () => void;
+  events: ActivityEvent[];
+  destinations: Destination[];
+  tripMembers: string[];
+  currentPerson: string;
+}
+
+const ALL = '__all__';
+const UNATTRIBUTED = '__someone__';
+
+const formatWhen = (at: number) => {
+  const minutes = Math.round((Date.now() - at) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const date = new Date(at);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-IE', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('en-IE', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const ActivityFeed: React.FC<Props> = ({ show, onHide, events, destinations, tripMembers, currentPerson }) => {
+  const [personFilter, setPersonFilter] = useState(ALL);
+  const [destinationFilter, setDestinationFilter] = useState(ALL);
+
+  // People who have left the trip still appear in old events, so offer them as filters too.
+  const people = useMemo(() => {
+    const actors = events.map((event) => event.actor).filter(Boolean);
+    return Array.from(new Set([...tripMembers, ...actors]));
+  }, [events, tripMembers]);
+  const hasUnattributed = events.some((event) => !event.actor);
+
+  const visibleEvents = useMemo(() => events
+    .filter((event) => personFilter === ALL || (personFilter === UNATTRIBUTED ? !event.actor : event.actor === personFilter))
+    .filter((event) => destinationFilter === ALL || event.destinationId === destinationFilter)
+    .slice()
+    .reverse(), [events, personFilter, destinationFilter]);
+
+  return (
+    <Offcanvas show={show} onHide={onHide} placement="end">
+      <Offcanvas.Header closeButton>
+        <Offcanvas.Title>Activity</Offcanvas.Title>
+      </Offcanvas.Header>
+      <Offcanvas.Body>
+        <div className="activity-filters">
+          <Form.Select size="sm" value={personFilter} onChange={(e) => setPersonFilter(e.target.value)} aria-label="Filter by person">
+            <option value={ALL}>Everyone</option>
+            {people.map((person) => (
+              <option key={person} value={person}>{person}{person === currentPerson ? ' (you)' : ''}</option>
+            ))}
+            {hasUnattributed && <option value={UNATTRIBUTED}>Someone (no name set)</option>}
+          </Form.Select>
+          <Form.Select size="sm" value={destinationFilter} onChange={(e) => setDestinationFilter(e.target.value)} aria-label="Filter by destination">
+            <option value={ALL}>All destinations</option>
+            {destinations.map((destination) => (
+              <option key={destination.id} value={destination.id}>{destination.name}</option>
+            ))}
+          </Form.Select>
+        </div>
+
+        {visibleEvents.length === 0 ? (
+          <div className="empty-inline-state">
+            {events.length === 0 ? 'No changes recorded yet.' : 'Nothing matches these filters.'}
+          </div>
+        ) : (
+          <ol className="activity-list">
+            {visibleEvents.map((event) => (
+              <li key={event.id} className="activity-item">
+                <div>
+                  <strong>{event.actor || 'Someone'}</strong> {event.message}
+                  {event.from !== undefined && event.to !== undefined && (
+                    <span className="activity-change">
+                      {' '}<del>{event.from}</del> → <span>{event.to}</span>
+                    </span>
+                  )}
+                </div>
+                <time className="subtle-text small" dateTime={new Date(event.at).toISOString()}>{formatWhen(event.at)}</time>
+              </li>
+            ))}
+          </ol>
+        )}
+      </Offcanvas.Body>
+    </Offcanvas>
+  );
+};
+
+export default ActivityFeed;
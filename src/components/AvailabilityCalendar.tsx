@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Modal, Badge, Form, InputGroup, ListGroup } from 'react-bootstrap';
+import { FaCalendarCheck, FaCheck, FaTimes } from 'react-icons/fa';
+import { MemberAvailability } from '../types';
+import { DateWindow, DayStatus, findContainingWindow, formatWindow, getDayStatus, getTopWindows, nextDayStatus } from '../utils/availability';
+import { MonthGrid } from './DateRangePicker';
+
+interface Props {
+  show: boolean;
+  onHide: () => void;
+  availability: MemberAvailability[];
+  tripMembers: string[];
+  currentPerson: string;
+  nights: number;
+  onNightsChange: (nights: number) => void;
+  /** Best windows first, as found by `findBestWindows`. */
+  windows: DateWindow[];
+  /** Days before this one cannot be marked. */
+  today: string;
+  onDayChange: (date: string, status: DayStatus | null) => void;
+}
+
+/** Marks a date group that fits one of the best windows; renders nothing otherwise. */
+export const BestDatesFlag: React.FC<{ window: DateWindow | undefined }> = ({ window }) => {
+  if (!window) return null;
+  return (
+    <span className="best-dates-flag small d-inline-flex align-items-center gap-1" title={`Best dates: ${formatWindow(window)}`}>
+      <FaCalendarCheck size={10} /> {window.attending.length} of {window.attending.length + window.away.length} can make it
+    </span>
+  );
+};
+
+const AvailabilityCalendar: React.FC<Props> = ({ show, onHide, availability, tripMembers, currentPerson, nights, onNightsChange, windows, today, onDayChange }) => {
+  const [viewYear, setViewYear] = useState(() => Number(today.slice(0, 4)));
+  const [viewMonth, setViewMonth] = useState(() => Number(today.slice(5, 7)) - 1);
+  const topWindows = getTopWindows(windows);
+  const members = Array.from(new Set([...tripMembers, ...availability.map((item) => item.member)]));
+
+  const showMonthOf = (date: string) => {
+    setViewYear(Number(date.slice(0, 4)));
+    setViewMonth(Number(date.slice(5, 7)) - 1);
+  };
+
+  const renderDay = (dateStr: string, day: number) => {
+    const isPast = dateStr < today;
+    const own = currentPerson ? getDayStatus(availability, currentPerson, dateStr) : null;
+    const free = members.filter((member) => getDayStatus(availability, member, dateStr) === 'available');
+    const away = members.filter((member) => getDayStatus(availability, member, dateStr) === 'unavailable');
+    const inBest = Boolean(findContainingWindow(topWindows, dateStr, dateStr));
+    const title = [
+      free.length > 0 ? `Free: ${free.join(', ')}` : '',
+      away.length > 0 ? `Away: ${away.join(', ')}` : ''
+    ].filter(Boolean).join('\n');
+
+    return (
+      <button
+        type="button"
+        className={`availability-day${own ? ` ${own}` : ''}${inBest ? ' in-best-window' : ''}`}
+        onClick={() => onDayChange(dateStr, nextDayStatus(own))}
+        disabled={isPast || !currentPerson}
+        title={title || undefined}
+        aria-label={`${dateStr}${own ? `, you are ${own}` : ''}`}
+      >
+        <span>{day}</span>
+        {(free.length > 0 || away.length > 0) && (
+          <span className="availability-day-marks">
+            {free.length > 0 && <span className="text-success">{free.length}</span>}
+            {away.length > 0 && <span className="text-danger">{away.length}</span>}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} size="lg" centered scrollable>
+      <Modal.Header closeButton>
+        <Modal.Title>Availability</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <div className="availability-layout">
+          <div>
+            <p className="small text-muted mb-2">
+              {currentPerson
+                ? 'Click a day to mark it available, click again for unavailable, and once more to clear it.'
+                : 'Select who you are to mark your days.'}
+            </p>
+            <MonthGrid
+              year={viewYear}
+              month={viewMonth}
+              onMonthChange={(year, month) => { setViewYear(year); setViewMonth(month); }}
+              renderDay={renderDay}
+            />
+            <div className="d-flex gap-3 small text-muted mt-2">
+              <span className="d-flex align-items-center gap-1"><span className="availability-swatch available" /> You're free</span>
+              <span className="d-flex align-items-center gap-1"><span className="availability-swatch unavailable" /> You're away</span>
+              <span className="d-flex align-items-center gap-1"><span className="availability-swatch in-best-window" /> Best dates</span>
+            </div>
+          </div>
+
+          <div>
+            <Form.Group controlId="availability-nights" className="mb-3">
+              <Form.Label className="small fw-semibold">Trip length</Form.Label>
+              <InputGroup size="sm">
+                <Form.Control
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={nights}
+                  onChange={(e) => {
+                    const value = Math.floor(Number(e.target.value));
+                    if (value >= 1 && value <= 30) onNightsChange(value);
+                  }}
+                />
+                <InputGroup.Text>nights</InputGroup.Text>
+              </InputGroup>
+            </Form.Group>
+
+            <h6 className="d-flex align-items-center gap-2">
+              <FaCalendarCheck className="text-primary" /> Best dates
+            </h6>
+            {windows.length === 0 ? (
+              <p className="small text-muted">Once members mark their days, the dates most of the group can make appear here.</p>
+            ) : (
+              <ListGroup variant="flush">
+                {windows.map((window) => (
+                  <ListGroup.Item
+                    key={window.start}
+                    action
+                    onClick={() => showMonthOf(window.start)}
+                    className="px-0"
+                  >
+                    <div className="d-flex align-items-center justify-content-between gap-2">
+                      <span className="fw-semibold small">{formatWindow(window)}</span>
+                      <Badge bg={topWindows.includes(window) ? 'success' : 'secondary'}>
+                        {window.attending.length} of {window.attending.length + window.away.length}
+                      </Badge>
+                    </div>
+                    <div className="small text-muted">
+                      {window.confirmed.length > 0 && <span className="me-2"><FaCheck size={10} className="text-success" /> {window.confirmed.join(', ')}</span>}
+                      {window.away.length > 0 && <span><FaTimes size={10} className="text-danger" /> {window.away.join(', ')}</span>}
+                    </div>
+                  </ListGroup.Item>
+                ))}
+              </ListGroup>
+            )}
+          </div>
+        </div>
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default AvailabilityCalendar;
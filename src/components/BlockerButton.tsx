@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button, Form, OverlayTrigger, Popover, Tooltip } from 'react-bootstrap';
+import { FaBan } from 'react-icons/fa';
+import { VoteBlocker } from '../types';
+import { describeBlockers } from '../utils/voting';
+
+interface Props {
+  blockers: VoteBlocker[];
+  currentPerson: string;
+  /** What is being blocked, e.g. "these dates", for the prompt and labels. */
+  subject: string;
+  /** A reason (possibly empty) blocks the option; null lifts your block. */
+  onChange: (reason: string | null) => void;
+  /** The category's poll is closed or decided; blocks are shown but can no longer change. */
+  closed?: boolean;
+}
+
+/** Inline marker for an option someone cannot do; renders nothing when no one has blocked it. */
+export const BlockedFlag: React.FC<{ blockers: VoteBlocker[]; className?: string }> = ({ blockers, className = '' }) => {
+  if (blockers.length === 0) return null;
+  return (
+    <span className={`blocked-flag small d-inline-flex align-items-center gap-1 ${className}`}>
+      <FaBan size={10} /> Can't: {describeBlockers(blockers)}
+    </span>
+  );
+};
+
+const BlockerButton: React.FC<Props> = ({ blockers, currentPerson, subject, onChange, closed = false }) => {
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [reason, setReason] = useState('');
+  const ownBlocker = blockers.find((blocker) => blocker.voter === currentPerson);
+  const disabled = currentPerson === '' || closed;
+  const count = blockers.length;
+
+  const submit = () => {
+    onChange(reason);
+    setReason('');
+    setShowPrompt(false);
+  };
+
+  const button = (
+    <button
+      type="button"
+      className={`vote-btn blocker-btn${ownBlocker ? ' active' : count > 0 ? ' flagged' : ''}`}
+      onClick={ownBlocker ? () => onChange(null) : undefined}
+      disabled={disabled}
+      style={disabled ? { pointerEvents: 'none' } : undefined}
+      aria-label={ownBlocker ? `Lift your block on ${subject}` : `I can't do ${subject}`}
+    >
+      <FaBan size={11} />
+      {count > 0 && <span className="vote-count">{count}</span>}
+    </button>
+  );
+
+  if (!ownBlocker && !disabled) {
+    const prompt = (
+      <Popover id="blocker-popover">
+        <Popover.Body>
+          <Form onSubmit={(e) => { e.preventDefault(); submit(); }}>
+            <Form.Label className="small fw-semibold">You can't do {subject}?</Form.Label>
+            <Form.Control
+              size="sm"
+              placeholder="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              autoFocus
+            />
+            {count > 0 && <div className="small text-muted mt-2">Already blocked by {describeBlockers(blockers)}</div>}
+            <div className="d-flex justify-content-end gap-2 mt-2">
+              <Button size="sm" variant="outline-secondary" onClick={() => setShowPrompt(false)}>Cancel</Button>
+              <Button size="sm" variant="danger" type="submit">Block</Button>
+            </div>
+          </Form>
+        </Popover.Body>
+      </Popover>
+    );
+
+    return (
+      <OverlayTrigger trigger="click" placement="bottom" show={showPrompt} onToggle={setShowPrompt} overlay={prompt} rootClose>
+        <span className="d-inline-block">{button}</span>
+      </OverlayTrigger>
+    );
+  }
+
+  const tooltip = (
+    <Tooltip id="blocker-tooltip">
+      {closed
+        ? `Voting is closed${count > 0 ? `: blocked by ${describeBlockers(blockers)}` : ''}`
+        : disabled
+          ? 'Select a person to block options'
+          : `Blocked by ${describeBlockers(blockers)}. Click to lift your block.`}
+    </Tooltip>
+  );
+
+  return (
+    <OverlayTrigger placement="top" overlay={tooltip}>
+      <span className="d-inline-block">{button}</span>
+    </OverlayTrigger>
+  );
+};
+
+export default BlockerButton;
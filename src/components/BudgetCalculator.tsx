@@ -1,8 +1,21 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { Card, Form, Row, Col, Button, Alert } from 'react-bootstrap';
-import { Flight, Accommodation, ExtraCost, PlannerSettings, BudgetAttempt } from '../types';
-import { FaPlane, FaBed, FaCalculator, FaPlus, FaTrash, FaFlask, FaSync } from 'react-icons/fa';
+import { v4 as uuidv4 } from 'uuid';
+import { Card, Form, Row, Col, Button, Alert, InputGroup } from 'react-bootstrap';
+import { Flight, Accommodation, ExtraCost, ExtraCostCategory, ExtraCostScaling, PlannerSettings, BudgetAttempt, StaySelection } from '../types';
+import { FaPlane, FaBed, FaCalculator, FaPlus, FaTrash, FaFlask, FaSync, FaTimes } from 'react-icons/fa';
 import { calculateBudgetSnapshot, formatCurrency } from '../utils/budget';
+import { areAssignmentsEqual, createPlaceholderSeats, PLACEHOLDER_SEAT } from '../utils/flightAssignments';
+import { getDestinationArrivalTime, getDestinationDepartureTime } from '../utils/flightSegments';
+import { checkDateConsistency } from '../utils/dateConsistency';
+import { checkStayCapacity, getAllocationIssues, getStayMembers, getStayTravellers } from '../utils/capacity';
+import { areStaysEqual, getSelectedStays, resolveStays, toStayState, withStayState } from '../utils/stays';
+import { EXTRA_COST_CATEGORIES, EXTRA_COST_SCALINGS, describeExtraCostScaling, getCategoryLabel, getExtraCostAmount } from '../utils/extraCosts';
+import { PlanCandidate } from '../utils/optimizer';
+import { plural } from '../utils/dates';
+import BudgetCharts from './BudgetCharts';
+import BudgetOptimizer from './BudgetOptimizer';
+import DateConsistencyAlert from './DateConsistencyAlert';
+import CurrencySelect from './CurrencySelect';
 
 interface Props {
   flights: Flight[];
@@ -10,14 +23,21 @@ interface Props {
   settings: PlannerSettings;
   extraCosts: ExtraCost[];
   onExtraCostsChange: (value: ExtraCost[]) => void;
-  flightAssignments: Record<string, number>;
-  onFlightAssignmentsChange: (value: Record<string, number>) => void;
+  flightAssignments: Record<string, string[]>;
+  onFlightAssignmentsChange: (value: Record<string, string[]>) => void;
+  tripMembers: string[];
   selectedAccommodationId: string;
+  stays?: StaySelection[];
   onSelectedAccommodationChange: (value: string) => void;
+  onStaysChange: (value: StaySelection[]) => void;
   attempts: BudgetAttempt[];
   fixedAttemptId: string;
   onAttemptsChange: (value: BudgetAttempt[]) => void;
   onFixedAttemptIdChange: (value: string) => void;
+  /** Flights and stays a member has blocked; the plan search leaves them out. */
+  blockedIds: string[];
+  /** Flights on the decided dates and the decided stay, when they are in this destination. */
+  decidedIds: string[];
 }
 
 const createAttemptId = (): string => {
@@ -27,15 +47,8 @@ const createAttemptId = (): string => {
   return `attempt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 };
 
-const areAssignmentsEqual = (left: Record<string, number>, right: Record<string, number>): boolean => {
-  const leftEntries = Object.entries(left).filter(([, count]) => count > 0);
-  const rightEntries = Object.entries(right).filter(([, count]) => count > 0);
-
-  if (leftEntries.length !== rightEntries.length) {
-    return false;
-  }
-
-  return leftEntries.every(([flightId, count]) => right[flightId] === count);
+const copyAssignments = (assignments: Record<string, string[]>): Record<string, string[]> => {
+  return Object.fromEntries(Object.entries(assignments).map(([flightId, seats]) => [flightId, [...seats]]));
 };
 
 const AccommodationDropdown: React.FC<{
@@ -73,7 +86,7 @@ const AccommodationDropdown: React.FC<{
             {selected.imageUrl && (
               <img src={selected.imageUrl} alt="" style={{ width: 32, height: 32, objectFit: 'cover', borderRadius: 4, flexShrink: 0 }} />
             )}
-            <span className="small flex-grow-1">{formatCurrency(selected.totalPrice)} — {selected.description || 'Accommodation option'}</span>
+            <span className="small flex-grow-1">{formatCurrency(selected.totalPrice, selected.currency)} — {selected.description || 'Accommodation option'}</span>
           </>
         ) : (
           <span className="small text-muted flex-grow-1">— Select accommodation —</span>
@@ -111,7 +124,7 @@ const AccommodationDropdown: React.FC<{
               )}
               <div className="small">
                 <div>{acc.description || 'Accommodation option'}</div>
-                <div className="text-muted">{formatCurrency(acc.totalPrice)}</div>
+                <div className="text-muted">{formatCurrency(acc.totalPrice, acc.currency)}</div>
               </div>
             </div>
           ))}
@@ -129,12 +142,17 @@ const BudgetCalculator: React.FC<Props> = ({
   onExtraCostsChange,
   flightAssignments,
   onFlightAssignmentsChange,
+  tripMembers,
   selectedAccommodationId,
+  stays,
   onSelectedAccommodationChange,
+  onStaysChange,
   attempts,
   fixedAttemptId,
   onAttemptsChange,
-  onFixedAttemptIdChange
+  onFixedAttemptIdChange,
+  blockedIds,
+  decidedIds
 }) => {
   const snapshot = useMemo(() => {
     return calculateBudgetSnapshot({
@@ -142,38 +160,86 @@ const BudgetCalculator: React.FC<Props> = ({
       accommodations,
       flightAssignments,
       selectedAccommodationId,
+      stays,
       extraCosts,
-      settings
+      settings,
+      tripMembers
     });
-  }, [flights, accommodations, flightAssignments, selectedAccommodationId, extraCosts, settings]);
+  }, [flights, accommodations, flightAssignments, selectedAccommodationId, stays, extraCosts, settings, tripMembers]);
+
+  const dateConsistency = useMemo(
+    () => checkDateConsistency({ flights, accommodations, flightAssignments, selectedAccommodationId, stays, settings }),
+    [flights, accommodations, flightAssignments, selectedAccommodationId, stays, settings]
+  );
 
+  const selectedStays = getSelectedStays(selectedAccommodationId, stays);
+  const isSplitStay = selectedStays.length > 1;
+  const stayMembers = getStayMembers(flightAssignments, tripMembers);
+  // A stay for named members only has to house them; a whole-group stay houses everyone flying.
+  const stayChecks = resolveStays(selectedStays, accommodations).map(({ selection, accommodation }) => ({
+    accommodation,
+    capacity: checkStayCapacity(accommodation, selection.members.length || getStayTravellers(flightAssignments, flights, settings.peopleCount)),
+    allocationIssues: getAllocationIssues(accommodation, selection.members.length > 0 ? selection.members : stayMembers)
+  }));
+
+  const blockedInPlan = [
+    ...flights.filter((flight) => blockedIds.includes(flight.id) && (flightAssignments[flight.id] ?? []).length > 0).map((flight) => flight.description || 'an unnamed flight'),
+    ...selectedStays.filter((stay) => blockedIds.includes(stay.accommodationId)).map((stay) => accommodations.find((item) => item.id === stay.accommodationId)?.description || 'an unnamed stay')
+  ];
+
+  const decidedStay = accommodations.find((accommodation) => decidedIds.includes(accommodation.id));
+  const isDecidedStayMissing = decidedStay !== undefined && !selectedStays.some((stay) => stay.accommodationId === decidedStay.id);
+  const offDecisionFlights = flights.some((flight) => decidedIds.includes(flight.id))
+    ? flights.filter((flight) => !decidedIds.includes(flight.id) && (flightAssignments[flight.id] ?? []).length > 0).map((flight) => flight.description || 'an unnamed flight')
+    : [];
+
+  const baseCurrency = settings.baseCurrency;
+  const extraCostContext = { people: settings.peopleCount, nights: snapshot.tripNights };
   const savedAttempt = attempts.find((attempt) => attempt.id === fixedAttemptId) ?? attempts[0] ?? null;
   const isOverAssigned = snapshot.isOverAssigned;
   const hasUnsavedChanges = savedAttempt
     ? (
-      savedAttempt.selectedAccommodationId !== selectedAccommodationId ||
+      !areStaysEqual(getSelectedStays(savedAttempt.selectedAccommodationId, savedAttempt.stays), selectedStays) ||
       !areAssignmentsEqual(savedAttempt.flightAssignments, flightAssignments) ||
       savedAttempt.totalCost !== snapshot.totalCost
     )
     : false;
 
-  const handleAssignmentChange = (flightId: string, count: number) => {
-    if (count < 0) {
-      return;
-    }
-
+  const handleSeatsChange = (flightId: string, seats: string[]) => {
     const nextAssignments = { ...flightAssignments };
-    if (count === 0) {
+    if (seats.length === 0) {
       delete nextAssignments[flightId];
     } else {
-      nextAssignments[flightId] = count;
+      nextAssignments[flightId] = seats;
     }
 
     onFlightAssignmentsChange(nextAssignments);
   };
 
+  const handleStayChange = (index: number, updates: Partial<StaySelection>) => {
+    const base = selectedStays.length > 0 ? selectedStays : [{ accommodationId: '', members: [] }];
+    onStaysChange(base.map((stay, currentIndex) => (currentIndex === index ? { ...stay, ...updates } : stay)));
+  };
+
+  const handleStayMemberToggle = (index: number, member: string) => {
+    const members = selectedStays[index].members;
+    handleStayChange(index, { members: members.includes(member) ? members.filter((name) => name !== member) : [...members, member] });
+  };
+
+  const handleAddStay = () => {
+    const nextAccommodation = accommodations.find((accommodation) => !selectedStays.some((stay) => stay.accommodationId === accommodation.id));
+    if (!nextAccommodation) return;
+    onStaysChange([...selectedStays, { accommodationId: nextAccommodation.id, members: [] }]);
+  };
+
+  // Back to a single stay means the whole group sleeps there again.
+  const handleRemoveStay = (index: number) => {
+    const next = selectedStays.filter((_, currentIndex) => currentIndex !== index);
+    onStaysChange(next.length === 1 ? [{ ...next[0], members: [] }] : next);
+  };
+
   const handleAddExtraCost = () => {
-    onExtraCostsChange([...extraCosts, { description: '', value: 0 }]);
+    onExtraCostsChange([...extraCosts, { id: uuidv4(), description: '', value: 0, currency: baseCurrency, category: 'other', scaling: 'fixed' }]);
   };
 
   const handleExtraCostChange = (index: number, updates: Partial<ExtraCost>) => {
@@ -197,8 +263,8 @@ const BudgetCalculator: React.FC<Props> = ({
       id: createAttemptId(),
       name: `Scenario ${attempts.length + 1}`,
       createdAt: Date.now(),
-      flightAssignments: { ...flightAssignments },
-      selectedAccommodationId,
+      flightAssignments: copyAssignments(flightAssignments),
+      ...toStayState(selectedStays),
       totalCost: snapshot.totalCost,
       remaining: snapshot.remaining,
       perPersonTotal: snapshot.perPersonTotal
@@ -212,8 +278,8 @@ const BudgetCalculator: React.FC<Props> = ({
     const target = attempt ?? savedAttempt;
     if (!target) return;
 
-    onFlightAssignmentsChange({ ...target.flightAssignments });
-    onSelectedAccommodationChange(target.selectedAccommodationId);
+    onFlightAssignmentsChange(copyAssignments(target.flightAssignments));
+    onStaysChange(getSelectedStays(target.selectedAccommodationId, target.stays));
     onFixedAttemptIdChange(target.id);
   };
 
@@ -221,10 +287,9 @@ const BudgetCalculator: React.FC<Props> = ({
     if (!savedAttempt) return;
 
     const updatedAttempt: BudgetAttempt = {
-      ...savedAttempt,
+      ...withStayState(savedAttempt, selectedStays),
       createdAt: Date.now(),
-      flightAssignments: { ...flightAssignments },
-      selectedAccommodationId,
+      flightAssignments: copyAssignments(flightAssignments),
       totalCost: snapshot.totalCost,
       remaining: snapshot.remaining,
       perPersonTotal: snapshot.perPersonTotal
@@ -233,6 +298,27 @@ const BudgetCalculator: React.FC<Props> = ({
     onAttemptsChange(attempts.map((a) => a.id === savedAttempt.id ? updatedAttempt : a));
   };
 
+  const applyPlan = (plan: PlanCandidate) => {
+    onFlightAssignmentsChange(copyAssignments(plan.flightAssignments));
+    onSelectedAccommodationChange(plan.selectedAccommodationId);
+  };
+
+  const savePlan = (plan: PlanCandidate) => {
+    if (attempts.length >= 5) return;
+
+    const newAttempt: BudgetAttempt = {
+      ...plan,
+      id: createAttemptId(),
+      name: `Cheapest plan ${attempts.length + 1}`,
+      createdAt: Date.now(),
+      flightAssignments: copyAssignments(plan.flightAssignments)
+    };
+
+    onAttemptsChange([...attempts, newAttempt]);
+    onFixedAttemptIdChange(newAttempt.id);
+    applyPlan(plan);
+  };
+
   const deleteBaseline = (attemptId: string) => {
     const next = attempts.filter((a) => a.id !== attemptId);
     onAttemptsChange(next);
@@ -241,14 +327,23 @@ const BudgetCalculator: React.FC<Props> = ({
     }
   };
 
+  // Named members are dealt round-robin; without a member list the team size is split into placeholder seats.
   const distributeEvenly = () => {
     if (flights.length === 0) return;
-    const perFlight = Math.floor(settings.peopleCount / flights.length);
-    let remainder = settings.peopleCount - perFlight * flights.length;
-    const next: Record<string, number> = {};
-    for (const flight of flights) {
-      next[flight.id] = perFlight + (remainder > 0 ? 1 : 0);
-      if (remainder > 0) remainder--;
+    const next: Record<string, string[]> = {};
+    if (tripMembers.length > 0) {
+      tripMembers.forEach((member, index) => {
+        const flightId = flights[index % flights.length].id;
+        next[flightId] = [...(next[flightId] ?? []), member];
+      });
+    } else {
+      const perFlight = Math.floor(settings.peopleCount / flights.length);
+      let remainder = settings.peopleCount - perFlight * flights.length;
+      for (const flight of flights) {
+        const count = perFlight + (remainder > 0 ? 1 : 0);
+        if (remainder > 0) remainder--;
+        if (count > 0) next[flight.id] = createPlaceholderSeats(count);
+      }
     }
     onFlightAssignmentsChange(next);
   };
@@ -257,10 +352,69 @@ const BudgetCalculator: React.FC<Props> = ({
     <div className="budget-layout">
       {isOverAssigned && (
         <Alert variant="danger" className="mb-0">
-          Assigned travelers exceed team size. Reduce allocations to {settings.peopleCount}.
+          {snapshot.assignedPeopleCount > settings.peopleCount && (
+            <div>Assigned travelers exceed team size. Reduce allocations to {settings.peopleCount}.</div>
+          )}
+          {snapshot.duplicateMembers.length > 0 && (
+            <div>On more than one flight: {snapshot.duplicateMembers.join(', ')}.</div>
+          )}
+          {snapshot.unassignedMembers.length > 0 && (
+            <div>Not on any flight yet: {snapshot.unassignedMembers.join(', ')}.</div>
+          )}
         </Alert>
       )}
 
+      {snapshot.missingExchangeRates.length > 0 && (
+        <Alert variant="warning" className="mb-0">
+          No exchange rate set for {snapshot.missingExchangeRates.join(', ')} — those prices are counted 1:1 in {baseCurrency}. Add rates in Settings.
+        </Alert>
+      )}
+
+      <DateConsistencyAlert consistency={dateConsistency} onUseStay={onSelectedAccommodationChange} className="mb-0" />
+
+      {snapshot.stayIssues.length > 0 && (
+        <Alert variant="warning" className="mb-0">
+          <div className="fw-semibold mb-1">The stays don't chain up</div>
+          <ul className="mb-0 ps-3 small">
+            {snapshot.stayIssues.map((issue) => <li key={`${issue.kind}-${issue.fromId}-${issue.toId}`}>{issue.message}</li>)}
+          </ul>
+        </Alert>
+      )}
+
+      {blockedInPlan.length > 0 && (
+        <Alert variant="danger" className="mb-0">
+          This plan uses {blockedInPlan.join(', ')}, which someone can't do. Check the blockers in Flights and Stay.
+        </Alert>
+      )}
+
+      {(isDecidedStayMissing || offDecisionFlights.length > 0) && (
+        <Alert variant="info" className="mb-0 d-flex flex-wrap align-items-center justify-content-between gap-2">
+          <span>
+            {decidedStay && isDecidedStayMissing && `The group decided on ${decidedStay.description || 'an unnamed stay'}, which this plan doesn't use. `}
+            {offDecisionFlights.length > 0 && `${offDecisionFlights.join(', ')} ${offDecisionFlights.length === 1 ? 'is' : 'are'} not on the decided flight dates.`}
+          </span>
+          {decidedStay && isDecidedStayMissing && (
+            <Button size="sm" variant="outline-primary" onClick={() => onSelectedAccommodationChange(decidedStay.id)}>Use decided stay</Button>
+          )}
+        </Alert>
+      )}
+
+      {stayChecks.filter(({ capacity }) => capacity.shortfall > 0).map(({ accommodation, capacity }) => (
+        <Alert key={`capacity-${accommodation.id}`} variant="warning" className="mb-0">
+          {accommodation.description || 'The selected stay'} sleeps {capacity.capacity} but {capacity.travellers} traveler{capacity.travellers === 1 ? ' is' : 's are'} booked.
+        </Alert>
+      ))}
+
+      {stayChecks
+        .filter(({ allocationIssues }) => allocationIssues.overfullRooms.length > 0 || allocationIssues.unallocated.length > 0)
+        .map(({ accommodation, allocationIssues }) => (
+          <Alert key={`rooms-${accommodation.id}`} variant="info" className="mb-0">
+            Room plan for {accommodation.description || 'the selected stay'}:
+            {allocationIssues.overfullRooms.length > 0 && ` too many people in ${allocationIssues.overfullRooms.join(', ')}.`}
+            {allocationIssues.unallocated.length > 0 && ` no room yet for ${allocationIssues.unallocated.join(', ')}.`}
+          </Alert>
+        ))}
+
       <Card className="workspace-card budget-hero-card">
         <Card.Body>
           <div className="d-flex align-items-center justify-content-between gap-3 flex-wrap mb-4">
@@ -278,29 +432,40 @@ const BudgetCalculator: React.FC<Props> = ({
           <div className="budget-metric-grid" aria-live="polite">
             <div className="budget-metric">
               <span>Flights</span>
-              <strong>{formatCurrency(snapshot.flightCost)}</strong>
+              <strong>{formatCurrency(snapshot.flightCost, baseCurrency)}</strong>
             </div>
             <div className="budget-metric">
               <span>Stay</span>
-              <strong>{formatCurrency(snapshot.accommodationCost)}</strong>
+              <strong>{formatCurrency(snapshot.accommodationCost, baseCurrency)}</strong>
             </div>
             <div className="budget-metric">
               <span>Extras</span>
-              <strong>{formatCurrency(snapshot.extraCostsCost)}</strong>
+              <strong>{formatCurrency(snapshot.extraCostsCost, baseCurrency)}</strong>
             </div>
             <div className="budget-metric">
               <span>Total</span>
-              <strong>{formatCurrency(snapshot.totalCost)}</strong>
+              <strong>{formatCurrency(snapshot.totalCost, baseCurrency)}</strong>
             </div>
             <div className={`budget-metric ${snapshot.remaining < 0 ? 'negative' : ''}`}>
               <span>Remaining</span>
-              <strong>{formatCurrency(snapshot.remaining)}</strong>
+              <strong>{formatCurrency(snapshot.remaining, baseCurrency)}</strong>
             </div>
             <div className="budget-metric">
               <span>Per Person</span>
-              <strong>{formatCurrency(snapshot.perPersonTotal)}</strong>
+              <strong>{formatCurrency(snapshot.perPersonTotal, baseCurrency)}</strong>
             </div>
           </div>
+
+          {snapshot.extraCostsByCategory.length > 0 && (
+            <div className="extra-category-breakdown" aria-label="Extras by category">
+              {snapshot.extraCostsByCategory.map(({ category, amount }) => (
+                <span key={category}>
+                  {getCategoryLabel(category)} <strong>{formatCurrency(amount, baseCurrency)}</strong>
+                  {snapshot.extraCostsCost > 0 && ` (${Math.round((amount / snapshot.extraCostsCost) * 100)}%)`}
+                </span>
+              ))}
+            </div>
+          )}
         </Card.Body>
       </Card>
 
@@ -339,12 +504,12 @@ const BudgetCalculator: React.FC<Props> = ({
                         {isActive && <span className="badge bg-primary-subtle text-primary-emphasis">Active</span>}
                       </div>
                       <div className="small subtle-text">
-                        {formatCurrency(attempt.totalCost)} total &bull; {formatCurrency(attempt.remaining)} remaining &bull; {formatCurrency(attempt.perPersonTotal)} pp
+                        {formatCurrency(attempt.totalCost, baseCurrency)} total &bull; {formatCurrency(attempt.remaining, baseCurrency)} remaining &bull; {formatCurrency(attempt.perPersonTotal, baseCurrency)} pp
                       </div>
                       <div className="small subtle-text">Saved {new Date(attempt.createdAt).toLocaleString()}</div>
                       {delta !== 0 && (
                         <div className="small text-warning-emphasis fw-semibold">
-                          Current is {formatCurrency(Math.abs(delta))} {delta > 0 ? 'above' : 'below'}
+                          Current is {formatCurrency(Math.abs(delta), baseCurrency)} {delta > 0 ? 'above' : 'below'}
                         </div>
                       )}
                     </div>
@@ -369,6 +534,32 @@ const BudgetCalculator: React.FC<Props> = ({
         </Card.Body>
       </Card>
 
+      <BudgetCharts
+        flights={flights}
+        accommodations={accommodations}
+        flightAssignments={flightAssignments}
+        selectedAccommodationId={selectedAccommodationId}
+        stays={stays}
+        extraCosts={extraCosts}
+        settings={settings}
+        tripMembers={tripMembers}
+        attempts={attempts}
+        fixedAttemptId={fixedAttemptId}
+      />
+
+      <BudgetOptimizer
+        flights={flights}
+        accommodations={accommodations}
+        extraCosts={extraCosts}
+        settings={settings}
+        tripMembers={tripMembers}
+        blockedIds={blockedIds}
+        decidedIds={decidedIds}
+        canSave={attempts.length < 5}
+        onApply={applyPlan}
+        onSave={savePlan}
+      />
+
       <Row className="g-4">
         <Col xl={12}>
           <Card className="workspace-card h-100">
@@ -392,52 +583,137 @@ const BudgetCalculator: React.FC<Props> = ({
                   {flights.length === 0 ? (
                     <div className="empty-inline-state">No flights available yet.</div>
                   ) : (
-                    flights.map((flight) => (
-                      <div key={flight.id} className="assignment-row">
-                        <div>
-                          <div className="fw-semibold">{flight.description || 'Unnamed flight'}</div>
-                          <div className="small subtle-text">
-                            {formatCurrency(flight.pricePerPerson)} per person
-                            {(flight.arrivalTime || flight.departureTime) && (
-                              <span className="ms-2">
-                                {flight.arrivalTime && <span>✈ arrives {flight.arrivalTime}</span>}
-                                {flight.arrivalTime && flight.departureTime && <span className="mx-1">·</span>}
-                                {flight.departureTime && <span>departs {flight.departureTime}</span>}
-                              </span>
-                            )}
+                    flights.map((flight) => {
+                      const seats = flightAssignments[flight.id] ?? [];
+                      const flightLabel = flight.description || 'flight option';
+                      const arrivalTime = getDestinationArrivalTime(flight);
+                      const departureTime = getDestinationDepartureTime(flight);
+                      return (
+                        <div key={flight.id} className="assignment-block">
+                          <div className="assignment-row">
+                            <div>
+                              <div className="fw-semibold">{flight.description || 'Unnamed flight'}</div>
+                              <div className="small subtle-text">
+                                {formatCurrency(flight.pricePerPerson, flight.currency)} per person
+                                {(arrivalTime || departureTime) && (
+                                  <span className="ms-2">
+                                    {arrivalTime && <span>✈ arrives {arrivalTime}</span>}
+                                    {arrivalTime && departureTime && <span className="mx-1">·</span>}
+                                    {departureTime && <span>departs {departureTime}</span>}
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="outline-secondary"
+                              onClick={() => handleSeatsChange(flight.id, [...seats, PLACEHOLDER_SEAT])}
+                              className="d-inline-flex align-items-center gap-1"
+                              aria-label={`Add traveler to ${flightLabel}`}
+                            >
+                              <FaPlus size={10} /> Traveler
+                            </Button>
                           </div>
+                          {seats.length > 0 && (
+                            <div className="seat-list">
+                              {seats.map((seat, seatIndex) => (
+                                <InputGroup key={seatIndex} size="sm" className="seat-chip">
+                                  <Form.Select
+                                    value={seat}
+                                    onChange={(e) => handleSeatsChange(flight.id, seats.map((current, index) => (index === seatIndex ? e.target.value : current)))}
+                                    isInvalid={snapshot.duplicateMembers.includes(seat)}
+                                    aria-label={`Traveler ${seatIndex + 1} on ${flightLabel}`}
+                                  >
+                                    <option value={PLACEHOLDER_SEAT}>Unnamed traveler</option>
+                                    {(seat && !tripMembers.includes(seat) ? [...tripMembers, seat] : tripMembers).map((member) => (
+                                      <option key={member} value={member}>{member}</option>
+                                    ))}
+                                  </Form.Select>
+                                  <Button
+                                    variant="outline-secondary"
+                                    onClick={() => handleSeatsChange(flight.id, seats.filter((_, index) => index !== seatIndex))}
+                                    aria-label={`Remove traveler ${seatIndex + 1} from ${flightLabel}`}
+                                  >
+                                    <FaTimes size={10} />
+                                  </Button>
+                                </InputGroup>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                        <Form.Control
-                          type="number"
-                          size="sm"
-                          min="0"
-                          max={settings.peopleCount}
-                          value={flightAssignments[flight.id] || ''}
-                          onChange={(e) => handleAssignmentChange(flight.id, parseInt(e.target.value, 10) || 0)}
-                          isInvalid={isOverAssigned}
-                          aria-label={`People assigned to ${flight.description || 'flight option'}`}
-                          style={{ width: '92px' }}
-                        />
-                      </div>
-                    ))
+                      );
+                    })
                   )}
                 </div>
               </Form.Group>
 
               <Form.Group className="mb-4">
-                <Form.Label className="d-flex align-items-center gap-2 mb-2">
-                  <FaBed /> Accommodation
+                <Form.Label className="d-flex align-items-center justify-content-between gap-2 mb-2">
+                  <span className="d-flex align-items-center gap-2"><FaBed /> Accommodation</span>
+                  {selectedStays.length > 0 && selectedStays.length < accommodations.length && (
+                    <Button size="sm" variant="outline-secondary" onClick={handleAddStay}>
+                      <FaPlus className="me-1" /> Split stay
+                    </Button>
+                  )}
                 </Form.Label>
-                <AccommodationDropdown
-                  accommodations={accommodations}
-                  selectedId={selectedAccommodationId}
-                  onChange={onSelectedAccommodationChange}
-                />
+                {isSplitStay ? (
+                  <div className="input-surface">
+                    <div className="small subtle-text mb-3">
+                      Chain stays across the trip, or leave members unticked for a stay the whole group shares.
+                    </div>
+                    {selectedStays.map((stay, index) => (
+                      <div key={`${stay.accommodationId}-${index}`} className="assignment-block">
+                        <div className="assignment-row">
+                          <AccommodationDropdown
+                            accommodations={accommodations.filter((accommodation) => accommodation.id === stay.accommodationId || !selectedStays.some((other) => other.accommodationId === accommodation.id))}
+                            selectedId={stay.accommodationId}
+                            onChange={(accommodationId) => (accommodationId ? handleStayChange(index, { accommodationId }) : handleRemoveStay(index))}
+                          />
+                          <Button
+                            variant="link"
+                            className="text-danger p-0 d-flex align-items-center justify-content-center"
+                            onClick={() => handleRemoveStay(index)}
+                            aria-label={`Remove stay ${index + 1}`}
+                          >
+                            <FaTrash />
+                          </Button>
+                        </div>
+                        {tripMembers.length > 0 && (
+                          <div className="seat-list small">
+                            {tripMembers.map((member) => (
+                              <Form.Check
+                                key={member}
+                                inline
+                                type="checkbox"
+                                id={`stay-${index}-member-${member}`}
+                                label={member}
+                                checked={stay.members.includes(member)}
+                                onChange={() => handleStayMemberToggle(index, member)}
+                              />
+                            ))}
+                            {stay.members.length === 0 && <span className="subtle-text">Whole group</span>}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <AccommodationDropdown
+                    accommodations={accommodations}
+                    selectedId={selectedStays[0]?.accommodationId ?? ''}
+                    onChange={(accommodationId) => handleStayChange(0, { accommodationId })}
+                  />
+                )}
               </Form.Group>
 
               <Form.Group>
                 <Form.Label className="d-flex align-items-center justify-content-between gap-2 mb-2">
-                  <span>Extra costs</span>
+                  <span>
+                    Extra costs
+                    <span className="small subtle-text ms-2">
+                      Rates use {settings.peopleCount} people and {plural(snapshot.tripNights, 'night')}
+                    </span>
+                  </span>
                   <Button variant="outline-secondary" size="sm" onClick={handleAddExtraCost}>
                     <FaPlus className="me-1" /> Add cost
                   </Button>
@@ -446,38 +722,70 @@ const BudgetCalculator: React.FC<Props> = ({
                   {extraCosts.length === 0 ? (
                     <div className="empty-inline-state">No extra costs yet.</div>
                   ) : (
-                    extraCosts.map((extraCost, index) => (
-                      <div key={`extra-cost-${index}`} className="extra-row">
-                        <Form.Control
-                          size="sm"
-                          placeholder="Description"
-                          value={extraCost.description}
-                          onChange={(e) => handleExtraCostChange(index, { description: e.target.value })}
-                          aria-label={`Extra cost description ${index + 1}`}
-                        />
-                        <Form.Control
-                          size="sm"
-                          type="number"
-                          min="0"
-                          step="10"
-                          placeholder="0"
-                          value={extraCost.value || ''}
-                          onChange={(e) => {
-                            const parsedValue = Number(e.target.value);
-                            handleExtraCostChange(index, { value: Number.isFinite(parsedValue) && parsedValue >= 0 ? parsedValue : 0 });
-                          }}
-                          aria-label={`Extra cost amount ${index + 1}`}
-                        />
-                        <Button
-                          variant="link"
-                          className="text-danger p-0 d-flex align-items-center justify-content-center"
-                          onClick={() => handleRemoveExtraCost(index)}
-                          aria-label={`Remove extra cost row ${index + 1}`}
-                        >
-                          <FaTrash />
-                        </Button>
-                      </div>
-                    ))
+                    extraCosts.map((extraCost, index) => {
+                      const working = describeExtraCostScaling(extraCost, extraCostContext);
+                      return (
+                        <div key={extraCost.id} className="extra-cost-item">
+                          <div className="extra-row">
+                            <Form.Control
+                              size="sm"
+                              placeholder="Description"
+                              value={extraCost.description}
+                              onChange={(e) => handleExtraCostChange(index, { description: e.target.value })}
+                              aria-label={`Extra cost description ${index + 1}`}
+                            />
+                            <Form.Select
+                              size="sm"
+                              value={extraCost.category ?? 'other'}
+                              onChange={(e) => handleExtraCostChange(index, { category: e.target.value as ExtraCostCategory })}
+                              aria-label={`Extra cost category ${index + 1}`}
+                            >
+                              {EXTRA_COST_CATEGORIES.map((category) => <option key={category.id} value={category.id}>{category.label}</option>)}
+                            </Form.Select>
+                            <Form.Control
+                              size="sm"
+                              type="number"
+                              min="0"
+                              step="10"
+                              placeholder="0"
+                              value={extraCost.value || ''}
+                              onChange={(e) => {
+                                const parsedValue = Number(e.target.value);
+                                handleExtraCostChange(index, { value: Number.isFinite(parsedValue) && parsedValue >= 0 ? parsedValue : 0 });
+                              }}
+                              aria-label={`Extra cost amount ${index + 1}`}
+                            />
+                            <CurrencySelect
+                              value={extraCost.currency}
+                              onChange={(currency) => handleExtraCostChange(index, { currency })}
+                              currencySettings={settings}
+                              ariaLabel={`Extra cost currency ${index + 1}`}
+                            />
+                            <Form.Select
+                              size="sm"
+                              value={extraCost.scaling ?? 'fixed'}
+                              onChange={(e) => handleExtraCostChange(index, { scaling: e.target.value as ExtraCostScaling })}
+                              aria-label={`Extra cost charged ${index + 1}`}
+                            >
+                              {EXTRA_COST_SCALINGS.map((scaling) => <option key={scaling.id} value={scaling.id}>{scaling.label}</option>)}
+                            </Form.Select>
+                            <Button
+                              variant="link"
+                              className="text-danger p-0 d-flex align-items-center justify-content-center"
+                              onClick={() => handleRemoveExtraCost(index)}
+                              aria-label={`Remove extra cost row ${index + 1}`}
+                            >
+                              <FaTrash />
+                            </Button>
+                          </div>
+                          {working && (
+                            <div className="small subtle-text extra-cost-working">
+                              {formatCurrency(extraCost.value, extraCost.currency)} × {working} = {formatCurrency(getExtraCostAmount(extraCost, extraCostContext), extraCost.currency)}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })
                   )}
                 </div>
               </Form.Group>
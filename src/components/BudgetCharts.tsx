@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { Badge, Button, Card, Form } from 'react-bootstrap';
+import { FaChartPie, FaUndo } from 'react-icons/fa';
+import { Accommodation, BudgetAttempt, ExtraCost, Flight, PlannerSettings, StaySelection } from '../types';
+import { BudgetSnapshot, calculateBudgetSnapshot, formatCurrency } from '../utils/budget';
+
+interface Props {
+  flights: Flight[];
+  accommodations: Accommodation[];
+  flightAssignments: Record<string, string[]>;
+  selectedAccommodationId: string;
+  stays?: StaySelection[];
+  extraCosts: ExtraCost[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  attempts: BudgetAttempt[];
+  fixedAttemptId: string;
+}
+
+interface WhatIf {
+  peopleCount: number;
+  totalBudget: number;
+}
+
+type CostPart = 'flights' | 'stay' | 'extras';
+
+const PARTS: { id: CostPart; label: string; amount: (snapshot: BudgetSnapshot) => number }[] = [
+  { id: 'flights', label: 'Flights', amount: (snapshot) => snapshot.flightCost },
+  { id: 'stay', label: 'Stay', amount: (snapshot) => snapshot.accommodationCost },
+  { id: 'extras', label: 'Extras', amount: (snapshot) => snapshot.extraCostsCost }
+];
+
+const DONUT_RADIUS = 52;
+const DONUT_CIRCUMFERENCE = 2 * Math.PI * DONUT_RADIUS;
+
+const percent = (value: number, of: number) => (of > 0 ? Math.round((value / of) * 100) : 0);
+
+// Arcs are stroke dashes on one circle, rotated so the first part starts at 12 o'clock.
+const DonutChart: React.FC<{ snapshot: BudgetSnapshot; currency: string }> = ({ snapshot, currency }) => {
+  let offset = 0;
+  return (
+    <svg viewBox="0 0 140 140" className="budget-donut" role="img" aria-label={`Total ${formatCurrency(snapshot.totalCost, currency)}`}>
+      <circle cx="70" cy="70" r={DONUT_RADIUS} className="budget-chart-track" />
+      {snapshot.totalCost > 0 && PARTS.map((part) => {
+        const length = (part.amount(snapshot) / snapshot.totalCost) * DONUT_CIRCUMFERENCE;
+        const arc = (
+          <circle
+            key={part.id}
+            cx="70"
+            cy="70"
+            r={DONUT_RADIUS}
+            className={`budget-chart-part ${part.id}`}
+            strokeDasharray={`${length} ${DONUT_CIRCUMFERENCE - length}`}
+            strokeDashoffset={-offset}
+            transform="rotate(-90 70 70)"
+          />
+        );
+        offset += length;
+        return arc;
+      })}
+      <text x="70" y="66" textAnchor="middle" className="budget-donut-label">Total</text>
+      <text x="70" y="84" textAnchor="middle" className="budget-donut-value">{formatCurrency(snapshot.totalCost, currency)}</text>
+    </svg>
+  );
+};
+
+/** A horizontal bar of stacked parts on a 0–`scale` axis, with an optional budget marker. */
+const StackedBar: React.FC<{ parts: { id: string; value: number }[]; scale: number; marker?: number; label: string }> = ({ parts, scale, marker, label }) => {
+  let x = 0;
+  return (
+    <svg viewBox="0 0 100 10" preserveAspectRatio="none" className="budget-bar" role="img" aria-label={label}>
+      <rect x="0" y="0" width="100" height="10" className="budget-chart-track-fill" />
+      {scale > 0 && parts.map((part) => {
+        const width = (part.value / scale) * 100;
+        const rect = <rect key={part.id} x={x} y="0" width={width} height="10" className={`budget-chart-fill ${part.id}`} />;
+        x += width;
+        return rect;
+      })}
+      {marker !== undefined && scale > 0 && (
+        <line x1={(marker / scale) * 100} x2={(marker / scale) * 100} y1="0" y2="10" className="budget-bar-marker" vectorEffect="non-scaling-stroke" />
+      )}
+    </svg>
+  );
+};
+
+const BudgetCharts: React.FC<Props> = ({
+  flights,
+  accommodations,
+  flightAssignments,
+  selectedAccommodationId,
+  stays,
+  extraCosts,
+  settings,
+  tripMembers,
+  attempts,
+  fixedAttemptId
+}) => {
+  const [whatIf, setWhatIf] = useState<WhatIf | null>(null);
+  // What-if values only feed these charts; saved settings stay as they are.
+  const chartSettings = useMemo(() => (whatIf ? { ...settings, ...whatIf } : settings), [settings, whatIf]);
+  const baseCurrency = settings.baseCurrency;
+
+  const snapshot = useMemo(() => calculateBudgetSnapshot({
+    flights,
+    accommodations,
+    flightAssignments,
+    selectedAccommodationId,
+    stays,
+    extraCosts,
+    settings: chartSettings,
+    tripMembers
+  }), [flights, accommodations, flightAssignments, selectedAccommodationId, stays, extraCosts, chartSettings, tripMembers]);
+
+  const attemptSnapshots = useMemo(() => attempts.map((attempt) => ({
+    attempt,
+    snapshot: calculateBudgetSnapshot({
+      flights,
+      accommodations,
+      flightAssignments: attempt.flightAssignments,
+      selectedAccommodationId: attempt.selectedAccommodationId,
+      stays: attempt.stays,
+      extraCosts,
+      settings: chartSettings,
+      tripMembers
+    })
+  })), [attempts, flights, accommodations, extraCosts, chartSettings, tripMembers]);
+
+  const people = Math.max(1, chartSettings.peopleCount);
+  const budgetPerPerson = chartSettings.totalBudget / people;
+  const perPersonParts = PARTS.map((part) => ({ id: part.id, value: part.amount(snapshot) / people }));
+  const attemptScale = Math.max(chartSettings.totalBudget, ...attemptSnapshots.map(({ snapshot: attemptSnapshot }) => attemptSnapshot.totalCost));
+
+  const updateWhatIf = (updates: Partial<WhatIf>) => {
+    setWhatIf((current) => ({ peopleCount: settings.peopleCount, totalBudget: settings.totalBudget, ...current, ...updates }));
+  };
+
+  return (
+    <Card className="workspace-card">
+      <Card.Header className="workspace-card-header d-flex justify-content-between align-items-start gap-3 flex-wrap">
+        <div>
+          <h3 className="workspace-card-title m-0 d-flex align-items-center gap-2">
+            <FaChartPie /> Budget Breakdown
+            {whatIf && <Badge bg="warning" text="dark">What-if</Badge>}
+          </h3>
+          <p className="subtle-text mb-0">Drag the sliders to try another team size or budget; saved settings are not changed.</p>
+        </div>
+        {whatIf && (
+          <Button size="sm" variant="outline-secondary" onClick={() => setWhatIf(null)} className="d-inline-flex align-items-center gap-1">
+            <FaUndo size={10} /> Back to settings
+          </Button>
+        )}
+      </Card.Header>
+      <Card.Body>
+        <div className="what-if-controls">
+          <Form.Group controlId="what-if-people">
+            <Form.Label className="small mb-1 d-flex justify-content-between">
+              <span>Team size</span>
+              <strong>{chartSettings.peopleCount}</strong>
+            </Form.Label>
+            <Form.Range
+              min={1}
+              max={Math.max(30, settings.peopleCount * 2)}
+              value={chartSettings.peopleCount}
+              onChange={(e) => updateWhatIf({ peopleCount: Number(e.target.value) })}
+            />
+          </Form.Group>
+          <Form.Group controlId="what-if-budget">
+            <Form.Label className="small mb-1 d-flex justify-content-between">
+              <span>Total budget</span>
+              <strong>{formatCurrency(chartSettings.totalBudget, baseCurrency)}</strong>
+            </Form.Label>
+            <Form.Range
+              min={0}
+              max={Math.max(1000, settings.totalBudget * 2)}
+              step={50}
+              value={chartSettings.totalBudget}
+              onChange={(e) => updateWhatIf({ totalBudget: Number(e.target.value) })}
+            />
+          </Form.Group>
+        </div>
+
+        <div className="budget-chart-grid">
+          <div className="budget-chart-panel">
+            <div className="comparison-title mb-2">Where the money goes</div>
+            <div className="d-flex align-items-center gap-3 flex-wrap">
+              <DonutChart snapshot={snapshot} currency={baseCurrency} />
+              <ul className="budget-chart-legend">
+                {PARTS.map((part) => (
+                  <li key={part.id}>
+                    <span className={`budget-chart-swatch ${part.id}`} aria-hidden="true" />
+                    {part.label}
+                    <strong>{formatCurrency(part.amount(snapshot), baseCurrency)}</strong>
+                    <span className="subtle-text">{percent(part.amount(snapshot), snapshot.totalCost)}%</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="budget-chart-panel">
+            <div className="comparison-title mb-2">Per person</div>
+            <StackedBar
+              parts={perPersonParts}
+              scale={Math.max(snapshot.totalCost / people, budgetPerPerson)}
+              marker={budgetPerPerson}
+              label={`${formatCurrency(snapshot.totalCost / people, baseCurrency)} per person against a budget of ${formatCurrency(budgetPerPerson, baseCurrency)}`}
+            />
+            <div className="small d-flex justify-content-between mt-1">
+              <span>{formatCurrency(snapshot.totalCost / people, baseCurrency)} each</span>
+              <span className={snapshot.remaining < 0 ? 'text-danger fw-semibold' : 'subtle-text'}>
+                Budget {formatCurrency(budgetPerPerson, baseCurrency)} each · {formatCurrency(snapshot.remaining / people, baseCurrency)} left
+              </span>
+            </div>
+            <div className="small subtle-text mt-2">
+              {perPersonParts.map((part, index) => (
+                <span key={part.id}>
+                  {index > 0 && ' · '}
+                  {PARTS[index].label} {formatCurrency(part.value, baseCurrency)}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="budget-chart-panel mt-3">
+          <div className="comparison-title mb-2">Budget used by saved scenarios</div>
+          {attemptSnapshots.length === 0 ? (
+            <div className="empty-inline-state">Save a scenario to compare how much of the budget it uses.</div>
+          ) : (
+            attemptSnapshots.map(({ attempt, snapshot: attemptSnapshot }) => (
+              <div key={attempt.id} className="budget-attempt-usage">
+                <div className="small d-flex justify-content-between gap-2">
+                  <span className={attempt.id === fixedAttemptId ? 'fw-semibold' : ''}>{attempt.name}</span>
+                  <span className={attemptSnapshot.remaining < 0 ? 'text-danger fw-semibold' : 'subtle-text'}>
+                    {formatCurrency(attemptSnapshot.totalCost, baseCurrency)} · {percent(attemptSnapshot.totalCost, chartSettings.totalBudget)}% of budget
+                  </span>
+                </div>
+                <StackedBar
+                  parts={PARTS.map((part) => ({ id: part.id, value: part.amount(attemptSnapshot) }))}
+                  scale={attemptScale}
+                  marker={chartSettings.totalBudget}
+                  label={`${attempt.name}: ${formatCurrency(attemptSnapshot.totalCost, baseCurrency)} of ${formatCurrency(chartSettings.totalBudget, baseCurrency)}`}
+                />
+              </div>
+            ))
+          )}
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default BudgetCharts;
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Button, Card, Form } from 'react-bootstrap';
+import { FaFlask, FaMagic } from 'react-icons/fa';
+import { Accommodation, ExtraCost, Flight, PlannerSettings } from '../types';
+import { formatCurrency } from '../utils/budget';
+import { DEFAULT_OPTIMIZER_CONSTRAINTS, OptimizerConstraints, PlanCandidate, findCheapestPlans } from '../utils/optimizer';
+import { plural } from '../utils/dates';
+
+interface Props {
+  flights: Flight[];
+  accommodations: Accommodation[];
+  extraCosts: ExtraCost[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  blockedIds: string[];
+  decidedIds: string[];
+  canSave: boolean;
+  onApply: (plan: PlanCandidate) => void;
+  onSave: (plan: PlanCandidate) => void;
+}
+
+const PLAN_LIMITS = [1, 3, 5];
+
+const BudgetOptimizer: React.FC<Props> = ({ flights, accommodations, extraCosts, settings, tripMembers, blockedIds, decidedIds, canSave, onApply, onSave }) => {
+  const [constraints, setConstraints] = useState<OptimizerConstraints>(DEFAULT_OPTIMIZER_CONSTRAINTS);
+  const [limit, setLimit] = useState(3);
+
+  const plans = useMemo(
+    () => findCheapestPlans({ flights, accommodations, extraCosts, settings, tripMembers, constraints, limit, blockedIds, decidedIds }),
+    [flights, accommodations, extraCosts, settings, tripMembers, constraints, limit, blockedIds, decidedIds]
+  );
+
+  const updateConstraints = (updates: Partial<OptimizerConstraints>) => setConstraints((current) => ({ ...current, ...updates }));
+  const baseCurrency = settings.baseCurrency;
+
+  return (
+    <Card className="workspace-card">
+      <Card.Header className="workspace-card-header">
+        <h3 className="workspace-card-title m-0 d-flex align-items-center gap-2"><FaMagic /> Cheapest Plans</h3>
+        <p className="subtle-text mb-0">
+          Searches flight splits and stays for {settings.peopleCount} travelers.
+          {blockedIds.length > 0 && ` Leaves out ${plural(blockedIds.length, 'option')} someone can't do.`}
+          {decidedIds.length > 0 && ' Sticks to what the group decided on.'}
+        </p>
+      </Card.Header>
+      <Card.Body>
+        <div className="optimizer-controls">
+          <Form.Group controlId="optimizer-max-per-flight">
+            <Form.Label className="small mb-1">Max per flight</Form.Label>
+            <Form.Control
+              size="sm"
+              type="number"
+              min="0"
+              placeholder="No limit"
+              value={constraints.maxPerFlight || ''}
+              onChange={(e) => updateConstraints({ maxPerFlight: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+          </Form.Group>
+          <Form.Group controlId="optimizer-min-rooms">
+            <Form.Label className="small mb-1">Min rooms</Form.Label>
+            <Form.Control
+              size="sm"
+              type="number"
+              min="0"
+              placeholder="Any"
+              value={constraints.minRooms || ''}
+              onChange={(e) => updateConstraints({ minRooms: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              disabled={!constraints.requireCapacity}
+            />
+          </Form.Group>
+          <Form.Group controlId="optimizer-limit">
+            <Form.Label className="small mb-1">Plans</Form.Label>
+            <Form.Select size="sm" value={limit} onChange={(e) => setLimit(Number(e.target.value))}>
+              {PLAN_LIMITS.map((value) => <option key={value} value={value}>Top {value}</option>)}
+            </Form.Select>
+          </Form.Group>
+          <div className="d-flex flex-column justify-content-end gap-1">
+            <Form.Check
+              type="switch"
+              id="optimizer-date-overlap"
+              label="Flight and stay dates overlap"
+              checked={constraints.requireDateOverlap}
+              onChange={(e) => updateConstraints({ requireDateOverlap: e.target.checked })}
+            />
+            <Form.Check
+              type="switch"
+              id="optimizer-capacity"
+              label="Stay fits the group"
+              checked={constraints.requireCapacity}
+              onChange={(e) => updateConstraints({ requireCapacity: e.target.checked })}
+            />
+          </div>
+        </div>
+
+        {flights.length === 0 ? (
+          <div className="empty-inline-state">Add flights to search for plans.</div>
+        ) : plans.length === 0 ? (
+          <div className="empty-inline-state">No plan fits these constraints. Raise the per-flight limit or relax the stay rules.</div>
+        ) : (
+          <div className="d-flex flex-column gap-2">
+            {plans.map((plan, index) => {
+              const stay = accommodations.find((accommodation) => accommodation.id === plan.selectedAccommodationId);
+              return (
+                <section key={index} className="fixed-attempt-panel">
+                  <div>
+                    <div className="fw-semibold">
+                      #{index + 1} · {formatCurrency(plan.totalCost, baseCurrency)} total · {formatCurrency(plan.perPersonTotal, baseCurrency)} pp
+                    </div>
+                    <div className="small subtle-text">
+                      {Object.entries(plan.flightAssignments).map(([flightId, seats]) => {
+                        const flight = flights.find((item) => item.id === flightId);
+                        return `${seats.length} × ${flight?.description || 'Unnamed flight'}`;
+                      }).join(' · ')}
+                    </div>
+                    <div className="small subtle-text">{stay ? `Stay: ${stay.description || 'Unnamed stay'}` : 'No stay'}</div>
+                  </div>
+                  <div className="d-flex align-items-center gap-2 flex-wrap">
+                    <Button size="sm" variant="outline-primary" onClick={() => onApply(plan)}>Apply</Button>
+                    <Button
+                      size="sm"
+                      variant="outline-secondary"
+                      onClick={() => onSave(plan)}
+                      disabled={!canSave}
+                      title={canSave ? 'Save as a scenario' : 'Scenario limit reached'}
+                      className="d-inline-flex align-items-center gap-1"
+                    >
+                      <FaFlask size={10} /> Save
+                    </Button>
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default BudgetOptimizer;
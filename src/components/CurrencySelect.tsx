@@ -0,0 +1,32 @@
+import React from 'react';
+import { Form } from 'react-bootstrap';
+import { CurrencySettings, getAvailableCurrencies } from '../utils/currency';
+
+interface Props {
+  value: string;
+  onChange: (currency: string) => void;
+  currencySettings: CurrencySettings;
+  ariaLabel?: string;
+}
+
+const CurrencySelect: React.FC<Props> = ({ value, onChange, currencySettings, ariaLabel }) => {
+  const options = getAvailableCurrencies(currencySettings);
+  // Keep an item's own currency selectable even if its rate was removed from the table.
+  const allOptions = value && !options.includes(value) ? [...options, value] : options;
+
+  return (
+    <Form.Select
+      size="sm"
+      value={value || currencySettings.baseCurrency}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={ariaLabel ?? 'Currency'}
+      style={{ maxWidth: 84, flex: '0 0 84px' }}
+    >
+      {allOptions.map((code) => (
+        <option key={code} value={code}>{code}</option>
+      ))}
+    </Form.Select>
+  );
+};
+
+export default CurrencySelect;
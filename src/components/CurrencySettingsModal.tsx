@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Button, Form, InputGroup, Modal, Table } from 'react-bootstrap';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import { COMMON_CURRENCIES, canRebaseExchangeRates, isCurrencyCode, normalizeCurrencyCode } from '../utils/currency';
+
+interface Props {
+  show: boolean;
+  onHide: () => void;
+  baseCurrency: string;
+  exchangeRates: Record<string, number>;
+  onBaseCurrencyChange: (currency: string) => void;
+  onExchangeRatesChange: (rates: Record<string, number>) => void;
+}
+
+const CurrencySettingsModal: React.FC<Props> = ({ show, onHide, baseCurrency, exchangeRates, onBaseCurrencyChange, onExchangeRatesChange }) => {
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  const rateEntries = Object.entries(exchangeRates).sort(([a], [b]) => a.localeCompare(b));
+  const baseOptions = Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES, ...Object.keys(exchangeRates)]));
+  const parsedNewRate = Number(newRate);
+  const canAddRate = isCurrencyCode(newCode) && newCode !== baseCurrency && Number.isFinite(parsedNewRate) && parsedNewRate > 0;
+
+  const handleRateChange = (code: string, value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) return;
+    onExchangeRatesChange({ ...exchangeRates, [code]: parsed });
+  };
+
+  const handleRemoveRate = (code: string) => {
+    const { [code]: _, ...rest } = exchangeRates;
+    onExchangeRatesChange(rest);
+  };
+
+  const handleAddRate = () => {
+    if (!canAddRate) return;
+    onExchangeRatesChange({ ...exchangeRates, [newCode]: parsedNewRate });
+    setNewCode('');
+    setNewRate('');
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered>
+      <Modal.Header closeButton>
+        <Modal.Title>Currency Settings</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Form.Group className="mb-3">
+          <Form.Label className="small text-muted mb-1">Base currency</Form.Label>
+          <Form.Select size="sm" value={baseCurrency} onChange={(e) => onBaseCurrencyChange(e.target.value)} aria-label="Base currency">
+            {baseOptions.map((code) => {
+              const canSwitch = code === baseCurrency || canRebaseExchangeRates(exchangeRates, code);
+              return (
+                <option key={code} value={code} disabled={!canSwitch}>
+                  {canSwitch ? code : `${code} (add a rate first)`}
+                </option>
+              );
+            })}
+          </Form.Select>
+          <Form.Text className="text-muted">
+            Budget totals are shown in the base currency. To switch it, first add a rate for the new base below; the other rates are then re-expressed against it.
+          </Form.Text>
+        </Form.Group>
+
+        <p className="text-muted small mb-2">
+          Exchange rates: how many <strong>{baseCurrency}</strong> one unit of each currency is worth.
+        </p>
+        <Table size="sm" bordered>
+          <thead>
+            <tr>
+              <th style={{ width: '90px' }}>Currency</th>
+              <th>Rate (in {baseCurrency})</th>
+              <th style={{ width: '40px' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {rateEntries.length === 0 && (
+              <tr>
+                <td colSpan={3} className="text-muted small text-center">No exchange rates yet.</td>
+              </tr>
+            )}
+            {rateEntries.map(([code, rate]) => (
+              <tr key={`${code}-${rate}`}>
+                <td className="align-middle fw-semibold">{code}</td>
+                <td>
+                  <Form.Control
+                    size="sm"
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    defaultValue={rate}
+                    onBlur={(e) => handleRateChange(code, e.target.value)}
+                    aria-label={`Exchange rate for ${code}`}
+                  />
+                </td>
+                <td className="text-center align-middle">
+                  <Button variant="link" className="text-danger p-0" onClick={() => handleRemoveRate(code)} aria-label={`Remove ${code} rate`}>
+                    <FaTrash />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+
+        <InputGroup size="sm">
+          <Form.Control
+            placeholder="GBP"
+            value={newCode}
+            onChange={(e) => setNewCode(normalizeCurrencyCode(e.target.value))}
+            aria-label="New currency code"
+            list="currency-code-options"
+            style={{ maxWidth: 90 }}
+          />
+          <datalist id="currency-code-options">
+            {COMMON_CURRENCIES.filter((code) => code !== baseCurrency && !(code in exchangeRates)).map((code) => (
+              <option key={code} value={code} />
+            ))}
+          </datalist>
+          <Form.Control
+            type="number"
+            min="0"
+            step="0.0001"
+            placeholder={`1 ${newCode || '???'} = ? ${baseCurrency}`}
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddRate(); }}
+            aria-label="New exchange rate"
+          />
+          <Button variant="outline-primary" onClick={handleAddRate} disabled={!canAddRate}>
+            <FaPlus className="me-1" /> Add Rate
+          </Button>
+        </InputGroup>
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default CurrencySettingsModal;
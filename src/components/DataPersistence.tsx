@@ -1,35 +1,55 @@
 import React, { useRef } from 'react';
 import { Button } from 'react-bootstrap';
-import { FaFileDownload, FaFileUpload } from 'react-icons/fa';
-import { Destination } from '../types';
+import { FaFileCsv, FaFileDownload, FaFileExcel, FaFileUpload } from 'react-icons/fa';
+import { buildAccommodationsTable, buildFlightsTable, buildTripWorkbook } from '../utils/spreadsheetExport';
+import { createTripBundle, TripContent } from '../utils/tripBundle';
+import { createXlsxBlob, toCsv } from '../utils/xlsx';
 
 interface Props {
-  destinations: Destination[];
-  onImport: (data: Destination[]) => void;
+  trip: TripContent;
+  /** Receives the parsed file; returns an error message when it cannot be imported. */
+  onImport: (data: unknown, fileName: string) => string | null;
 }
 
-const DataPersistence: React.FC<Props> = ({ destinations, onImport }) => {
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const DataPersistence: React.FC<Props> = ({ trip, onImport }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = React.useState<{ kind: 'success' | 'error'; message: string } | null>(null);
+  const isEmpty = trip.destinations.length === 0 && trip.tripMembers.length === 0;
 
   const handleExport = () => {
-    if (destinations.length === 0) {
+    if (isEmpty) {
       setStatus({ kind: 'error', message: 'No data to export yet.' });
       return;
     }
 
-    const dataStr = JSON.stringify(destinations, null, 2);
-    const blob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `hackathon-plan-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    setStatus({ kind: 'success', message: 'Export complete.' });
+    const dataStr = JSON.stringify(createTripBundle(trip), null, 2);
+    downloadBlob(new Blob([dataStr], { type: 'application/json' }), `hackathon-plan-${today()}.json`);
+    setStatus({ kind: 'success', message: 'Export complete: destinations, settings, members and votes.' });
+  };
+
+  const handleExportCsv = () => {
+    // The byte-order mark makes Excel read the files as UTF-8 instead of the system code page.
+    downloadBlob(new Blob(['\ufeff', toCsv(buildFlightsTable(trip))], { type: 'text/csv' }), `hackathon-flights-${today()}.csv`);
+    downloadBlob(new Blob(['\ufeff', toCsv(buildAccommodationsTable(trip))], { type: 'text/csv' }), `hackathon-stays-${today()}.csv`);
+    setStatus({ kind: 'success', message: 'Exported flights and stays as CSV.' });
+  };
+
+  const handleExportWorkbook = () => {
+    downloadBlob(createXlsxBlob(buildTripWorkbook(trip)), `hackathon-plan-${today()}.xlsx`);
+    setStatus({ kind: 'success', message: 'Exported a workbook with a summary and one sheet per destination.' });
   };
 
   const handleImportClick = () => {
@@ -44,31 +64,13 @@ const DataPersistence: React.FC<Props> = ({ destinations, onImport }) => {
     reader.onload = (e) => {
       try {
         const json = e.target?.result as string;
-        const parsedData = JSON.parse(json);
-
-        if (Array.isArray(parsedData)) {
-            const isValid = parsedData.every((item: unknown) => {
-              if (!item || typeof item !== 'object' || Array.isArray(item)) return false;
-              const d = item as Record<string, unknown>;
-              return typeof d.id === 'string' && d.id.trim() !== ''
-                && typeof d.name === 'string' && d.name.trim() !== ''
-                && typeof d.latitude === 'number' && Number.isFinite(d.latitude)
-                && typeof d.longitude === 'number' && Number.isFinite(d.longitude);
-            });
-            if (isValid && parsedData.length > 0) {
-                onImport(parsedData);
-                setStatus({ kind: 'success', message: `Imported ${parsedData.length} destinations.` });
-            } else {
-                setStatus({ kind: 'error', message: 'Invalid file format. Each destination must have id, name, and valid coordinates.' });
-            }
-        } else {
-            setStatus({ kind: 'error', message: 'Invalid file format. Data must be an array.' });
-        }
+        const error = onImport(JSON.parse(json), file.name);
+        setStatus(error ? { kind: 'error', message: error } : null);
       } catch (error) {
         console.error('Error importing data:', error);
         setStatus({ kind: 'error', message: 'Failed to parse file. Ensure it is valid JSON.' });
       }
-      
+
       // Reset input so same file can be selected again if needed
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -86,19 +88,39 @@ const DataPersistence: React.FC<Props> = ({ destinations, onImport }) => {
         className="d-flex align-items-center gap-2"
         onClick={handleExport}
         title="Export Data"
-        disabled={destinations.length === 0}
+        disabled={isEmpty}
       >
         <FaFileDownload /> Export
       </Button>
+      <Button
+        variant="outline-secondary"
+        size="sm"
+        className="d-flex align-items-center gap-2"
+        onClick={handleExportCsv}
+        title="Export flights and stays as CSV"
+        disabled={trip.destinations.length === 0}
+      >
+        <FaFileCsv /> CSV
+      </Button>
+      <Button
+        variant="outline-secondary"
+        size="sm"
+        className="d-flex align-items-center gap-2"
+        onClick={handleExportWorkbook}
+        title="Export an Excel workbook"
+        disabled={trip.destinations.length === 0}
+      >
+        <FaFileExcel /> Excel
+      </Button>
       <Button variant="outline-secondary" size="sm" className="d-flex align-items-center gap-2" onClick={handleImportClick} title="Import Data">
         <FaFileUpload /> Import
       </Button>
       </div>
-      <input 
-        type="file" 
-        ref={fileInputRef} 
-        style={{ display: 'none' }} 
-        accept=".json" 
+      <input
+        type="file"
+        ref={fileInputRef}
+        style={{ display: 'none' }}
+        accept=".json"
         onChange={handleFileChange}
       />
       {status && (
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Alert, Button } from 'react-bootstrap';
+import { FaCalendarTimes } from 'react-icons/fa';
+import { formatCurrency } from '../utils/budget';
+import { DateConsistency } from '../utils/dateConsistency';
+import { plural } from '../utils/dates';
+
+interface Props {
+  consistency: DateConsistency;
+  onUseStay: (accommodationId: string) => void;
+  className?: string;
+}
+
+const DateConsistencyAlert: React.FC<Props> = ({ consistency, onUseStay, className }) => {
+  const { issues, extraNights, suggestion } = consistency;
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant="warning" className={`date-consistency-alert ${className ?? ''}`}>
+      <div className="d-flex align-items-center gap-2 fw-semibold mb-1">
+        <FaCalendarTimes aria-hidden="true" />
+        Flight and stay dates don't line up
+      </div>
+      <ul className="mb-2 ps-3">
+        {issues.map((issue) => <li key={`${issue.flightId}-${issue.kind}`}>{issue.message}</li>)}
+      </ul>
+      {extraNights > 0 && (
+        <div className="small mb-2">{plural(extraNights, 'extra night')} of accommodation needed across the group.</div>
+      )}
+      {suggestion ? (
+        <div className="d-flex align-items-center gap-2 flex-wrap">
+          <span className="small">
+            Suggested: <strong>{suggestion.description || 'Unnamed stay'}</strong> ({suggestion.startDate} to {suggestion.endDate}, {formatCurrency(suggestion.totalPrice, suggestion.currency)}) matches every flight.
+          </span>
+          <Button size="sm" variant="outline-dark" onClick={() => onUseStay(suggestion.id)}>Use this stay</Button>
+        </div>
+      ) : (
+        <div className="small">No other stay matches these flights; add one for the same dates or move travelers to another flight.</div>
+      )}
+    </Alert>
+  );
+};
+
+export default DateConsistencyAlert;
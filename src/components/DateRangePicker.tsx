@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Form } from 'react-bootstrap';
 import { FaCalendarAlt, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+import { formatDay } from '../utils/dates';
 
 interface Props {
   startDate: string;
@@ -14,11 +15,69 @@ interface Props {
 const DAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
 const MONTHS = ['January','February','March','April','May','June','July','August','September','October','November','December'];
 
-const toDateStr = (y: number, m: number, d: number) =>
+export const toDateStr = (y: number, m: number, d: number) =>
   `${y}-${String(m + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
 
-const formatDisplay = (s: string) =>
-  s ? new Date(s + 'T12:00:00').toLocaleDateString('en-IE', { day: 'numeric', month: 'short' }) : '—';
+const getDaysInMonth = (y: number, m: number) => new Date(y, m + 1, 0).getDate();
+const getFirstDayOfWeek = (y: number, m: number) => {
+  const d = new Date(y, m, 1).getDay();
+  return d === 0 ? 6 : d - 1; // Monday = 0
+};
+
+interface MonthGridProps {
+  year: number;
+  /** 0-based, as in `Date`. */
+  month: number;
+  onMonthChange: (year: number, month: number) => void;
+  hint?: React.ReactNode;
+  /** One cell per day of the month; week-day alignment is handled here. */
+  renderDay: (dateStr: string, day: number) => React.ReactNode;
+}
+
+/** The month header, week-day row and day grid shared by the date pickers and the availability calendar. */
+export const MonthGrid: React.FC<MonthGridProps> = ({ year, month, onMonthChange, hint, renderDay }) => {
+  const prevMonth = () => (month === 0 ? onMonthChange(year - 1, 11) : onMonthChange(year, month - 1));
+  const nextMonth = () => (month === 11 ? onMonthChange(year + 1, 0) : onMonthChange(year, month + 1));
+
+  const cells: React.ReactNode[] = [];
+  // empty leading cells
+  for (let i = 0; i < getFirstDayOfWeek(year, month); i++) {
+    cells.push(<div key={`e${i}`} />);
+  }
+  for (let d = 1; d <= getDaysInMonth(year, month); d++) {
+    const dateStr = toDateStr(year, month, d);
+    cells.push(<React.Fragment key={dateStr}>{renderDay(dateStr, d)}</React.Fragment>);
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="d-flex align-items-center justify-content-between mb-2">
+        <button type="button" onClick={prevMonth} className="btn btn-sm btn-link p-0 text-muted" aria-label="Previous month"><FaChevronLeft size={12} /></button>
+        <span style={{ fontWeight: 600, fontSize: 14 }}>{MONTHS[month]} {year}</span>
+        <button type="button" onClick={nextMonth} className="btn btn-sm btn-link p-0 text-muted" aria-label="Next month"><FaChevronRight size={12} /></button>
+      </div>
+
+      {hint && (
+        <div className="text-muted mb-2" style={{ fontSize: 11, textAlign: 'center' }}>
+          {hint}
+        </div>
+      )}
+
+      {/* Day headers */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 2, marginBottom: 4 }}>
+        {DAYS.map(d => (
+          <div key={d} style={{ textAlign: 'center', fontSize: 11, fontWeight: 600, color: 'var(--bs-secondary-color)', padding: '2px 0' }}>{d}</div>
+        ))}
+      </div>
+
+      {/* Days grid */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 2 }}>
+        {cells}
+      </div>
+    </>
+  );
+};
 
 const DateRangePicker: React.FC<Props> = ({ startDate, endDate, onChange, minDate, onComplete, label }) => {
   const today = new Date();
@@ -49,14 +108,9 @@ const DateRangePicker: React.FC<Props> = ({ startDate, endDate, onChange, minDat
     setOpen(true);
   };
 
-  const prevMonth = () => {
-    if (viewMonth === 0) { setViewMonth(11); setViewYear(y => y - 1); }
-    else setViewMonth(m => m - 1);
-  };
-
-  const nextMonth = () => {
-    if (viewMonth === 11) { setViewMonth(0); setViewYear(y => y + 1); }
-    else setViewMonth(m => m + 1);
+  const handleMonthChange = (year: number, month: number) => {
+    setViewYear(year);
+    setViewMonth(month);
   };
 
   const handleDayClick = (dateStr: string) => {
@@ -78,82 +132,61 @@ const DateRangePicker: React.FC<Props> = ({ startDate, endDate, onChange, minDat
     }
   };
 
-  const getDaysInMonth = (y: number, m: number) => new Date(y, m + 1, 0).getDate();
-  const getFirstDayOfWeek = (y: number, m: number) => {
-    const d = new Date(y, m, 1).getDay();
-    return d === 0 ? 6 : d - 1; // Monday = 0
-  };
-
-  const renderCalendar = () => {
-    const totalDays = getDaysInMonth(viewYear, viewMonth);
-    const firstDow = getFirstDayOfWeek(viewYear, viewMonth);
-    const cells: React.ReactNode[] = [];
-
-    // empty leading cells
-    for (let i = 0; i < firstDow; i++) {
-      cells.push(<div key={`e${i}`} />);
+  const renderDay = (dateStr: string, d: number) => {
+    const isMin = minDate && dateStr < minDate;
+    const isStart = dateStr === startDate;
+    const isEnd = dateStr === endDate;
+    const rangeEnd = selecting === 'end' && hovered ? hovered : endDate;
+    const inRange = startDate && rangeEnd && dateStr > startDate && dateStr < rangeEnd;
+    const isHoverEnd = selecting === 'end' && hovered === dateStr && !isEnd;
+    const isToday = dateStr === toDateStr(today.getFullYear(), today.getMonth(), today.getDate());
+
+    let bg = 'transparent';
+    let color = 'inherit';
+    let fontWeight: React.CSSProperties['fontWeight'] = 400;
+    let borderRadius = '6px';
+    let opacity = 1;
+
+    if (isStart || isEnd) {
+      bg = 'var(--bs-primary)';
+      color = '#fff';
+      fontWeight = 600;
+    } else if (isHoverEnd) {
+      bg = 'var(--bs-primary)';
+      color = '#fff';
+      fontWeight = 600;
+      opacity = 0.6;
+    } else if (inRange) {
+      bg = 'var(--bs-primary-bg-subtle)';
+      color = 'var(--bs-primary-text-emphasis)';
+      borderRadius = '0';
     }
 
-    for (let d = 1; d <= totalDays; d++) {
-      const dateStr = toDateStr(viewYear, viewMonth, d);
-      const isMin = minDate && dateStr < minDate;
-      const isStart = dateStr === startDate;
-      const isEnd = dateStr === endDate;
-      const rangeEnd = selecting === 'end' && hovered ? hovered : endDate;
-      const inRange = startDate && rangeEnd && dateStr > startDate && dateStr < rangeEnd;
-      const isHoverEnd = selecting === 'end' && hovered === dateStr && !isEnd;
-      const isToday = dateStr === toDateStr(today.getFullYear(), today.getMonth(), today.getDate());
-
-      let bg = 'transparent';
-      let color = 'inherit';
-      let fontWeight: React.CSSProperties['fontWeight'] = 400;
-      let borderRadius = '6px';
-      let opacity = 1;
-
-      if (isStart || isEnd) {
-        bg = 'var(--bs-primary)';
-        color = '#fff';
-        fontWeight = 600;
-      } else if (isHoverEnd) {
-        bg = 'var(--bs-primary)';
-        color = '#fff';
-        fontWeight = 600;
-        opacity = 0.6;
-      } else if (inRange) {
-        bg = 'var(--bs-primary-bg-subtle)';
-        color = 'var(--bs-primary-text-emphasis)';
-        borderRadius = '0';
-      }
-
-      if (isStart && (endDate || isHoverEnd || inRange)) borderRadius = '6px 0 0 6px';
-      if ((isEnd || isHoverEnd) && (startDate || inRange)) borderRadius = '0 6px 6px 0';
-
-      cells.push(
-        <div
-          key={dateStr}
-          onClick={() => !isMin && handleDayClick(dateStr)}
-          onMouseEnter={() => selecting === 'end' && setHovered(dateStr)}
-          onMouseLeave={() => setHovered(null)}
-          style={{
-            padding: '5px 2px',
-            textAlign: 'center',
-            cursor: isMin ? 'not-allowed' : 'pointer',
-            opacity: isMin ? 0.35 : opacity,
-            background: bg,
-            color,
-            fontWeight,
-            borderRadius,
-            fontSize: 'var(--font-size-sm)',
-            outline: isToday && !isStart && !isEnd ? '1px solid var(--bs-primary)' : undefined,
-            outlineOffset: '-2px',
-          }}
-        >
-          {d}
-        </div>
-      );
-    }
-
-    return cells;
+    if (isStart && (endDate || isHoverEnd || inRange)) borderRadius = '6px 0 0 6px';
+    if ((isEnd || isHoverEnd) && (startDate || inRange)) borderRadius = '0 6px 6px 0';
+
+    return (
+      <div
+        onClick={() => !isMin && handleDayClick(dateStr)}
+        onMouseEnter={() => selecting === 'end' && setHovered(dateStr)}
+        onMouseLeave={() => setHovered(null)}
+        style={{
+          padding: '5px 2px',
+          textAlign: 'center',
+          cursor: isMin ? 'not-allowed' : 'pointer',
+          opacity: isMin ? 0.35 : opacity,
+          background: bg,
+          color,
+          fontWeight,
+          borderRadius,
+          fontSize: 'var(--font-size-sm)',
+          outline: isToday && !isStart && !isEnd ? '1px solid var(--bs-primary)' : undefined,
+          outlineOffset: '-2px',
+        }}
+      >
+        {d}
+      </div>
+    );
   };
 
   const hasRange = startDate && endDate;
@@ -170,9 +203,9 @@ const DateRangePicker: React.FC<Props> = ({ startDate, endDate, onChange, minDat
       >
         <FaCalendarAlt size={12} className="text-muted flex-shrink-0" />
         {hasRange ? (
-          <span className="small">{formatDisplay(startDate)} → {formatDisplay(endDate)}</span>
+          <span className="small">{formatDay(startDate, '—')} → {formatDay(endDate, '—')}</span>
         ) : startDate ? (
-          <span className="small">{formatDisplay(startDate)} → pick end</span>
+          <span className="small">{formatDay(startDate, '—')} → pick end</span>
         ) : (
           <span className="small text-muted">Pick dates…</span>
         )}
@@ -184,35 +217,19 @@ const DateRangePicker: React.FC<Props> = ({ startDate, endDate, onChange, minDat
           background: 'var(--bs-body-bg)', border: '1px solid var(--bs-border-color)',
           borderRadius: 'var(--radius-sm)', boxShadow: 'var(--shadow-md)', padding: 16, minWidth: 280, maxWidth: 'calc(100vw - 32px)',
         }}>
-          {/* Header */}
-          <div className="d-flex align-items-center justify-content-between mb-2">
-            <button type="button" onClick={prevMonth} className="btn btn-sm btn-link p-0 text-muted"><FaChevronLeft size={12} /></button>
-            <span style={{ fontWeight: 600, fontSize: 14 }}>{MONTHS[viewMonth]} {viewYear}</span>
-            <button type="button" onClick={nextMonth} className="btn btn-sm btn-link p-0 text-muted"><FaChevronRight size={12} /></button>
-          </div>
-
-          {/* Hint */}
-          <div className="text-muted mb-2" style={{ fontSize: 11, textAlign: 'center' }}>
-            {selecting === 'start' ? 'Click to set start date' : 'Click to set end date'}
-          </div>
-
-          {/* Day headers */}
-          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 2, marginBottom: 4 }}>
-            {DAYS.map(d => (
-              <div key={d} style={{ textAlign: 'center', fontSize: 11, fontWeight: 600, color: 'var(--bs-secondary-color)', padding: '2px 0' }}>{d}</div>
-            ))}
-          </div>
-
-          {/* Days grid */}
-          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 2 }}>
-            {renderCalendar()}
-          </div>
+          <MonthGrid
+            year={viewYear}
+            month={viewMonth}
+            onMonthChange={handleMonthChange}
+            hint={selecting === 'start' ? 'Click to set start date' : 'Click to set end date'}
+            renderDay={renderDay}
+          />
 
           {/* Footer */}
           {(startDate || endDate) && (
             <div className="d-flex justify-content-between align-items-center mt-3 pt-2" style={{ borderTop: '1px solid var(--bs-border-color)' }}>
               <span className="small text-muted">
-                {startDate && endDate ? `${formatDisplay(startDate)} → ${formatDisplay(endDate)}` : startDate ? formatDisplay(startDate) : ''}
+                {startDate && endDate ? `${formatDay(startDate, '—')} → ${formatDay(endDate, '—')}` : startDate ? formatDay(startDate, '—') : ''}
               </span>
               <button type="button" className="btn btn-sm btn-link text-danger p-0" onClick={() => { onChange('', ''); setSelecting('start'); }}>Clear</button>
             </div>
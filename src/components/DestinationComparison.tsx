@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { Button, Modal, Table } from 'react-bootstrap';
+import { FaSort, FaSortDown, FaSortUp, FaTrophy } from 'react-icons/fa';
+import { Destination, PlannerSettings, TripVotes } from '../types';
+import { formatCurrency } from '../utils/budget';
+import { DestinationComparison as Comparison, compareDestinations } from '../utils/comparison';
+import { formatDay, plural } from '../utils/dates';
+
+interface Props {
+  show: boolean;
+  onHide: () => void;
+  destinations: Destination[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  votes: TripVotes;
+  onSelect: (destinationId: string) => void;
+}
+
+interface Metric {
+  id: string;
+  label: string;
+  /** Which end of the scale is the better deal; used for highlighting and the first sort click. */
+  better: 'lower' | 'higher';
+  value: (comparison: Comparison) => number | null;
+  render: (comparison: Comparison, currency: string) => React.ReactNode;
+}
+
+// A destination with nothing in its budget plan yet would otherwise "win" every cost row at 0.
+const hasPlan = (comparison: Comparison) => comparison.snapshot.totalCost > 0;
+
+const METRICS: Metric[] = [
+  {
+    id: 'cheapest-flight',
+    label: 'Cheapest flight',
+    better: 'lower',
+    value: (c) => c.cheapestFlight?.pricePerPerson ?? null,
+    render: (c, currency) => c.cheapestFlight ? (
+      <>
+        <strong>{formatCurrency(c.cheapestFlight.pricePerPerson, currency)}</strong> <span className="subtle-text">/pp</span>
+        <div className="comparison-cell-detail">{c.cheapestFlight.flight.description || 'Unnamed flight'}</div>
+      </>
+    ) : <span className="subtle-text">No flights</span>
+  },
+  {
+    id: 'cheapest-stay',
+    label: 'Cheapest stay',
+    better: 'lower',
+    value: (c) => c.cheapestStay?.totalPrice ?? null,
+    render: (c, currency) => c.cheapestStay ? (
+      <>
+        <strong>{formatCurrency(c.cheapestStay.totalPrice, currency)}</strong>
+        <div className="comparison-cell-detail">{c.cheapestStay.accommodation.description || 'Unnamed stay'}</div>
+      </>
+    ) : <span className="subtle-text">No stays</span>
+  },
+  {
+    id: 'total',
+    label: 'Plan total',
+    better: 'lower',
+    value: (c) => hasPlan(c) ? c.snapshot.totalCost : null,
+    render: (c, currency) => hasPlan(c) ? (
+      <>
+        <strong>{formatCurrency(c.snapshot.totalCost, currency)}</strong>
+        <div className="comparison-cell-detail">
+          Flights {formatCurrency(c.snapshot.flightCost, currency)} · Stay {formatCurrency(c.snapshot.accommodationCost, currency)} · Extras {formatCurrency(c.snapshot.extraCostsCost, currency)}
+        </div>
+      </>
+    ) : <span className="subtle-text">No budget plan</span>
+  },
+  {
+    id: 'per-person',
+    label: 'Per person',
+    better: 'lower',
+    value: (c) => hasPlan(c) ? c.snapshot.perPersonTotal : null,
+    render: (c, currency) => hasPlan(c) ? <strong>{formatCurrency(c.snapshot.perPersonTotal, currency)}</strong> : <span className="subtle-text">—</span>
+  },
+  {
+    id: 'remaining',
+    label: 'Remaining budget',
+    better: 'higher',
+    value: (c) => hasPlan(c) ? c.snapshot.remaining : null,
+    render: (c, currency) => hasPlan(c)
+      ? <strong className={c.snapshot.remaining < 0 ? 'text-danger' : ''}>{formatCurrency(c.snapshot.remaining, currency)}</strong>
+      : <span className="subtle-text">—</span>
+  },
+  {
+    id: 'distance',
+    label: 'Distance from Dublin',
+    better: 'lower',
+    value: (c) => c.distanceKm,
+    render: (c) => <strong>{Math.round(c.distanceKm).toLocaleString('en-IE')} km</strong>
+  },
+  {
+    id: 'votes',
+    label: 'Votes',
+    better: 'higher',
+    value: (c) => c.voteCount,
+    render: (c) => <strong>{c.voteCount}</strong>
+  },
+  {
+    id: 'dates',
+    label: 'Date coverage',
+    better: 'higher',
+    value: (c) => c.flightWindows > 0 ? c.coveredWindows : null,
+    render: (c) => (
+      <>
+        <strong>{c.dateRange ? `${formatDay(c.dateRange.start)} – ${formatDay(c.dateRange.end)}` : 'No dates'}</strong>
+        {c.flightWindows > 0 && (
+          <div className="comparison-cell-detail">
+            {c.coveredWindows} of {plural(c.flightWindows, 'flight date')} covered by a stay
+          </div>
+        )}
+      </>
+    )
+  }
+];
+
+const DestinationComparison: React.FC<Props> = ({ show, onHide, destinations, settings, tripMembers, votes, onSelect }) => {
+  const [sort, setSort] = useState<{ metricId: string; direction: 'asc' | 'desc' } | null>(null);
+
+  const comparisons = useMemo(() => compareDestinations(destinations, settings, tripMembers, votes), [destinations, settings, tripMembers, votes]);
+
+  const columns = useMemo(() => {
+    const metric = METRICS.find((item) => item.id === sort?.metricId);
+    if (!metric || !sort) return comparisons;
+    // Destinations without a value stay at the end whichever way the row is sorted.
+    return [...comparisons].sort((a, b) => {
+      const left = metric.value(a);
+      const right = metric.value(b);
+      if (left === null || right === null) return left === null ? (right === null ? 0 : 1) : -1;
+      return sort.direction === 'asc' ? left - right : right - left;
+    });
+  }, [comparisons, sort]);
+
+  const bestValues = useMemo(() => new Map(METRICS.map((metric) => {
+    const values = comparisons.map(metric.value).filter((value): value is number => value !== null);
+    const best = values.length > 1 ? (metric.better === 'lower' ? Math.min(...values) : Math.max(...values)) : null;
+    return [metric.id, best];
+  })), [comparisons]);
+
+  const handleSort = (metric: Metric) => {
+    const bestFirst = metric.better === 'lower' ? 'asc' : 'desc';
+    setSort((current) => {
+      if (current?.metricId !== metric.id) return { metricId: metric.id, direction: bestFirst };
+      if (current.direction === bestFirst) return { metricId: metric.id, direction: bestFirst === 'asc' ? 'desc' : 'asc' };
+      return null;
+    });
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl" fullscreen="lg-down" centered scrollable>
+      <Modal.Header closeButton>
+        <Modal.Title>Compare Destinations</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {destinations.length === 0 ? (
+          <div className="empty-inline-state">Add destinations to compare them side by side.</div>
+        ) : (
+          <>
+            <p className="subtle-text small mb-3">
+              Amounts in {settings.baseCurrency}, from each destination's current budget plan. Click a row to order the destinations by it; <FaTrophy className="text-warning" size={11} /> marks the best value.
+            </p>
+            <Table responsive bordered className="comparison-table align-middle mb-0">
+              <thead>
+                <tr>
+                  <th className="comparison-metric" />
+                  {columns.map(({ destination }) => (
+                    <th key={destination.id}>
+                      <Button variant="link" className="p-0 fw-semibold text-start" onClick={() => { onSelect(destination.id); onHide(); }}>
+                        {destination.name}
+                      </Button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {METRICS.map((metric) => {
+                  const best = bestValues.get(metric.id) ?? null;
+                  const isSorted = sort?.metricId === metric.id;
+                  return (
+                    <tr key={metric.id}>
+                      <th scope="row" className="comparison-metric" aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+                        <button type="button" className="comparison-sort" onClick={() => handleSort(metric)}>
+                          {metric.label}
+                          {isSorted ? (sort.direction === 'asc' ? <FaSortUp /> : <FaSortDown />) : <FaSort className="opacity-25" />}
+                        </button>
+                      </th>
+                      {columns.map((comparison) => {
+                        const value = metric.value(comparison);
+                        const isBest = best !== null && value === best;
+                        return (
+                          <td key={comparison.destination.id} className={isBest ? 'comparison-best' : undefined}>
+                            <div className="d-flex align-items-start gap-2">
+                              <div className="flex-grow-1">{metric.render(comparison, settings.baseCurrency)}</div>
+                              {isBest && <FaTrophy className="text-warning flex-shrink-0 mt-1" size={12} aria-label="Best value" />}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </Table>
+          </>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default DestinationComparison;
@@ -1,13 +1,26 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Accommodation, BudgetAttempt, Destination, ExtraCost, Flight, PlannerSettings, TripVotes } from '../types';
+import { Accommodation, BudgetAttempt, Destination, ExtraCost, Flight, FlightDraft, PlannerSettings, SettlementLedger, StaySelection, TripVotes, VoteBlocker, VoteCategory } from '../types';
 import { DEFAULT_SEARCH_LINKS } from '../utils/bookingLinks';
 import MapComponent from './MapComponent';
 import FlightManager from './FlightManager';
 import AccommodationManager from './AccommodationManager';
 import BudgetCalculator from './BudgetCalculator';
-import { Card, Button, Badge, Form, ButtonGroup } from 'react-bootstrap';
-import { FaBed, FaChevronRight, FaPlaneDeparture, FaWallet } from 'react-icons/fa';
+import SettlementLedgerCard from './SettlementLedgerCard';
+import MemberItineraryCard from './MemberItineraryCard';
+import TripProposal from './TripProposal';
+import DateConsistencyAlert from './DateConsistencyAlert';
+import { Alert, Card, Button, Badge, Form, ButtonGroup } from 'react-bootstrap';
+import { FaBan, FaBed, FaCheckCircle, FaChevronRight, FaFileAlt, FaPlaneDeparture, FaWallet } from 'react-icons/fa';
 import { calculateBudgetSnapshot, formatCurrency } from '../utils/budget';
+import { convertToBase } from '../utils/currency';
+import { checkDateConsistency } from '../utils/dateConsistency';
+import { getFlightEndDate, getFlightStartDate } from '../utils/flightSegments';
+import { STAY_PRICE_METRICS, StayPriceMetric, getCheapestStayBy, getStayMembers, getStayPrices, getStayTravellers } from '../utils/capacity';
+import { EMPTY_LEDGER } from '../utils/settlement';
+import { getSelectedStays, resolveStays, withStayState } from '../utils/stays';
+import { areVotersHidden, describeBlockers, formatFlightDateKey, getBlockedOptionIds, getBlockers, getDecision, getFlightBlockerMap, getFlightDateKey, getRevealedBlockerMap, getRevealedSupporterMap, isDecidedFlight, isVotingOpen, revealBlockers } from '../utils/voting';
+import { DateWindow } from '../utils/availability';
+import { plural } from '../utils/dates';
 
 interface Props {
   destination: Destination;
@@ -15,7 +28,11 @@ interface Props {
   onUpdate: (destinationId: string, updater: (currentDestination: Destination) => Destination) => void;
   votes: TripVotes;
   currentPerson: string;
-  onToggleVote: (category: keyof TripVotes, entityId: string) => void;
+  tripMembers: string[];
+  onToggleVote: (category: VoteCategory, entityId: string) => void;
+  onSetBlocker: (category: VoteCategory, key: string, reason: string | null) => void;
+  /** Date windows most members can make, from the availability calendar. */
+  bestWindows: DateWindow[];
   onSectionChange?: (section: string) => void;
 }
 
@@ -39,8 +56,10 @@ const getCurrentHashSection = (): WorkspaceSection => {
   return isWorkspaceSection(hash) ? hash : DEFAULT_SECTION;
 };
 
-const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, votes, currentPerson, onToggleVote, onSectionChange }) => {
+const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, votes, currentPerson, tripMembers, onToggleVote, onSetBlocker, bestWindows, onSectionChange }) => {
   const [activeSection, setActiveSection] = useState<WorkspaceSection>(() => getCurrentHashSection());
+  const [showProposal, setShowProposal] = useState(false);
+  const [stayMetric, setStayMetric] = useState<StayPriceMetric>('perPersonPerNight');
 
   useEffect(() => {
     const handleHashChange = () => {
@@ -69,16 +88,16 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
   const handleFlightsChange = (flights: Flight[]) => {
     commitUpdate((currentDestination) => {
       const validFlightIds = new Set(flights.map((flight) => flight.id));
-      const nextFlightAssignments = Object.entries(currentDestination.budgetEstimator.flightAssignments).reduce<Record<string, number>>((acc, [flightId, count]) => {
+      const nextFlightAssignments = Object.entries(currentDestination.budgetEstimator.flightAssignments).reduce<Record<string, string[]>>((acc, [flightId, seats]) => {
         if (validFlightIds.has(flightId)) {
-          acc[flightId] = count;
+          acc[flightId] = seats;
         }
         return acc;
       }, {});
       const nextAttempts = currentDestination.budgetEstimator.attempts.slice(0, 1).map((attempt) => {
-        const nextAttemptAssignments = Object.entries(attempt.flightAssignments).reduce<Record<string, number>>((acc, [flightId, count]) => {
+        const nextAttemptAssignments = Object.entries(attempt.flightAssignments).reduce<Record<string, string[]>>((acc, [flightId, seats]) => {
           if (validFlightIds.has(flightId)) {
-            acc[flightId] = count;
+            acc[flightId] = seats;
           }
           return acc;
         }, {});
@@ -87,6 +106,7 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
           accommodations: currentDestination.accommodations,
           flightAssignments: nextAttemptAssignments,
           selectedAccommodationId: attempt.selectedAccommodationId,
+          stays: attempt.stays,
           extraCosts: currentDestination.extraCosts,
           settings
         });
@@ -100,10 +120,19 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
         };
       });
       const fixedAttemptId = nextAttempts[0]?.id || '';
+      const ledger = currentDestination.ledger
+        ? {
+            ...currentDestination.ledger,
+            flightPayers: Object.fromEntries(
+              Object.entries(currentDestination.ledger.flightPayers).filter(([flightId]) => validFlightIds.has(flightId))
+            )
+          }
+        : undefined;
 
       return {
         ...currentDestination,
         flights,
+        ...(ledger ? { ledger } : {}),
         budgetEstimator: {
           ...currentDestination.budgetEstimator,
           flightAssignments: nextFlightAssignments,
@@ -116,26 +145,23 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
 
   const handleAccChange = (accommodations: Accommodation[]) => {
     commitUpdate((currentDestination) => {
-      const selectedAccommodationId = accommodations.some((accommodation) => accommodation.id === currentDestination.budgetEstimator.selectedAccommodationId)
-        ? currentDestination.budgetEstimator.selectedAccommodationId
-        : '';
       const validAccommodationIds = new Set(accommodations.map((accommodation) => accommodation.id));
+      const keepValidStays = <T extends { selectedAccommodationId: string; stays?: StaySelection[] }>(target: T) =>
+        withStayState(target, getSelectedStays(target.selectedAccommodationId, target.stays).filter((stay) => validAccommodationIds.has(stay.accommodationId)));
       const nextAttempts = currentDestination.budgetEstimator.attempts.slice(0, 1).map((attempt) => {
-        const nextAttemptAccommodationId = validAccommodationIds.has(attempt.selectedAccommodationId)
-          ? attempt.selectedAccommodationId
-          : '';
+        const nextAttempt = keepValidStays(attempt);
         const nextSnapshot = calculateBudgetSnapshot({
           flights: currentDestination.flights,
           accommodations,
           flightAssignments: attempt.flightAssignments,
-          selectedAccommodationId: nextAttemptAccommodationId,
+          selectedAccommodationId: nextAttempt.selectedAccommodationId,
+          stays: nextAttempt.stays,
           extraCosts: currentDestination.extraCosts,
           settings
         });
 
         return {
-          ...attempt,
-          selectedAccommodationId: nextAttemptAccommodationId,
+          ...nextAttempt,
           totalCost: nextSnapshot.totalCost,
           remaining: nextSnapshot.remaining,
           perPersonTotal: nextSnapshot.perPersonTotal
@@ -147,8 +173,7 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
         ...currentDestination,
         accommodations,
         budgetEstimator: {
-          ...currentDestination.budgetEstimator,
-          selectedAccommodationId,
+          ...keepValidStays(currentDestination.budgetEstimator),
           attempts: nextAttempts,
           fixedAttemptId
         }
@@ -164,7 +189,11 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
     commitUpdate((currentDestination) => ({ ...currentDestination, extraCosts }));
   };
 
-  const handleFlightAssignmentsChange = (flightAssignments: Record<string, number>) => {
+  const handleLedgerChange = (ledger: SettlementLedger) => {
+    commitUpdate((currentDestination) => ({ ...currentDestination, ledger }));
+  };
+
+  const handleFlightAssignmentsChange = (flightAssignments: Record<string, string[]>) => {
     commitUpdate((currentDestination) => ({
       ...currentDestination,
       budgetEstimator: {
@@ -174,17 +203,22 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
     }));
   };
 
+  // Picking a single stay (from a plan or a date suggestion) replaces any split.
   const handleSelectedAccommodationChange = (selectedAccommodationId: string) => {
     commitUpdate((currentDestination) => ({
       ...currentDestination,
-      budgetEstimator: {
-        ...currentDestination.budgetEstimator,
-        selectedAccommodationId
-      }
+      budgetEstimator: withStayState(currentDestination.budgetEstimator, getSelectedStays(selectedAccommodationId))
+    }));
+  };
+
+  const handleStaysChange = (stays: StaySelection[]) => {
+    commitUpdate((currentDestination) => ({
+      ...currentDestination,
+      budgetEstimator: withStayState(currentDestination.budgetEstimator, stays)
     }));
   };
 
-  const handleFlightDraftChange = (flightDraft: Partial<Flight>) => {
+  const handleFlightDraftChange = (flightDraft: FlightDraft) => {
     commitUpdate((currentDestination) => ({
       ...currentDestination,
       flightDraft
@@ -242,6 +276,7 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
       accommodations: destination.accommodations,
       flightAssignments: destination.budgetEstimator.flightAssignments,
       selectedAccommodationId: destination.budgetEstimator.selectedAccommodationId,
+      stays: destination.budgetEstimator.stays,
       extraCosts: destination.extraCosts,
       settings
     });
@@ -250,36 +285,74 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
     destination.accommodations,
     destination.budgetEstimator.flightAssignments,
     destination.budgetEstimator.selectedAccommodationId,
+    destination.budgetEstimator.stays,
     destination.extraCosts,
     settings
   ]);
 
+  // Options a member cannot do never count as the best deal: everyone being able to come comes first.
+  const blockedIds = useMemo(() => getBlockedOptionIds(votes, destination), [votes, destination]);
+  const flightBlockers = getFlightBlockerMap(votes, destination.flights);
+  const destinationBlockers = getBlockers(votes, 'destinations', destination.id);
+  const describeRevealed = (category: VoteCategory, blockers: VoteBlocker[]) => describeBlockers(revealBlockers(votes, category, blockers, currentPerson, tripMembers));
+  const blockedStays = destination.accommodations.filter((accommodation) => blockedIds.includes(accommodation.id));
+  // One flight per blocked date group is enough to name the dates.
+  const blockedFlightGroups = Array.from(new Map(
+    destination.flights.filter((flight) => flightBlockers[flight.id]).map((flight) => [getFlightDateKey(flight), flight])
+  ).values());
+
+  // The group's official choices, as far as they concern this destination.
+  const decidedDestinationId = getDecision(votes, 'destinations');
+  const decidedFlightKey = getDecision(votes, 'flights');
+  const decidedStayId = getDecision(votes, 'accommodations');
+  const decidedFlights = useMemo(() => destination.flights.filter((flight) => isDecidedFlight(votes, flight)), [destination.flights, votes]);
+  const decidedStay = destination.accommodations.find((accommodation) => accommodation.id === decidedStayId);
+  const decidedIds = useMemo(
+    () => [...decidedFlights.map((flight) => flight.id), ...(decidedStayId && destination.accommodations.some((item) => item.id === decidedStayId) ? [decidedStayId] : [])],
+    [decidedFlights, decidedStayId, destination.accommodations]
+  );
+
+  // Once flight dates are decided only flights on those dates are candidates.
   const cheapestFlight = useMemo(() => {
-    return [...destination.flights].sort((a, b) => a.pricePerPerson - b.pricePerPerson)[0];
-  }, [destination.flights]);
+    return (decidedFlights.length > 0 ? decidedFlights : destination.flights)
+      .filter((flight) => !blockedIds.includes(flight.id))
+      .sort((a, b) => convertToBase(a.pricePerPerson, a.currency, settings) - convertToBase(b.pricePerPerson, b.currency, settings))[0];
+  }, [destination.flights, decidedFlights, blockedIds, settings]);
+
+  const stayTravellers = getStayTravellers(destination.budgetEstimator.flightAssignments, destination.flights, settings.peopleCount);
 
-  const cheapestAccommodation = useMemo(() => {
-    return [...destination.accommodations].sort((a, b) => a.totalPrice - b.totalPrice)[0];
-  }, [destination.accommodations]);
+  const cheapestAccommodation = useMemo(
+    () => getCheapestStayBy(destination.accommodations.filter((accommodation) => !blockedIds.includes(accommodation.id)), stayMetric, settings, stayTravellers),
+    [destination.accommodations, blockedIds, stayMetric, settings, stayTravellers]
+  );
 
-  const selectedAccommodation = destination.accommodations.find((accommodation) => accommodation.id === destination.budgetEstimator.selectedAccommodationId);
+  const selectedStays = resolveStays(getSelectedStays(destination.budgetEstimator.selectedAccommodationId, destination.budgetEstimator.stays), destination.accommodations);
+  const fixedAttempt = destination.budgetEstimator.attempts.find((attempt) => attempt.id === destination.budgetEstimator.fixedAttemptId) ?? null;
+  const dateConsistency = useMemo(() => checkDateConsistency({
+    flights: destination.flights,
+    accommodations: destination.accommodations,
+    flightAssignments: destination.budgetEstimator.flightAssignments,
+    selectedAccommodationId: destination.budgetEstimator.selectedAccommodationId,
+    stays: destination.budgetEstimator.stays,
+    settings
+  }), [destination.flights, destination.accommodations, destination.budgetEstimator.flightAssignments, destination.budgetEstimator.selectedAccommodationId, destination.budgetEstimator.stays, settings]);
   const assignedFlightsSummary = useMemo(() => {
     const assignedFlights = Object.entries(destination.budgetEstimator.flightAssignments)
-      .map(([flightId, count]) => ({
+      .map(([flightId, seats]) => ({
         flight: destination.flights.find((flight) => flight.id === flightId),
-        count
+        count: seats.length
       }))
       .filter((entry): entry is { flight: Flight; count: number } => Boolean(entry.flight) && entry.count > 0);
 
     const assignedTravelers = assignedFlights.reduce((total, entry) => total + entry.count, 0);
-    const weightedTotal = assignedFlights.reduce((total, entry) => total + (entry.flight.pricePerPerson * entry.count), 0);
+    const weightedTotal = assignedFlights.reduce((total, entry) => total + (convertToBase(entry.flight.pricePerPerson, entry.flight.currency, settings) * entry.count), 0);
 
     return {
       assignedTravelers,
       optionCount: assignedFlights.length,
       averagePerPerson: assignedTravelers > 0 ? weightedTotal / assignedTravelers : 0
     };
-  }, [destination.budgetEstimator.flightAssignments, destination.flights]);
+  }, [destination.budgetEstimator.flightAssignments, destination.flights, settings]);
 
   return (
     <div className="destination-workspace">
@@ -291,15 +364,36 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
         <div className="destination-header-stats">
           <div className="stat-chip" aria-live="polite">
             <span className="stat-chip-label">Total</span>
-            <strong>{formatCurrency(budgetSnapshot.totalCost)}</strong>
+            <strong>{formatCurrency(budgetSnapshot.totalCost, settings.baseCurrency)}</strong>
           </div>
           <div className={`stat-chip ${budgetSnapshot.remaining < 0 ? 'negative' : ''}`} aria-live="polite">
             <span className="stat-chip-label">Remaining</span>
-            <strong>{formatCurrency(budgetSnapshot.remaining)}</strong>
+            <strong>{formatCurrency(budgetSnapshot.remaining, settings.baseCurrency)}</strong>
           </div>
+          <Button
+            variant="outline-primary"
+            size="sm"
+            className="d-inline-flex align-items-center gap-2"
+            onClick={() => setShowProposal(true)}
+            disabled={!fixedAttempt}
+            title={fixedAttempt ? `Printable proposal from "${fixedAttempt.name}"` : 'Save and fix a budget plan first'}
+          >
+            <FaFileAlt /> Generate proposal
+          </Button>
         </div>
       </header>
 
+      {showProposal && fixedAttempt && (
+        <TripProposal
+          destination={destination}
+          attempt={fixedAttempt}
+          settings={settings}
+          tripMembers={tripMembers}
+          votes={votes}
+          onClose={() => setShowProposal(false)}
+        />
+      )}
+
       <section className="workspace-nav" aria-label="Destination sections">
         <ButtonGroup aria-label="Destination page sections">
           {(Object.keys(SECTION_LABELS) as WorkspaceSection[]).map((sectionId) => (
@@ -315,6 +409,39 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
         </ButtonGroup>
       </section>
 
+      {activeSection === 'overview' && (destinationBlockers.length > 0 || blockedFlightGroups.length > 0 || blockedStays.length > 0) && (
+        <Alert variant="danger" className="small">
+          <div className="fw-semibold d-flex align-items-center gap-2 mb-1"><FaBan /> Not everyone can do these</div>
+          <ul className="mb-0 ps-3">
+            {destinationBlockers.length > 0 && <li>{destination.name}: {describeRevealed('destinations', destinationBlockers)}</li>}
+            {blockedFlightGroups.map((flight) => (
+              <li key={flight.id}>Flights {getFlightStartDate(flight) || 'undated'} to {getFlightEndDate(flight) || 'undated'}: {describeRevealed('flights', flightBlockers[flight.id])}</li>
+            ))}
+            {blockedStays.map((accommodation) => (
+              <li key={accommodation.id}>{accommodation.description || 'Unnamed stay'}: {describeRevealed('accommodations', getBlockers(votes, 'accommodations', accommodation.id))}</li>
+            ))}
+          </ul>
+          {(blockedFlightGroups.length > 0 || blockedStays.length > 0) && (
+            <div className="mt-1">Blocked flights and stays are left out of the lowest-cost picks below and the cheapest plan search.</div>
+          )}
+        </Alert>
+      )}
+
+      {activeSection === 'overview' && (decidedDestinationId || decidedFlights.length > 0 || decidedStay) && (
+        <Alert variant={decidedDestinationId && decidedDestinationId !== destination.id ? 'secondary' : 'success'} className="small">
+          <div className="fw-semibold d-flex align-items-center gap-2 mb-1"><FaCheckCircle /> Decided</div>
+          <ul className="mb-0 ps-3">
+            {decidedDestinationId && (
+              <li>{decidedDestinationId === destination.id ? `${destination.name} is the group's destination.` : `The group decided on another destination than ${destination.name}.`}</li>
+            )}
+            {decidedFlightKey && decidedFlights.length > 0 && (
+              <li>Flights {formatFlightDateKey(decidedFlightKey)}: {plural(decidedFlights.length, 'option')} here.</li>
+            )}
+            {decidedStay && <li>Stay: {decidedStay.description || 'Unnamed stay'}.</li>}
+          </ul>
+        </Alert>
+      )}
+
       {activeSection === 'overview' && (
         <div className="workspace-grid">
           <Card className="workspace-card">
@@ -382,20 +509,26 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
               ) : (
                 <div className="comparison-list">
                   <div className="comparison-item">
-                    <div className="comparison-title">Lowest Cost</div>
-                    <strong>{cheapestFlight?.description || 'Unnamed flight'}</strong>
-                    <span>{formatCurrency(cheapestFlight?.pricePerPerson || 0)} per person</span>
+                    <div className="comparison-title">{decidedFlights.length > 0 ? 'Lowest Cost On Decided Dates' : 'Lowest Cost'}</div>
+                    {cheapestFlight ? (
+                      <>
+                        <strong>{cheapestFlight.description || 'Unnamed flight'}</strong>
+                        <span>{formatCurrency(cheapestFlight.pricePerPerson, cheapestFlight.currency)} per person</span>
+                      </>
+                    ) : (
+                      <span className="subtle-text">Every flight is on dates someone can't make.</span>
+                    )}
                   </div>
                   <div className="comparison-item">
                     <div className="comparison-title">Current Split</div>
                     <strong>
                       {assignedFlightsSummary.assignedTravelers > 0
-                        ? `${assignedFlightsSummary.assignedTravelers} travelers across ${assignedFlightsSummary.optionCount} option${assignedFlightsSummary.optionCount === 1 ? '' : 's'}`
+                        ? `${assignedFlightsSummary.assignedTravelers} travelers across ${plural(assignedFlightsSummary.optionCount, 'option')}`
                         : 'No flight allocations yet'}
                     </strong>
                     <span>
                       {assignedFlightsSummary.assignedTravelers > 0
-                        ? `${formatCurrency(assignedFlightsSummary.averagePerPerson)} average per person`
+                        ? `${formatCurrency(assignedFlightsSummary.averagePerPerson, settings.baseCurrency)} average per person`
                         : 'Assign travelers in Budget to compare mixes'}
                     </span>
                   </div>
@@ -404,6 +537,15 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
             </Card.Body>
           </Card>
 
+          <MemberItineraryCard
+            members={tripMembers}
+            currentPerson={currentPerson}
+            flights={destination.flights}
+            flightAssignments={destination.budgetEstimator.flightAssignments}
+            stays={selectedStays}
+            onManage={() => updateSection('budget')}
+          />
+
           <Card className="workspace-card">
             <Card.Header className="workspace-card-header d-flex justify-content-between align-items-start gap-3">
               <div>
@@ -419,18 +561,46 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
                 <div className="empty-inline-state">No accommodation options added yet.</div>
               ) : (
                 <div className="comparison-list">
-                  <div className="comparison-item">
-                    <div className="comparison-title">Lowest Cost</div>
-                    <strong>{cheapestAccommodation?.description || 'Unnamed stay'}</strong>
-                    <span>{formatCurrency(cheapestAccommodation?.totalPrice || 0)} total</span>
+                  <ButtonGroup size="sm" aria-label="Compare stays by">
+                    {STAY_PRICE_METRICS.map((metric) => (
+                      <Button
+                        key={metric.id}
+                        variant={stayMetric === metric.id ? 'primary' : 'outline-secondary'}
+                        onClick={() => setStayMetric(metric.id)}
+                      >
+                        {metric.label}
+                      </Button>
+                    ))}
+                  </ButtonGroup>
+                  <div className="comparison-item comparison-item-best">
+                    <div className="comparison-title">Lowest {STAY_PRICE_METRICS.find((metric) => metric.id === stayMetric)?.label.toLowerCase()}</div>
+                    {cheapestAccommodation ? (
+                      <>
+                        <strong>{cheapestAccommodation.accommodation.description || 'Unnamed stay'}</strong>
+                        <span>
+                          {formatCurrency(cheapestAccommodation.price, settings.baseCurrency)}
+                          {stayMetric !== 'total' && ` · ${formatCurrency(getStayPrices(cheapestAccommodation.accommodation, settings, stayTravellers).total, settings.baseCurrency)} total`}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="subtle-text">Add stay dates{stayMetric === 'perBedPerNight' ? ' and beds' : ''} to compare by this price.</span>
+                    )}
                   </div>
+                  {decidedStay && (
+                    <div className="comparison-item">
+                      <div className="comparison-title">Decided</div>
+                      <strong>{decidedStay.description || 'Unnamed stay'}</strong>
+                      <span>{formatCurrency(getStayPrices(decidedStay, settings, stayTravellers).total, settings.baseCurrency)} total</span>
+                    </div>
+                  )}
                   <div className="comparison-item">
                     <div className="comparison-title">Selected For Budget</div>
-                    <strong>{selectedAccommodation?.description || 'Not selected yet'}</strong>
-                    <span>{formatCurrency(selectedAccommodation?.totalPrice || 0)} total</span>
+                    <strong>{selectedStays.map(({ accommodation }) => accommodation.description || 'Unnamed stay').join(' + ') || 'Not selected yet'}</strong>
+                    <span>{formatCurrency(budgetSnapshot.accommodationCost, settings.baseCurrency)} total</span>
                   </div>
                 </div>
               )}
+              <DateConsistencyAlert consistency={dateConsistency} onUseStay={handleSelectedAccommodationChange} className="mt-3 mb-0 small" />
             </Card.Body>
           </Card>
         </div>
@@ -445,9 +615,16 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
             onDraftChange={handleFlightDraftChange}
             destinationName={destination.name}
             searchLinks={settings.searchLinks || DEFAULT_SEARCH_LINKS}
-            votes={votes.flights}
+            votes={getRevealedSupporterMap(votes, 'flights', currentPerson, tripMembers)}
+            blockers={getRevealedBlockerMap(votes, 'flights', currentPerson, tripMembers)}
             currentPerson={currentPerson}
             onToggleVote={(flightId) => onToggleVote('flights', flightId)}
+            onSetBlocker={(dateKey, reason) => onSetBlocker('flights', dateKey, reason)}
+            bestWindows={bestWindows}
+            votingClosed={!isVotingOpen(votes, 'flights')}
+            votersHidden={areVotersHidden(votes, 'flights')}
+            decidedDateKey={getDecision(votes, 'flights')}
+            currencySettings={settings}
           />
         </section>
       )}
@@ -463,13 +640,22 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
             destinationName={destination.name}
             searchLinks={settings.searchLinks || DEFAULT_SEARCH_LINKS}
             peopleCount={settings.peopleCount}
-            votes={votes.accommodations}
+            travellers={stayTravellers}
+            stayMembers={getStayMembers(destination.budgetEstimator.flightAssignments, tripMembers)}
+            votes={getRevealedSupporterMap(votes, 'accommodations', currentPerson, tripMembers)}
+            blockers={getRevealedBlockerMap(votes, 'accommodations', currentPerson, tripMembers)}
             currentPerson={currentPerson}
             onToggleVote={(accId) => onToggleVote('accommodations', accId)}
+            onSetBlocker={(accId, reason) => onSetBlocker('accommodations', accId, reason)}
+            bestWindows={bestWindows}
+            votingClosed={!isVotingOpen(votes, 'accommodations')}
+            votersHidden={areVotersHidden(votes, 'accommodations')}
+            decidedId={getDecision(votes, 'accommodations')}
             customGroupLinks={destination.customGroupLinks || {}}
             onCustomGroupLinksChange={handleCustomGroupLinksChange}
             stayLinks={destination.stayLinks || []}
             onStayLinksChange={handleStayLinksChange}
+            currencySettings={settings}
           />
         </section>
       )}
@@ -484,12 +670,28 @@ const DestinationView: React.FC<Props> = ({ destination, settings, onUpdate, vot
             onExtraCostsChange={handleExtraCostsChange}
             flightAssignments={destination.budgetEstimator.flightAssignments}
             onFlightAssignmentsChange={handleFlightAssignmentsChange}
+            tripMembers={tripMembers}
             selectedAccommodationId={destination.budgetEstimator.selectedAccommodationId}
+            stays={destination.budgetEstimator.stays}
             onSelectedAccommodationChange={handleSelectedAccommodationChange}
+            onStaysChange={handleStaysChange}
             attempts={destination.budgetEstimator.attempts}
             fixedAttemptId={destination.budgetEstimator.fixedAttemptId}
             onAttemptsChange={handleAttemptsChange}
             onFixedAttemptIdChange={handleFixedAttemptIdChange}
+            blockedIds={blockedIds}
+            decidedIds={decidedIds}
+          />
+          <SettlementLedgerCard
+            attempt={fixedAttempt}
+            flights={destination.flights}
+            accommodations={destination.accommodations}
+            extraCosts={destination.extraCosts}
+            ledger={destination.ledger ?? EMPTY_LEDGER}
+            members={tripMembers}
+            settings={settings}
+            onLedgerChange={handleLedgerChange}
+            onExtraCostsChange={handleExtraCostsChange}
           />
         </section>
       )}
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FaPlaneArrival, FaPlaneDeparture } from 'react-icons/fa';
+import { FlightDirection, FlightSegment } from '../types';
+import { formatDay } from '../utils/dates';
+import { getLayoverMinutes } from '../utils/flightSegments';
+
+interface Props {
+  segments: FlightSegment[];
+}
+
+const DIRECTION_LABELS: Record<FlightDirection, string> = {
+  outbound: 'Outbound',
+  return: 'Return'
+};
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+};
+
+const FlightItinerary: React.FC<Props> = ({ segments }) => {
+  const directions = (['outbound', 'return'] as FlightDirection[])
+    .map((direction) => ({ direction, legs: segments.filter((segment) => segment.direction === direction) }))
+    .filter(({ legs }) => legs.length > 0);
+
+  if (directions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flight-itinerary">
+      {directions.map(({ direction, legs }) => (
+        <div key={direction} className="flight-itinerary-direction">
+          <div className="flight-itinerary-heading">
+            {direction === 'outbound' ? <FaPlaneDeparture size={10} /> : <FaPlaneArrival size={10} />}
+            {DIRECTION_LABELS[direction]}
+            {legs.length > 1 && <span className="subtle-text">· {legs.length - 1} stop{legs.length === 2 ? '' : 's'}</span>}
+          </div>
+          {legs.map((leg, index) => {
+            const layover = index > 0 ? getLayoverMinutes(legs[index - 1], leg) : null;
+            const flightCode = [leg.carrier, leg.flightNumber].filter(Boolean).join(' ');
+            return (
+              <React.Fragment key={index}>
+                {index > 0 && (
+                  <div className="flight-itinerary-layover">
+                    {layover !== null ? `${formatDuration(layover)} layover` : 'Connection'}{leg.from && ` in ${leg.from}`}
+                  </div>
+                )}
+                <div className="flight-itinerary-leg">
+                  <span className="fw-semibold">{leg.from || '—'} → {leg.to || '—'}</span>
+                  {(leg.date || leg.departureTime || leg.arrivalTime) && (
+                    <span>
+                      {formatDay(leg.date)}
+                      {leg.departureTime && ` ${leg.departureTime}`}
+                      {leg.arrivalTime && ` – ${leg.arrivalTime}`}
+                    </span>
+                  )}
+                  {flightCode && <span>{flightCode}</span>}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FlightItinerary;
@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { Table, Button, Form, Card, Modal, InputGroup, Row, Col, Badge } from 'react-bootstrap';
 import { v4 as uuidv4 } from 'uuid';
-import { Flight, SearchLinkTemplate } from '../types';
+import { Flight, FlightDraft, SearchLinkTemplate, VoteBlocker } from '../types';
 import {
   FaTrash,
   FaExternalLinkAlt,
@@ -21,19 +21,38 @@ import { getUrlAutofill } from '../utils/urlAutofill';
 import DateRangePicker from './DateRangePicker';
 import { formatCurrency } from '../utils/budget';
 import { getFlightSearchLinks } from '../utils/bookingLinks';
-import VoteButton from './VoteButton';
+import VoteButton, { DecidedFlag } from './VoteButton';
+import BlockerButton, { BlockedFlag } from './BlockerButton';
+import { BestDatesFlag } from './AvailabilityCalendar';
 import ClockTimePicker from './ClockTimePicker';
+import CurrencySelect from './CurrencySelect';
+import FlightItinerary from './FlightItinerary';
+import FlightSegmentsEditor from './FlightSegmentsEditor';
+import { CurrencySettings, convertToBase } from '../utils/currency';
+import { createRoundTripSegments, getFlightEndDate, getFlightOrigin, getFlightStartDate } from '../utils/flightSegments';
+import { getFlightDateKey } from '../utils/voting';
+import { DateWindow, findContainingWindow } from '../utils/availability';
 
 interface Props {
   flights: Flight[];
   onChange: (flights: Flight[]) => void;
-  draft: Partial<Flight>;
-  onDraftChange: (draft: Partial<Flight>) => void;
+  draft: FlightDraft;
+  onDraftChange: (draft: FlightDraft) => void;
   destinationName: string;
   searchLinks: SearchLinkTemplate[];
   votes: Record<string, string[]>;
+  /** Blockers per date group, keyed by `getFlightDateKey`. */
+  blockers: Record<string, VoteBlocker[]>;
   currentPerson: string;
   onToggleVote: (flightId: string) => void;
+  onSetBlocker: (dateKey: string, reason: string | null) => void;
+  /** Date windows most members can make; date groups inside one are highlighted. */
+  bestWindows: DateWindow[];
+  votingClosed: boolean;
+  votersHidden: boolean;
+  /** Date key of the flight dates the group decided on, if any. */
+  decidedDateKey: string | null;
+  currencySettings: CurrencySettings;
 }
 
 interface FlightGroup {
@@ -110,8 +129,15 @@ const FlightManager: React.FC<Props> = ({
   destinationName,
   searchLinks,
   votes,
+  blockers,
   currentPerson,
-  onToggleVote
+  onToggleVote,
+  onSetBlocker,
+  bestWindows,
+  votingClosed,
+  votersHidden,
+  decidedDateKey,
+  currencySettings
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Flight>>({});
@@ -137,7 +163,7 @@ const FlightManager: React.FC<Props> = ({
   const isDraftPriceValid = typeof draft.pricePerPerson === 'number' && draft.pricePerPerson > 0;
   const isDraftValid = isDraftLinkValid && isDraftPriceValid;
 
-  const setDraftValue = (updates: Partial<Flight>) => {
+  const setDraftValue = (updates: FlightDraft) => {
     onDraftChange({ ...draft, ...updates });
   };
 
@@ -151,17 +177,22 @@ const FlightManager: React.FC<Props> = ({
       id: uuidv4(),
       link: draft.link,
       description: draft.description || '',
-      startDate: draft.startDate || '',
-      endDate: draft.endDate || '',
-      departureTime: draft.departureTime || '',
-      arrivalTime: draft.arrivalTime || '',
-      origin: draft.origin || 'Dublin',
+      segments: createRoundTripSegments({
+        origin: draft.origin || 'Dublin',
+        destination: destinationName,
+        startDate: draft.startDate || '',
+        endDate: draft.endDate || '',
+        arrivalTime: draft.arrivalTime || '',
+        departureTime: draft.departureTime || ''
+      }),
       pricePerPerson: Number(draft.pricePerPerson),
+      currency: draft.currency || currencySettings.baseCurrency,
       createdAt: Date.now()
     };
 
     onChange([...flights, flight]);
-    onDraftChange({});
+    // Keep the chosen currency so consecutive entries from the same provider don't need it re-selected.
+    onDraftChange(draft.currency ? { currency: draft.currency } : {});
     setAttemptedAdd(false);
 
     if (focusNext) {
@@ -189,7 +220,7 @@ const FlightManager: React.FC<Props> = ({
 
   const startEdit = (flight: Flight) => {
     setEditingId(flight.id);
-    setEditForm(flight);
+    setEditForm({ ...flight, segments: flight.segments.map((segment) => ({ ...segment })) });
   };
 
   const cancelEdit = () => {
@@ -258,11 +289,15 @@ const FlightManager: React.FC<Props> = ({
       description: row.description,
       pricePerPerson: row.pricePerPerson,
       link: row.link,
-      startDate: row.startDate,
-      endDate: row.endDate,
-      departureTime: '',
-      arrivalTime: '',
-      origin: '',
+      segments: createRoundTripSegments({
+        origin: '',
+        destination: destinationName,
+        startDate: row.startDate,
+        endDate: row.endDate,
+        arrivalTime: '',
+        departureTime: ''
+      }),
+      currency: draft.currency || currencySettings.baseCurrency,
       createdAt: Date.now()
     }));
 
@@ -280,7 +315,7 @@ const FlightManager: React.FC<Props> = ({
       const matchesQuery = query.length === 0
         || flight.description.toLowerCase().includes(query)
         || flight.link.toLowerCase().includes(query);
-      const matchesPrice = !hasMaxPrice || flight.pricePerPerson <= parsedMaxPrice;
+      const matchesPrice = !hasMaxPrice || convertToBase(flight.pricePerPerson, flight.currency, currencySettings) <= parsedMaxPrice;
       return matchesQuery && matchesPrice;
     });
 
@@ -288,12 +323,12 @@ const FlightManager: React.FC<Props> = ({
       const direction = sortDirection === 'asc' ? 1 : -1;
 
       if (sortBy === 'price') {
-        return (a.pricePerPerson - b.pricePerPerson) * direction;
+        return (convertToBase(a.pricePerPerson, a.currency, currencySettings) - convertToBase(b.pricePerPerson, b.currency, currencySettings)) * direction;
       }
 
       if (sortBy === 'startDate') {
-        const aDate = a.startDate || '9999-12-31';
-        const bDate = b.startDate || '9999-12-31';
+        const aDate = getFlightStartDate(a) || '9999-12-31';
+        const bDate = getFlightStartDate(b) || '9999-12-31';
         return aDate.localeCompare(bDate) * direction;
       }
 
@@ -305,13 +340,13 @@ const FlightManager: React.FC<Props> = ({
 
       return (a.description || '').localeCompare(b.description || '') * direction;
     });
-  }, [flights, maxPrice, searchQuery, sortBy, sortDirection]);
+  }, [flights, maxPrice, searchQuery, sortBy, sortDirection, currencySettings]);
 
   const flightGroups = useMemo((): FlightGroup[] => {
     if (!groupByDate) return [];
     const groupMap = new Map<string, Flight[]>();
     for (const flight of displayedFlights) {
-      const key = `${flight.startDate || 'no-start'}|${flight.endDate || 'no-end'}`;
+      const key = getFlightDateKey(flight);
       const existing = groupMap.get(key);
       if (existing) {
         existing.push(flight);
@@ -320,14 +355,13 @@ const FlightManager: React.FC<Props> = ({
       }
     }
     return Array.from(groupMap.entries()).map(([key, groupFlights]) => {
-      const first = groupFlights[0];
-      const start = first.startDate || 'No start date';
-      const end = first.endDate || 'No end date';
+      const startDate = getFlightStartDate(groupFlights[0]);
+      const endDate = getFlightEndDate(groupFlights[0]);
       return {
         key,
-        label: `${start} to ${end}`,
-        startDate: first.startDate,
-        endDate: first.endDate,
+        label: `${startDate || 'No start date'} to ${endDate || 'No end date'}`,
+        startDate,
+        endDate,
         flights: groupFlights
       };
     });
@@ -356,7 +390,7 @@ const FlightManager: React.FC<Props> = ({
             </Button>
           </div>
 
-          <div className="subtle-text mb-2">Quick add (Enter to save, Cmd/Ctrl + Enter to save and keep typing).</div>
+          <div className="subtle-text mb-2">Quick add (Enter to save, Cmd/Ctrl + Enter to save and keep typing). Edit a saved option to add layovers, carriers and flight numbers.</div>
           <div className="manager-quick-add-grid">
             <Form.Group>
               <Form.Label className="small text-muted mb-1">Description</Form.Label>
@@ -421,20 +455,27 @@ const FlightManager: React.FC<Props> = ({
 
             <Form.Group>
               <Form.Label className="small text-muted mb-1">Price / Person</Form.Label>
-              <Form.Control
-                ref={quickAddPriceRef}
-                size="sm"
-                type="number"
-                inputMode="numeric"
-                step="10"
-                min="0"
-                placeholder="0"
-                value={draft.pricePerPerson ?? ''}
-                isInvalid={attemptedAdd && !isDraftPriceValid}
-                onChange={(e) => setDraftValue({ pricePerPerson: e.target.value === '' ? undefined : Number(e.target.value) })}
-                onKeyDown={handleQuickAddKeyDown}
-                aria-label="Flight price per person"
-              />
+              <InputGroup size="sm">
+                <Form.Control
+                  ref={quickAddPriceRef}
+                  type="number"
+                  inputMode="numeric"
+                  step="10"
+                  min="0"
+                  placeholder="0"
+                  value={draft.pricePerPerson ?? ''}
+                  isInvalid={attemptedAdd && !isDraftPriceValid}
+                  onChange={(e) => setDraftValue({ pricePerPerson: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  onKeyDown={handleQuickAddKeyDown}
+                  aria-label="Flight price per person"
+                />
+                <CurrencySelect
+                  value={draft.currency || currencySettings.baseCurrency}
+                  onChange={(currency) => setDraftValue({ currency })}
+                  currencySettings={currencySettings}
+                  ariaLabel="Flight price currency"
+                />
+              </InputGroup>
             </Form.Group>
           </div>
 
@@ -463,7 +504,7 @@ const FlightManager: React.FC<Props> = ({
                 />
               </Col>
               <Col md={3}>
-                <Form.Label className="small text-muted mb-1">Max price</Form.Label>
+                <Form.Label className="small text-muted mb-1">Max price ({currencySettings.baseCurrency})</Form.Label>
                 <InputGroup size="sm">
                   <InputGroup.Text><FaFilter /></InputGroup.Text>
                   <Form.Control
@@ -519,21 +560,26 @@ const FlightManager: React.FC<Props> = ({
                   {flightGroups.map((group) => {
                     const groupSearchLinks = getFlightSearchLinks(
                       searchLinks,
-                      group.flights[0]?.origin || '',
+                      group.flights[0] ? getFlightOrigin(group.flights[0]) : '',
                       destinationName,
                       group.startDate,
                       group.endDate
                     );
+                    const bestWindow = findContainingWindow(bestWindows, group.startDate, group.endDate);
                     return (
                       <React.Fragment key={group.key}>
-                        <tr className="table-light">
+                        <tr className={`table-light${bestWindow ? ' best-window-group' : ''}${group.key === decidedDateKey ? ' decided-group' : ''}`}>
                           <td colSpan={3}>
                             <div className="d-flex flex-wrap align-items-center justify-content-between gap-2 py-1">
                               <div className="d-flex align-items-center gap-2">
                                 <strong>{group.label}</strong>
                                 <Badge bg="secondary" pill>{group.flights.length}</Badge>
+                                {group.key === decidedDateKey && <DecidedFlag />}
+                                <BestDatesFlag window={bestWindow} />
+                                <BlockedFlag blockers={blockers[group.key] || []} />
                               </div>
-                              <div className="d-flex gap-2">
+                              <div className="d-flex align-items-center gap-2">
+                                <BlockerButton blockers={blockers[group.key] || []} currentPerson={currentPerson} subject="these dates" onChange={(reason) => onSetBlocker(group.key, reason)} closed={votingClosed} />
                                 {groupSearchLinks.map((sl) => (
                                   <a key={sl.label} href={sl.url} target="_blank" rel="noreferrer" className="btn btn-outline-warning btn-sm d-inline-flex align-items-center gap-1" title="Link may not pre-fill correctly — work in progress">
                                     <FaSearch size={10} /> {sl.label} (beta)
@@ -550,22 +596,12 @@ const FlightManager: React.FC<Props> = ({
                           </td>
                         </tr>
                         {group.flights.map((flight) => (
-                          <tr key={flight.id}>
+                          <tr key={flight.id} className={blockers[group.key]?.length ? 'option-blocked' : undefined}>
                             <td>
                               {editingId === flight.id ? (
                                 <div className="d-flex flex-column gap-2">
                                   <Form.Control size="sm" placeholder="Description" value={editForm.description || ''} onChange={(e) => setEditForm({ ...editForm, description: e.target.value })} />
-                                  <Form.Control size="sm" placeholder="Origin (e.g. Dublin)" value={editForm.origin || ''} onChange={(e) => setEditForm({ ...editForm, origin: e.target.value })} />
-                                  <DateRangePicker
-                                    startDate={editForm.startDate || ''}
-                                    endDate={editForm.endDate || ''}
-                                    minDate={minDate}
-                                    onChange={(start, end) => setEditForm({ ...editForm, startDate: start, endDate: end })}
-                                  />
-                                  <div className="d-flex gap-2">
-                                    <ClockTimePicker label="Arrives" value={editForm.arrivalTime || ''} onChange={(t) => setEditForm({ ...editForm, arrivalTime: t })} />
-                                    <ClockTimePicker label="Departs" value={editForm.departureTime || ''} onChange={(t) => setEditForm({ ...editForm, departureTime: t })} />
-                                  </div>
+                                  <FlightSegmentsEditor segments={editForm.segments || []} onChange={(segments) => setEditForm({ ...editForm, segments })} />
                                   <div className="d-flex gap-2 align-items-center">
                                     <Form.Control size="sm" placeholder="Link" value={editForm.link || ''} onChange={(e) => setEditForm({ ...editForm, link: e.target.value })} />
                                     {editForm.link && (
@@ -576,12 +612,7 @@ const FlightManager: React.FC<Props> = ({
                               ) : (
                                 <>
                                   <div className="fw-semibold">{flight.description || 'Flight Option'}</div>
-                                  {flight.origin && <div className="small subtle-text">From: {flight.origin}</div>}
-                                  <div className="small subtle-text my-1">
-                                    {flight.arrivalTime && `Arrives at ${flight.arrivalTime}`}
-                                    {flight.arrivalTime && flight.departureTime && ' · '}
-                                    {flight.departureTime && `Departs at ${flight.departureTime}`}
-                                  </div>
+                                  <FlightItinerary segments={flight.segments} />
                                   <div className="d-flex flex-wrap align-items-center gap-2">
                                     <a href={flight.link} target="_blank" rel="noreferrer" className="small text-decoration-none d-inline-flex align-items-center gap-1">
                                       View Deal <FaExternalLinkAlt size={10} />
@@ -598,9 +629,17 @@ const FlightManager: React.FC<Props> = ({
                             </td>
                             <td style={{ verticalAlign: editingId === flight.id ? 'top' : 'middle' }}>
                               {editingId === flight.id ? (
-                                <Form.Control size="sm" type="number" step="10" min="0" value={editForm.pricePerPerson} onChange={(e) => setEditForm({ ...editForm, pricePerPerson: Number(e.target.value) })} />
+                                <div className="d-flex flex-column gap-1">
+                                  <Form.Control size="sm" type="number" step="10" min="0" value={editForm.pricePerPerson} onChange={(e) => setEditForm({ ...editForm, pricePerPerson: Number(e.target.value) })} />
+                                  <CurrencySelect value={editForm.currency || currencySettings.baseCurrency} onChange={(currency) => setEditForm({ ...editForm, currency })} currencySettings={currencySettings} ariaLabel="Flight price currency" />
+                                </div>
                               ) : (
-                                <strong>{formatCurrency(flight.pricePerPerson)}</strong>
+                                <>
+                                  <strong>{formatCurrency(flight.pricePerPerson, flight.currency)}</strong>
+                                  {flight.currency !== currencySettings.baseCurrency && (
+                                    <div className="small subtle-text">≈ {formatCurrency(convertToBase(flight.pricePerPerson, flight.currency, currencySettings), currencySettings.baseCurrency)}</div>
+                                  )}
+                                </>
                               )}
                             </td>
                             <td className="text-end" style={{ verticalAlign: editingId === flight.id ? 'top' : 'middle' }}>
@@ -611,7 +650,7 @@ const FlightManager: React.FC<Props> = ({
                                 </div>
                               ) : (
                                 <div className="d-flex align-items-center gap-2 justify-content-end">
-                                  <VoteButton voters={votes[flight.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(flight.id)} />
+                                  <VoteButton voters={votes[flight.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(flight.id)} closed={votingClosed} secret={votersHidden} />
                                   <Button variant="link" className="text-secondary p-0" onClick={() => startEdit(flight)} aria-label="Edit flight option"><FaEdit /></Button>
                                   <Button variant="link" className="text-secondary p-0" onClick={() => handleDuplicate(flight)} aria-label="Duplicate flight option"><FaClone /></Button>
                                   <Button variant="link" className="text-danger p-0" onClick={() => handleRemove(flight.id)} aria-label="Remove flight option"><FaTrash /></Button>
@@ -626,22 +665,12 @@ const FlightManager: React.FC<Props> = ({
                 </>
               ) : (
                 displayedFlights.map((flight) => (
-                  <tr key={flight.id}>
+                  <tr key={flight.id} className={blockers[getFlightDateKey(flight)]?.length ? 'option-blocked' : undefined}>
                     <td>
                       {editingId === flight.id ? (
                         <div className="d-flex flex-column gap-2">
                           <Form.Control size="sm" placeholder="Description" value={editForm.description || ''} onChange={(e) => setEditForm({ ...editForm, description: e.target.value })} />
-                          <Form.Control size="sm" placeholder="Origin (e.g. Dublin)" value={editForm.origin || ''} onChange={(e) => setEditForm({ ...editForm, origin: e.target.value })} />
-                          <DateRangePicker
-                            startDate={editForm.startDate || ''}
-                            endDate={editForm.endDate || ''}
-                            minDate={minDate}
-                            onChange={(start, end) => setEditForm({ ...editForm, startDate: start, endDate: end })}
-                          />
-                          <div className="d-flex gap-2">
-                            <Form.Control size="sm" type="time" value={editForm.arrivalTime || '12:00'} onChange={(e) => setEditForm({ ...editForm, arrivalTime: e.target.value })} />
-                            <Form.Control size="sm" type="time" value={editForm.departureTime || '12:00'} onChange={(e) => setEditForm({ ...editForm, departureTime: e.target.value })} />
-                          </div>
+                          <FlightSegmentsEditor segments={editForm.segments || []} onChange={(segments) => setEditForm({ ...editForm, segments })} />
                           <div className="d-flex gap-2 align-items-center">
                             <Form.Control size="sm" placeholder="Link" value={editForm.link || ''} onChange={(e) => setEditForm({ ...editForm, link: e.target.value })} />
                             {editForm.link && (
@@ -652,14 +681,7 @@ const FlightManager: React.FC<Props> = ({
                       ) : (
                         <>
                           <div className="fw-semibold">{flight.description || 'Flight Option'}</div>
-                          {flight.origin && <div className="small subtle-text">From: {flight.origin}</div>}
-                          <div className="small subtle-text my-1">
-                            {flight.startDate || 'No start date'}
-                            {flight.arrivalTime && ` (arrives ${flight.arrivalTime})`}
-                            <span className="mx-1">to</span>
-                            {flight.endDate || 'No end date'}
-                            {flight.departureTime && ` (departs ${flight.departureTime})`}
-                          </div>
+                          <FlightItinerary segments={flight.segments} />
                           <div className="d-flex flex-wrap align-items-center gap-2">
                             <a href={flight.link} target="_blank" rel="noreferrer" className="small text-decoration-none d-inline-flex align-items-center gap-1">
                               View Deal <FaExternalLinkAlt size={10} />
@@ -667,15 +689,25 @@ const FlightManager: React.FC<Props> = ({
                             {flight.createdAt && (
                               <span className="small subtle-text" title={new Date(flight.createdAt).toLocaleString()}>Added {formatTimeAgo(flight.createdAt)}</span>
                             )}
+                            {getFlightDateKey(flight) === decidedDateKey && <DecidedFlag />}
+                            <BlockedFlag blockers={blockers[getFlightDateKey(flight)] || []} />
                           </div>
                         </>
                       )}
                     </td>
                     <td style={{ verticalAlign: editingId === flight.id ? 'top' : 'middle' }}>
                       {editingId === flight.id ? (
-                        <Form.Control size="sm" type="number" step="10" min="0" value={editForm.pricePerPerson} onChange={(e) => setEditForm({ ...editForm, pricePerPerson: Number(e.target.value) })} />
+                        <div className="d-flex flex-column gap-1">
+                          <Form.Control size="sm" type="number" step="10" min="0" value={editForm.pricePerPerson} onChange={(e) => setEditForm({ ...editForm, pricePerPerson: Number(e.target.value) })} />
+                          <CurrencySelect value={editForm.currency || currencySettings.baseCurrency} onChange={(currency) => setEditForm({ ...editForm, currency })} currencySettings={currencySettings} ariaLabel="Flight price currency" />
+                        </div>
                       ) : (
-                        <strong>{formatCurrency(flight.pricePerPerson)}</strong>
+                        <>
+                          <strong>{formatCurrency(flight.pricePerPerson, flight.currency)}</strong>
+                          {flight.currency !== currencySettings.baseCurrency && (
+                            <div className="small subtle-text">≈ {formatCurrency(convertToBase(flight.pricePerPerson, flight.currency, currencySettings), currencySettings.baseCurrency)}</div>
+                          )}
+                        </>
                       )}
                     </td>
                     <td className="text-end" style={{ verticalAlign: editingId === flight.id ? 'top' : 'middle' }}>
@@ -686,7 +718,8 @@ const FlightManager: React.FC<Props> = ({
                         </div>
                       ) : (
                         <div className="d-flex align-items-center gap-2 justify-content-end">
-                          <VoteButton voters={votes[flight.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(flight.id)} />
+                          <VoteButton voters={votes[flight.id] || []} currentPerson={currentPerson} onToggle={() => onToggleVote(flight.id)} closed={votingClosed} secret={votersHidden} />
+                          <BlockerButton blockers={blockers[getFlightDateKey(flight)] || []} currentPerson={currentPerson} subject="these dates" onChange={(reason) => onSetBlocker(getFlightDateKey(flight), reason)} closed={votingClosed} />
                           <Button variant="link" className="text-secondary p-0" onClick={() => startEdit(flight)} aria-label="Edit flight option"><FaEdit /></Button>
                           <Button variant="link" className="text-secondary p-0" onClick={() => handleDuplicate(flight)} aria-label="Duplicate flight option"><FaClone /></Button>
                           <Button variant="link" className="text-danger p-0" onClick={() => handleRemove(flight.id)} aria-label="Remove flight option"><FaTrash /></Button>
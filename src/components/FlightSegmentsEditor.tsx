@@ -0,0 +1,71 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { FaPlus, FaTimes } from 'react-icons/fa';
+import { FlightDirection, FlightSegment } from '../types';
+import { createSegment, sortSegments } from '../utils/flightSegments';
+
+interface Props {
+  segments: FlightSegment[];
+  onChange: (segments: FlightSegment[]) => void;
+}
+
+const FlightSegmentsEditor: React.FC<Props> = ({ segments, onChange }) => {
+  const updateSegment = (index: number, updates: Partial<FlightSegment>) => {
+    onChange(sortSegments(segments.map((segment, currentIndex) => (currentIndex === index ? { ...segment, ...updates } : segment))));
+  };
+
+  // A new leg continues from where the previous leg of the same direction landed.
+  const addSegment = (direction: FlightDirection) => {
+    const previous = segments.filter((segment) => segment.direction === direction).slice(-1)[0];
+    const next = createSegment(direction, previous ? { from: previous.to, date: previous.date, carrier: previous.carrier } : {});
+    onChange(sortSegments([...segments, next]));
+  };
+
+  const removeSegment = (index: number) => {
+    onChange(segments.filter((_, currentIndex) => currentIndex !== index));
+  };
+
+  return (
+    <div className="segment-editor">
+      {segments.map((segment, index) => (
+        <div key={index} className="segment-editor-row">
+          <Form.Select
+            size="sm"
+            value={segment.direction}
+            onChange={(e) => updateSegment(index, { direction: e.target.value as FlightDirection })}
+            aria-label={`Leg ${index + 1} direction`}
+          >
+            <option value="outbound">Outbound</option>
+            <option value="return">Return</option>
+          </Form.Select>
+          <Form.Control size="sm" placeholder="From" value={segment.from} onChange={(e) => updateSegment(index, { from: e.target.value })} aria-label={`Leg ${index + 1} from`} />
+          <Form.Control size="sm" placeholder="To" value={segment.to} onChange={(e) => updateSegment(index, { to: e.target.value })} aria-label={`Leg ${index + 1} to`} />
+          <Form.Control size="sm" type="date" value={segment.date} onChange={(e) => updateSegment(index, { date: e.target.value })} aria-label={`Leg ${index + 1} date`} />
+          <Form.Control size="sm" type="time" value={segment.departureTime} onChange={(e) => updateSegment(index, { departureTime: e.target.value })} aria-label={`Leg ${index + 1} departure time`} title="Departs" />
+          <Form.Control size="sm" type="time" value={segment.arrivalTime} onChange={(e) => updateSegment(index, { arrivalTime: e.target.value })} aria-label={`Leg ${index + 1} arrival time`} title="Arrives" />
+          <Form.Control size="sm" placeholder="Carrier" value={segment.carrier} onChange={(e) => updateSegment(index, { carrier: e.target.value })} aria-label={`Leg ${index + 1} carrier`} />
+          <Form.Control size="sm" placeholder="FR 123" value={segment.flightNumber} onChange={(e) => updateSegment(index, { flightNumber: e.target.value })} aria-label={`Leg ${index + 1} flight number`} />
+          <Button
+            variant="link"
+            className="text-danger p-0"
+            onClick={() => removeSegment(index)}
+            disabled={segments.length <= 1}
+            aria-label={`Remove leg ${index + 1}`}
+          >
+            <FaTimes />
+          </Button>
+        </div>
+      ))}
+      <div className="d-flex gap-2">
+        <Button size="sm" variant="outline-secondary" onClick={() => addSegment('outbound')}>
+          <FaPlus className="me-1" size={10} /> Outbound leg
+        </Button>
+        <Button size="sm" variant="outline-secondary" onClick={() => addSegment('return')}>
+          <FaPlus className="me-1" size={10} /> Return leg
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FlightSegmentsEditor;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Badge, Button, Card } from 'react-bootstrap';
+import { FaExclamationTriangle, FaUserFriends } from 'react-icons/fa';
+import { Flight } from '../types';
+import { formatDay, plural } from '../utils/dates';
+import { PLACEHOLDER_SEAT, getMemberFlightIds } from '../utils/flightAssignments';
+import { SelectedStay, isStayingAt } from '../utils/stays';
+import FlightItinerary from './FlightItinerary';
+
+interface Props {
+  members: string[];
+  currentPerson: string;
+  flights: Flight[];
+  flightAssignments: Record<string, string[]>;
+  stays: SelectedStay[];
+  onManage: () => void;
+}
+
+const MemberItineraryCard: React.FC<Props> = ({ members, currentPerson, flights, flightAssignments, stays, onManage }) => {
+  // Show the viewer's own itinerary first.
+  const orderedMembers = members.includes(currentPerson)
+    ? [currentPerson, ...members.filter((member) => member !== currentPerson)]
+    : members;
+  const openSeats = Object.entries(flightAssignments)
+    .filter(([flightId]) => flights.some((flight) => flight.id === flightId))
+    .reduce((total, [, seats]) => total + seats.filter((seat) => seat === PLACEHOLDER_SEAT).length, 0);
+
+  return (
+    <Card className="workspace-card">
+      <Card.Header className="workspace-card-header d-flex justify-content-between align-items-start gap-3">
+        <div>
+          <h2 className="workspace-card-title d-flex align-items-center gap-2">
+            <FaUserFriends className="text-primary" /> Traveler Itineraries
+          </h2>
+          <p className="subtle-text mb-0">Who flies on which option, from the current budget allocation.</p>
+        </div>
+        <Button variant="link" className="p-0" onClick={onManage}>Assign</Button>
+      </Card.Header>
+      <Card.Body>
+        {members.length === 0 ? (
+          <div className="empty-inline-state">Add trip members in Settings to plan individual itineraries.</div>
+        ) : (
+          <div className="comparison-list">
+            {orderedMembers.map((member) => {
+              const memberFlights = getMemberFlightIds(flightAssignments, member)
+                .map((flightId) => flights.find((flight) => flight.id === flightId))
+                .filter((flight): flight is Flight => Boolean(flight));
+
+              return (
+                <div key={member} className="comparison-item">
+                  <div className="comparison-title d-flex align-items-center gap-2">
+                    {member}
+                    {member === currentPerson && <Badge bg="primary-subtle" text="primary-emphasis">You</Badge>}
+                  </div>
+                  {memberFlights.length === 0 ? (
+                    <span className="subtle-text">No flight assigned yet</span>
+                  ) : (
+                    memberFlights.map((flight) => (
+                      <div key={flight.id}>
+                        <strong>{flight.description || 'Unnamed flight'}</strong>
+                        <FlightItinerary segments={flight.segments} />
+                      </div>
+                    ))
+                  )}
+                  {memberFlights.length > 1 && (
+                    <span className="small text-danger d-inline-flex align-items-center gap-1">
+                      <FaExclamationTriangle size={10} /> Booked on {memberFlights.length} flights
+                    </span>
+                  )}
+                  {stays.filter((stay) => isStayingAt(stay, member)).map(({ accommodation }) => (
+                    <span key={accommodation.id} className="small subtle-text">
+                      Staying at {accommodation.description || 'the selected stay'} ({formatDay(accommodation.startDate, '—')} → {formatDay(accommodation.endDate, '—')})
+                    </span>
+                  ))}
+                </div>
+              );
+            })}
+            {openSeats > 0 && (
+              <div className="small subtle-text">
+                {plural(openSeats, 'seat')} not given to anyone yet.
+              </div>
+            )}
+          </div>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default MemberItineraryCard;
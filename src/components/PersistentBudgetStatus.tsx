@@ -2,7 +2,8 @@ import React, { useMemo } from 'react';
 import { Button } from 'react-bootstrap';
 import { Destination, PlannerSettings } from '../types';
 import { calculateBudgetSnapshot, formatCurrency } from '../utils/budget';
-import { FaChartLine, FaExclamationTriangle } from 'react-icons/fa';
+import { checkDateConsistency } from '../utils/dateConsistency';
+import { FaBed, FaCalendarTimes, FaChartLine, FaExclamationTriangle } from 'react-icons/fa';
 
 interface Props {
   destination?: Destination;
@@ -21,11 +22,21 @@ const PersistentBudgetStatus: React.FC<Props> = ({ destination, settings, active
       accommodations: destination.accommodations,
       flightAssignments: destination.budgetEstimator.flightAssignments,
       selectedAccommodationId: destination.budgetEstimator.selectedAccommodationId,
+      stays: destination.budgetEstimator.stays,
       extraCosts: destination.extraCosts,
       settings
     });
   }, [destination, settings]);
 
+  const dateIssueCount = useMemo(() => (destination ? checkDateConsistency({
+    flights: destination.flights,
+    accommodations: destination.accommodations,
+    flightAssignments: destination.budgetEstimator.flightAssignments,
+    selectedAccommodationId: destination.budgetEstimator.selectedAccommodationId,
+    stays: destination.budgetEstimator.stays,
+    settings
+  }).issues.length : 0), [destination, settings]);
+
   if (!destination || !snapshot) {
     return (
       <section className="budget-status-banner budget-status-empty" aria-live="polite">
@@ -42,9 +53,9 @@ const PersistentBudgetStatus: React.FC<Props> = ({ destination, settings, active
       <div className="budget-status-main">
         <div className="budget-status-label">Live Budget</div>
         <div className="budget-status-values">
-          <span>{formatCurrency(snapshot.totalCost)} total</span>
-          <span>{formatCurrency(snapshot.remaining)} remaining</span>
-          <span>{formatCurrency(snapshot.perPersonTotal)} per person</span>
+          <span>{formatCurrency(snapshot.totalCost, settings.baseCurrency)} total</span>
+          <span>{formatCurrency(snapshot.remaining, settings.baseCurrency)} remaining</span>
+          <span>{formatCurrency(snapshot.perPersonTotal, settings.baseCurrency)} per person</span>
         </div>
       </div>
 
@@ -52,7 +63,19 @@ const PersistentBudgetStatus: React.FC<Props> = ({ destination, settings, active
         {snapshot.remaining < 0 && (
           <div className="budget-warning">
             <FaExclamationTriangle aria-hidden="true" />
-            Over by {formatCurrency(Math.abs(snapshot.remaining))}
+            Over by {formatCurrency(Math.abs(snapshot.remaining), settings.baseCurrency)}
+          </div>
+        )}
+        {dateIssueCount > 0 && (
+          <div className="budget-warning" title="Selected flights and stay have different dates">
+            <FaCalendarTimes aria-hidden="true" />
+            {dateIssueCount} date mismatch{dateIssueCount === 1 ? '' : 'es'}
+          </div>
+        )}
+        {snapshot.stayIssues.length > 0 && (
+          <div className="budget-warning" title="The stays of the plan leave nights uncovered or double-booked">
+            <FaBed aria-hidden="true" />
+            {snapshot.stayIssues.length} stay gap{snapshot.stayIssues.length === 1 ? '' : 's'} or overlap{snapshot.stayIssues.length === 1 ? '' : 's'}
           </div>
         )}
         {activeSection !== 'budget' && (
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Form, Modal, Table } from 'react-bootstrap';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import { v4 as uuidv4 } from 'uuid';
+import { Accommodation, AccommodationRoom } from '../types';
+import { checkStayCapacity, getAllocationIssues, getRoomSleeps } from '../utils/capacity';
+import { plural } from '../utils/dates';
+
+export type RoomLayoutUpdate = Pick<Accommodation, 'roomLayout' | 'roomAllocation' | 'rooms' | 'beds'>;
+
+interface Props {
+  accommodation: Accommodation | null;
+  /** Members to place in rooms. */
+  members: string[];
+  travellers: number;
+  onSave: (accommodationId: string, update: RoomLayoutUpdate) => void;
+  onHide: () => void;
+}
+
+const UNALLOCATED = '';
+
+const createRoom = (index: number): AccommodationRoom => ({ id: uuidv4(), name: `Room ${index + 1}`, beds: 2, sofaBeds: 0, shared: false });
+
+const toCount = (value: string) => Math.max(0, Math.min(20, Math.floor(Number(value) || 0)));
+
+const RoomLayoutModal: React.FC<Props> = ({ accommodation, members, travellers, onSave, onHide }) => {
+  const [layout, setLayout] = useState<AccommodationRoom[]>([]);
+  const [allocation, setAllocation] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (!accommodation) return;
+    // Start from the listed room count so a stay entered as "3 rooms, 6 beds" opens pre-filled.
+    const initial = accommodation.roomLayout?.length
+      ? accommodation.roomLayout
+      : Array.from({ length: accommodation.rooms ?? 1 }, (_, index) => ({
+        ...createRoom(index),
+        beds: Math.max(1, Math.round((accommodation.beds ?? 2 * (accommodation.rooms ?? 1)) / (accommodation.rooms ?? 1)))
+      }));
+    setLayout(initial);
+    setAllocation(accommodation.roomAllocation ?? {});
+  }, [accommodation]);
+
+  if (!accommodation) {
+    return null;
+  }
+
+  const draft: Accommodation = { ...accommodation, roomLayout: layout, roomAllocation: allocation };
+  const capacity = checkStayCapacity(draft, travellers);
+  const issues = getAllocationIssues(draft, members);
+  const allocatedMembers = new Set(Object.values(allocation).flat());
+  const extraMembers = Array.from(allocatedMembers).filter((member) => !members.includes(member));
+
+  const updateRoom = (roomId: string, updates: Partial<AccommodationRoom>) => {
+    setLayout((current) => current.map((room) => (room.id === roomId ? { ...room, ...updates } : room)));
+  };
+
+  const removeRoom = (roomId: string) => {
+    setLayout((current) => current.filter((room) => room.id !== roomId));
+    setAllocation(({ [roomId]: _, ...rest }) => rest);
+  };
+
+  const allocateMember = (member: string, roomId: string) => {
+    setAllocation((current) => {
+      const next = Object.fromEntries(Object.entries(current).map(([id, names]) => [id, names.filter((name) => name !== member)]));
+      if (roomId !== UNALLOCATED) next[roomId] = [...(next[roomId] ?? []), member];
+      return Object.fromEntries(Object.entries(next).filter(([, names]) => names.length > 0));
+    });
+  };
+
+  const handleSave = () => {
+    const roomIds = new Set(layout.map((room) => room.id));
+    const roomAllocation = Object.fromEntries(Object.entries(allocation).filter(([roomId, names]) => roomIds.has(roomId) && names.length > 0));
+    onSave(accommodation.id, layout.length > 0
+      ? {
+        roomLayout: layout.map((room) => ({ ...room, name: room.name.trim() || 'Room' })),
+        roomAllocation: Object.keys(roomAllocation).length > 0 ? roomAllocation : undefined,
+        rooms: layout.length,
+        beds: layout.reduce((total, room) => total + room.beds, 0) || undefined
+      }
+      : { roomLayout: undefined, roomAllocation: undefined, rooms: accommodation.rooms, beds: accommodation.beds });
+    onHide();
+  };
+
+  return (
+    <Modal show onHide={onHide} size="lg" centered scrollable>
+      <Modal.Header closeButton>
+        <Modal.Title>Rooms · {accommodation.description || 'Accommodation'}</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Table size="sm" className="align-middle mb-2">
+          <thead>
+            <tr>
+              <th>Room</th>
+              <th style={{ width: 90 }}>Beds</th>
+              <th style={{ width: 90 }}>Sofa beds</th>
+              <th style={{ width: 90 }}>Shared</th>
+              <th style={{ width: 70 }}>Sleeps</th>
+              <th style={{ width: 40 }} />
+            </tr>
+          </thead>
+          <tbody>
+            {layout.map((room) => (
+              <tr key={room.id}>
+                <td><Form.Control size="sm" value={room.name} onChange={(e) => updateRoom(room.id, { name: e.target.value })} aria-label="Room name" /></td>
+                <td><Form.Control size="sm" type="number" min="0" value={room.beds} onChange={(e) => updateRoom(room.id, { beds: toCount(e.target.value) })} aria-label={`Beds in ${room.name}`} /></td>
+                <td><Form.Control size="sm" type="number" min="0" value={room.sofaBeds} onChange={(e) => updateRoom(room.id, { sofaBeds: toCount(e.target.value) })} aria-label={`Sofa beds in ${room.name}`} /></td>
+                <td>
+                  <Form.Check
+                    type="switch"
+                    id={`room-shared-${room.id}`}
+                    checked={room.shared}
+                    onChange={(e) => updateRoom(room.id, { shared: e.target.checked })}
+                    label={room.shared ? 'Shared' : 'Private'}
+                  />
+                </td>
+                <td className="text-center">{(allocation[room.id] ?? []).length} / {getRoomSleeps(room)}</td>
+                <td>
+                  <Button variant="link" className="text-danger p-0" onClick={() => removeRoom(room.id)} aria-label={`Remove ${room.name}`}><FaTrash /></Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <Button size="sm" variant="outline-secondary" onClick={() => setLayout((current) => [...current, createRoom(current.length)])} className="mb-3">
+          <FaPlus className="me-1" /> Add room
+        </Button>
+
+        <div className={`small mb-3 ${capacity.shortfall > 0 ? 'text-danger fw-semibold' : 'subtle-text'}`}>
+          Sleeps {capacity.capacity ?? 0} for {plural(travellers, 'traveler')}
+          {capacity.shortfall > 0 && ` — ${capacity.shortfall} short`}
+          {capacity.needsSofaBeds && ' — some people on sofa beds'}
+          {capacity.sharedRooms > 0 && ` · ${plural(capacity.sharedRooms, 'shared room')}`}
+        </div>
+
+        <h6 className="text-uppercase text-muted small fw-bold mb-2">Who sleeps where</h6>
+        {layout.length === 0 ? (
+          <div className="empty-inline-state">Add rooms to plan who sleeps where.</div>
+        ) : members.length === 0 && extraMembers.length === 0 ? (
+          <div className="empty-inline-state">Add trip members in Settings to allocate rooms.</div>
+        ) : (
+          <div className="room-allocation-grid">
+            {[...members, ...extraMembers].map((member) => {
+              const roomId = layout.find((room) => (allocation[room.id] ?? []).includes(member))?.id ?? UNALLOCATED;
+              return (
+                <Form.Group key={member} className="room-allocation-row" controlId={`room-allocation-${member}`}>
+                  <Form.Label className="small mb-0">{member}</Form.Label>
+                  <Form.Select size="sm" value={roomId} onChange={(e) => allocateMember(member, e.target.value)}>
+                    <option value={UNALLOCATED}>No room yet</option>
+                    {layout.map((room) => <option key={room.id} value={room.id}>{room.name}</option>)}
+                  </Form.Select>
+                </Form.Group>
+              );
+            })}
+          </div>
+        )}
+
+        {(issues.overfullRooms.length > 0 || issues.unallocated.length > 0) && layout.length > 0 && (
+          <Alert variant="warning" className="small mt-3 mb-0">
+            {issues.overfullRooms.length > 0 && <div>Too many people in {issues.overfullRooms.join(', ')}.</div>}
+            {issues.unallocated.length > 0 && <div>No room yet: {issues.unallocated.join(', ')}.</div>}
+          </Alert>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline-secondary" onClick={onHide}>Cancel</Button>
+        <Button variant="primary" onClick={handleSave}>Save rooms</Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default RoomLayoutModal;
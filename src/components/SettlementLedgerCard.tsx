@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { Badge, Card, Form, Table } from 'react-bootstrap';
+import { FaArrowRight, FaHandHoldingUsd } from 'react-icons/fa';
+import { Accommodation, BudgetAttempt, ExtraCost, Flight, PlannerSettings, SettlementLedger } from '../types';
+import { formatCurrency } from '../utils/budget';
+import { convertToBase } from '../utils/currency';
+import { getExtraCostAmount, getPlanExtraCostContext } from '../utils/extraCosts';
+import { calculateSettlement, getStayPayer, setStayPayer } from '../utils/settlement';
+import { getSelectedStays, resolveStays } from '../utils/stays';
+import { plural } from '../utils/dates';
+
+interface Props {
+  attempt: BudgetAttempt | null;
+  flights: Flight[];
+  accommodations: Accommodation[];
+  extraCosts: ExtraCost[];
+  ledger: SettlementLedger;
+  members: string[];
+  settings: PlannerSettings;
+  onLedgerChange: (ledger: SettlementLedger) => void;
+  onExtraCostsChange: (extraCosts: ExtraCost[]) => void;
+}
+
+const PayerSelect: React.FC<{ value: string; members: string[]; onChange: (member: string) => void; ariaLabel: string }> = ({ value, members, onChange, ariaLabel }) => (
+  <Form.Select size="sm" value={members.includes(value) ? value : ''} onChange={(e) => onChange(e.target.value)} aria-label={ariaLabel} style={{ minWidth: 140 }}>
+    <option value="">— Unpaid —</option>
+    {members.map((member) => (
+      <option key={member} value={member}>{member}</option>
+    ))}
+  </Form.Select>
+);
+
+const SettlementLedgerCard: React.FC<Props> = ({
+  attempt,
+  flights,
+  accommodations,
+  extraCosts,
+  ledger,
+  members,
+  settings,
+  onLedgerChange,
+  onExtraCostsChange
+}) => {
+  const baseCurrency = settings.baseCurrency;
+
+  const summary = useMemo(() => {
+    if (!attempt) return null;
+    return calculateSettlement({ attempt, flights, accommodations, extraCosts, ledger, members, currencySettings: settings, peopleCount: settings.peopleCount });
+  }, [attempt, flights, accommodations, extraCosts, ledger, members, settings]);
+
+  const attemptFlights = useMemo(() => {
+    if (!attempt) return [];
+    return Object.entries(attempt.flightAssignments)
+      .map(([flightId, seats]) => ({ flight: flights.find((item) => item.id === flightId), seats }))
+      .filter((entry): entry is { flight: Flight; seats: string[] } => Boolean(entry.flight) && entry.seats.length > 0);
+  }, [attempt, flights]);
+
+  const stays = attempt ? resolveStays(getSelectedStays(attempt.selectedAccommodationId, attempt.stays), accommodations) : [];
+  const extraCostContext = attempt ? getPlanExtraCostContext(attempt, flights, accommodations, settings.peopleCount) : { people: settings.peopleCount, nights: 0 };
+
+  const handleSeatPayerChange = (flightId: string, seatIndex: number, seatCount: number, member: string) => {
+    const seats = Array.from({ length: seatCount }, (_, index) => ledger.flightPayers[flightId]?.[index] ?? '');
+    seats[seatIndex] = member;
+    onLedgerChange({ ...ledger, flightPayers: { ...ledger.flightPayers, [flightId]: seats } });
+  };
+
+  const handleExtraCostPayerChange = (index: number, member: string) => {
+    onExtraCostsChange(extraCosts.map((extraCost, currentIndex) => {
+      if (currentIndex !== index) return extraCost;
+      const { paidBy: _, ...rest } = extraCost;
+      return member ? { ...rest, paidBy: member } : rest;
+    }));
+  };
+
+  return (
+    <Card className="workspace-card">
+      <Card.Header className="workspace-card-header">
+        <h3 className="workspace-card-title m-0 d-flex align-items-center gap-2">
+          <FaHandHoldingUsd className="text-primary" /> Cost Split
+        </h3>
+        <p className="subtle-text mb-0">Record who paid for each part of the fixed scenario and see who owes whom.</p>
+      </Card.Header>
+      <Card.Body>
+        {!attempt ? (
+          <div className="empty-inline-state">Save a budget scenario to split its costs between the team.</div>
+        ) : members.length === 0 ? (
+          <div className="empty-inline-state">Add trip members in Settings to record who paid.</div>
+        ) : (
+          <>
+            <div className="small subtle-text mb-2">Based on <strong>{attempt.name}</strong>.</div>
+            <Table size="sm" responsive className="align-middle mb-4">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th className="text-end">Amount</th>
+                  <th>Paid by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attemptFlights.map(({ flight, seats }) => (
+                  <tr key={flight.id}>
+                    <td>
+                      <div className="fw-semibold">{flight.description || 'Flight option'}</div>
+                      <div className="small subtle-text">{plural(seats.length, 'seat')} × {formatCurrency(flight.pricePerPerson, flight.currency)}</div>
+                    </td>
+                    <td className="text-end">{formatCurrency(convertToBase(flight.pricePerPerson, flight.currency, settings) * seats.length, baseCurrency)}</td>
+                    <td>
+                      <div className="d-flex flex-wrap gap-1">
+                        {seats.map((traveler, seatIndex) => (
+                          <div key={seatIndex}>
+                            <div className="small subtle-text">{traveler || `Seat ${seatIndex + 1}`}</div>
+                            <PayerSelect
+                              value={ledger.flightPayers[flight.id]?.[seatIndex] ?? ''}
+                              members={members}
+                              onChange={(member) => handleSeatPayerChange(flight.id, seatIndex, seats.length, member)}
+                              ariaLabel={`Payer of ${traveler ? `${traveler}'s seat` : `seat ${seatIndex + 1}`} on ${flight.description || 'flight'}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {stays.map(({ accommodation }, index) => (
+                  <tr key={accommodation.id}>
+                    <td className="fw-semibold">{accommodation.description || 'Accommodation'}</td>
+                    <td className="text-end">{formatCurrency(convertToBase(accommodation.totalPrice, accommodation.currency, settings), baseCurrency)}</td>
+                    <td>
+                      <PayerSelect
+                        value={getStayPayer(ledger, accommodation.id, index)}
+                        members={members}
+                        onChange={(member) => onLedgerChange(setStayPayer(ledger, accommodation.id, index, member))}
+                        ariaLabel={`Payer of ${accommodation.description || 'accommodation'}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+                {extraCosts.map((extraCost, index) => (
+                  <tr key={extraCost.id}>
+                    <td className="fw-semibold">{extraCost.description || `Extra cost ${index + 1}`}</td>
+                    <td className="text-end">{formatCurrency(convertToBase(getExtraCostAmount(extraCost, extraCostContext), extraCost.currency, settings), baseCurrency)}</td>
+                    <td>
+                      <PayerSelect
+                        value={extraCost.paidBy ?? ''}
+                        members={members}
+                        onChange={(member) => handleExtraCostPayerChange(index, member)}
+                        ariaLabel={`Payer of ${extraCost.description || `extra cost ${index + 1}`}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+
+            {summary && (
+              <div className="settlement-grid">
+                <section>
+                  <h4 className="h6 fw-semibold mb-2">Balances</h4>
+                  <div className="small subtle-text mb-2">
+                    {formatCurrency(summary.paidTotal, baseCurrency)} paid &bull; seats charged to their travellers, {formatCurrency(summary.sharedTotal, baseCurrency)} split {members.length} ways
+                    {summary.unpaidTotal > 0 && <> &bull; <span className="text-warning-emphasis fw-semibold">{formatCurrency(summary.unpaidTotal, baseCurrency)} not paid yet</span></>}
+                  </div>
+                  {summary.balances.map((entry) => (
+                    <div key={entry.member} className="settlement-row">
+                      <span>{entry.member}</span>
+                      <span className="small subtle-text">paid {formatCurrency(entry.paid, baseCurrency)} of {formatCurrency(entry.share, baseCurrency)}</span>
+                      <Badge bg={entry.balance >= 0.5 ? 'success' : entry.balance <= -0.5 ? 'danger' : 'secondary'} className="fw-normal">
+                        {entry.balance >= 0.5 ? 'gets back ' : entry.balance <= -0.5 ? 'owes ' : 'settled'}
+                        {Math.abs(entry.balance) >= 0.5 && formatCurrency(Math.abs(entry.balance), baseCurrency)}
+                      </Badge>
+                    </div>
+                  ))}
+                </section>
+                <section>
+                  <h4 className="h6 fw-semibold mb-2">Transfers</h4>
+                  {summary.transfers.length === 0 ? (
+                    <div className="empty-inline-state">Nothing to settle.</div>
+                  ) : (
+                    summary.transfers.map((transfer) => (
+                      <div key={`${transfer.from}-${transfer.to}`} className="settlement-row">
+                        <span className="d-inline-flex align-items-center gap-2">
+                          <strong>{transfer.from}</strong> <FaArrowRight size={10} className="text-muted" /> <strong>{transfer.to}</strong>
+                        </span>
+                        <span className="fw-semibold">{formatCurrency(transfer.amount, baseCurrency)}</span>
+                      </div>
+                    ))
+                  )}
+                </section>
+              </div>
+            )}
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default SettlementLedgerCard;
@@ -1,7 +1,9 @@
 import React, { useMemo, useState } from 'react';
 import { Nav, Button, Form, Modal } from 'react-bootstrap';
-import { Destination } from '../types';
-import { FaMapMarkerAlt, FaPlus, FaTrash, FaSearch, FaExclamationTriangle } from 'react-icons/fa';
+import { Destination, VoteBlocker } from '../types';
+import { FaMapMarkerAlt, FaPlus, FaTrash, FaSearch, FaExclamationTriangle, FaBan, FaCheckCircle } from 'react-icons/fa';
+import { describeBlockers } from '../utils/voting';
+import BlockerButton from './BlockerButton';
 import VoteButton from './VoteButton';
 
 type SidebarSort = 'added' | 'name-asc' | 'name-desc' | 'votes';
@@ -13,11 +15,18 @@ interface Props {
   onAddClick: () => void;
   onRemove: (id: string) => void;
   votes: Record<string, string[]>;
+  blockers: Record<string, VoteBlocker[]>;
+  votingClosed: boolean;
+  /** Secret ballot still open: vote buttons show totals only. */
+  votersHidden: boolean;
+  /** The destination the group has officially decided on, pinned to the top. */
+  decidedId: string | null;
   currentPerson: string;
   onToggleVote: (destId: string) => void;
+  onSetBlocker: (destId: string, reason: string | null) => void;
 }
 
-const Sidebar: React.FC<Props> = ({ destinations, activeId, onSelect, onAddClick, onRemove, votes, currentPerson, onToggleVote }) => {
+const Sidebar: React.FC<Props> = ({ destinations, activeId, onSelect, onAddClick, onRemove, votes, blockers, votingClosed, votersHidden, decidedId, currentPerson, onToggleVote, onSetBlocker }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [pendingRemove, setPendingRemove] = useState<{ id: string; name: string } | null>(null);
   const [sortBy, setSortBy] = useState<SidebarSort>('added');
@@ -33,11 +42,18 @@ const Sidebar: React.FC<Props> = ({ destinations, activeId, onSelect, onAddClick
     } else if (sortBy === 'name-desc') {
       filtered.sort((a, b) => b.name.localeCompare(a.name));
     } else if (sortBy === 'votes') {
-      filtered.sort((a, b) => (votes[b.id]?.length ?? 0) - (votes[a.id]?.length ?? 0));
+      // A destination someone cannot make goes below every one they can, whatever its votes.
+      filtered.sort((a, b) =>
+        Number(Boolean(blockers[a.id]?.length)) - Number(Boolean(blockers[b.id]?.length)) ||
+        (votes[b.id]?.length ?? 0) - (votes[a.id]?.length ?? 0)
+      );
     }
 
+    // Stable sort: the decided destination moves up and everything else keeps its order.
+    if (decidedId) filtered.sort((a, b) => Number(b.id === decidedId) - Number(a.id === decidedId));
+
     return filtered;
-  }, [destinations, searchQuery, sortBy, votes]);
+  }, [destinations, searchQuery, sortBy, votes, blockers, decidedId]);
 
   return (
     <aside className="sidebar-container h-100 d-flex flex-column" aria-label="Destinations sidebar">
@@ -90,11 +106,26 @@ const Sidebar: React.FC<Props> = ({ destinations, activeId, onSelect, onAddClick
                 >
                   <FaMapMarkerAlt className="opacity-75" aria-hidden="true" />
                   <span className="flex-grow-1 text-truncate">{destination.name}</span>
+                  {destination.id === decidedId && (
+                    <FaCheckCircle className="decided-flag flex-shrink-0" size={12} title="Decided destination" aria-label="Decided destination" />
+                  )}
+                  {(blockers[destination.id]?.length ?? 0) > 0 && (
+                    <FaBan className="text-danger flex-shrink-0" size={11} title={`Can't: ${describeBlockers(blockers[destination.id])}`} aria-label="Blocked by a member" />
+                  )}
                 </button>
                 <VoteButton
                   voters={votes[destination.id] || []}
                   currentPerson={currentPerson}
                   onToggle={() => onToggleVote(destination.id)}
+                  closed={votingClosed}
+                  secret={votersHidden}
+                />
+                <BlockerButton
+                  blockers={blockers[destination.id] || []}
+                  currentPerson={currentPerson}
+                  subject={destination.name}
+                  onChange={(reason) => onSetBlocker(destination.id, reason)}
+                  closed={votingClosed}
                 />
                 <button
                   type="button"
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Alert, Button } from 'react-bootstrap';
+import { FaCodeBranch } from 'react-icons/fa';
+import { SyncConflict, formatConflictValue } from '../utils/tripSync';
+
+interface Props {
+  conflicts: SyncConflict[];
+  onKeepMine: (conflict: SyncConflict) => void;
+  onKeepTheirs: (conflict: SyncConflict) => void;
+}
+
+const SyncConflictBanner: React.FC<Props> = ({ conflicts, onKeepMine, onKeepTheirs }) => {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant="warning" className="sync-conflict-banner mb-0" role="alert">
+      <div className="fw-semibold d-flex align-items-center gap-2 mb-2">
+        <FaCodeBranch aria-hidden="true" />
+        {conflicts.length === 1 ? 'A teammate edited the same field' : `${conflicts.length} fields were edited by you and a teammate`}
+      </div>
+      <p className="small mb-2">Their version is showing. Pick which one to keep.</p>
+      <div className="sync-conflict-list">
+        {conflicts.map((conflict) => (
+          <div key={conflict.id} className="sync-conflict-row">
+            <div className="sync-conflict-label">{conflict.label}</div>
+            <div className="small">
+              <span className="subtle-text">Yours:</span> {formatConflictValue(conflict.mine)}
+            </div>
+            <div className="small">
+              <span className="subtle-text">Theirs:</span> {formatConflictValue(conflict.theirs)}
+            </div>
+            <div className="d-flex gap-2">
+              <Button size="sm" variant="outline-dark" onClick={() => onKeepMine(conflict)}>Keep mine</Button>
+              <Button size="sm" variant="dark" onClick={() => onKeepTheirs(conflict)}>Keep theirs</Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Alert>
+  );
+};
+
+export default SyncConflictBanner;
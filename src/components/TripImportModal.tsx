@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, Button, Form, Modal } from 'react-bootstrap';
+import { ImportMode, TripContent, TRIP_BUNDLE_VERSION, applyTripImport, summarizeTripChanges } from '../utils/tripBundle';
+
+export interface PendingTripImport {
+  fileName: string;
+  fromVersion: number;
+  exportedAt: string | null;
+  /** Destinations in the file that were missing an id, name or coordinates. */
+  skippedDestinations: number;
+  content: TripContent;
+}
+
+interface Props {
+  pending: PendingTripImport | null;
+  current: TripContent;
+  onApply: (next: TripContent, mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const MODE_HINTS: Record<ImportMode, string> = {
+  merge: 'Keep everything here and add what the file brings. Items that exist in both are taken from the file; members and votes are combined; budget settings stay as they are.',
+  replace: 'Make this trip match the file exactly. Anything not in the file is removed.'
+};
+
+const TripImportModal: React.FC<Props> = ({ pending, current, onApply, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const next = useMemo(() => (pending ? applyTripImport(current, pending.content, mode) : null), [pending, current, mode]);
+  const changes = useMemo(() => (next ? summarizeTripChanges(current, next) : []), [current, next]);
+
+  if (!pending || !next) {
+    return null;
+  }
+
+  return (
+    <Modal show onHide={onCancel} centered>
+      <Modal.Header closeButton>
+        <Modal.Title>Import Trip</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <p className="subtle-text small mb-3">
+          {pending.fileName}
+          {pending.exportedAt && ` · exported ${new Date(pending.exportedAt).toLocaleString('en-IE', { dateStyle: 'medium', timeStyle: 'short' })}`}
+        </p>
+        {pending.fromVersion < TRIP_BUNDLE_VERSION && (
+          <Alert variant="info" className="small py-2">
+            {pending.fromVersion === 0
+              ? 'This is an older export with destinations only; settings, members and votes here are left untouched.'
+              : `Upgraded from schema ${pending.fromVersion} to ${TRIP_BUNDLE_VERSION}.`}
+          </Alert>
+        )}
+        {pending.skippedDestinations > 0 && (
+          <Alert variant="warning" className="small py-2">
+            {pending.skippedDestinations} destination{pending.skippedDestinations === 1 ? ' was' : 's were'} skipped because of a missing id, name or coordinates.
+          </Alert>
+        )}
+
+        <Form.Group className="mb-3">
+          {(['merge', 'replace'] as ImportMode[]).map((option) => (
+            <Form.Check
+              key={option}
+              type="radio"
+              id={`import-mode-${option}`}
+              name="import-mode"
+              label={option === 'merge' ? 'Merge into this trip' : 'Replace this trip'}
+              checked={mode === option}
+              onChange={() => setMode(option)}
+            />
+          ))}
+          <Form.Text>{MODE_HINTS[mode]}</Form.Text>
+        </Form.Group>
+
+        <h6 className="text-uppercase text-muted small fw-bold mb-2">What will change</h6>
+        {changes.length === 0 ? (
+          <div className="empty-inline-state">Nothing — this trip already has everything in the file.</div>
+        ) : (
+          <ul className="small mb-0">
+            {changes.map((line) => <li key={line}>{line}</li>)}
+          </ul>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline-secondary" onClick={onCancel}>Cancel</Button>
+        <Button variant={mode === 'replace' ? 'danger' : 'primary'} onClick={() => onApply(next, mode)} disabled={changes.length === 0}>
+          {mode === 'replace' ? 'Replace trip' : 'Merge'}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default TripImportModal;
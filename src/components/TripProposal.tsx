@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { Button, Table } from 'react-bootstrap';
+import { FaHotel, FaPlaneDeparture, FaPrint, FaTimes } from 'react-icons/fa';
+import { MapContainer, Marker, Polyline, TileLayer } from 'react-leaflet';
+import { BudgetAttempt, Destination, DUBLIN_COORDS, PlannerSettings, TripVotes } from '../types';
+import { calculateBudgetSnapshot, formatCurrency } from '../utils/budget';
+import { convertToBase } from '../utils/currency';
+import { formatLongDay, plural } from '../utils/dates';
+import { PLACEHOLDER_SEAT, getMemberFlightIds } from '../utils/flightAssignments';
+import { describeExtraCostScaling, getCategoryLabel, getExtraCostAmount } from '../utils/extraCosts';
+import { getSelectedStays, resolveStays } from '../utils/stays';
+import { formatFlightDateKey, formatVoters, getDecision, getFlightDateKey, getSupporterMap, getVoteMode, isDecidedFlight, revealVoters } from '../utils/voting';
+import FlightItinerary from './FlightItinerary';
+import { DecidedFlag } from './VoteButton';
+import { RankedList, rankItems } from './VoteSummary';
+
+interface Props {
+  destination: Destination;
+  attempt: BudgetAttempt;
+  settings: PlannerSettings;
+  tripMembers: string[];
+  votes: TripVotes;
+  onClose: () => void;
+}
+
+// A non-interactive map framed on Dublin and the destination, so it prints as a fixed snapshot.
+const ProposalMap: React.FC<{ destination: Destination }> = ({ destination }) => {
+  const destCoords: [number, number] = [destination.latitude, destination.longitude];
+  return (
+    <div className="proposal-map">
+      <MapContainer
+        bounds={[DUBLIN_COORDS, destCoords]}
+        boundsOptions={{ padding: [40, 40] }}
+        zoomControl={false}
+        dragging={false}
+        scrollWheelZoom={false}
+        doubleClickZoom={false}
+        touchZoom={false}
+        boxZoom={false}
+        keyboard={false}
+        fadeAnimation={false}
+        style={{ height: '100%', width: '100%' }}
+      >
+        <TileLayer
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        />
+        <Marker position={DUBLIN_COORDS} />
+        <Marker position={destCoords} />
+        <Polyline positions={[DUBLIN_COORDS, destCoords]} color="#2b687b" weight={4} opacity={0.75} />
+      </MapContainer>
+    </div>
+  );
+};
+
+const TripProposal: React.FC<Props> = ({ destination, attempt, settings, tripMembers, votes, onClose }) => {
+  // While the proposal is open the print stylesheet hides the app itself.
+  useEffect(() => {
+    document.body.classList.add('proposal-open');
+    return () => document.body.classList.remove('proposal-open');
+  }, []);
+
+  const snapshot = useMemo(() => calculateBudgetSnapshot({
+    flights: destination.flights,
+    accommodations: destination.accommodations,
+    flightAssignments: attempt.flightAssignments,
+    selectedAccommodationId: attempt.selectedAccommodationId,
+    stays: attempt.stays,
+    extraCosts: destination.extraCosts,
+    settings,
+    tripMembers
+  }), [destination, attempt, settings, tripMembers]);
+
+  const stays = resolveStays(getSelectedStays(attempt.selectedAccommodationId, attempt.stays), destination.accommodations);
+  const extraCostContext = { people: settings.peopleCount, nights: snapshot.tripNights };
+  const openSeats = Object.values(attempt.flightAssignments).reduce((total, seats) => total + seats.filter((seat) => seat === PLACEHOLDER_SEAT).length, 0);
+
+  const rankedFlights = useMemo(() => rankItems(
+    destination.flights.map((flight) => flight.id),
+    votes,
+    'flights',
+    (id) => {
+      const flight = destination.flights.find((item) => item.id === id);
+      return flight ? { label: flight.description || 'Flight Option', sublabel: `${formatCurrency(flight.pricePerPerson, flight.currency)}/pp` } : null;
+    },
+    (id) => {
+      const flight = destination.flights.find((item) => item.id === id);
+      return flight ? getFlightDateKey(flight) : id;
+    }
+  ).map((item) => ({ ...item, voters: revealVoters(votes, 'flights', item.voters, '', tripMembers) })), [destination.flights, votes, tripMembers]);
+
+  const rankedAccommodations = useMemo(() => rankItems(
+    destination.accommodations.map((item) => item.id),
+    votes,
+    'accommodations',
+    (id) => {
+      const stay = destination.accommodations.find((item) => item.id === id);
+      return stay ? { label: stay.description || 'Accommodation Option', sublabel: `${formatCurrency(stay.totalPrice, stay.currency)} total` } : null;
+    }
+  ).map((item) => ({ ...item, voters: revealVoters(votes, 'accommodations', item.voters, '', tripMembers) })), [destination.accommodations, votes, tripMembers]);
+
+  // The proposal is shared with the whole group, so secret votes are never named as anyone's own.
+  const destinationVoters = revealVoters(votes, 'destinations', getSupporterMap(votes, 'destinations')[destination.id] ?? [], '', tripMembers);
+  const isDecidedDestination = getDecision(votes, 'destinations') === destination.id;
+  const decidedFlightKey = getDecision(votes, 'flights');
+  const decidedStayId = getDecision(votes, 'accommodations');
+  const base = settings.baseCurrency;
+
+  return createPortal(
+    <div className="proposal-overlay">
+      <div className="proposal-toolbar">
+        <span className="subtle-text small">Print preview · choose “Save as PDF” in the print dialog</span>
+        <div className="d-flex gap-2">
+          <Button size="sm" variant="primary" className="d-inline-flex align-items-center gap-2" onClick={() => window.print()}>
+            <FaPrint /> Print
+          </Button>
+          <Button size="sm" variant="outline-secondary" className="d-inline-flex align-items-center gap-2" onClick={onClose}>
+            <FaTimes /> Close
+          </Button>
+        </div>
+      </div>
+
+      <article className="proposal-document">
+        <section className="proposal-page">
+          <header className="proposal-header">
+            <div className="proposal-eyebrow">Trip proposal</div>
+            <h1 className="proposal-title d-flex align-items-center gap-3">
+              {destination.name}
+              {isDecidedDestination && <DecidedFlag />}
+            </h1>
+            <p className="subtle-text mb-0">
+              Plan “{attempt.name}” · {tripMembers.length || settings.peopleCount} travellers · prepared {new Date().toLocaleDateString('en-IE', { dateStyle: 'long' })}
+            </p>
+          </header>
+
+          <div className="proposal-figures">
+            <div className="proposal-figure">
+              <span>Per person</span>
+              <strong>{formatCurrency(snapshot.perPersonTotal, base)}</strong>
+            </div>
+            <div className="proposal-figure">
+              <span>Total cost</span>
+              <strong>{formatCurrency(snapshot.totalCost, base)}</strong>
+            </div>
+            <div className="proposal-figure">
+              <span>Budget</span>
+              <strong>{formatCurrency(settings.totalBudget, base)}</strong>
+            </div>
+            <div className={`proposal-figure ${snapshot.remaining < 0 ? 'negative' : ''}`}>
+              <span>{snapshot.remaining < 0 ? 'Over budget' : 'Remaining'}</span>
+              <strong>{formatCurrency(Math.abs(snapshot.remaining), base)}</strong>
+            </div>
+          </div>
+
+          <ProposalMap destination={destination} />
+
+          {destination.notes.trim() && (
+            <div className="proposal-section">
+              <h2 className="proposal-heading">Notes</h2>
+              <p className="proposal-notes">{destination.notes}</p>
+            </div>
+          )}
+        </section>
+
+        <section className="proposal-page">
+          <h2 className="proposal-heading"><FaPlaneDeparture /> Flights per traveller</h2>
+          {tripMembers.length === 0 ? (
+            <p className="subtle-text">No trip members listed; {snapshot.assignedPeopleCount} seats are booked in this plan.</p>
+          ) : (
+            <div className="proposal-traveller-list">
+              {tripMembers.map((member) => {
+                const memberFlights = getMemberFlightIds(attempt.flightAssignments, member)
+                  .map((flightId) => destination.flights.find((flight) => flight.id === flightId))
+                  .filter((flight): flight is NonNullable<typeof flight> => Boolean(flight));
+                return (
+                  <div key={member} className="proposal-section proposal-traveller">
+                    <h3 className="proposal-subheading">{member}</h3>
+                    {memberFlights.length === 0 ? (
+                      <p className="subtle-text mb-0">No flight in this plan.</p>
+                    ) : (
+                      memberFlights.map((flight) => (
+                        <div key={flight.id} className="proposal-flight">
+                          <div className="d-flex justify-content-between gap-3">
+                            <strong className="d-flex align-items-center gap-2">
+                              {flight.description || 'Flight'}
+                              {isDecidedFlight(votes, flight) && <DecidedFlag />}
+                            </strong>
+                            <span>{formatCurrency(flight.pricePerPerson, flight.currency)}</span>
+                          </div>
+                          <FlightItinerary segments={flight.segments} />
+                        </div>
+                      ))
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {openSeats > 0 && (
+            <p className="subtle-text small mt-3">
+              Plus {plural(openSeats, 'booked seat')} not yet given to a traveller.
+            </p>
+          )}
+        </section>
+
+        <section className="proposal-page">
+          <div className="proposal-section">
+            <h2 className="proposal-heading"><FaHotel /> Accommodation</h2>
+            {stays.length > 0 ? stays.map(({ selection, accommodation }) => (
+              <div key={accommodation.id} className="proposal-stay">
+                {accommodation.imageUrl && <img src={accommodation.imageUrl} alt={accommodation.description} className="proposal-stay-image" />}
+                <div>
+                  <h3 className="proposal-subheading d-flex align-items-center gap-2">
+                    {accommodation.description || 'Selected stay'}
+                    {accommodation.id === decidedStayId && <DecidedFlag />}
+                  </h3>
+                  <p className="mb-1">{formatLongDay(accommodation.startDate, 'Not set')} – {formatLongDay(accommodation.endDate, 'Not set')}</p>
+                  {selection.members.length > 0 && <p className="mb-1">For {selection.members.join(', ')}</p>}
+                  {(accommodation.rooms || accommodation.beds) && (
+                    <p className="mb-1">
+                      {[accommodation.rooms ? `${accommodation.rooms} rooms` : '', accommodation.beds ? `${accommodation.beds} beds` : ''].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  <p className="mb-1"><strong>{formatCurrency(accommodation.totalPrice, accommodation.currency)}</strong> total</p>
+                  {accommodation.link && <p className="proposal-link mb-0">{accommodation.link}</p>}
+                </div>
+              </div>
+            )) : (
+              <p className="subtle-text">No accommodation chosen in this plan.</p>
+            )}
+          </div>
+
+          <div className="proposal-section">
+            <h2 className="proposal-heading">Cost breakdown</h2>
+            <Table size="sm" className="proposal-table">
+              <tbody>
+                <tr>
+                  <td>Flights ({snapshot.assignedPeopleCount} seats)</td>
+                  <td className="text-end">{formatCurrency(snapshot.flightCost, base)}</td>
+                </tr>
+                <tr>
+                  <td>Accommodation{stays.length > 1 ? ` (${stays.length} stays)` : ''}</td>
+                  <td className="text-end">{formatCurrency(snapshot.accommodationCost, base)}</td>
+                </tr>
+                {destination.extraCosts.map((extraCost) => {
+                  const amount = getExtraCostAmount(extraCost, extraCostContext);
+                  const working = describeExtraCostScaling(extraCost, extraCostContext);
+                  return (
+                    <tr key={extraCost.id}>
+                      <td>
+                        {extraCost.description || 'Extra cost'}
+                        <span className="subtle-text"> · {getCategoryLabel(extraCost.category)}</span>
+                        {working && <span className="subtle-text"> ({formatCurrency(extraCost.value, extraCost.currency)} × {working})</span>}
+                        {!working && extraCost.currency !== base && <span className="subtle-text"> ({formatCurrency(amount, extraCost.currency)})</span>}
+                      </td>
+                      <td className="text-end">{formatCurrency(convertToBase(amount, extraCost.currency, settings), base)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th>Total</th>
+                  <th className="text-end">{formatCurrency(snapshot.totalCost, base)}</th>
+                </tr>
+                <tr>
+                  <th>Per person ({Math.max(1, settings.peopleCount)})</th>
+                  <th className="text-end">{formatCurrency(snapshot.perPersonTotal, base)}</th>
+                </tr>
+              </tfoot>
+            </Table>
+          </div>
+
+          <div className="proposal-section">
+            <h2 className="proposal-heading">Vote results</h2>
+            <p className="mb-3">
+              {destinationVoters.length} of {tripMembers.length} members voted for {destination.name}
+              {destinationVoters.length > 0 && `: ${formatVoters(destinationVoters)}`}.
+              {isDecidedDestination && ' The group has decided on it.'}
+            </p>
+            {decidedFlightKey && destination.flights.some((flight) => getFlightDateKey(flight) === decidedFlightKey) && (
+              <p className="mb-3">Decided flight dates: {formatFlightDateKey(decidedFlightKey)}.</p>
+            )}
+            <h3 className="proposal-subheading">Flights</h3>
+            <RankedList items={rankedFlights} maxVotes={Math.max(0, ...rankedFlights.map((item) => item.count))} icon={<FaPlaneDeparture size={12} />} emptyText="No flight votes." mode={getVoteMode(votes, 'flights')} />
+            <h3 className="proposal-subheading mt-3">Accommodation</h3>
+            <RankedList items={rankedAccommodations} maxVotes={Math.max(0, ...rankedAccommodations.map((item) => item.count))} icon={<FaHotel size={12} />} emptyText="No accommodation votes." mode={getVoteMode(votes, 'accommodations')} />
+          </div>
+        </section>
+      </article>
+    </div>,
+    document.body
+  );
+};
+
+export default TripProposal;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { FaArrowDown, FaArrowUp, FaTimes } from 'react-icons/fa';
+import { VoteBallot } from '../types';
+import { POINTS_PER_VOTER, getPointsUsed } from '../utils/voting';
+
+interface Props {
+  mode: 'ranked' | 'points';
+  options: { id: string; label: string }[];
+  voter: string;
+  ballot: VoteBallot | undefined;
+  onChange: (ballot: VoteBallot) => void;
+}
+
+const VoteBallotEditor: React.FC<Props> = ({ mode, options, voter, ballot, onChange }) => {
+  const current: VoteBallot = ballot ?? { voter };
+  const labelFor = (id: string) => options.find((option) => option.id === id)?.label ?? 'Removed option';
+
+  if (mode === 'ranked') {
+    const ranking = (current.ranking ?? []).filter((id) => options.some((option) => option.id === id));
+    const unranked = options.filter((option) => !ranking.includes(option.id));
+    const move = (index: number, offset: number) => {
+      const next = [...ranking];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      onChange({ ...current, ranking: next });
+    };
+
+    return (
+      <div className="vote-ballot">
+        <div className="small fw-semibold mb-2">Your ranking</div>
+        {ranking.length === 0 && <div className="small text-muted mb-2">Add options in order of preference.</div>}
+        <ol className="vote-ballot-ranking">
+          {ranking.map((id, index) => (
+            <li key={id}>
+              <div className="d-flex align-items-center justify-content-between gap-2">
+                <span className="text-truncate">{labelFor(id)}</span>
+                <span className="d-flex gap-1 flex-shrink-0">
+                  <Button size="sm" variant="outline-secondary" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up"><FaArrowUp size={10} /></Button>
+                  <Button size="sm" variant="outline-secondary" disabled={index === ranking.length - 1} onClick={() => move(index, 1)} aria-label="Move down"><FaArrowDown size={10} /></Button>
+                  <Button size="sm" variant="outline-danger" onClick={() => onChange({ ...current, ranking: ranking.filter((item) => item !== id) })} aria-label="Remove from ranking"><FaTimes size={10} /></Button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+        {unranked.length > 0 && (
+          <Form.Select
+            size="sm"
+            value=""
+            onChange={(e) => e.target.value && onChange({ ...current, ranking: [...ranking, e.target.value] })}
+            aria-label="Add your next choice"
+          >
+            <option value="">Add choice #{ranking.length + 1}…</option>
+            {unranked.map((option) => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </Form.Select>
+        )}
+      </div>
+    );
+  }
+
+  const points = current.points ?? {};
+  const left = POINTS_PER_VOTER - getPointsUsed(current);
+  const setPoints = (id: string, value: number) => {
+    // Never hand out more than the points still free plus what this option already has.
+    const capped = Math.max(0, Math.min(Math.floor(value) || 0, left + (points[id] ?? 0)));
+    onChange({ ...current, points: { ...points, [id]: capped } });
+  };
+
+  return (
+    <div className="vote-ballot">
+      <div className="small fw-semibold mb-2 d-flex justify-content-between">
+        <span>Your points</span>
+        <span className={left === 0 ? 'text-success' : 'text-muted'}>{left} of {POINTS_PER_VOTER} left</span>
+      </div>
+      <div className="vote-ballot-points">
+        {options.map((option) => (
+          <Form.Group key={option.id} controlId={`points-${option.id}`} className="d-flex align-items-center gap-2">
+            <Form.Label className="small mb-0 flex-grow-1 text-truncate">{option.label}</Form.Label>
+            <Form.Control
+              type="number"
+              size="sm"
+              min={0}
+              max={POINTS_PER_VOTER}
+              value={points[option.id] ?? 0}
+              onChange={(e) => setPoints(option.id, Number(e.target.value))}
+              style={{ width: 70 }}
+            />
+          </Form.Group>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VoteBallotEditor;
@@ -1,25 +1,43 @@
 import React from 'react';
 import { OverlayTrigger, Tooltip } from 'react-bootstrap';
-import { FaThumbsUp } from 'react-icons/fa';
+import { FaCheckCircle, FaLock, FaThumbsUp } from 'react-icons/fa';
+import { formatVoters } from '../utils/voting';
+import { plural } from '../utils/dates';
 
 interface Props {
   voters: string[];
   currentPerson: string;
   onToggle: () => void;
+  /** The category's poll is closed or decided; votes are shown but can no longer change. */
+  closed?: boolean;
+  /** Secret ballot with the poll still open: the tooltip shows the total and whether you voted, never names. */
+  secret?: boolean;
 }
 
-const VoteButton: React.FC<Props> = ({ voters, currentPerson, onToggle }) => {
+/** Marks the option a decided poll settled on as the official choice. */
+export const DecidedFlag: React.FC<{ className?: string }> = ({ className = '' }) => (
+  <span className={`decided-flag small d-inline-flex align-items-center gap-1 ${className}`}>
+    <FaCheckCircle size={10} /> Decided
+  </span>
+);
+
+const VoteButton: React.FC<Props> = ({ voters, currentPerson, onToggle, closed = false, secret = false }) => {
   const hasVoted = currentPerson !== '' && voters.includes(currentPerson);
-  const disabled = currentPerson === '';
+  const disabled = currentPerson === '' || closed;
   const count = voters.length;
+  const total = plural(count, 'vote');
 
   const tooltip = (
     <Tooltip id="vote-tooltip">
-      {disabled
+      {closed
+        ? `Voting is closed${count > 0 ? `: ${formatVoters(voters)}` : ''}`
+        : currentPerson === ''
         ? 'Select a person to vote'
-        : count === 0
-          ? 'No votes yet'
-          : voters.join(', ')}
+        : secret
+          ? `Secret ballot: ${count === 0 ? 'no votes yet' : `${total}${hasVoted ? ', including yours' : ''}`}`
+          : count === 0
+            ? 'No votes yet'
+            : formatVoters(voters)}
     </Tooltip>
   );
 
@@ -28,13 +46,13 @@ const VoteButton: React.FC<Props> = ({ voters, currentPerson, onToggle }) => {
       <span className="d-inline-block">
         <button
           type="button"
-          className={`vote-btn${hasVoted ? ' active' : ''}`}
+          className={`vote-btn${hasVoted ? ' active' : ''}${closed ? ' closed' : ''}`}
           onClick={onToggle}
           disabled={disabled}
           style={disabled ? { pointerEvents: 'none' } : undefined}
-          aria-label={`${count} vote${count === 1 ? '' : 's'}${hasVoted ? ' (you voted)' : ''}`}
+          aria-label={`${total}${hasVoted ? ' (you voted)' : ''}${closed ? ', voting closed' : ''}`}
         >
-          <FaThumbsUp size={12} />
+          {closed ? <FaLock size={11} /> : <FaThumbsUp size={12} />}
           {count > 0 && <span className="vote-count">{count}</span>}
         </button>
       </span>
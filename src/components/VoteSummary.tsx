@@ -1,8 +1,13 @@
-import React, { useMemo } from 'react';
-import { Modal, Badge, ProgressBar } from 'react-bootstrap';
-import { Destination, TripVotes } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Modal, Badge, ProgressBar, ButtonGroup, Button, Table, Form } from 'react-bootstrap';
+import { Destination, PollStatus, TripVotes, VoteBallot, VoteBlocker, VoteCategory, VoteMode, VotePoll } from '../types';
 import { formatCurrency } from '../utils/budget';
-import { FaMapMarkerAlt, FaPlaneDeparture, FaHotel, FaTrophy } from 'react-icons/fa';
+import { getFlightEndDate, getFlightStartDate } from '../utils/flightSegments';
+import { POLL_STATUS_LABELS, RunoffRound, VOTE_CATEGORIES, VOTE_MODES, describeBlockers, formatFlightDateKey, formatVoters, getBallot, getBlockers, getDecision, getFlightDateKey, getPoll, getPollStatus, getSupporterMap, getVoteMode, isSecretBallot, revealBlockers, revealVoters, tallyVotes } from '../utils/voting';
+import { plural } from '../utils/dates';
+import VoteBallotEditor from './VoteBallotEditor';
+import { DecidedFlag } from './VoteButton';
+import { FaMapMarkerAlt, FaPlaneDeparture, FaHotel, FaTrophy, FaBan, FaCheckCircle } from 'react-icons/fa';
 
 interface Props {
   show: boolean;
@@ -10,33 +15,66 @@ interface Props {
   destinations: Destination[];
   votes: TripVotes;
   tripMembers: string[];
+  currentPerson: string;
+  onModeChange: (category: VoteCategory, mode: VoteMode) => void;
+  onBallotChange: (category: VoteCategory, ballot: VoteBallot) => void;
+  onPollChange: (category: VoteCategory, poll: VotePoll) => void;
+  onSecretBallotChange: (enabled: boolean) => void;
+  /** Secret ballots key voter hashes by the trip code, so they can only be turned on for a shared trip. */
+  isSharedTrip: boolean;
 }
 
-interface RankedItem {
+export interface RankedItem {
   id: string;
   label: string;
   sublabel: string;
+  /** Names where they may be shown; hidden voters stay hashes (see `revealVoters`). */
   voters: string[];
+  /** Approval votes, points, or ranked-choice votes in the last round the option was counted in. */
   count: number;
+  /** Ranked choice: the round the option was knocked out in. */
+  eliminatedInRound?: number;
+  blockers: VoteBlocker[];
+  /** The category's poll was decided on this option (for flights, on its date group). */
+  decided: boolean;
 }
 
-const rankItems = (
+/**
+ * Options with any support, best first, scored the way the category votes. The decided option
+ * leads and options someone has blocked go below all the others however many votes they have.
+ * `getBlockKey` maps an option to the key its blockers and decision are stored under (a flight's
+ * date group).
+ */
+export const rankItems = (
   ids: string[],
-  voteMap: Record<string, string[]>,
-  labelFn: (id: string) => { label: string; sublabel: string } | null
+  votes: TripVotes,
+  category: VoteCategory,
+  labelFn: (id: string) => { label: string; sublabel: string } | null,
+  getBlockKey: (id: string) => string = (id) => id
 ): RankedItem[] => {
-  return ids
-    .map((id) => {
+  const tally = tallyVotes(votes, category, ids);
+  const decision = getDecision(votes, category);
+  const unvotedIds = ids.filter((id) => !tally.order.includes(id) && (getBlockKey(id) === decision || getBlockers(votes, category, getBlockKey(id)).length > 0));
+  return [...tally.order, ...unvotedIds]
+    .map((id): RankedItem | null => {
       const info = labelFn(id);
       if (!info) return null;
-      const voters = voteMap[id] || [];
-      return { id, label: info.label, sublabel: info.sublabel, voters, count: voters.length };
+      const voters = tally.supporters[id] || [];
+      const blockers = getBlockers(votes, category, getBlockKey(id));
+      return { id, label: info.label, sublabel: info.sublabel, voters, count: tally.scores[id] ?? 0, eliminatedInRound: tally.eliminatedInRound[id], blockers, decided: getBlockKey(id) === decision };
     })
-    .filter((item): item is RankedItem => item !== null && item.count > 0)
-    .sort((a, b) => b.count - a.count);
+    .filter((item): item is RankedItem => item !== null)
+    .sort((a, b) => Number(b.decided) - Number(a.decided) || Number(a.blockers.length > 0) - Number(b.blockers.length > 0));
 };
 
-const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.ReactNode; emptyText: string }> = ({ items, maxVotes, icon, emptyText }) => {
+const describeScore = (item: RankedItem, mode: VoteMode) => {
+  if (mode === 'points') return plural(item.count, 'point');
+  const votes = plural(item.count, 'vote');
+  if (mode === 'ranked') return item.eliminatedInRound ? `${votes} · out in round ${item.eliminatedInRound}` : `${votes} in the final round`;
+  return votes;
+};
+
+export const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.ReactNode; emptyText: string; mode?: VoteMode }> = ({ items, maxVotes, icon, emptyText, mode = 'approval' }) => {
   if (items.length === 0) {
     return <div className="text-muted small py-2">{emptyText}</div>;
   }
@@ -46,7 +84,11 @@ const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.
       {items.map((item, index) => (
         <div key={item.id} className="vote-ranked-item">
           <div className="vote-rank">
-            {index === 0 && item.count > 0 ? (
+            {item.decided ? (
+              <FaCheckCircle className="decided-flag" size={14} title="Decided" />
+            ) : item.blockers.length > 0 ? (
+              <FaBan className="text-danger" size={14} title="Someone can't do this" />
+            ) : index === 0 && item.count > 0 && !item.eliminatedInRound ? (
               <FaTrophy className="text-warning" size={14} />
             ) : (
               <span className="text-muted small">#{index + 1}</span>
@@ -56,8 +98,9 @@ const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.
             <div className="d-flex align-items-center gap-2">
               <span className="opacity-50">{icon}</span>
               <strong className="text-truncate">{item.label}</strong>
-              <Badge bg={item.count > 0 ? 'primary' : 'secondary'} pill className="ms-auto flex-shrink-0">
-                {item.count} vote{item.count === 1 ? '' : 's'}
+              {item.decided && <DecidedFlag className="flex-shrink-0" />}
+              <Badge bg={item.count > 0 && !item.eliminatedInRound ? 'primary' : 'secondary'} pill className="ms-auto flex-shrink-0">
+                {describeScore(item, mode)}
               </Badge>
             </div>
             <div className="small text-muted text-truncate">{item.sublabel}</div>
@@ -70,7 +113,10 @@ const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.
               />
             )}
             {item.voters.length > 0 && (
-              <div className="small text-muted mt-1">{item.voters.join(', ')}</div>
+              <div className="small text-muted mt-1">{formatVoters(item.voters)}</div>
+            )}
+            {item.blockers.length > 0 && (
+              <div className="small text-danger mt-1">Can't: {describeBlockers(item.blockers)}</div>
             )}
           </div>
         </div>
@@ -79,62 +125,177 @@ const RankedList: React.FC<{ items: RankedItem[]; maxVotes: number; icon: React.
   );
 };
 
-const VoteSummary: React.FC<Props> = ({ show, onHide, destinations, votes, tripMembers }) => {
-  const allFlights = useMemo(() => destinations.flatMap((d) => d.flights.map((f) => ({ ...f, destName: d.name }))), [destinations]);
-  const allAccommodations = useMemo(() => destinations.flatMap((d) => d.accommodations.map((a) => ({ ...a, destName: d.name }))), [destinations]);
-
-  const rankedDestinations = useMemo(() => rankItems(
-    destinations.map((d) => d.id),
-    votes.destinations,
-    (id) => {
-      const d = destinations.find((dest) => dest.id === id);
-      if (!d) return null;
-      return {
-        label: d.name,
-        sublabel: `${d.flights.length} flights, ${d.accommodations.length} stays`
-      };
-    }
-  ), [destinations, votes.destinations]);
-
-  const rankedFlights = useMemo(() => rankItems(
-    allFlights.map((f) => f.id),
-    votes.flights,
-    (id) => {
-      const f = allFlights.find((fl) => fl.id === id);
-      if (!f) return null;
-      return {
-        label: f.description || 'Flight Option',
-        sublabel: [f.destName, f.startDate && f.endDate ? `${f.startDate} to ${f.endDate}` : '', formatCurrency(f.pricePerPerson) + '/pp'].filter(Boolean).join(' · ')
-      };
-    }
-  ), [allFlights, votes.flights]);
-
-  const rankedAccommodations = useMemo(() => rankItems(
-    allAccommodations.map((a) => a.id),
-    votes.accommodations,
-    (id) => {
-      const a = allAccommodations.find((acc) => acc.id === id);
-      if (!a) return null;
-      return {
-        label: a.description || 'Accommodation Option',
-        sublabel: [a.destName, a.startDate && a.endDate ? `${a.startDate} to ${a.endDate}` : '', formatCurrency(a.totalPrice) + ' total'].filter(Boolean).join(' · ')
-      };
-    }
-  ), [allAccommodations, votes.accommodations]);
+/** Ranked choice: how many ballots each option held in every round, and who went out when. */
+const RunoffRounds: React.FC<{ items: RankedItem[]; rounds: RunoffRound[] }> = ({ items, rounds }) => {
+  if (rounds.length === 0) return null;
+  const exhausted = rounds.some((round) => round.exhausted > 0);
+
+  return (
+    <Table size="sm" responsive className="vote-runoff-table small mt-2 mb-0">
+      <thead>
+        <tr>
+          <th>Instant runoff</th>
+          {rounds.map((_, index) => <th key={index} className="text-end">Round {index + 1}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item) => (
+          <tr key={item.id}>
+            <td className="text-truncate">{item.label}</td>
+            {rounds.map((round, index) => {
+              const count = round.counts[item.id];
+              return (
+                <td key={index} className={`text-end${round.eliminated.includes(item.id) ? ' text-danger' : ''}`}>
+                  {count === undefined ? '—' : count}
+                  {round.eliminated.includes(item.id) && ' ✕'}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+        {exhausted && (
+          <tr className="text-muted">
+            <td>No choice left</td>
+            {rounds.map((round, index) => <td key={index} className="text-end">{round.exhausted}</td>)}
+          </tr>
+        )}
+      </tbody>
+    </Table>
+  );
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// datetime-local inputs work in local time without a zone.
+const toLocalInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface PollControlsProps {
+  title: string;
+  poll: VotePoll;
+  status: PollStatus;
+  /** What the poll can be decided on, keyed the way the decision is stored. */
+  choices: { key: string; label: string }[];
+  /** Preselected choice: the current leader, if any. */
+  leader: string;
+  onChange: (poll: VotePoll) => void;
+}
+
+/** Open → closed → decided, with an optional deadline while voting is open. */
+const PollControls: React.FC<PollControlsProps> = ({ title, poll, status, choices, leader, onChange }) => {
+  const [choice, setChoice] = useState('');
+  const selected = choices.some((item) => item.key === choice) ? choice : leader || choices[0]?.key || '';
+  const decided = choices.find((item) => item.key === poll.decision);
+  const isPastDeadline = poll.status === 'open' && status === 'closed';
 
-  const maxDestVotes = rankedDestinations[0]?.count || 0;
-  const maxFlightVotes = rankedFlights[0]?.count || 0;
-  const maxAccVotes = rankedAccommodations[0]?.count || 0;
+  return (
+    <div className="vote-poll-controls small mb-3">
+      <div className="d-flex align-items-center gap-2 flex-wrap">
+        <Badge bg={status === 'open' ? 'success' : status === 'decided' ? 'primary' : 'secondary'}>{POLL_STATUS_LABELS[status]}</Badge>
+        {status === 'decided' && <span>Decided on <strong>{decided?.label ?? 'a removed option'}</strong></span>}
+        {isPastDeadline && poll.deadline !== undefined && <span className="text-muted">Deadline passed {new Date(poll.deadline).toLocaleString('en-IE', { dateStyle: 'medium', timeStyle: 'short' })}</span>}
+        <span className="ms-auto d-flex gap-2">
+          {status === 'open' ? (
+            <Button size="sm" variant="outline-secondary" onClick={() => onChange({ ...poll, status: 'closed' })}>Close voting</Button>
+          ) : (
+            <Button size="sm" variant="outline-secondary" onClick={() => onChange({ status: 'open' })}>Reopen</Button>
+          )}
+        </span>
+      </div>
+      {status === 'open' && (
+        <Form.Group controlId={`poll-deadline-${title}`} className="d-flex align-items-center gap-2 mt-2">
+          <Form.Label className="mb-0 text-muted text-nowrap">Closes at</Form.Label>
+          <Form.Control
+            type="datetime-local"
+            size="sm"
+            value={poll.deadline !== undefined ? toLocalInputValue(poll.deadline) : ''}
+            onChange={(e) => {
+              const deadline = e.target.value ? new Date(e.target.value).getTime() : NaN;
+              onChange(Number.isFinite(deadline) ? { ...poll, deadline } : { status: poll.status });
+            }}
+            style={{ maxWidth: 220 }}
+          />
+        </Form.Group>
+      )}
+      {status === 'closed' && choices.length > 0 && (
+        <div className="d-flex align-items-center gap-2 mt-2">
+          <Form.Select size="sm" value={selected} onChange={(e) => setChoice(e.target.value)} aria-label={`${title} decision`} style={{ maxWidth: 320 }}>
+            {choices.map((item) => <option key={item.key} value={item.key}>{item.label}</option>)}
+          </Form.Select>
+          <Button size="sm" variant="primary" disabled={!selected} onClick={() => onChange({ ...poll, status: 'decided', decision: selected })}>Decide</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SECTIONS: { category: VoteCategory; title: string; icon: React.ComponentType<{ size?: number; className?: string }>; emptyText: string }[] = [
+  { category: 'destinations', title: 'Destinations', icon: FaMapMarkerAlt, emptyText: 'No destinations to rank.' },
+  { category: 'flights', title: 'Flights', icon: FaPlaneDeparture, emptyText: 'No flights to rank.' },
+  { category: 'accommodations', title: 'Accommodations', icon: FaHotel, emptyText: 'No accommodations to rank.' }
+];
+
+const VoteSummary: React.FC<Props> = ({ show, onHide, destinations, votes, tripMembers, currentPerson, onModeChange, onBallotChange, onPollChange, onSecretBallotChange, isSharedTrip }) => {
+  const options = useMemo((): Record<VoteCategory, { id: string; label: string; sublabel: string; blockKey?: string }[]> => ({
+    destinations: destinations.map((d) => ({
+      id: d.id,
+      label: d.name,
+      sublabel: `${d.flights.length} flights, ${d.accommodations.length} stays`
+    })),
+    flights: destinations.flatMap((d) => d.flights.map((f) => ({
+      id: f.id,
+      blockKey: getFlightDateKey(f),
+      label: f.description || 'Flight Option',
+      sublabel: [d.name, getFlightStartDate(f) && getFlightEndDate(f) ? `${getFlightStartDate(f)} to ${getFlightEndDate(f)}` : '', formatCurrency(f.pricePerPerson, f.currency) + '/pp'].filter(Boolean).join(' · ')
+    }))),
+    accommodations: destinations.flatMap((d) => d.accommodations.map((a) => ({
+      id: a.id,
+      label: a.description || 'Accommodation Option',
+      sublabel: [d.name, a.startDate && a.endDate ? `${a.startDate} to ${a.endDate}` : '', formatCurrency(a.totalPrice, a.currency) + ' total'].filter(Boolean).join(' · ')
+    })))
+  }), [destinations]);
+
+  // Flights are decided by date group, so every flight on the same dates is one choice.
+  const choices = useMemo((): Record<VoteCategory, { key: string; label: string }[]> => ({
+    destinations: destinations.map((d) => ({ key: d.id, label: d.name })),
+    flights: Array.from(new Map(destinations.flatMap((d) => d.flights.map((f) => getFlightDateKey(f))).map((key) => [key, {
+      key,
+      label: `${formatFlightDateKey(key)} · ${destinations.filter((d) => d.flights.some((f) => getFlightDateKey(f) === key)).map((d) => d.name).join(', ')}`
+    }])).values()),
+    accommodations: destinations.flatMap((d) => d.accommodations.map((a) => ({ key: a.id, label: `${a.description || 'Accommodation Option'} · ${d.name}` })))
+  }), [destinations]);
+
+  const results = useMemo(() => SECTIONS.map((section) => {
+    const sectionOptions = options[section.category];
+    const ids = sectionOptions.map((option) => option.id);
+    const getKey = (id: string) => sectionOptions.find((option) => option.id === id)?.blockKey ?? id;
+    const items = rankItems(ids, votes, section.category, (id) => sectionOptions.find((option) => option.id === id) ?? null, getKey)
+      .map((item) => ({ ...item, voters: revealVoters(votes, section.category, item.voters, currentPerson, tripMembers), blockers: revealBlockers(votes, section.category, item.blockers, currentPerson, tripMembers) }));
+    const leader = items.find((item) => item.count > 0 && item.blockers.length === 0 && !item.eliminatedInRound);
+    return {
+      ...section,
+      mode: getVoteMode(votes, section.category),
+      poll: getPoll(votes, section.category),
+      status: getPollStatus(votes, section.category),
+      items,
+      leader: leader ? getKey(leader.id) : '',
+      rounds: tallyVotes(votes, section.category, ids).rounds
+    };
+  }), [options, votes, tripMembers, currentPerson]);
 
   const totalVoters = tripMembers.length;
   const votersWhoVoted = useMemo(() => {
     const names = new Set<string>();
-    for (const voters of Object.values(votes.destinations)) voters.forEach((n) => names.add(n));
-    for (const voters of Object.values(votes.flights)) voters.forEach((n) => names.add(n));
-    for (const voters of Object.values(votes.accommodations)) voters.forEach((n) => names.add(n));
+    for (const category of VOTE_CATEGORIES) {
+      for (const voters of Object.values(getSupporterMap(votes, category))) voters.forEach((n) => names.add(n));
+    }
     return names.size;
   }, [votes]);
 
+  const secret = isSecretBallot(votes);
+
   return (
     <Modal show={show} onHide={onHide} size="lg" centered scrollable>
       <Modal.Header closeButton>
@@ -143,46 +304,84 @@ const VoteSummary: React.FC<Props> = ({ show, onHide, destinations, votes, tripM
       <Modal.Body>
         <div className="d-flex gap-3 mb-4">
           <Badge bg="light" text="dark" className="px-3 py-2">
-            {totalVoters} member{totalVoters === 1 ? '' : 's'}
+            {plural(totalVoters, 'member')}
           </Badge>
           <Badge bg="light" text="dark" className="px-3 py-2">
             {votersWhoVoted} voted
           </Badge>
         </div>
 
-        <h6 className="d-flex align-items-center gap-2 mb-3">
-          <FaMapMarkerAlt className="text-primary" /> Destinations
-        </h6>
-        <RankedList
-          items={rankedDestinations}
-          maxVotes={maxDestVotes}
-          icon={<FaMapMarkerAlt size={12} />}
-          emptyText="No destinations to rank."
-        />
-
-        <hr />
-
-        <h6 className="d-flex align-items-center gap-2 mb-3">
-          <FaPlaneDeparture className="text-primary" /> Flights
-        </h6>
-        <RankedList
-          items={rankedFlights}
-          maxVotes={maxFlightVotes}
-          icon={<FaPlaneDeparture size={12} />}
-          emptyText="No flights to rank."
-        />
-
-        <hr />
-
-        <h6 className="d-flex align-items-center gap-2 mb-3">
-          <FaHotel className="text-primary" /> Accommodations
-        </h6>
-        <RankedList
-          items={rankedAccommodations}
-          maxVotes={maxAccVotes}
-          icon={<FaHotel size={12} />}
-          emptyText="No accommodations to rank."
-        />
+        <div className="vote-secret-ballot small mb-4">
+          <Form.Check
+            type="switch"
+            id="secret-ballot"
+            label="Secret ballots"
+            checked={secret}
+            disabled={!secret && !isSharedTrip}
+            onChange={(e) => onSecretBallotChange(e.target.checked)}
+          />
+          <div className="text-muted">
+            {secret
+              ? 'Votes, ballots and blocks are stored under a hash of each member\'s name and the trip code, so the stored trip data names no one. While a poll is open others see totals and your own vote only; names show once it closes. Anyone with the trip code could still work the hashes out.'
+              : isSharedTrip
+                ? 'Stores every vote, ballot and block under a hash instead of a name, and shows only totals until each poll closes.'
+                : 'Share the trip to use secret ballots.'}
+          </div>
+        </div>
+
+        {results.map(({ category, title, icon: Icon, emptyText, mode, poll, status, items, leader, rounds }, index) => (
+          <React.Fragment key={category}>
+            {index > 0 && <hr />}
+            <div className="d-flex align-items-center justify-content-between gap-2 flex-wrap mb-2">
+              <h6 className="d-flex align-items-center gap-2 m-0">
+                <Icon className="text-primary" /> {title}
+              </h6>
+              <ButtonGroup size="sm" aria-label={`${title} voting mode`}>
+                {VOTE_MODES.map((option) => (
+                  <Button
+                    key={option.id}
+                    variant={mode === option.id ? 'primary' : 'outline-primary'}
+                    disabled={status !== 'open'}
+                    onClick={() => mode !== option.id && onModeChange(category, option.id)}
+                    title={option.description}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </ButtonGroup>
+            </div>
+            <p className="small text-muted mb-2">{VOTE_MODES.find((option) => option.id === mode)?.description}</p>
+            <PollControls
+              title={title}
+              poll={poll}
+              status={status}
+              choices={choices[category]}
+              leader={leader}
+              onChange={(next) => onPollChange(category, next)}
+            />
+            {mode !== 'approval' && status === 'open' && options[category].length > 0 && (
+              currentPerson ? (
+                <VoteBallotEditor
+                  mode={mode}
+                  options={options[category]}
+                  voter={currentPerson}
+                  ballot={getBallot(votes, category, currentPerson)}
+                  onChange={(ballot) => onBallotChange(category, ballot)}
+                />
+              ) : (
+                <div className="small text-muted mb-3">Select who you are to fill in your ballot.</div>
+              )
+            )}
+            <RankedList
+              items={items}
+              maxVotes={Math.max(0, ...items.map((item) => item.count))}
+              icon={<Icon size={12} />}
+              emptyText={emptyText}
+              mode={mode}
+            />
+            {mode === 'ranked' && <RunoffRounds items={items} rounds={rounds} />}
+          </React.Fragment>
+        ))}
       </Modal.Body>
     </Modal>
   );
@@ -0,0 +1,25 @@
+export type Unsubscribe = () => void;
+
+export interface TransactionResult {
+  committed: boolean;
+  /** Value at the path after the attempt; the remote value when the update was aborted. */
+  value: unknown;
+}
+
+/**
+ * Everything trip sync needs from a realtime store. Paths are slash-separated
+ * (e.g. `trips/ABC123/votes`) and a null value means "absent": writing null removes the path.
+ */
+export interface SyncBackend {
+  /** Shown in the sync UI. */
+  name: string;
+  get(path: string): Promise<unknown>;
+  set(path: string, value: unknown): Promise<void>;
+  /** Writes several absolute paths in one atomic step. */
+  update(updates: Record<string, unknown>): Promise<void>;
+  /** Calls back with the current value at `path`, then again after every change beneath it. */
+  subscribe(path: string, onValue: (value: unknown) => void): Unsubscribe;
+  subscribeConnection(onChange: (connected: boolean) => void): Unsubscribe;
+  /** Writes whatever `updater` returns for the current value; returning undefined aborts. */
+  transaction(path: string, updater: (current: unknown) => unknown): Promise<TransactionResult>;
+}
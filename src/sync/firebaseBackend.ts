@@ -0,0 +1,15 @@
+import { Database, get, onValue, ref, runTransaction, set, update } from 'firebase/database';
+import { SyncBackend } from './backend';
+
+export const createFirebaseBackend = (database: Database): SyncBackend => ({
+  name: 'Firebase',
+  get: async (path) => (await get(ref(database, path))).val(),
+  set: (path, value) => set(ref(database, path), value),
+  update: (updates) => update(ref(database), updates),
+  subscribe: (path, onChange) => onValue(ref(database, path), (snapshot) => onChange(snapshot.val())),
+  subscribeConnection: (onChange) => onValue(ref(database, '.info/connected'), (snapshot) => onChange(snapshot.val() === true)),
+  transaction: async (path, updater) => {
+    const result = await runTransaction(ref(database, path), (current) => updater(current));
+    return { committed: result.committed, value: result.snapshot.val() };
+  }
+});
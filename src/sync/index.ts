@@ -0,0 +1,15 @@
+import { firebaseDatabase } from '../firebase';
+import { SyncBackend } from './backend';
+import { createFirebaseBackend } from './firebaseBackend';
+import { createServerBackend } from './serverBackend';
+
+export type { SyncBackend } from './backend';
+
+const serverUrl = import.meta.env.VITE_SYNC_SERVER_URL;
+
+// A configured sync server wins over Firebase so local development never touches a shared project.
+export const syncBackend: SyncBackend | null = serverUrl
+  ? createServerBackend(serverUrl.replace(/\/+$/, ''), import.meta.env.VITE_SYNC_SERVER_TOKEN)
+  : firebaseDatabase
+    ? createFirebaseBackend(firebaseDatabase)
+    : null;
@@ -0,0 +1,142 @@
+import { SyncBackend } from './backend';
+
+type ServerMessage = { type: 'value'; path: string; value: unknown };
+
+const RECONNECT_DELAY_MS = 2000;
+const TRANSACTION_ATTEMPTS = 5;
+
+const encodePath = (path: string) => path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+
+/**
+ * Client for the self-hosted sync server in `server/`. Reads and writes go over REST;
+ * one shared WebSocket delivers value updates for subscribed paths and reports connectivity.
+ * `token` is the server's SYNC_TOKEN, if it has one.
+ */
+export const createServerBackend = (baseUrl: string, token = ''): SyncBackend => {
+  const listeners = new Map<string, Set<(value: unknown) => void>>();
+  const connectionListeners = new Set<(connected: boolean) => void>();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`Sync server responded ${response.status} to ${method} ${path}`);
+    }
+    return { status: response.status, data: await response.json() as unknown };
+  };
+
+  const notifyConnection = (connected: boolean) => {
+    connectionListeners.forEach((listener) => listener(connected));
+  };
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const hasSubscribers = () => listeners.size > 0 || connectionListeners.size > 0;
+
+  const connect = () => {
+    if (socket || !hasSubscribers()) return;
+
+    // Browsers cannot set headers on a WebSocket, so the token goes in the query string.
+    const nextSocket = new WebSocket(`${baseUrl.replace(/^http/, 'ws')}/ws${token ? `?token=${encodeURIComponent(token)}` : ''}`);
+    socket = nextSocket;
+    nextSocket.onopen = () => {
+      notifyConnection(true);
+      listeners.forEach((_, path) => send({ type: 'subscribe', path }));
+    };
+    nextSocket.onmessage = (event) => {
+      const message = JSON.parse(String(event.data)) as ServerMessage;
+      if (message.type === 'value') {
+        listeners.get(message.path)?.forEach((listener) => listener(message.value));
+      }
+    };
+    nextSocket.onclose = () => {
+      if (socket !== nextSocket) return;
+      socket = null;
+      notifyConnection(false);
+      if (hasSubscribers() && reconnectTimer === null) {
+        reconnectTimer = window.setTimeout(() => {
+          reconnectTimer = null;
+          connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+  };
+
+  const disconnectIfIdle = () => {
+    if (hasSubscribers()) return;
+    if (reconnectTimer !== null) {
+      window.clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    socket?.close();
+    socket = null;
+  };
+
+  const get = async (path: string) => (await request('GET', `/api/data/${encodePath(path)}`)).data;
+
+  return {
+    name: 'sync server',
+    get,
+    set: async (path, value) => {
+      await request('PUT', `/api/data/${encodePath(path)}`, value);
+    },
+    update: async (updates) => {
+      await request('PATCH', '/api/data', updates);
+    },
+    subscribe: (path, onValue) => {
+      const pathListeners = listeners.get(path) ?? new Set();
+      const isNewPath = pathListeners.size === 0;
+      pathListeners.add(onValue);
+      listeners.set(path, pathListeners);
+      if (isNewPath) send({ type: 'subscribe', path });
+      connect();
+
+      return () => {
+        pathListeners.delete(onValue);
+        if (pathListeners.size === 0) {
+          listeners.delete(path);
+          send({ type: 'unsubscribe', path });
+        }
+        disconnectIfIdle();
+      };
+    },
+    subscribeConnection: (onChange) => {
+      connectionListeners.add(onChange);
+      onChange(socket?.readyState === WebSocket.OPEN);
+      connect();
+
+      return () => {
+        connectionListeners.delete(onChange);
+        disconnectIfIdle();
+      };
+    },
+    // Optimistic compare-and-set: retry with the fresh value whenever someone else wrote in between.
+    transaction: async (path, updater) => {
+      let current = await get(path);
+      for (let attempt = 0; attempt < TRANSACTION_ATTEMPTS; attempt += 1) {
+        const next = updater(current);
+        if (next === undefined) {
+          return { committed: false, value: current };
+        }
+        const { status, data } = await request('POST', `/api/cas/${encodePath(path)}`, { expected: current, value: next });
+        if (status !== 409) {
+          return { committed: true, value: (data as { value: unknown }).value };
+        }
+        current = (data as { value: unknown }).value;
+      }
+      return { committed: false, value: current };
+    }
+  };
+};
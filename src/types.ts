@@ -1,22 +1,52 @@
+export type FlightDirection = 'outbound' | 'return';
+
+export interface FlightSegment {
+  direction: FlightDirection;
+  from: string;
+  to: string;
+  date: string;
+  departureTime: string;
+  arrivalTime: string;
+  carrier: string;
+  flightNumber: string;
+}
+
 export interface Flight {
   id: string;
   link: string;
   description: string;
-  startDate: string;
-  endDate: string;
-  departureTime: string;
-  arrivalTime: string;
-  origin: string;
+  /** Legs in travel order: outbound legs first, then return legs. */
+  segments: FlightSegment[];
   pricePerPerson: number;
+  currency: string;
   createdAt?: number;
   updatedAt?: number;
 }
 
+/** Quick-add form state: a simple round trip that becomes one outbound and one return segment. */
+export interface FlightDraft extends Partial<Omit<Flight, 'segments'>> {
+  startDate?: string;
+  endDate?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  origin?: string;
+}
+
+export interface AccommodationRoom {
+  id: string;
+  name: string;
+  beds: number;
+  sofaBeds: number;
+  /** Shared with other guests, e.g. a hostel dorm, rather than private to the group. */
+  shared: boolean;
+}
+
 export interface Accommodation {
   id: string;
   link: string;
   description: string;
   totalPrice: number;
+  currency: string;
   startDate: string;
   endDate: string;
   imageUrl?: string;
@@ -24,27 +54,63 @@ export interface Accommodation {
   updatedAt?: number;
   rooms?: number;
   beds?: number;
+  /** Room-by-room sleeping layout; when set, `rooms` and `beds` are kept in step with it. */
+  roomLayout?: AccommodationRoom[];
+  /** Draft sleeping arrangement: member names per room id. */
+  roomAllocation?: Record<string, string[]>;
 }
 
+export type ExtraCostCategory = 'food' | 'transport' | 'venue' | 'activities' | 'other';
+
+/** How `value` grows with the trip: a one-off amount, or a rate per person and/or per night. */
+export type ExtraCostScaling = 'fixed' | 'perPerson' | 'perNight' | 'perPersonPerNight';
+
 export interface ExtraCost {
+  id: string;
   description: string;
   value: number;
+  currency: string;
+  paidBy?: string;
+  /** Missing on costs added before categories; treated as 'other'. */
+  category?: ExtraCostCategory;
+  /** Missing on costs added before scaling; treated as 'fixed'. */
+  scaling?: ExtraCostScaling;
+}
+
+/** One stay of a split booking: consecutive stays cover different nights, parallel ones different members. */
+export interface StaySelection {
+  accommodationId: string;
+  /** Members sleeping here; empty means the whole group. */
+  members: string[];
 }
 
 export interface BudgetAttempt {
   id: string;
   name: string;
   createdAt: number;
-  flightAssignments: Record<string, number>;
+  flightAssignments: Record<string, string[]>;
   selectedAccommodationId: string;
+  /** Every stay of a split plan; `selectedAccommodationId` mirrors the first one. */
+  stays?: StaySelection[];
   totalCost: number;
   remaining: number;
   perPersonTotal: number;
 }
 
+export interface SettlementLedger {
+  /** Payer per booked seat, in seat order, for each flight of the fixed attempt. */
+  flightPayers: Record<string, string[]>;
+  accommodationPayer: string;
+  /** Payers of the further stays of a split plan, by accommodation id. */
+  stayPayers?: Record<string, string>;
+}
+
 export interface BudgetEstimatorState {
-  flightAssignments: Record<string, number>;
+  /** Seats per flight: a trip member name, or an empty string for a seat nobody has been given yet. */
+  flightAssignments: Record<string, string[]>;
   selectedAccommodationId: string;
+  /** Every stay of a split plan; unset for a single stay for the whole group. */
+  stays?: StaySelection[];
   fixedAttemptId: string;
   attempts: BudgetAttempt[];
 }
@@ -57,12 +123,13 @@ export interface Destination {
   notes: string;
   extraCosts: ExtraCost[];
   budgetEstimator: BudgetEstimatorState;
-  flightDraft: Partial<Flight>;
+  flightDraft: FlightDraft;
   accommodationDraft: Partial<Accommodation>;
   flights: Flight[];
   accommodations: Accommodation[];
   customGroupLinks?: Record<string, Record<string, string>>;
   stayLinks?: { label: string; url: string }[];
+  ledger?: SettlementLedger;
 }
 
 export interface SearchLinkTemplate {
@@ -77,12 +144,97 @@ export interface PlannerSettings {
   totalBudget: number;
   peopleCount: number;
   searchLinks: SearchLinkTemplate[];
+  baseCurrency: string;
+  /** Units of `baseCurrency` per one unit of each listed currency. */
+  exchangeRates: Record<string, number>;
+  /** Trip length the best-dates finder looks for; a default applies when unset. */
+  tripNights?: number;
+}
+
+export type VoteCategory = 'destinations' | 'flights' | 'accommodations';
+
+export type VoteMode = 'approval' | 'ranked' | 'points';
+
+/** One member's ranked-choice and point-allocation votes in a category. */
+export interface VoteBallot {
+  voter: string;
+  /** Option ids, first choice first. */
+  ranking?: string[];
+  /** Points given per option id. */
+  points?: Record<string, number>;
+}
+
+/** A member ruling an option out entirely, e.g. "I can't make these dates". */
+export interface VoteBlocker {
+  voter: string;
+  reason?: string;
+}
+
+export type PollStatus = 'open' | 'closed' | 'decided';
+
+/** Where one category's vote stands: open for votes, closed to them, or settled on an official choice. */
+export interface VotePoll {
+  status: PollStatus;
+  /** Voting closes by itself at this time (ms since epoch). */
+  deadline?: number;
+  /** The official choice once decided: a destination id, a flight date group key or a stay id. */
+  decision?: string;
+}
+
+/** Secret ballots store voters as hashes of their name and the trip code (see `getVoterKey`). */
+export interface SecretBallot {
+  enabled: boolean;
+  /** Mixed into every voter hash along with the trip code; kept when turned off. */
+  salt: string;
 }
 
 export interface TripVotes {
+  /** Approval votes: voter names (or hashes, see `secretBallot`) per option id. */
   destinations: Record<string, string[]>;
   flights: Record<string, string[]>;
   accommodations: Record<string, string[]>;
+  /** Voting mode per category; approval when unset. */
+  modes?: Partial<Record<VoteCategory, VoteMode>>;
+  /** Ranked and point ballots per category, one per voter so each member only ever writes their own. */
+  ballots?: Partial<Record<VoteCategory, Record<string, VoteBallot>>>;
+  /** Blockers per option id; flights are blocked per date group (see `getFlightDateKey`). */
+  blockers?: Partial<Record<VoteCategory, Record<string, VoteBlocker[]>>>;
+  /** Poll lifecycle per category; open with no deadline when unset. */
+  polls?: Partial<Record<VoteCategory, VotePoll>>;
+  secretBallot?: SecretBallot;
+}
+
+/** Days one member has marked on the availability calendar, as YYYY-MM-DD. */
+export interface MemberAvailability {
+  member: string;
+  available: string[];
+  unavailable: string[];
+}
+
+export interface ActivityEvent {
+  id: string;
+  at: number;
+  /** Trip member who made the change; empty when no one was selected. */
+  actor: string;
+  message: string;
+  destinationId?: string;
+  /** Old and new value for single-field changes, e.g. a price edit. */
+  from?: string;
+  to?: string;
+  /** Events with the same key from the same person in quick succession are merged into one. */
+  key: string;
+}
+
+/** Everything a trip holds, as written by Export. Older files are migrated on import. */
+export interface TripBundle {
+  schemaVersion: number;
+  exportedAt: string;
+  destinations: Destination[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  votes: TripVotes;
+  availability: MemberAvailability[];
+  activity: ActivityEvent[];
 }
 
 export const DUBLIN_COORDS: [number, number] = [53.3498, -6.2603];
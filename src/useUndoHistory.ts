@@ -0,0 +1,38 @@
+import { useRef, useState } from 'react';
+import { EMPTY_HISTORY, HistoryEntry, HistoryState, recordHistory, stepHistory } from './utils/history';
+
+export function useUndoHistory<T extends object>() {
+  const history = useRef<HistoryState<T>>(EMPTY_HISTORY);
+  const [, setVersion] = useState(0);
+  const refresh = () => setVersion((version) => version + 1);
+
+  const record = (label: string, before: Partial<T>, after: Partial<T>, coalesceKey = label) => {
+    history.current = recordHistory(history.current, { label, before, after }, coalesceKey, Date.now());
+    refresh();
+  };
+
+  const step = (direction: 'undo' | 'redo'): HistoryEntry<T> | null => {
+    const { history: next, entry } = stepHistory(history.current, direction);
+    if (!entry) return null;
+    history.current = next;
+    refresh();
+    return entry;
+  };
+
+  const clear = () => {
+    history.current = EMPTY_HISTORY;
+    refresh();
+  };
+
+  const { past, future } = history.current;
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label ?? '',
+    redoLabel: future[future.length - 1]?.label ?? '',
+    record,
+    undo: () => step('undo'),
+    redo: () => step('redo'),
+    clear
+  };
+}
@@ -0,0 +1,234 @@
+import { ActivityEvent, Destination, VoteCategory, VoteMode, VotePoll } from '../types';
+import { formatFlightDateKey, getVoteModeLabel } from './voting';
+
+export type ActivityDraft = Omit<ActivityEvent, 'id' | 'at' | 'actor'>;
+
+// Typing into a field produces one update per keystroke; fold them into a single event.
+const MERGE_WINDOW_MS = 2 * 60 * 1000;
+export const ACTIVITY_LIMIT = 300;
+
+const ENTITY_NOUNS = {
+  flights: 'flight',
+  accommodations: 'stay',
+  extraCosts: 'extra cost'
+} as const;
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'name',
+  link: 'link',
+  pricePerPerson: 'price per person',
+  totalPrice: 'price',
+  value: 'amount',
+  currency: 'currency',
+  startDate: 'check-in',
+  endDate: 'check-out',
+  imageUrl: 'image',
+  rooms: 'rooms',
+  beds: 'beds',
+  roomLayout: 'room layout',
+  roomAllocation: 'room allocation',
+  paidBy: 'payer',
+  category: 'category',
+  scaling: 'charging',
+  segments: 'itinerary'
+};
+
+// Bookkeeping fields change on every edit and say nothing on their own.
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const DESTINATION_KEY_MESSAGES: [keyof Destination, string][] = [
+  ['notes', 'edited the notes'],
+  ['budgetEstimator', 'updated the budget plan'],
+  ['ledger', 'updated who paid what'],
+  ['customGroupLinks', 'edited the flight search links'],
+  ['stayLinks', 'edited the stay search links']
+];
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return String(value);
+};
+
+const isPrimitive = (value: unknown) => value === undefined || value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const describeEntityList = <T extends { id: string; description?: string }>(
+  destination: Destination,
+  listKey: keyof typeof ENTITY_NOUNS,
+  previous: T[],
+  next: T[]
+): ActivityDraft[] => {
+  const drafts: ActivityDraft[] = [];
+  const noun = ENTITY_NOUNS[listKey];
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+  const nextIds = new Set(next.map((item) => item.id));
+  const nameOf = (item: T) => item.description || `untitled ${noun}`;
+
+  for (const item of next) {
+    const before = previousById.get(item.id);
+    if (!before) {
+      drafts.push({ key: `${listKey}:${item.id}:add`, destinationId: destination.id, message: `added ${noun} ${nameOf(item)} to ${destination.name}` });
+      continue;
+    }
+
+    const beforeFields = before as Record<string, unknown>;
+    const itemFields = item as Record<string, unknown>;
+    const changedFields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(itemFields)]))
+      .filter((field) => !IGNORED_FIELDS.has(field) && !isSame(beforeFields[field], itemFields[field]));
+    for (const field of changedFields) {
+      const label = FIELD_LABELS[field] ?? field;
+      const simple = isPrimitive(beforeFields[field]) && isPrimitive(itemFields[field]);
+      drafts.push({
+        key: `${listKey}:${item.id}:${field}`,
+        destinationId: destination.id,
+        message: field === 'description' ? `renamed a ${noun} in ${destination.name}` : `changed ${nameOf(item)} ${label}`,
+        ...(simple ? { from: formatValue(beforeFields[field]), to: formatValue(itemFields[field]) } : {})
+      });
+    }
+  }
+
+  for (const item of previous) {
+    if (!nextIds.has(item.id)) {
+      drafts.push({ key: `${listKey}:${item.id}:remove`, destinationId: destination.id, message: `removed ${noun} ${nameOf(item)} from ${destination.name}` });
+    }
+  }
+
+  return drafts;
+};
+
+export const describeDestinationChanges = (previous: Destination[], next: Destination[]): ActivityDraft[] => {
+  const drafts: ActivityDraft[] = [];
+  const previousById = new Map(previous.map((destination) => [destination.id, destination]));
+  const nextIds = new Set(next.map((destination) => destination.id));
+
+  for (const destination of next) {
+    const before = previousById.get(destination.id);
+    if (!before) {
+      drafts.push({ key: `destination:${destination.id}:add`, destinationId: destination.id, message: `added destination ${destination.name}` });
+      continue;
+    }
+
+    drafts.push(...describeEntityList(destination, 'flights', before.flights, destination.flights));
+    drafts.push(...describeEntityList(destination, 'accommodations', before.accommodations, destination.accommodations));
+    drafts.push(...describeEntityList(destination, 'extraCosts', before.extraCosts, destination.extraCosts));
+
+    if (before.name !== destination.name) {
+      drafts.push({ key: `destination:${destination.id}:name`, destinationId: destination.id, message: 'renamed a destination', from: before.name, to: destination.name });
+    }
+    for (const [key, message] of DESTINATION_KEY_MESSAGES) {
+      if (!isSame(before[key], destination[key])) {
+        drafts.push({ key: `destination:${destination.id}:${key}`, destinationId: destination.id, message: `${message} for ${destination.name}` });
+      }
+    }
+  }
+
+  for (const destination of previous) {
+    if (!nextIds.has(destination.id)) {
+      drafts.push({ key: `destination:${destination.id}:remove`, destinationId: destination.id, message: `removed destination ${destination.name}` });
+    }
+  }
+
+  return drafts;
+};
+
+/** Names the voted-on option and where it lives, for "voted for …" events. */
+export const describeVote = (
+  destinations: Destination[],
+  category: VoteCategory,
+  entityId: string,
+  isAdding: boolean
+): ActivityDraft => {
+  const verb = isAdding ? 'voted for' : 'withdrew their vote for';
+  if (category === 'destinations') {
+    const destination = destinations.find((item) => item.id === entityId);
+    return { key: `vote:${category}:${entityId}`, destinationId: entityId, message: `${verb} ${destination?.name ?? 'a destination'}` };
+  }
+
+  const destination = destinations.find((item) => item[category].some((entity) => entity.id === entityId));
+  const entity = destination?.[category].find((item) => item.id === entityId);
+  const noun = category === 'flights' ? 'flight' : 'stay';
+  return {
+    key: `vote:${category}:${entityId}`,
+    destinationId: destination?.id,
+    message: `${verb} ${noun} ${entity?.description || `untitled ${noun}`}${destination ? ` in ${destination.name}` : ''}`
+  };
+};
+
+/** "can't make …" events; flight blockers name the date group rather than one flight. */
+export const describeBlocker = (
+  destinations: Destination[],
+  category: VoteCategory,
+  key: string,
+  reason: string | null
+): ActivityDraft => {
+  const verb = reason === null ? 'lifted their block on' : "can't make";
+  const because = reason?.trim() ? ` (${reason.trim()})` : '';
+  if (category === 'flights') {
+    return { key: `blocker:${category}:${key}`, message: `${verb} flights ${formatFlightDateKey(key)}${because}` };
+  }
+  if (category === 'destinations') {
+    const destination = destinations.find((item) => item.id === key);
+    return { key: `blocker:${category}:${key}`, destinationId: key, message: `${verb} ${destination?.name ?? 'a destination'}${because}` };
+  }
+  const destination = destinations.find((item) => item.accommodations.some((entity) => entity.id === key));
+  const stay = destination?.accommodations.find((item) => item.id === key);
+  return {
+    key: `blocker:${category}:${key}`,
+    destinationId: destination?.id,
+    message: `${verb} stay ${stay?.description || 'untitled stay'}${destination ? ` in ${destination.name}` : ''}${because}`
+  };
+};
+
+const getCategoryNoun = (category: VoteCategory) => (category === 'accommodations' ? 'stay' : category.slice(0, -1));
+
+export const describeVoteModeChange = (category: VoteCategory, mode: VoteMode): ActivityDraft => ({
+  key: `vote-mode:${category}`,
+  message: `switched ${getCategoryNoun(category)} voting to ${getVoteModeLabel(mode).toLowerCase()}`
+});
+
+export const describeSecretBallotChange = (enabled: boolean): ActivityDraft => ({
+  key: 'secret-ballot',
+  message: `turned ${enabled ? 'on' : 'off'} secret ballots`
+});
+
+/** Closing, reopening, deciding or moving the deadline of one category's poll. */
+export const describePollChange = (
+  destinations: Destination[],
+  category: VoteCategory,
+  previous: VotePoll,
+  next: VotePoll
+): ActivityDraft => {
+  const noun = getCategoryNoun(category);
+  const key = `poll:${category}`;
+  if (next.status === 'decided' && next.decision) {
+    if (category === 'flights') return { key, message: `decided on flights ${formatFlightDateKey(next.decision)}` };
+    const destination = category === 'destinations'
+      ? destinations.find((item) => item.id === next.decision)
+      : destinations.find((item) => item.accommodations.some((entity) => entity.id === next.decision));
+    const label = category === 'destinations'
+      ? destination?.name ?? 'a destination'
+      : `stay ${destination?.accommodations.find((item) => item.id === next.decision)?.description || 'untitled stay'}`;
+    return { key, destinationId: destination?.id, message: `decided on ${label}` };
+  }
+  if (next.status !== previous.status) {
+    return { key, message: `${next.status === 'open' ? 'reopened' : 'closed'} ${noun} voting` };
+  }
+  return {
+    key,
+    message: next.deadline === undefined
+      ? `removed the ${noun} voting deadline`
+      : `set the ${noun} voting deadline to ${new Date(next.deadline).toLocaleString('en-IE', { dateStyle: 'medium', timeStyle: 'short' })}`
+  };
+};
+
+/**
+ * Returns the event to store: either a new one, or `latest` updated in place when the same person
+ * is still editing the same thing. The merged event keeps the original "from" value.
+ */
+export const mergeActivity = (latest: ActivityEvent | undefined, event: ActivityEvent): ActivityEvent => {
+  if (latest && latest.actor === event.actor && latest.key === event.key && event.at - latest.at < MERGE_WINDOW_MS) {
+    return { ...event, id: latest.id, from: latest.from ?? event.from };
+  }
+  return event;
+};
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { MemberAvailability } from '../types';
+import { findBestWindows, findContainingWindow, formatWindow, getTopWindows, nextDayStatus, setDayStatus } from './availability';
+
+const availability: MemberAvailability[] = [
+  { member: 'Ann', available: ['2026-05-10', '2026-05-11', '2026-05-12'], unavailable: [] },
+  { member: 'Bob', available: [], unavailable: ['2026-05-11'] }
+];
+
+describe('findBestWindows', () => {
+  const windows = findBestWindows(availability, ['Ann', 'Bob', 'Cy'], 2, '2026-05-01');
+
+  test('lists the windows with most members attending first, without overlaps', () => {
+    assert.deepEqual(windows.map(({ start, end, attending, confirmed, away }) => ({ start, end, attending, confirmed, away })), [
+      { start: '2026-05-08', end: '2026-05-10', attending: ['Ann', 'Bob', 'Cy'], confirmed: [], away: [] },
+      { start: '2026-05-12', end: '2026-05-14', attending: ['Ann', 'Bob', 'Cy'], confirmed: [], away: [] }
+    ]);
+  });
+
+  test('ignores days before the start and finds nothing without marks', () => {
+    assert.deepEqual(findBestWindows(availability, ['Ann'], 2, '2026-06-01'), []);
+    assert.deepEqual(findBestWindows([], ['Ann'], 2, '2026-05-01'), []);
+  });
+
+  test('prefers windows more members confirmed when attendance ties', () => {
+    const [best] = findBestWindows(availability, ['Ann', 'Bob'], 2, '2026-05-10');
+    assert.equal(best.start, '2026-05-12');
+    const [confirmed] = findBestWindows([availability[0]], ['Ann'], 2, '2026-05-01');
+    assert.deepEqual({ start: confirmed.start, confirmed: confirmed.confirmed }, { start: '2026-05-10', confirmed: ['Ann'] });
+  });
+
+  test('picks the top windows and the one a trip fits inside', () => {
+    assert.equal(getTopWindows(windows).length, 2);
+    assert.equal(findContainingWindow(windows, '2026-05-12', '2026-05-14'), windows[1]);
+    assert.equal(findContainingWindow(windows, '2026-05-09', '2026-05-11'), undefined);
+    assert.equal(findContainingWindow(windows, '', '2026-05-10'), undefined);
+    assert.equal(formatWindow(windows[0]), '8 May – 10 May');
+  });
+});
+
+describe('day marks', () => {
+  test('cycle through available, unavailable and unset', () => {
+    assert.equal(nextDayStatus(null), 'available');
+    assert.equal(nextDayStatus('available'), 'unavailable');
+    assert.equal(nextDayStatus('unavailable'), null);
+  });
+
+  test('setting a day moves it between lists and drops members with nothing marked', () => {
+    const marked = setDayStatus(availability, 'Bob', '2026-05-11', 'available');
+    assert.deepEqual(marked.find((item) => item.member === 'Bob'), { member: 'Bob', available: ['2026-05-11'], unavailable: [] });
+    assert.deepEqual(setDayStatus(marked, 'Bob', '2026-05-11', null).map((item) => item.member), ['Ann']);
+  });
+});
@@ -0,0 +1,94 @@
+import { MemberAvailability } from '../types';
+import { addDays, formatDay } from './dates';
+
+export type DayStatus = 'available' | 'unavailable';
+
+/** Trip length the best-dates finder uses until someone sets one. */
+export const DEFAULT_TRIP_NIGHTS = 3;
+
+/** How many best windows are listed; overlapping windows are never listed twice. */
+const WINDOW_LIMIT = 5;
+
+export interface DateWindow {
+  /** First and last day of the trip, both travel days. */
+  start: string;
+  end: string;
+  /** Members with no unavailable day in the window, whether or not they marked the days available. */
+  attending: string[];
+  /** Attending members who marked every day of the window available. */
+  confirmed: string[];
+  away: string[];
+}
+
+export const getDayStatus = (availability: MemberAvailability[], member: string, date: string): DayStatus | null => {
+  const entry = availability.find((item) => item.member === member);
+  if (entry?.available.includes(date)) return 'available';
+  if (entry?.unavailable.includes(date)) return 'unavailable';
+  return null;
+};
+
+/** Marks (or with `status` null, clears) one day for a member; members with nothing marked are dropped. */
+export const setDayStatus = (availability: MemberAvailability[], member: string, date: string, status: DayStatus | null): MemberAvailability[] => {
+  const entry = availability.find((item) => item.member === member) ?? { member, available: [], unavailable: [] };
+  const available = entry.available.filter((day) => day !== date);
+  const unavailable = entry.unavailable.filter((day) => day !== date);
+  if (status === 'available') available.push(date);
+  if (status === 'unavailable') unavailable.push(date);
+
+  const others = availability.filter((item) => item.member !== member);
+  return available.length > 0 || unavailable.length > 0
+    ? [...others, { member, available: available.sort(), unavailable: unavailable.sort() }]
+    : others;
+};
+
+/** Unset → available → unavailable → unset, for one-click marking on the calendar. */
+export const nextDayStatus = (status: DayStatus | null): DayStatus | null =>
+  status === null ? 'available' : status === 'available' ? 'unavailable' : null;
+
+/**
+ * Every trip of `nights` nights that starts from `from` and touches a marked day, best first: most
+ * members attending, then most confirmed, then earliest. Members without marks count as attending.
+ */
+export const findBestWindows = (availability: MemberAvailability[], members: string[], nights: number, from: string): DateWindow[] => {
+  const everyone = Array.from(new Set([...members, ...availability.map((item) => item.member)]));
+  const marked = availability.flatMap((item) => [...item.available, ...item.unavailable]).filter((day) => day >= from).sort();
+  if (marked.length === 0 || nights < 1) return [];
+
+  const earliest = addDays(marked[0], -nights);
+  const firstStart = earliest > from ? earliest : from;
+  const lastStart = marked[marked.length - 1];
+  const windows: DateWindow[] = [];
+  for (let start = firstStart; start <= lastStart; start = addDays(start, 1)) {
+    const days = Array.from({ length: nights + 1 }, (_, index) => addDays(start, index));
+    const statuses = everyone.map((member) => ({ member, days: days.map((day) => getDayStatus(availability, member, day)) }));
+    const attending = statuses.filter((item) => !item.days.includes('unavailable'));
+    windows.push({
+      start,
+      end: days[days.length - 1],
+      attending: attending.map((item) => item.member),
+      confirmed: attending.filter((item) => item.days.every((status) => status === 'available')).map((item) => item.member),
+      away: statuses.filter((item) => item.days.includes('unavailable')).map((item) => item.member)
+    });
+  }
+
+  windows.sort((a, b) =>
+    b.attending.length - a.attending.length || b.confirmed.length - a.confirmed.length || a.start.localeCompare(b.start)
+  );
+  const picked: DateWindow[] = [];
+  for (const window of windows) {
+    if (picked.length === WINDOW_LIMIT) break;
+    if (!picked.some((item) => window.start <= item.end && window.end >= item.start)) picked.push(window);
+  }
+  return picked;
+};
+
+/** The windows sharing the best attendance; date groups inside these are highlighted in the managers. */
+export const getTopWindows = (windows: DateWindow[]): DateWindow[] =>
+  windows.filter((window) => window.attending.length === windows[0].attending.length && window.confirmed.length === windows[0].confirmed.length);
+
+/** The best window a trip from `start` to `end` fits inside, if any. */
+export const findContainingWindow = (windows: DateWindow[], start: string, end: string): DateWindow | undefined =>
+  start && end ? windows.find((window) => start >= window.start && end <= window.end) : undefined;
+
+export const formatWindow = (window: Pick<DateWindow, 'start' | 'end'>): string =>
+  `${formatDay(window.start)} – ${formatDay(window.end)}`;
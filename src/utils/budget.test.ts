@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ExtraCost, PlannerSettings } from '../types';
+import { calculateBudgetSnapshot } from './budget';
+
+const settings: PlannerSettings = { totalBudget: 1000, peopleCount: 4, searchLinks: [], baseCurrency: 'EUR', exchangeRates: {} };
+
+const snapshotFor = (extraCosts: ExtraCost[]) => calculateBudgetSnapshot({
+  flights: [],
+  accommodations: [],
+  flightAssignments: {},
+  selectedAccommodationId: '',
+  extraCosts,
+  settings
+});
+
+describe('calculateBudgetSnapshot extra costs', () => {
+  test('expands scaled costs and groups them by category', () => {
+    const snapshot = snapshotFor([
+      { id: 'e1', description: 'Transfer', value: 15, currency: 'EUR', category: 'transport', scaling: 'perPerson' },
+      { id: 'e2', description: 'Venue', value: 200, currency: 'EUR', category: 'venue' },
+      { id: 'e3', description: 'Snacks', value: 20, currency: 'EUR' }
+    ]);
+    assert.deepEqual(snapshot.extraCostsByCategory, [
+      { category: 'transport', amount: 60 },
+      { category: 'venue', amount: 200 },
+      { category: 'other', amount: 20 }
+    ]);
+    assert.equal(snapshot.extraCostsCost, 280);
+    assert.equal(snapshot.totalCost, 280);
+  });
+
+  test('counts a discount in the total even when it empties its category', () => {
+    const snapshot = snapshotFor([
+      { id: 'e1', description: 'Venue', value: 200, currency: 'EUR', category: 'venue' },
+      { id: 'e2', description: 'Group discount', value: -50, currency: 'EUR', category: 'activities' }
+    ]);
+    assert.equal(snapshot.extraCostsCost, 150);
+    assert.deepEqual(snapshot.extraCostsByCategory.map(({ category }) => category), ['venue', 'activities']);
+    assert.equal(snapshot.remaining, 850);
+  });
+});
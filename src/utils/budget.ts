@@ -1,32 +1,52 @@
-import { Accommodation, ExtraCost, Flight, PlannerSettings } from '../types';
+import { Accommodation, ExtraCost, ExtraCostCategory, Flight, PlannerSettings, StaySelection } from '../types';
+import { DEFAULT_BASE_CURRENCY, convertToBase, getExchangeRate } from './currency';
+import { EXTRA_COST_CATEGORIES, getExtraCostAmount, getTripNights } from './extraCosts';
+import { countAssignedTravelers, getAssignmentIssues } from './flightAssignments';
+import { StayCoverageIssue, checkStayCoverage, getSelectedStays, resolveStays } from './stays';
 
 export interface BudgetSnapshot {
   assignedPeopleCount: number;
   flightCost: number;
   accommodationCost: number;
   extraCostsCost: number;
+  /** Extra costs per category in the base currency, in category order, leaving out empty ones. */
+  extraCostsByCategory: { category: ExtraCostCategory; amount: number }[];
+  /** Nights the per-night extra costs are multiplied by. */
+  tripNights: number;
   totalCost: number;
   remaining: number;
   perPersonTotal: number;
   perPersonRemaining: number;
   isOverAssigned: boolean;
+  duplicateMembers: string[];
+  unassignedMembers: string[];
+  missingExchangeRates: string[];
+  /** Gaps and overlaps in nights between the stays of a split plan. */
+  stayIssues: StayCoverageIssue[];
 }
 
 interface SnapshotInput {
   flights: Flight[];
   accommodations: Accommodation[];
-  flightAssignments: Record<string, number>;
+  flightAssignments: Record<string, string[]>;
   selectedAccommodationId: string;
+  stays?: StaySelection[];
   extraCosts: ExtraCost[];
   settings: PlannerSettings;
+  tripMembers?: string[];
 }
 
-export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-IE', {
-    style: 'currency',
-    currency: 'EUR',
-    maximumFractionDigits: 0
-  }).format(value);
+export const formatCurrency = (value: number, currency: string = DEFAULT_BASE_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat('en-IE', {
+      style: 'currency',
+      currency: currency || DEFAULT_BASE_CURRENCY,
+      maximumFractionDigits: 0
+    }).format(value);
+  } catch {
+    // Unknown ISO code typed into the rate table — fall back to a plain amount.
+    return `${new Intl.NumberFormat('en-IE', { maximumFractionDigits: 0 }).format(value)} ${currency}`;
+  }
 };
 
 export const calculateBudgetSnapshot = ({
@@ -34,22 +54,43 @@ export const calculateBudgetSnapshot = ({
   accommodations,
   flightAssignments,
   selectedAccommodationId,
+  stays,
   extraCosts,
-  settings
+  settings,
+  tripMembers = []
 }: SnapshotInput): BudgetSnapshot => {
-  const accommodation = accommodations.find((item) => item.id === selectedAccommodationId);
-  const accommodationCost = accommodation ? accommodation.totalPrice : 0;
+  const missingExchangeRates = new Set<string>();
+  const toBase = (amount: number, currency: string): number => {
+    if (getExchangeRate(currency, settings) === null) {
+      missingExchangeRates.add(currency);
+    }
+    return convertToBase(amount, currency, settings);
+  };
+
+  const selectedStays = getSelectedStays(selectedAccommodationId, stays);
+  const resolvedStays = resolveStays(selectedStays, accommodations);
+  const accommodationCost = resolvedStays.reduce((total, { accommodation }) => total + toBase(accommodation.totalPrice, accommodation.currency), 0);
 
-  const flightCost = Object.entries(flightAssignments).reduce((total, [flightId, count]) => {
+  const flightCost = Object.entries(flightAssignments).reduce((total, [flightId, seats]) => {
     const flight = flights.find((item) => item.id === flightId);
-    return total + (flight ? flight.pricePerPerson * count : 0);
+    return total + (flight ? toBase(flight.pricePerPerson, flight.currency) * seats.length : 0);
   }, 0);
 
-  const assignedPeopleCount = Object.entries(flightAssignments).reduce((total, [flightId, count]) => {
-    return flights.some((item) => item.id === flightId) ? total + count : total;
-  }, 0);
+  const assignedPeopleCount = countAssignedTravelers(flightAssignments, flights);
+  const { duplicateMembers, unassignedMembers } = getAssignmentIssues(flightAssignments, flights, tripMembers);
 
-  const extraCostsCost = extraCosts.reduce((total, extraCost) => total + extraCost.value, 0);
+  const tripNights = getTripNights(flights, flightAssignments, resolvedStays);
+  const extraCostContext = { people: settings.peopleCount, nights: tripNights };
+  const categoryTotals = new Map<ExtraCostCategory, number>();
+  for (const extraCost of extraCosts) {
+    const category = extraCost.category ?? 'other';
+    categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + toBase(getExtraCostAmount(extraCost, extraCostContext), extraCost.currency));
+  }
+  // Discounts entered as negative amounts count towards the total and show in the breakdown; empty categories do not.
+  const extraCostsByCategory = EXTRA_COST_CATEGORIES
+    .map(({ id }) => ({ category: id, amount: categoryTotals.get(id) ?? 0 }))
+    .filter(({ amount }) => amount !== 0);
+  const extraCostsCost = Array.from(categoryTotals.values()).reduce((total, amount) => total + amount, 0);
   const totalCost = flightCost + accommodationCost + extraCostsCost;
   const remaining = settings.totalBudget - totalCost;
   const safePeopleCount = Math.max(1, settings.peopleCount);
@@ -59,10 +100,16 @@ export const calculateBudgetSnapshot = ({
     flightCost,
     accommodationCost,
     extraCostsCost,
+    extraCostsByCategory,
+    tripNights,
     totalCost,
     remaining,
     perPersonTotal: totalCost / safePeopleCount,
     perPersonRemaining: remaining / safePeopleCount,
-    isOverAssigned: assignedPeopleCount > settings.peopleCount
+    isOverAssigned: assignedPeopleCount > settings.peopleCount || duplicateMembers.length > 0 || unassignedMembers.length > 0,
+    duplicateMembers,
+    unassignedMembers,
+    missingExchangeRates: Array.from(missingExchangeRates).sort(),
+    stayIssues: checkStayCoverage(selectedStays, accommodations, tripMembers)
   };
 };
@@ -0,0 +1,136 @@
+import { Accommodation, AccommodationRoom, Flight } from '../types';
+import { CurrencySettings, convertToBase } from './currency';
+import { daysBetween } from './dates';
+import { PLACEHOLDER_SEAT } from './flightAssignments';
+
+export interface CapacityCheck {
+  travellers: number;
+  /** Sleeping places including sofa beds, or null when the stay lists neither beds nor rooms. */
+  capacity: number | null;
+  /** Travellers without a place to sleep; 0 when capacity is unknown. */
+  shortfall: number;
+  /** True when the group only fits by using sofa beds. */
+  needsSofaBeds: boolean;
+  sharedRooms: number;
+}
+
+export interface AllocationIssues {
+  /** Names of rooms with more people allocated than they sleep. */
+  overfullRooms: string[];
+  /** Members allocated to more than one room. */
+  doubleBooked: string[];
+  /** Members without a room. */
+  unallocated: string[];
+}
+
+const hasLayout = (accommodation: Accommodation): accommodation is Accommodation & { roomLayout: AccommodationRoom[] } =>
+  Array.isArray(accommodation.roomLayout) && accommodation.roomLayout.length > 0;
+
+export const getRoomSleeps = (room: AccommodationRoom): number => room.beds + room.sofaBeds;
+
+export const getSleepingCapacity = (accommodation: Accommodation): number | null => {
+  if (hasLayout(accommodation)) {
+    return accommodation.roomLayout.reduce((total, room) => total + getRoomSleeps(room), 0);
+  }
+  return accommodation.beds ?? null;
+};
+
+export const getRoomCount = (accommodation: Accommodation): number | null =>
+  hasLayout(accommodation) ? accommodation.roomLayout.length : accommodation.rooms ?? null;
+
+export const getStayNights = (accommodation: Accommodation): number | null => {
+  if (!accommodation.startDate || !accommodation.endDate) return null;
+  const nights = daysBetween(accommodation.startDate, accommodation.endDate);
+  return Number.isFinite(nights) && nights > 0 ? nights : null;
+};
+
+/** Base-currency price of one sleeping place for one night. */
+export const getPricePerBedPerNight = (accommodation: Accommodation, settings: CurrencySettings): number | null => {
+  const capacity = getSleepingCapacity(accommodation);
+  const nights = getStayNights(accommodation);
+  if (!capacity || !nights) return null;
+  return convertToBase(accommodation.totalPrice, accommodation.currency, settings) / capacity / nights;
+};
+
+export type StayPriceMetric = 'total' | 'perNight' | 'perPersonPerNight' | 'perBedPerNight';
+
+export const STAY_PRICE_METRICS: { id: StayPriceMetric; label: string }[] = [
+  { id: 'total', label: 'Total' },
+  { id: 'perNight', label: 'Per night' },
+  { id: 'perPersonPerNight', label: 'Per person / night' },
+  { id: 'perBedPerNight', label: 'Per bed / night' }
+];
+
+/** Base-currency prices normalised by nights, travellers and beds; null where the stay lacks dates or beds. */
+export interface StayPrices {
+  nights: number | null;
+  total: number;
+  perNight: number | null;
+  perPersonPerNight: number | null;
+  perBedPerNight: number | null;
+}
+
+export const getStayPrices = (accommodation: Accommodation, settings: CurrencySettings, travellers: number): StayPrices => {
+  const nights = getStayNights(accommodation);
+  const total = convertToBase(accommodation.totalPrice, accommodation.currency, settings);
+  const perNight = nights ? total / nights : null;
+  return {
+    nights,
+    total,
+    perNight,
+    perPersonPerNight: perNight !== null && travellers > 0 ? perNight / travellers : null,
+    perBedPerNight: getPricePerBedPerNight(accommodation, settings)
+  };
+};
+
+/** The stay with the lowest price by `metric`, skipping stays where it cannot be worked out. */
+export const getCheapestStayBy = (accommodations: Accommodation[], metric: StayPriceMetric, settings: CurrencySettings, travellers: number) =>
+  accommodations
+    .map((accommodation) => ({ accommodation, price: getStayPrices(accommodation, settings, travellers)[metric] }))
+    .filter((entry): entry is { accommodation: Accommodation; price: number } => entry.price !== null)
+    .sort((a, b) => a.price - b.price)[0] ?? null;
+
+/** People the stay has to house: everyone holding a flight seat, or the whole team before any are booked. */
+export const getStayTravellers = (flightAssignments: Record<string, string[]>, flights: Flight[], peopleCount: number): number => {
+  const seats = Object.entries(flightAssignments)
+    .filter(([flightId]) => flights.some((flight) => flight.id === flightId))
+    .reduce((total, [, assigned]) => total + assigned.length, 0);
+  return seats > 0 ? seats : peopleCount;
+};
+
+/** Named members flying on the plan, or the full member list before anyone is assigned. */
+export const getStayMembers = (flightAssignments: Record<string, string[]>, tripMembers: string[]): string[] => {
+  const flying = Array.from(new Set(Object.values(flightAssignments).flat().filter((seat) => seat !== PLACEHOLDER_SEAT)));
+  return flying.length > 0 ? flying : tripMembers;
+};
+
+export const checkStayCapacity = (accommodation: Accommodation, travellers: number): CapacityCheck => {
+  const capacity = getSleepingCapacity(accommodation);
+  const regularBeds = hasLayout(accommodation)
+    ? accommodation.roomLayout.reduce((total, room) => total + room.beds, 0)
+    : capacity;
+  return {
+    travellers,
+    capacity,
+    shortfall: capacity === null ? 0 : Math.max(0, travellers - capacity),
+    needsSofaBeds: capacity !== null && regularBeds !== null && travellers > regularBeds && travellers <= capacity,
+    sharedRooms: hasLayout(accommodation) ? accommodation.roomLayout.filter((room) => room.shared).length : 0
+  };
+};
+
+export const getAllocationIssues = (accommodation: Accommodation, members: string[]): AllocationIssues => {
+  const layout = accommodation.roomLayout ?? [];
+  const allocation = accommodation.roomAllocation ?? {};
+  const roomsByMember = new Map<string, number>();
+  for (const room of layout) {
+    for (const member of allocation[room.id] ?? []) {
+      roomsByMember.set(member, (roomsByMember.get(member) ?? 0) + 1);
+    }
+  }
+
+  return {
+    overfullRooms: layout.filter((room) => (allocation[room.id] ?? []).length > getRoomSleeps(room)).map((room) => room.name),
+    doubleBooked: Array.from(roomsByMember.entries()).filter(([, count]) => count > 1).map(([member]) => member),
+    unallocated: layout.length > 0 ? members.filter((member) => !roomsByMember.has(member)) : []
+  };
+};
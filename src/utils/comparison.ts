@@ -0,0 +1,71 @@
+import { Accommodation, Destination, Flight, PlannerSettings, TripVotes } from '../types';
+import { BudgetSnapshot, calculateBudgetSnapshot } from './budget';
+import { convertToBase } from './currency';
+import { getFlightEndDate, getFlightStartDate } from './flightSegments';
+import { getDistanceFromDublinKm } from './geo';
+import { getSupporterMap } from './voting';
+
+export interface DestinationComparison {
+  destination: Destination;
+  cheapestFlight: { flight: Flight; pricePerPerson: number } | null;
+  cheapestStay: { accommodation: Accommodation; totalPrice: number } | null;
+  snapshot: BudgetSnapshot;
+  distanceKm: number;
+  voteCount: number;
+  /** Earliest and latest date across every flight and stay, in YYYY-MM-DD. */
+  dateRange: { start: string; end: string } | null;
+  /** Distinct flight date windows, and how many of them a stay covers from arrival to return. */
+  flightWindows: number;
+  coveredWindows: number;
+}
+
+const cheapestBy = <T>(items: T[], price: (item: T) => number) => items.reduce<{ item: T; price: number } | null>((best, item) => {
+  const value = price(item);
+  return best === null || value < best.price ? { item, price: value } : best;
+}, null);
+
+const getDateRange = (destination: Destination) => {
+  const dates = [
+    ...destination.flights.flatMap((flight) => [getFlightStartDate(flight), getFlightEndDate(flight)]),
+    ...destination.accommodations.flatMap((accommodation) => [accommodation.startDate, accommodation.endDate])
+  ].filter(Boolean).sort();
+  return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+};
+
+const getWindowCoverage = (destination: Destination) => {
+  const windows = new Map<string, { start: string; end: string }>();
+  for (const flight of destination.flights) {
+    const start = getFlightStartDate(flight);
+    const end = getFlightEndDate(flight);
+    if (start && end) windows.set(`${start}|${end}`, { start, end });
+  }
+  const covered = Array.from(windows.values()).filter(({ start, end }) => destination.accommodations.some(
+    (accommodation) => accommodation.startDate && accommodation.endDate && accommodation.startDate <= start && accommodation.endDate >= end
+  ));
+  return { flightWindows: windows.size, coveredWindows: covered.length };
+};
+
+export const compareDestinations = (destinations: Destination[], settings: PlannerSettings, tripMembers: string[], votes: TripVotes): DestinationComparison[] =>
+  destinations.map((destination) => {
+    const cheapestFlight = cheapestBy(destination.flights, (flight) => convertToBase(flight.pricePerPerson, flight.currency, settings));
+    const cheapestStay = cheapestBy(destination.accommodations, (accommodation) => convertToBase(accommodation.totalPrice, accommodation.currency, settings));
+    return {
+      destination,
+      cheapestFlight: cheapestFlight && { flight: cheapestFlight.item, pricePerPerson: cheapestFlight.price },
+      cheapestStay: cheapestStay && { accommodation: cheapestStay.item, totalPrice: cheapestStay.price },
+      snapshot: calculateBudgetSnapshot({
+        flights: destination.flights,
+        accommodations: destination.accommodations,
+        flightAssignments: destination.budgetEstimator.flightAssignments,
+        selectedAccommodationId: destination.budgetEstimator.selectedAccommodationId,
+        stays: destination.budgetEstimator.stays,
+        extraCosts: destination.extraCosts,
+        settings,
+        tripMembers
+      }),
+      distanceKm: getDistanceFromDublinKm(destination.latitude, destination.longitude),
+      voteCount: (getSupporterMap(votes, 'destinations')[destination.id] ?? []).length,
+      dateRange: getDateRange(destination),
+      ...getWindowCoverage(destination)
+    };
+  });
@@ -0,0 +1,72 @@
+import { PlannerSettings } from '../types';
+
+export type CurrencySettings = Pick<PlannerSettings, 'baseCurrency' | 'exchangeRates'>;
+
+export const DEFAULT_BASE_CURRENCY = 'EUR';
+
+export const COMMON_CURRENCIES = ['EUR', 'GBP', 'USD', 'HUF', 'CHF', 'PLN', 'CZK', 'DKK', 'SEK', 'NOK'];
+
+export const isCurrencyCode = (value: unknown): value is string => {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+};
+
+export const normalizeCurrencyCode = (value: string): string => value.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 3);
+
+/**
+ * Rate that converts one unit of `currency` into the base currency.
+ * Returns null when the table has no entry, so callers can flag it.
+ */
+export const getExchangeRate = (currency: string, { baseCurrency, exchangeRates }: CurrencySettings): number | null => {
+  if (!currency || currency === baseCurrency) {
+    return 1;
+  }
+  const rate = exchangeRates[currency];
+  return typeof rate === 'number' && Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+// Missing rates fall back to 1:1 so totals stay usable; budget snapshots report them separately.
+export const convertToBase = (amount: number, currency: string, settings: CurrencySettings): number => {
+  return amount * (getExchangeRate(currency, settings) ?? 1);
+};
+
+export const getAvailableCurrencies = ({ baseCurrency, exchangeRates }: CurrencySettings): string[] => {
+  return [baseCurrency, ...Object.keys(exchangeRates).filter((code) => code !== baseCurrency).sort()];
+};
+
+const isValidRate = (rate: unknown): rate is number => typeof rate === 'number' && Number.isFinite(rate) && rate > 0;
+
+/**
+ * The base can only move to a currency the table has a rate for, since every other rate has to be
+ * re-expressed through it. An empty table has nothing to re-express.
+ */
+export const canRebaseExchangeRates = (exchangeRates: Record<string, number>, nextBase: string): boolean =>
+  Object.keys(exchangeRates).length === 0 || isValidRate(exchangeRates[nextBase]);
+
+/**
+ * Re-expresses every stored rate against the new base so switching base currency keeps amounts
+ * consistent. Returns null when there is no rate for the new base (see `canRebaseExchangeRates`).
+ */
+export const rebaseExchangeRates = (
+  exchangeRates: Record<string, number>,
+  previousBase: string,
+  nextBase: string
+): Record<string, number> | null => {
+  if (previousBase === nextBase) {
+    return exchangeRates;
+  }
+  if (Object.keys(exchangeRates).length === 0) {
+    return {};
+  }
+
+  const nextBaseRate = exchangeRates[nextBase];
+  if (!isValidRate(nextBaseRate)) {
+    return null;
+  }
+
+  const rebased: Record<string, number> = { [previousBase]: 1 / nextBaseRate };
+  for (const [code, rate] of Object.entries(exchangeRates)) {
+    if (code === nextBase) continue;
+    rebased[code] = rate / nextBaseRate;
+  }
+  return rebased;
+};
@@ -0,0 +1,121 @@
+import { Accommodation, Flight, PlannerSettings, StaySelection } from '../types';
+import { convertToBase } from './currency';
+import { daysBetween, formatDay, plural } from './dates';
+import { PLACEHOLDER_SEAT } from './flightAssignments';
+import { getDestinationArrivalDate, getDestinationDepartureDate, getFlightEndDate, getFlightStartDate } from './flightSegments';
+import { getSelectedStays, resolveStays } from './stays';
+
+export type DateIssueKind = 'early-arrival' | 'late-arrival' | 'late-departure' | 'early-departure';
+
+export interface DateIssue {
+  kind: DateIssueKind;
+  flightId: string;
+  /** Named travellers on the flight; unnamed seats are counted in `seatCount`. */
+  travellers: string[];
+  seatCount: number;
+  /** Nights outside the stay: uncovered nights for early arrival / late departure, unused ones otherwise. */
+  nights: number;
+  message: string;
+}
+
+export interface DateConsistency {
+  issues: DateIssue[];
+  /** Travellers × nights that need a bed outside the selected stay. */
+  extraNights: number;
+  /** Another stay that matches every assigned flight, preferring the flights' own date group; never offered for split stays. */
+  suggestion: Accommodation | null;
+}
+
+interface ConsistencyInput {
+  flights: Flight[];
+  accommodations: Accommodation[];
+  flightAssignments: Record<string, string[]>;
+  selectedAccommodationId: string;
+  stays?: StaySelection[];
+  settings: PlannerSettings;
+}
+
+const describeTravellers = (flight: Flight, seats: string[]) => {
+  const named = seats.filter((seat) => seat !== PLACEHOLDER_SEAT);
+  const unnamed = seats.length - named.length;
+  const who = [...named, ...(unnamed > 0 ? [plural(unnamed, 'unnamed traveler')] : [])].join(', ');
+  return `${flight.description || 'Unnamed flight'} (${who})`;
+};
+
+const checkFlight = (flight: Flight, seats: string[], stay: Accommodation): DateIssue[] => {
+  const arrival = getDestinationArrivalDate(flight);
+  const departure = getDestinationDepartureDate(flight);
+  const base = { flightId: flight.id, travellers: seats.filter((seat) => seat !== PLACEHOLDER_SEAT), seatCount: seats.length };
+  const label = describeTravellers(flight, seats);
+  const issues: DateIssue[] = [];
+
+  if (arrival && stay.startDate && arrival !== stay.startDate) {
+    const nights = Math.abs(daysBetween(arrival, stay.startDate));
+    issues.push(arrival < stay.startDate
+      ? { ...base, kind: 'early-arrival', nights, message: `${label} lands ${formatDay(arrival)}, ${plural(nights, 'night')} before check-in on ${formatDay(stay.startDate)}.` }
+      : { ...base, kind: 'late-arrival', nights, message: `${label} lands ${formatDay(arrival)}, after check-in on ${formatDay(stay.startDate)}; ${plural(nights, 'night')} unused.` });
+  }
+
+  if (departure && stay.endDate && departure !== stay.endDate) {
+    const nights = Math.abs(daysBetween(stay.endDate, departure));
+    issues.push(departure > stay.endDate
+      ? { ...base, kind: 'late-departure', nights, message: `${label} flies home ${formatDay(departure)}, ${plural(nights, 'night')} after check-out on ${formatDay(stay.endDate)}.` }
+      : { ...base, kind: 'early-departure', nights, message: `${label} flies home ${formatDay(departure)}, before check-out on ${formatDay(stay.endDate)}; ${plural(nights, 'night')} unused.` });
+  }
+
+  return issues;
+};
+
+const assignedFlights = (flights: Flight[], flightAssignments: Record<string, string[]>) => flights
+  .map((flight) => ({ flight, seats: flightAssignments[flight.id] ?? [] }))
+  .filter(({ seats }) => seats.length > 0);
+
+/**
+ * The stretch a flight's travellers need covered: the first check-in to the last check-out of the
+ * stays they sleep in. Seats without a name (or names on no stay) fall back to every stay.
+ */
+const getCoverage = (stays: Accommodation[], members: string[][], seats: string[]): Accommodation | null => {
+  const named = seats.filter((seat) => seat !== PLACEHOLDER_SEAT);
+  const own = stays.filter((_, index) => members[index].length === 0 || members[index].some((member) => named.includes(member)));
+  const relevant = own.length > 0 ? own : stays;
+  if (relevant.length <= 1) return relevant[0] ?? null;
+
+  const starts = relevant.map((stay) => stay.startDate).filter(Boolean).sort();
+  const ends = relevant.map((stay) => stay.endDate).filter(Boolean).sort();
+  return { ...relevant[0], startDate: starts[0] ?? '', endDate: ends[ends.length - 1] ?? '' };
+};
+
+/** Checks every assigned flight against its stays: arrival vs first check-in and departure vs last check-out. */
+export const checkDateConsistency = ({ flights, accommodations, flightAssignments, selectedAccommodationId, stays, settings }: ConsistencyInput): DateConsistency => {
+  const resolved = resolveStays(getSelectedStays(selectedAccommodationId, stays), accommodations);
+  const assigned = assignedFlights(flights, flightAssignments);
+  if (resolved.length === 0 || assigned.length === 0) {
+    return { issues: [], extraNights: 0, suggestion: null };
+  }
+
+  const stayList = resolved.map(({ accommodation }) => accommodation);
+  const stayMembers = resolved.map(({ selection }) => selection.members);
+  const issues = assigned.flatMap(({ flight, seats }) => {
+    const coverage = getCoverage(stayList, stayMembers, seats);
+    return coverage ? checkFlight(flight, seats, coverage) : [];
+  });
+  const extraNights = issues
+    .filter((issue) => issue.kind === 'early-arrival' || issue.kind === 'late-departure')
+    .reduce((total, issue) => total + issue.nights * issue.seatCount, 0);
+
+  if (issues.length === 0 || resolved.length > 1) {
+    return { issues, extraNights, suggestion: null };
+  }
+
+  const stay = stayList[0];
+  // Stays are grouped by the same start|end key as flights, so a matching group key is the natural fix.
+  const flightGroups = new Set(assigned.map(({ flight }) => `${getFlightStartDate(flight)}|${getFlightEndDate(flight)}`));
+  const suggestion = accommodations
+    .filter((candidate) => candidate.id !== stay.id && assigned.every(({ flight, seats }) => checkFlight(flight, seats, candidate).length === 0))
+    .sort((a, b) => {
+      const groupMatch = Number(flightGroups.has(`${b.startDate}|${b.endDate}`)) - Number(flightGroups.has(`${a.startDate}|${a.endDate}`));
+      return groupMatch || convertToBase(a.totalPrice, a.currency, settings) - convertToBase(b.totalPrice, b.currency, settings);
+    })[0] ?? null;
+
+  return { issues, extraNights, suggestion };
+};
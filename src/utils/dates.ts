@@ -0,0 +1,20 @@
+// Calendar days are `YYYY-MM-DD` strings; the day math anchors them at noon UTC so DST shifts never move a date.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/** Whole days from `from` to `to`; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T12:00:00Z`) - Date.parse(`${from}T12:00:00Z`)) / DAY_MS);
+
+/** Short day label such as "14 Mar"; `fallback` for an unset date. */
+export const formatDay = (value: string, fallback = ''): string =>
+  value ? new Date(`${value}T12:00:00`).toLocaleDateString('en-IE', { day: 'numeric', month: 'short' }) : fallback;
+
+/** Full date such as "14 March 2026", for printed documents. */
+export const formatLongDay = (value: string, fallback = ''): string =>
+  value ? new Date(`${value}T12:00:00`).toLocaleDateString('en-IE', { day: 'numeric', month: 'long', year: 'numeric' }) : fallback;
+
+export const plural = (count: number, noun: string, pluralNoun = `${noun}s`): string => `${count} ${count === 1 ? noun : pluralNoun}`;
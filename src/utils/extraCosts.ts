@@ -0,0 +1,85 @@
+import { Accommodation, BudgetAttempt, ExtraCost, ExtraCostCategory, ExtraCostScaling, Flight } from '../types';
+import { daysBetween, plural } from './dates';
+import { getDestinationArrivalDate, getDestinationDepartureDate } from './flightSegments';
+import { SelectedStay, getSelectedStays, resolveStays } from './stays';
+
+export interface ExtraCostContext {
+  people: number;
+  nights: number;
+}
+
+export const EXTRA_COST_CATEGORIES: { id: ExtraCostCategory; label: string }[] = [
+  { id: 'food', label: 'Food' },
+  { id: 'transport', label: 'Transport' },
+  { id: 'venue', label: 'Venue' },
+  { id: 'activities', label: 'Activities' },
+  { id: 'other', label: 'Other' }
+];
+
+export const EXTRA_COST_SCALINGS: { id: ExtraCostScaling; label: string }[] = [
+  { id: 'fixed', label: 'Once' },
+  { id: 'perPerson', label: 'Per person' },
+  { id: 'perNight', label: 'Per night' },
+  { id: 'perPersonPerNight', label: 'Per person / night' }
+];
+
+export const getCategoryLabel = (category: ExtraCostCategory | undefined): string =>
+  EXTRA_COST_CATEGORIES.find((item) => item.id === (category ?? 'other'))?.label ?? 'Other';
+
+const nightsBetween = (from: string, to: string) => Math.max(0, daysBetween(from, to));
+
+/**
+ * Nights at the destination: first check-in to last check-out of the chosen stays, or first arrival
+ * to last departure of the assigned flights when no dated stay is chosen. 0 when neither has dates.
+ */
+export const getTripNights = (flights: Flight[], flightAssignments: Record<string, string[]>, stays: SelectedStay[]): number => {
+  const checkIns = stays.map(({ accommodation }) => accommodation.startDate).filter(Boolean).sort();
+  const checkOuts = stays.map(({ accommodation }) => accommodation.endDate).filter(Boolean).sort();
+  if (checkIns.length > 0 && checkOuts.length > 0) {
+    return nightsBetween(checkIns[0], checkOuts[checkOuts.length - 1]);
+  }
+
+  const assigned = flights.filter((flight) => (flightAssignments[flight.id] ?? []).length > 0);
+  const arrivals = assigned.map(getDestinationArrivalDate).filter(Boolean).sort();
+  const departures = assigned.map(getDestinationDepartureDate).filter(Boolean).sort();
+  return arrivals.length > 0 && departures.length > 0 ? nightsBetween(arrivals[0], departures[departures.length - 1]) : 0;
+};
+
+/** People and nights for a saved plan, as `calculateBudgetSnapshot` works them out for the live one. */
+export const getPlanExtraCostContext = (
+  plan: Pick<BudgetAttempt, 'flightAssignments' | 'selectedAccommodationId' | 'stays'>,
+  flights: Flight[],
+  accommodations: Accommodation[],
+  peopleCount: number
+): ExtraCostContext => ({
+  people: peopleCount,
+  nights: getTripNights(flights, plan.flightAssignments, resolveStays(getSelectedStays(plan.selectedAccommodationId, plan.stays), accommodations))
+});
+
+export const getExtraCostMultiplier = (extraCost: ExtraCost, { people, nights }: ExtraCostContext): number => {
+  switch (extraCost.scaling ?? 'fixed') {
+    case 'perPerson':
+      return people;
+    case 'perNight':
+      return nights;
+    case 'perPersonPerNight':
+      return people * nights;
+    default:
+      return 1;
+  }
+};
+
+/** The full amount of an extra cost for this trip, in the cost's own currency. */
+export const getExtraCostAmount = (extraCost: ExtraCost, context: ExtraCostContext): number =>
+  extraCost.value * getExtraCostMultiplier(extraCost, context);
+
+/** The factors a rate is multiplied by, e.g. "6 people × 4 nights"; empty for one-off costs. */
+export const describeExtraCostScaling = (extraCost: ExtraCost, { people, nights }: ExtraCostContext): string => {
+  const scaling = extraCost.scaling ?? 'fixed';
+  if (scaling === 'fixed') return '';
+  const factors = [
+    ...(scaling === 'perPerson' || scaling === 'perPersonPerNight' ? [plural(people, 'person', 'people')] : []),
+    ...(scaling === 'perNight' || scaling === 'perPersonPerNight' ? [plural(nights, 'night')] : [])
+  ];
+  return factors.join(' × ');
+};
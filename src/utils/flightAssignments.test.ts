@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Flight } from '../types';
+import { PLACEHOLDER_SEAT, areAssignmentsEqual, countAssignedTravelers, createPlaceholderSeats, getAssignmentIssues, getMemberFlightIds } from './flightAssignments';
+
+const flight = (id: string): Flight => ({ id, link: '', description: id, segments: [], pricePerPerson: 100, currency: 'EUR' });
+
+describe('flight assignments', () => {
+  const flights = [flight('f1'), flight('f2')];
+
+  test('placeholder seats are whole and never negative', () => {
+    assert.deepEqual(createPlaceholderSeats(2.7), [PLACEHOLDER_SEAT, PLACEHOLDER_SEAT]);
+    assert.deepEqual(createPlaceholderSeats(-1), []);
+  });
+
+  test('counts seats on flights that still exist, named or not', () => {
+    assert.equal(countAssignedTravelers({ f1: ['Ann', PLACEHOLDER_SEAT], f2: ['Bob'], gone: ['Cy'] }, flights), 3);
+  });
+
+  test('reports members booked twice and members without a seat', () => {
+    const issues = getAssignmentIssues({ f1: ['Ann', PLACEHOLDER_SEAT], f2: ['Ann', 'Bob'], gone: ['Cy'] }, flights, ['Ann', 'Bob', 'Cy']);
+    assert.deepEqual(issues, { duplicateMembers: ['Ann'], unassignedMembers: ['Cy'] });
+  });
+
+  test('finds the flights a member is on', () => {
+    assert.deepEqual(getMemberFlightIds({ f1: ['Ann'], f2: ['Bob', 'Ann'] }, 'Ann'), ['f1', 'f2']);
+  });
+
+  test('compares assignments seat by seat, ignoring empty flights', () => {
+    assert.equal(areAssignmentsEqual({ f1: ['Ann', 'Bob'], f2: [] }, { f1: ['Ann', 'Bob'] }), true);
+    assert.equal(areAssignmentsEqual({ f1: ['Ann', 'Bob'] }, { f1: ['Bob', 'Ann'] }), false);
+  });
+});
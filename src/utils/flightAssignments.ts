@@ -0,0 +1,59 @@
+import { Flight } from '../types';
+
+/** A booked seat that has not been given to a trip member yet. */
+export const PLACEHOLDER_SEAT = '';
+
+export interface AssignmentIssues {
+  /** Members who hold a seat on more than one flight. */
+  duplicateMembers: string[];
+  /** Trip members without a seat on any flight. */
+  unassignedMembers: string[];
+}
+
+export const createPlaceholderSeats = (count: number): string[] => Array.from({ length: Math.max(0, Math.floor(count)) }, () => PLACEHOLDER_SEAT);
+
+export const countAssignedTravelers = (flightAssignments: Record<string, string[]>, flights: Flight[]): number => {
+  return Object.entries(flightAssignments).reduce((total, [flightId, seats]) => {
+    return flights.some((flight) => flight.id === flightId) ? total + seats.length : total;
+  }, 0);
+};
+
+export const getAssignmentIssues = (
+  flightAssignments: Record<string, string[]>,
+  flights: Flight[],
+  members: string[]
+): AssignmentIssues => {
+  const seatsByMember = new Map<string, number>();
+  for (const [flightId, seats] of Object.entries(flightAssignments)) {
+    if (!flights.some((flight) => flight.id === flightId)) continue;
+    for (const seat of seats) {
+      if (seat === PLACEHOLDER_SEAT) continue;
+      seatsByMember.set(seat, (seatsByMember.get(seat) ?? 0) + 1);
+    }
+  }
+
+  return {
+    duplicateMembers: Array.from(seatsByMember.entries()).filter(([, count]) => count > 1).map(([member]) => member),
+    unassignedMembers: members.filter((member) => !seatsByMember.has(member))
+  };
+};
+
+export const getMemberFlightIds = (flightAssignments: Record<string, string[]>, member: string): string[] => {
+  return Object.entries(flightAssignments)
+    .filter(([, seats]) => seats.includes(member))
+    .map(([flightId]) => flightId);
+};
+
+export const areAssignmentsEqual = (left: Record<string, string[]>, right: Record<string, string[]>): boolean => {
+  const leftEntries = Object.entries(left).filter(([, seats]) => seats.length > 0);
+  const rightEntries = Object.entries(right).filter(([, seats]) => seats.length > 0);
+
+  if (leftEntries.length !== rightEntries.length) {
+    return false;
+  }
+
+  return leftEntries.every(([flightId, seats]) => {
+    const other = right[flightId] ?? [];
+    return other.length === seats.length && other.every((seat, index) => seat === seats[index]);
+  });
+};
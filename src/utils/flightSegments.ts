@@ -0,0 +1,86 @@
+import { Flight, FlightDirection, FlightSegment } from '../types';
+import { addDays } from './dates';
+
+interface RoundTripFields {
+  origin: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  arrivalTime: string;
+  departureTime: string;
+}
+
+export const createSegment = (direction: FlightDirection, overrides: Partial<FlightSegment> = {}): FlightSegment => ({
+  direction,
+  from: '',
+  to: '',
+  date: '',
+  departureTime: '',
+  arrivalTime: '',
+  carrier: '',
+  flightNumber: '',
+  ...overrides
+});
+
+/**
+ * Outbound leg landing at the destination, plus a return leg when a return date or time is known.
+ * Used by quick add, bulk import and for flights saved before segments existed.
+ */
+export const createRoundTripSegments = ({ origin, destination, startDate, endDate, arrivalTime, departureTime }: RoundTripFields): FlightSegment[] => {
+  const segments = [createSegment('outbound', { from: origin, to: destination, date: startDate, arrivalTime })];
+  if (endDate || departureTime) {
+    segments.push(createSegment('return', { from: destination, to: origin, date: endDate, departureTime }));
+  }
+  return segments;
+};
+
+export const getSegmentsByDirection = (flight: Flight, direction: FlightDirection): FlightSegment[] => {
+  return flight.segments.filter((segment) => segment.direction === direction);
+};
+
+export const getFirstOutboundSegment = (flight: Flight): FlightSegment | undefined => getSegmentsByDirection(flight, 'outbound')[0];
+
+export const getLastReturnSegment = (flight: Flight): FlightSegment | undefined => getSegmentsByDirection(flight, 'return').slice(-1)[0];
+
+export const getFlightStartDate = (flight: Flight): string => getFirstOutboundSegment(flight)?.date ?? '';
+
+export const getFlightEndDate = (flight: Flight): string => getLastReturnSegment(flight)?.date ?? '';
+
+export const getFlightOrigin = (flight: Flight): string => getFirstOutboundSegment(flight)?.from ?? '';
+
+/** When the traveler lands at the destination: arrival of the last outbound leg. */
+export const getDestinationArrivalTime = (flight: Flight): string => getSegmentsByDirection(flight, 'outbound').slice(-1)[0]?.arrivalTime ?? '';
+
+/** When the traveler leaves the destination: departure of the first return leg. */
+export const getDestinationDepartureTime = (flight: Flight): string => getSegmentsByDirection(flight, 'return')[0]?.departureTime ?? '';
+
+/** Day the traveler lands at the destination; an arrival clock time before the departure time means the next day. */
+export const getDestinationArrivalDate = (flight: Flight): string => {
+  const lastLeg = getSegmentsByDirection(flight, 'outbound').slice(-1)[0];
+  if (!lastLeg?.date) return '';
+  const overnight = Boolean(lastLeg.arrivalTime && lastLeg.departureTime && lastLeg.arrivalTime < lastLeg.departureTime);
+  return overnight ? addDays(lastLeg.date, 1) : lastLeg.date;
+};
+
+/** Day the traveler leaves the destination: date of the first return leg. */
+export const getDestinationDepartureDate = (flight: Flight): string => getSegmentsByDirection(flight, 'return')[0]?.date ?? '';
+
+/** Keeps outbound legs ahead of return legs while preserving the order within each direction. */
+export const sortSegments = (segments: FlightSegment[]): FlightSegment[] => [
+  ...segments.filter((segment) => segment.direction === 'outbound'),
+  ...segments.filter((segment) => segment.direction === 'return')
+];
+
+const toMinutes = (date: string, time: string): number | null => {
+  if (!date || !time) return null;
+  const timestamp = new Date(`${date}T${time}:00`).getTime();
+  return Number.isFinite(timestamp) ? timestamp / 60000 : null;
+};
+
+/** Minutes between landing from `previous` and taking off on `next`, or null when either time is unknown. */
+export const getLayoverMinutes = (previous: FlightSegment, next: FlightSegment): number | null => {
+  const landed = toMinutes(previous.date, previous.arrivalTime);
+  const departs = toMinutes(next.date || previous.date, next.departureTime);
+  if (landed === null || departs === null || departs < landed) return null;
+  return departs - landed;
+};
@@ -0,0 +1,16 @@
+import { DUBLIN_COORDS } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in kilometres (haversine). */
+export const getDistanceKm = ([fromLat, fromLng]: [number, number], [toLat, toLng]: [number, number]): number => {
+  const deltaLat = toRadians(toLat - fromLat);
+  const deltaLng = toRadians(toLng - fromLng);
+  const a = Math.sin(deltaLat / 2) ** 2 + Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const getDistanceFromDublinKm = (latitude: number, longitude: number): number =>
+  getDistanceKm(DUBLIN_COORDS, [latitude, longitude]);
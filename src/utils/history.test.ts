@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { COALESCE_WINDOW_MS, EMPTY_HISTORY, HISTORY_LIMIT, HistoryState, recordHistory, stepHistory } from './history';
+
+type State = { name: string; notes: string };
+
+const record = (history: HistoryState<State>, key: string, before: Partial<State>, after: Partial<State>, at: number) =>
+  recordHistory(history, { label: key, before, after }, key, at);
+
+describe('undo history', () => {
+  test('folds quick changes with the same key into one step that keeps the first before', () => {
+    let history: HistoryState<State> = EMPTY_HISTORY;
+    history = record(history, 'name', { name: 'R' }, { name: 'Ro' }, 0);
+    history = record(history, 'name', { name: 'Ro' }, { name: 'Rom' }, 400);
+    history = record(history, 'name', { name: 'Rom' }, { name: 'Rome' }, 800);
+    assert.deepEqual(history.past, [{ label: 'name', before: { name: 'R' }, after: { name: 'Rome' } }]);
+  });
+
+  test('starts a new step after the window or for another key', () => {
+    let history: HistoryState<State> = EMPTY_HISTORY;
+    history = record(history, 'name', { name: 'A' }, { name: 'B' }, 0);
+    history = record(history, 'name', { name: 'B' }, { name: 'C' }, COALESCE_WINDOW_MS);
+    history = record(history, 'notes', { notes: '' }, { notes: 'x' }, COALESCE_WINDOW_MS + 1);
+    assert.deepEqual(history.past.map((entry) => entry.after), [{ name: 'B' }, { name: 'C' }, { notes: 'x' }]);
+  });
+
+  test('undo and redo move entries between the stacks and stop coalescing', () => {
+    let history: HistoryState<State> = record(EMPTY_HISTORY, 'name', { name: 'A' }, { name: 'B' }, 0);
+    const undone = stepHistory(history, 'undo');
+    assert.deepEqual(undone.entry?.before, { name: 'A' });
+    assert.equal(undone.history.past.length, 0);
+    assert.equal(undone.history.future.length, 1);
+
+    const redone = stepHistory(undone.history, 'redo');
+    assert.deepEqual(redone.entry?.after, { name: 'B' });
+    history = record(redone.history, 'name', { name: 'B' }, { name: 'C' }, 10);
+    assert.equal(history.past.length, 2);
+    assert.equal(stepHistory(EMPTY_HISTORY, 'undo').entry, null);
+  });
+
+  test('a new change clears redo and the history keeps only the newest steps', () => {
+    let history: HistoryState<State> = EMPTY_HISTORY;
+    for (let index = 0; index < HISTORY_LIMIT + 5; index += 1) {
+      history = record(history, `edit ${index}`, { notes: String(index) }, { notes: String(index + 1) }, index);
+    }
+    assert.equal(history.past.length, HISTORY_LIMIT);
+    assert.equal(history.past[0].label, 'edit 5');
+
+    history = stepHistory(history, 'undo').history;
+    history = record(history, 'other', { name: '' }, { name: 'x' }, 1000);
+    assert.deepEqual(history.future, []);
+  });
+});
@@ -0,0 +1,55 @@
+export interface HistoryEntry<T> {
+  label: string;
+  /** Values of the slices the change touched, as they were before and after it. */
+  before: Partial<T>;
+  after: Partial<T>;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  /** Key and time of the last recorded change, for coalescing. */
+  lastRecord: { key: string; at: number } | null;
+}
+
+// Keystrokes in the same field arrive as separate updates; fold them into one undo step.
+export const COALESCE_WINDOW_MS = 1000;
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: HistoryState<never> = { past: [], future: [], lastRecord: null };
+
+/**
+ * Entries keep both sides of a change so undo and redo can apply just the difference on top of
+ * whatever the state is by then. A change with the same `coalesceKey` as the last one, within
+ * COALESCE_WINDOW_MS, extends that entry's `after` instead of adding a step.
+ */
+export const recordHistory = <T>(
+  history: HistoryState<T>,
+  entry: HistoryEntry<T>,
+  coalesceKey: string,
+  now: number
+): HistoryState<T> => {
+  const previous = history.lastRecord;
+  const lastRecord = { key: coalesceKey, at: now };
+  const last = history.past[history.past.length - 1];
+  if (last && previous && previous.key === coalesceKey && now - previous.at < COALESCE_WINDOW_MS) {
+    return { ...history, past: [...history.past.slice(0, -1), { ...last, after: { ...last.after, ...entry.after } }], lastRecord };
+  }
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [], lastRecord };
+};
+
+/** Moves the newest undo (or, with `direction` 'redo', redo) entry to the other stack. */
+export const stepHistory = <T>(history: HistoryState<T>, direction: 'undo' | 'redo'): { history: HistoryState<T>; entry: HistoryEntry<T> | null } => {
+  const from = direction === 'undo' ? history.past : history.future;
+  const to = direction === 'undo' ? history.future : history.past;
+  const entry = from[from.length - 1];
+  if (!entry) return { history, entry: null };
+
+  const moved = { from: from.slice(0, -1), to: [...to, entry] };
+  return {
+    history: direction === 'undo'
+      ? { past: moved.from, future: moved.to, lastRecord: null }
+      : { past: moved.to, future: moved.from, lastRecord: null },
+    entry
+  };
+};
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Flight, PlannerSettings } from '../types';
+import { DEFAULT_OPTIMIZER_CONSTRAINTS, cheapestSeatCounts, findCheapestPlans } from './optimizer';
+
+// Every way to seat `travellers` on the flights with at most `cap` each, cheapest first.
+const allSeatCosts = (prices: number[], travellers: number, cap: number): number[] => {
+  const costs: number[] = [];
+  const walk = (index: number, left: number, cost: number) => {
+    if (index === prices.length) {
+      if (left === 0) costs.push(cost);
+      return;
+    }
+    for (let count = 0; count <= Math.min(cap, left); count += 1) {
+      walk(index + 1, left - count, cost + count * prices[index]);
+    }
+  };
+  walk(0, travellers, 0);
+  return costs.sort((a, b) => a - b);
+};
+
+describe('cheapestSeatCounts', () => {
+  test('starts from the cheapest flights filled up to the cap', () => {
+    const [best] = cheapestSeatCounts([300, 100, 200], 5, 2, 1);
+    assert.deepEqual(best, { counts: [1, 2, 2], cost: 900 });
+  });
+
+  test('lists plans in the same order as trying every seat split', () => {
+    const cases: [number[], number, number][] = [
+      [[120, 95, 140, 95], 5, 2],
+      [[50, 80, 65], 4, 4],
+      [[10, 30, 20, 40, 25], 6, 3]
+    ];
+    for (const [prices, travellers, cap] of cases) {
+      const expected = allSeatCosts(prices, travellers, cap).slice(0, 8);
+      const plans = cheapestSeatCounts(prices, travellers, cap, 8);
+      assert.deepEqual(plans.map(({ cost }) => cost), expected);
+      for (const { counts } of plans) {
+        assert.equal(counts.reduce((total, count) => total + count, 0), travellers);
+        assert.ok(counts.every((count) => count <= cap));
+      }
+    }
+  });
+
+  test('returns nothing when the flights cannot seat everyone', () => {
+    assert.deepEqual(cheapestSeatCounts([100, 200], 5, 2, 3), []);
+    assert.deepEqual(cheapestSeatCounts([], 1, 1, 3), []);
+  });
+});
+
+describe('findCheapestPlans', () => {
+  const flight = (id: string, pricePerPerson: number): Flight => ({ id, link: '', description: id, segments: [], pricePerPerson, currency: 'EUR' });
+  const settings: PlannerSettings = { totalBudget: 1000, peopleCount: 3, searchLinks: [], baseCurrency: 'EUR', exchangeRates: {} };
+
+  test('seats named members first and never uses blocked flights', () => {
+    const plans = findCheapestPlans({
+      flights: [flight('cheap', 50), flight('mid', 80), flight('dear', 120)],
+      accommodations: [],
+      extraCosts: [],
+      settings,
+      tripMembers: ['Ann', 'Bob'],
+      constraints: { ...DEFAULT_OPTIMIZER_CONSTRAINTS, maxPerFlight: 2 },
+      limit: 2,
+      blockedIds: ['cheap']
+    });
+    assert.deepEqual(plans.map(({ flightAssignments, totalCost }) => ({ flightAssignments, totalCost })), [
+      { flightAssignments: { mid: ['Ann', 'Bob'], dear: [''] }, totalCost: 280 },
+      { flightAssignments: { mid: ['Ann'], dear: ['Bob', ''] }, totalCost: 320 }
+    ]);
+  });
+});
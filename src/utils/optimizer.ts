@@ -0,0 +1,150 @@
+import { Accommodation, BudgetAttempt, ExtraCost, Flight, PlannerSettings } from '../types';
+import { calculateBudgetSnapshot } from './budget';
+import { getRoomCount, getSleepingCapacity } from './capacity';
+import { convertToBase } from './currency';
+import { PLACEHOLDER_SEAT } from './flightAssignments';
+import { getFlightEndDate, getFlightStartDate } from './flightSegments';
+
+export interface OptimizerConstraints {
+  /** Most travellers on a single flight option; 0 means no limit. */
+  maxPerFlight: number;
+  /** Only pair a stay with flights whose dates overlap it. */
+  requireDateOverlap: boolean;
+  /** Skip stays whose beds and sofa beds cannot sleep the group, or with fewer rooms than `minRooms`. */
+  requireCapacity: boolean;
+  minRooms: number;
+}
+
+export type PlanCandidate = Pick<BudgetAttempt, 'flightAssignments' | 'selectedAccommodationId' | 'totalCost' | 'remaining' | 'perPersonTotal'>;
+
+interface OptimizerInput {
+  flights: Flight[];
+  accommodations: Accommodation[];
+  extraCosts: ExtraCost[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  constraints: OptimizerConstraints;
+  limit: number;
+  /** Flights and stays a member cannot do; never part of a plan. */
+  blockedIds?: string[];
+  /** Decided flights and stays; when any flight (or stay) is listed, plans only use those. */
+  decidedIds?: string[];
+}
+
+export const DEFAULT_OPTIMIZER_CONSTRAINTS: OptimizerConstraints = {
+  maxPerFlight: 0,
+  requireDateOverlap: true,
+  requireCapacity: true,
+  minRooms: 0
+};
+
+// Missing dates never rule a pairing out; there is nothing to compare.
+const datesOverlap = (flight: Flight, accommodation: Accommodation) => {
+  const start = getFlightStartDate(flight);
+  const end = getFlightEndDate(flight);
+  if (!start || !end || !accommodation.startDate || !accommodation.endDate) return true;
+  return start <= accommodation.endDate && end >= accommodation.startDate;
+};
+
+// Unknown room or bed counts are given the benefit of the doubt.
+const fitsGroup = (accommodation: Accommodation, travellers: number, minRooms: number) => {
+  const capacity = getSleepingCapacity(accommodation);
+  const rooms = getRoomCount(accommodation);
+  return (capacity === null || capacity >= travellers) && (rooms === null || rooms >= minRooms);
+};
+
+/**
+ * Seat counts per flight in order of increasing cost. Starts from the greedy fill of the cheapest
+ * flights and explores single-seat moves between flights; with a linear cost over capped seat counts
+ * every plan has a cheaper neighbour unless it is optimal, so best-first order is exact.
+ */
+export const cheapestSeatCounts = (prices: number[], travellers: number, cap: number, limit: number): { counts: number[]; cost: number }[] => {
+  if (prices.length * cap < travellers) return [];
+
+  const order = prices.map((_, index) => index).sort((a, b) => prices[a] - prices[b]);
+  const start = prices.map(() => 0);
+  let left = travellers;
+  for (const index of order) {
+    start[index] = Math.min(cap, left);
+    left -= start[index];
+  }
+
+  const costOf = (counts: number[]) => counts.reduce((total, count, index) => total + count * prices[index], 0);
+  const queue = [{ counts: start, cost: costOf(start) }];
+  const seen = new Set([start.join(',')]);
+  const results: { counts: number[]; cost: number }[] = [];
+
+  while (queue.length > 0 && results.length < limit) {
+    queue.sort((a, b) => a.cost - b.cost);
+    const current = queue.shift()!;
+    results.push(current);
+
+    current.counts.forEach((fromCount, from) => {
+      if (fromCount === 0) return;
+      current.counts.forEach((toCount, to) => {
+        if (to === from || toCount >= cap) return;
+        const counts = [...current.counts];
+        counts[from] -= 1;
+        counts[to] += 1;
+        const key = counts.join(',');
+        if (seen.has(key)) return;
+        seen.add(key);
+        queue.push({ counts, cost: current.cost - prices[from] + prices[to] });
+      });
+    });
+  }
+
+  return results;
+};
+
+/** The `limit` cheapest valid plans for `settings.peopleCount` travellers, cheapest first. */
+export const findCheapestPlans = ({ flights, accommodations, extraCosts, settings, tripMembers, constraints, limit, blockedIds = [], decidedIds = [] }: OptimizerInput): PlanCandidate[] => {
+  const travellers = Math.max(1, settings.peopleCount);
+  const cap = constraints.maxPerFlight > 0 ? constraints.maxPerFlight : travellers;
+  // Named members take the first seats; anyone beyond the member list gets an unnamed seat.
+  const seatNames = Array.from({ length: travellers }, (_, index) => tripMembers[index] ?? PLACEHOLDER_SEAT);
+
+  const decidedStays = accommodations.filter((accommodation) => decidedIds.includes(accommodation.id));
+  const decidedFlights = flights.filter((flight) => decidedIds.includes(flight.id));
+  const stayPool = decidedStays.length > 0 ? decidedStays : accommodations;
+  const flightPool = decidedFlights.length > 0 ? decidedFlights : flights;
+
+  const stays: (Accommodation | null)[] = accommodations.length > 0
+    ? stayPool.filter((accommodation) => !blockedIds.includes(accommodation.id) && (!constraints.requireCapacity || fitsGroup(accommodation, travellers, constraints.minRooms)))
+    : [null];
+
+  const candidates = stays.flatMap((stay) => {
+    const eligibleFlights = flightPool.filter((flight) => !blockedIds.includes(flight.id) && (!stay || !constraints.requireDateOverlap || datesOverlap(flight, stay)));
+    const prices = eligibleFlights.map((flight) => convertToBase(flight.pricePerPerson, flight.currency, settings));
+
+    return cheapestSeatCounts(prices, travellers, cap, limit).map(({ counts }) => {
+      const flightAssignments: Record<string, string[]> = {};
+      let seat = 0;
+      counts.forEach((count, index) => {
+        if (count === 0) return;
+        flightAssignments[eligibleFlights[index].id] = seatNames.slice(seat, seat + count);
+        seat += count;
+      });
+
+      const snapshot = calculateBudgetSnapshot({
+        flights,
+        accommodations,
+        flightAssignments,
+        selectedAccommodationId: stay?.id ?? '',
+        extraCosts,
+        settings,
+        tripMembers
+      });
+
+      return {
+        flightAssignments,
+        selectedAccommodationId: stay?.id ?? '',
+        totalCost: snapshot.totalCost,
+        remaining: snapshot.remaining,
+        perPersonTotal: snapshot.perPersonTotal
+      };
+    });
+  });
+
+  return candidates.sort((a, b) => a.totalCost - b.totalCost).slice(0, limit);
+};
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Accommodation, BudgetAttempt, ExtraCost, Flight } from '../types';
+import { EMPTY_LEDGER, MemberBalance, calculateSettlement, minimizeTransfers } from './settlement';
+
+const balance = (member: string, value: number): MemberBalance => ({ member, paid: 0, share: 0, balance: value });
+
+const flight = (id: string, pricePerPerson: number, currency = 'EUR'): Flight => ({
+  id, link: '', description: id, segments: [], pricePerPerson, currency
+});
+
+const stay = (id: string, totalPrice: number): Accommodation => ({
+  id, link: '', description: id, totalPrice, currency: 'EUR', startDate: '', endDate: ''
+});
+
+const attempt = (overrides: Partial<BudgetAttempt>): BudgetAttempt => ({
+  id: 'a1', name: 'Plan', createdAt: 0, flightAssignments: {}, selectedAccommodationId: '', totalCost: 0, remaining: 0, perPersonTotal: 0,
+  ...overrides
+});
+
+const currencySettings = { baseCurrency: 'EUR', exchangeRates: { GBP: 1.2 } };
+
+describe('minimizeTransfers', () => {
+  test('settles every debt with at most members - 1 transfers', () => {
+    const transfers = minimizeTransfers([balance('Ann', 60), balance('Bob', -20), balance('Cy', -30), balance('Dee', -10)]);
+    assert.deepEqual(transfers, [
+      { from: 'Cy', to: 'Ann', amount: 30 },
+      { from: 'Bob', to: 'Ann', amount: 20 },
+      { from: 'Dee', to: 'Ann', amount: 10 }
+    ]);
+  });
+
+  test('pays the largest creditor from the largest debtor first', () => {
+    const transfers = minimizeTransfers([balance('Ann', 50), balance('Bob', 25), balance('Cy', -40), balance('Dee', -35)]);
+    assert.deepEqual(transfers, [
+      { from: 'Cy', to: 'Ann', amount: 40 },
+      { from: 'Dee', to: 'Bob', amount: 25 },
+      { from: 'Dee', to: 'Ann', amount: 10 }
+    ]);
+  });
+
+  test('works in cents and ignores balances that round to zero', () => {
+    assert.deepEqual(minimizeTransfers([balance('Ann', 10.005), balance('Bob', -10.004), balance('Cy', 0.001)]), [
+      { from: 'Bob', to: 'Ann', amount: 10 }
+    ]);
+    assert.deepEqual(minimizeTransfers([balance('Ann', 0), balance('Bob', 0.004)]), []);
+  });
+});
+
+describe('calculateSettlement', () => {
+  const members = ['Ann', 'Bob', 'Cy'];
+
+  test('charges seats to their travellers and splits the rest evenly', () => {
+    const summary = calculateSettlement({
+      attempt: attempt({ flightAssignments: { f1: ['Ann', 'Bob', ''] }, selectedAccommodationId: 's1' }),
+      flights: [flight('f1', 100)],
+      accommodations: [stay('s1', 300)],
+      extraCosts: [],
+      ledger: { flightPayers: { f1: ['Ann', 'Ann', 'Bob'] }, accommodationPayer: 'Cy' },
+      members,
+      currencySettings,
+      peopleCount: 3
+    });
+
+    // The unassigned seat and the stay are shared: (100 + 300) / 3 each.
+    assert.equal(summary.paidTotal, 600);
+    assert.equal(summary.sharedTotal, 400);
+    assert.equal(summary.unpaidTotal, 0);
+    assert.deepEqual(summary.balances.map(({ member, paid, share }) => ({ member, paid, share: Math.round(share * 100) / 100 })), [
+      { member: 'Ann', paid: 200, share: 233.33 },
+      { member: 'Bob', paid: 100, share: 233.33 },
+      { member: 'Cy', paid: 300, share: 133.33 }
+    ]);
+    assert.deepEqual(summary.transfers, [
+      { from: 'Bob', to: 'Cy', amount: 133.33 },
+      { from: 'Ann', to: 'Cy', amount: 33.33 }
+    ]);
+  });
+
+  test('reports costs without a payer as unpaid and converts to the base currency', () => {
+    const extraCosts: ExtraCost[] = [
+      { id: 'e1', description: 'Dinner', value: 50, currency: 'GBP', paidBy: 'Bob' },
+      { id: 'e2', description: 'Taxi', value: 40, currency: 'EUR' }
+    ];
+    const summary = calculateSettlement({
+      attempt: attempt({ flightAssignments: { f1: ['Ann'] } }),
+      flights: [flight('f1', 100, 'GBP')],
+      accommodations: [],
+      extraCosts,
+      ledger: EMPTY_LEDGER,
+      members,
+      currencySettings,
+      peopleCount: 3
+    });
+
+    assert.equal(summary.paidTotal, 60);
+    assert.equal(summary.unpaidTotal, 160);
+    assert.deepEqual(summary.balances.map(({ member, balance: value }) => [member, value]), [['Ann', -20], ['Bob', 40], ['Cy', -20]]);
+  });
+});
@@ -0,0 +1,152 @@
+import { Accommodation, BudgetAttempt, ExtraCost, Flight, SettlementLedger } from '../types';
+import { CurrencySettings, convertToBase } from './currency';
+import { getExtraCostAmount, getPlanExtraCostContext } from './extraCosts';
+import { getSelectedStays, resolveStays } from './stays';
+
+export interface MemberBalance {
+  member: string;
+  paid: number;
+  share: number;
+  balance: number;
+}
+
+export interface SettlementTransfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface SettlementSummary {
+  balances: MemberBalance[];
+  transfers: SettlementTransfer[];
+  paidTotal: number;
+  /** The paid part split evenly: stays, extras and seats with no traveller assigned. */
+  sharedTotal: number;
+  unpaidTotal: number;
+}
+
+/** The first stay keeps the original `accommodationPayer`; further stays of a split plan are keyed by id. */
+export const getStayPayer = (ledger: SettlementLedger, accommodationId: string, index: number): string =>
+  index === 0 ? ledger.accommodationPayer : ledger.stayPayers?.[accommodationId] ?? '';
+
+export const setStayPayer = (ledger: SettlementLedger, accommodationId: string, index: number, member: string): SettlementLedger =>
+  index === 0
+    ? { ...ledger, accommodationPayer: member }
+    : { ...ledger, stayPayers: { ...ledger.stayPayers, [accommodationId]: member } };
+
+interface SettlementInput {
+  attempt: BudgetAttempt;
+  flights: Flight[];
+  accommodations: Accommodation[];
+  extraCosts: ExtraCost[];
+  ledger: SettlementLedger;
+  members: string[];
+  currencySettings: CurrencySettings;
+  /** Team size that per-person extra costs are multiplied by. */
+  peopleCount: number;
+}
+
+export const EMPTY_LEDGER: SettlementLedger = { flightPayers: {}, accommodationPayer: '' };
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/**
+ * Greedy largest-creditor / largest-debtor matching. Each step settles at least one member,
+ * so there are never more than members - 1 transfers.
+ */
+export const minimizeTransfers = (balances: MemberBalance[]): SettlementTransfer[] => {
+  const creditors = balances
+    .filter((entry) => toCents(entry.balance) > 0)
+    .map((entry) => ({ member: entry.member, cents: toCents(entry.balance) }));
+  const debtors = balances
+    .filter((entry) => toCents(entry.balance) < 0)
+    .map((entry) => ({ member: entry.member, cents: -toCents(entry.balance) }));
+
+  const transfers: SettlementTransfer[] = [];
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents);
+    debtors.sort((a, b) => b.cents - a.cents);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    transfers.push({ from: debtor.member, to: creditor.member, amount: cents / 100 });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return transfers;
+};
+
+/**
+ * Only costs with a recorded payer are charged; anything nobody has paid yet is reported as unpaid
+ * rather than charged to the group. A flight seat is charged to the member assigned to it, and
+ * everything else (stays, extras, seats without a member) is split evenly across all members.
+ */
+export const calculateSettlement = ({
+  attempt,
+  flights,
+  accommodations,
+  extraCosts,
+  ledger,
+  members,
+  currencySettings,
+  peopleCount
+}: SettlementInput): SettlementSummary => {
+  const paidByMember = new Map(members.map((member) => [member, 0]));
+  const chargedToMember = new Map(members.map((member) => [member, 0]));
+  let paidTotal = 0;
+  let sharedTotal = 0;
+  let unpaidTotal = 0;
+
+  /** `traveller` is who the cost is charged to; without one it is shared by everyone. */
+  const recordPayment = (payer: string | undefined, amount: number, traveller?: string) => {
+    if (!payer || !paidByMember.has(payer)) {
+      unpaidTotal += amount;
+      return;
+    }
+    paidByMember.set(payer, (paidByMember.get(payer) ?? 0) + amount);
+    paidTotal += amount;
+    if (traveller && chargedToMember.has(traveller)) {
+      chargedToMember.set(traveller, (chargedToMember.get(traveller) ?? 0) + amount);
+    } else {
+      sharedTotal += amount;
+    }
+  };
+
+  for (const [flightId, seats] of Object.entries(attempt.flightAssignments)) {
+    const flight = flights.find((item) => item.id === flightId);
+    if (!flight) continue;
+    const seatPrice = convertToBase(flight.pricePerPerson, flight.currency, currencySettings);
+    const seatPayers = ledger.flightPayers[flightId] ?? [];
+    for (let seat = 0; seat < seats.length; seat++) {
+      recordPayment(seatPayers[seat], seatPrice, seats[seat]);
+    }
+  }
+
+  resolveStays(getSelectedStays(attempt.selectedAccommodationId, attempt.stays), accommodations).forEach(({ accommodation }, index) => {
+    recordPayment(getStayPayer(ledger, accommodation.id, index), convertToBase(accommodation.totalPrice, accommodation.currency, currencySettings));
+  });
+
+  const extraCostContext = getPlanExtraCostContext(attempt, flights, accommodations, peopleCount);
+  for (const extraCost of extraCosts) {
+    recordPayment(extraCost.paidBy, convertToBase(getExtraCostAmount(extraCost, extraCostContext), extraCost.currency, currencySettings));
+  }
+
+  const sharedPart = members.length > 0 ? sharedTotal / members.length : 0;
+  const balances = members.map((member) => {
+    const paid = paidByMember.get(member) ?? 0;
+    const share = sharedPart + (chargedToMember.get(member) ?? 0);
+    return { member, paid, share, balance: paid - share };
+  });
+
+  return {
+    balances,
+    transfers: minimizeTransfers(balances),
+    paidTotal,
+    sharedTotal,
+    unpaidTotal
+  };
+};
@@ -0,0 +1,189 @@
+import { Accommodation, BudgetAttempt, Destination, Flight, PlannerSettings, TripVotes } from '../types';
+import { getAccommodationSearchLinks, getFlightSearchLinks } from './bookingLinks';
+import { BudgetSnapshot, calculateBudgetSnapshot } from './budget';
+import { convertToBase } from './currency';
+import { getFlightEndDate, getFlightOrigin, getFlightStartDate } from './flightSegments';
+import { EXTRA_COST_SCALINGS, getCategoryLabel, getExtraCostAmount } from './extraCosts';
+import { getSelectedStays, resolveStays } from './stays';
+import { formatVoters, getSupporterMap, revealVoters } from './voting';
+import { SpreadsheetCell, SpreadsheetSheet } from './xlsx';
+
+interface ExportInput {
+  destinations: Destination[];
+  settings: PlannerSettings;
+  tripMembers: string[];
+  votes: TripVotes;
+}
+
+// Same labels as the date groups in FlightManager and AccommodationManager.
+const dateGroupLabel = (startDate: string, endDate: string) => `${startDate || 'No start date'} to ${endDate || 'No end date'}`;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const formatLinks = (links: { label: string; url: string }[]) => links.map((link) => `${link.label}: ${link.url}`).join('\n');
+
+const describeRoute = (flight: Flight) => flight.segments.map((segment) => `${segment.from || '?'} → ${segment.to || '?'}`).join(', ');
+
+const describeFlightNumbers = (flight: Flight) => flight.segments
+  .map((segment) => [segment.carrier, segment.flightNumber].filter(Boolean).join(' '))
+  .filter(Boolean)
+  .join(', ');
+
+const FLIGHT_HEADER = ['Date group', 'Flight', 'Route', 'Flight numbers', 'Outbound', 'Return', 'Price per person', 'Currency', 'Price per person (base)', 'Votes', 'Voters', 'Link', 'Search links'];
+const ACCOMMODATION_HEADER = ['Date group', 'Stay', 'Check-in', 'Check-out', 'Rooms', 'Beds', 'Total price', 'Currency', 'Total price (base)', 'Votes', 'Voters', 'Link', 'Search links', 'Image'];
+
+const flightRow = (flight: Flight, destination: Destination, { settings, votes, tripMembers }: ExportInput): SpreadsheetCell[] => {
+  const startDate = getFlightStartDate(flight);
+  const endDate = getFlightEndDate(flight);
+  const voters = revealVoters(votes, 'flights', getSupporterMap(votes, 'flights')[flight.id] ?? [], '', tripMembers);
+  return [
+    dateGroupLabel(startDate, endDate),
+    flight.description,
+    describeRoute(flight),
+    describeFlightNumbers(flight),
+    startDate,
+    endDate,
+    flight.pricePerPerson,
+    flight.currency,
+    roundMoney(convertToBase(flight.pricePerPerson, flight.currency, settings)),
+    voters.length,
+    formatVoters(voters),
+    flight.link,
+    formatLinks(getFlightSearchLinks(settings.searchLinks, getFlightOrigin(flight), destination.name, startDate, endDate))
+  ];
+};
+
+const accommodationRow = (accommodation: Accommodation, destination: Destination, { settings, votes, tripMembers }: ExportInput): SpreadsheetCell[] => {
+  const groupKey = `${accommodation.startDate || 'no-start'}|${accommodation.endDate || 'no-end'}`;
+  const customLinks = destination.customGroupLinks?.[groupKey] ?? {};
+  // A custom group link replaces the generated one with the same template, as in AccommodationManager.
+  const searchLinks = getAccommodationSearchLinks(settings.searchLinks, destination.name, accommodation.startDate, accommodation.endDate, settings.peopleCount)
+    .map((link) => {
+      const linkId = settings.searchLinks.find((template) => template.label === link.label)?.id || link.label;
+      return { ...link, url: customLinks[linkId] || link.url };
+    });
+  const voters = revealVoters(votes, 'accommodations', getSupporterMap(votes, 'accommodations')[accommodation.id] ?? [], '', tripMembers);
+  return [
+    dateGroupLabel(accommodation.startDate, accommodation.endDate),
+    accommodation.description,
+    accommodation.startDate,
+    accommodation.endDate,
+    accommodation.rooms ?? null,
+    accommodation.beds ?? null,
+    accommodation.totalPrice,
+    accommodation.currency,
+    roundMoney(convertToBase(accommodation.totalPrice, accommodation.currency, settings)),
+    voters.length,
+    formatVoters(voters),
+    accommodation.link,
+    formatLinks(searchLinks),
+    accommodation.imageUrl ?? ''
+  ];
+};
+
+const byDateGroup = (a: SpreadsheetCell[], b: SpreadsheetCell[]) => String(a[0]).localeCompare(String(b[0]));
+
+/** Every destination's flights in one table, grouped by travel dates. */
+export const buildFlightsTable = (input: ExportInput): SpreadsheetCell[][] => [
+  ['Destination', ...FLIGHT_HEADER],
+  ...input.destinations.flatMap((destination) => destination.flights
+    .map((flight) => flightRow(flight, destination, input))
+    .sort(byDateGroup)
+    .map((row) => [destination.name, ...row]))
+];
+
+/** Every destination's stays in one table, grouped by stay dates. */
+export const buildAccommodationsTable = (input: ExportInput): SpreadsheetCell[][] => [
+  ['Destination', ...ACCOMMODATION_HEADER],
+  ...input.destinations.flatMap((destination) => destination.accommodations
+    .map((accommodation) => accommodationRow(accommodation, destination, input))
+    .sort(byDateGroup)
+    .map((row) => [destination.name, ...row]))
+];
+
+export const getFixedAttempt = (destination: Destination): BudgetAttempt | undefined =>
+  destination.budgetEstimator.attempts.find((attempt) => attempt.id === destination.budgetEstimator.fixedAttemptId);
+
+const snapshotFor = (destination: Destination, { settings, tripMembers }: ExportInput, plan: Pick<BudgetAttempt, 'flightAssignments' | 'selectedAccommodationId' | 'stays'>) =>
+  calculateBudgetSnapshot({
+    flights: destination.flights,
+    accommodations: destination.accommodations,
+    flightAssignments: plan.flightAssignments,
+    selectedAccommodationId: plan.selectedAccommodationId,
+    stays: plan.stays,
+    extraCosts: destination.extraCosts,
+    settings,
+    tripMembers
+  });
+
+const snapshotCells = (snapshot: BudgetSnapshot | null): SpreadsheetCell[] => (snapshot
+  ? [snapshot.assignedPeopleCount, roundMoney(snapshot.flightCost), roundMoney(snapshot.accommodationCost), roundMoney(snapshot.extraCostsCost), roundMoney(snapshot.totalCost), roundMoney(snapshot.perPersonTotal), roundMoney(snapshot.remaining)]
+  : [null, null, null, null, null, null, null]);
+
+const SNAPSHOT_COLUMNS = ['travellers', 'flights', 'stay', 'extras', 'total', 'per person', 'remaining'];
+
+/** One row per destination: the live estimator next to the fixed plan, all in the base currency. */
+const buildSummaryRows = (input: ExportInput): SpreadsheetCell[][] => [
+  [`All amounts in ${input.settings.baseCurrency}. Total budget ${input.settings.totalBudget}, ${input.settings.peopleCount} people.`],
+  [],
+  [
+    'Destination',
+    'Destination votes',
+    ...SNAPSHOT_COLUMNS.map((column) => `Current ${column}`),
+    'Fixed plan',
+    'Fixed plan stay',
+    ...SNAPSHOT_COLUMNS.map((column) => `Fixed ${column}`)
+  ],
+  ...input.destinations.map((destination) => {
+    const fixedAttempt = getFixedAttempt(destination);
+    const stays = fixedAttempt ? resolveStays(getSelectedStays(fixedAttempt.selectedAccommodationId, fixedAttempt.stays), destination.accommodations) : [];
+    return [
+      destination.name,
+      (getSupporterMap(input.votes, 'destinations')[destination.id] ?? []).length,
+      ...snapshotCells(snapshotFor(destination, input, destination.budgetEstimator)),
+      fixedAttempt?.name ?? 'None',
+      stays.map(({ accommodation }) => accommodation.description).join(' + '),
+      ...snapshotCells(fixedAttempt ? snapshotFor(destination, input, fixedAttempt) : null)
+    ];
+  })
+];
+
+const buildDestinationRows = (destination: Destination, input: ExportInput): SpreadsheetCell[][] => {
+  const fixedAttempt = getFixedAttempt(destination);
+  const currentSnapshot = snapshotFor(destination, input, destination.budgetEstimator);
+  const extraCostContext = { people: input.settings.peopleCount, nights: currentSnapshot.tripNights };
+  return [
+    [destination.name],
+    destination.notes ? [destination.notes] : [],
+    [],
+    ['Flights'],
+    FLIGHT_HEADER,
+    ...destination.flights.map((flight) => flightRow(flight, destination, input)).sort(byDateGroup),
+    [],
+    ['Stays'],
+    ACCOMMODATION_HEADER,
+    ...destination.accommodations.map((accommodation) => accommodationRow(accommodation, destination, input)).sort(byDateGroup),
+    [],
+    ['Extra costs'],
+    ['Description', 'Category', 'Charged', 'Amount', 'Currency', `Total for the trip (${input.settings.baseCurrency})`, 'Paid by'],
+    ...destination.extraCosts.map((extraCost) => [
+      extraCost.description,
+      getCategoryLabel(extraCost.category),
+      EXTRA_COST_SCALINGS.find((scaling) => scaling.id === (extraCost.scaling ?? 'fixed'))?.label ?? '',
+      extraCost.value,
+      extraCost.currency,
+      roundMoney(convertToBase(getExtraCostAmount(extraCost, extraCostContext), extraCost.currency, input.settings)),
+      extraCost.paidBy ?? ''
+    ]),
+    [],
+    ['Budget', ...SNAPSHOT_COLUMNS],
+    ['Current', ...snapshotCells(currentSnapshot)],
+    [fixedAttempt ? `Fixed: ${fixedAttempt.name}` : 'Fixed: none', ...snapshotCells(fixedAttempt ? snapshotFor(destination, input, fixedAttempt) : null)]
+  ];
+};
+
+/** A summary sheet comparing destinations, then one sheet per destination. */
+export const buildTripWorkbook = (input: ExportInput): SpreadsheetSheet[] => [
+  { name: 'Summary', rows: buildSummaryRows(input) },
+  ...input.destinations.map((destination) => ({ name: destination.name, rows: buildDestinationRows(destination, input) }))
+];
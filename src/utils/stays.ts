@@ -0,0 +1,107 @@
+import { Accommodation, StaySelection } from '../types';
+import { daysBetween, formatDay, plural } from './dates';
+
+export interface StayCoverageIssue {
+  kind: 'gap' | 'overlap';
+  /** The earlier stay (check-out side of a gap, first of two overlapping stays). */
+  fromId: string;
+  toId: string;
+  nights: number;
+  /** Members affected; empty when every stay is for the whole group. */
+  members: string[];
+  message: string;
+}
+
+export interface SelectedStay {
+  selection: StaySelection;
+  accommodation: Accommodation;
+}
+
+type DatedStay = SelectedStay & { accommodation: { startDate: string; endDate: string } };
+
+/** The stays of a plan, falling back to the single selected accommodation for plans saved before split stays. */
+export const getSelectedStays = (selectedAccommodationId: string, stays?: StaySelection[]): StaySelection[] => {
+  if (stays && stays.length > 0) return stays;
+  return selectedAccommodationId ? [{ accommodationId: selectedAccommodationId, members: [] }] : [];
+};
+
+type StayState = { selectedAccommodationId: string; stays?: StaySelection[] };
+
+/** Stored form of a stay list: a single whole-group stay stays in `selectedAccommodationId` alone, with no `stays` key. */
+export const toStayState = (stays: StaySelection[]): StayState => {
+  const chosen = stays.filter((stay) => stay.accommodationId);
+  const isSplit = chosen.length > 1 || chosen.some((stay) => stay.members.length > 0);
+  return {
+    selectedAccommodationId: chosen[0]?.accommodationId ?? '',
+    ...(isSplit ? { stays: chosen.map((stay) => ({ accommodationId: stay.accommodationId, members: [...stay.members] })) } : {})
+  };
+};
+
+/** `target` with its stays replaced; drops an old split rather than leaving `stays: undefined`, which sync backends reject. */
+export const withStayState = <T extends StayState>(target: T, stays: StaySelection[]): T => {
+  const { stays: _, ...rest } = target;
+  return { ...rest, ...toStayState(stays) } as T;
+};
+
+export const isStayingAt = (stay: SelectedStay, member: string): boolean =>
+  stay.selection.members.length === 0 || stay.selection.members.includes(member);
+
+export const areStaysEqual = (a: StaySelection[], b: StaySelection[]): boolean =>
+  a.length === b.length && a.every((stay, index) => (
+    stay.accommodationId === b[index].accommodationId &&
+    stay.members.length === b[index].members.length &&
+    stay.members.every((member) => b[index].members.includes(member))
+  ));
+
+export const resolveStays = (stays: StaySelection[], accommodations: Accommodation[]): SelectedStay[] =>
+  stays.flatMap((selection) => {
+    const accommodation = accommodations.find((item) => item.id === selection.accommodationId);
+    return accommodation ? [{ selection, accommodation }] : [];
+  });
+
+const compareNeighbours = (ordered: DatedStay[], found: Map<string, Omit<StayCoverageIssue, 'message'>>, member: string | null) => {
+  for (let index = 1; index < ordered.length; index++) {
+    const previous = ordered[index - 1].accommodation;
+    const next = ordered[index].accommodation;
+    const offset = daysBetween(previous.endDate, next.startDate);
+    if (offset === 0) continue;
+
+    const kind = offset > 0 ? 'gap' : 'overlap';
+    const nights = offset > 0 ? offset : daysBetween(next.startDate, previous.endDate < next.endDate ? previous.endDate : next.endDate);
+    const key = `${kind}|${previous.id}|${next.id}`;
+    const issue = found.get(key) ?? { kind, fromId: previous.id, toId: next.id, nights, members: [] };
+    if (member !== null) issue.members.push(member);
+    found.set(key, issue);
+  }
+};
+
+/**
+ * Checks that the nights of a split plan chain up for everyone: each member's stays, in date order,
+ * should check in on the day the previous one checks out. Stays without dates are ignored.
+ */
+export const checkStayCoverage = (stays: StaySelection[], accommodations: Accommodation[], tripMembers: string[] = []): StayCoverageIssue[] => {
+  const dated = resolveStays(stays, accommodations)
+    .filter((stay): stay is DatedStay => Boolean(stay.accommodation.startDate && stay.accommodation.endDate))
+    .sort((a, b) => a.accommodation.startDate.localeCompare(b.accommodation.startDate));
+  if (dated.length < 2) return [];
+
+  const found = new Map<string, Omit<StayCoverageIssue, 'message'>>();
+  const named = Array.from(new Set([...tripMembers, ...dated.flatMap((stay) => stay.selection.members)]));
+  if (dated.every((stay) => stay.selection.members.length === 0) || named.length === 0) {
+    compareNeighbours(dated, found, null);
+  } else {
+    for (const member of named) {
+      compareNeighbours(dated.filter((stay) => isStayingAt(stay, member)), found, member);
+    }
+  }
+
+  return Array.from(found.values()).map((issue) => {
+    const from = dated.find((stay) => stay.accommodation.id === issue.fromId)!.accommodation;
+    const to = dated.find((stay) => stay.accommodation.id === issue.toId)!.accommodation;
+    const who = issue.members.length > 0 ? `${issue.members.join(', ')}: ` : '';
+    const message = issue.kind === 'gap'
+      ? `${who}${plural(issue.nights, 'night')} without a stay between ${from.description || 'Unnamed stay'} (check-out ${formatDay(from.endDate)}) and ${to.description || 'Unnamed stay'} (check-in ${formatDay(to.startDate)}).`
+      : `${who}${from.description || 'Unnamed stay'} and ${to.description || 'Unnamed stay'} overlap by ${plural(issue.nights, 'night')} (check-in ${formatDay(to.startDate)}, check-out ${formatDay(from.endDate)}).`;
+    return { ...issue, message };
+  });
+};
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { PendingMutation, countPendingForTrip, enqueueMutation } from './syncQueue';
+
+const mutation = (path: string, value: unknown, base: unknown, overrides: Partial<PendingMutation> = {}): PendingMutation => ({
+  path, value, base, guarded: true, label: path, tripCode: 'ABC', queuedAt: 0, ...overrides
+});
+
+describe('enqueueMutation', () => {
+  test('keeps only the latest write per path, with the first base of a field edit', () => {
+    let queue = enqueueMutation([], mutation('destinations/d1/name', 'Ro', 'Paris'));
+    queue = enqueueMutation(queue, mutation('destinations/d1/name', 'Rome', 'Ro'));
+    assert.deepEqual(queue, [mutation('destinations/d1/name', 'Rome', 'Paris')]);
+  });
+
+  test('takes the new base when either write is unguarded', () => {
+    let queue = enqueueMutation([], mutation('destinations/d1/flights/f1', { id: 'f1' }, null, { guarded: false }));
+    queue = enqueueMutation(queue, mutation('destinations/d1/flights/f1', null, 'x', { guarded: false }));
+    assert.equal(queue.length, 1);
+    assert.equal(queue[0].base, 'x');
+    assert.equal(queue[0].value, null);
+  });
+
+  test('drops queued writes beneath a path that is overwritten', () => {
+    let queue = enqueueMutation([], mutation('destinations/d1/flights/f1/description', 'Late', ''));
+    queue = enqueueMutation(queue, mutation('destinations/d1/flights/f10', 'kept', null));
+    queue = enqueueMutation(queue, mutation('destinations/d1/flights/f1', null, null, { guarded: false }));
+    assert.deepEqual(queue.map(({ path }) => path), ['destinations/d1/flights/f10', 'destinations/d1/flights/f1']);
+  });
+
+  test('keeps the queues of different trips apart', () => {
+    let queue = enqueueMutation([], mutation('notes', 'a', '', { tripCode: 'ABC' }));
+    queue = enqueueMutation(queue, mutation('notes', 'b', '', { tripCode: 'XYZ' }));
+    assert.equal(queue.length, 2);
+    assert.equal(countPendingForTrip(queue, 'XYZ'), 1);
+  });
+});
@@ -0,0 +1,24 @@
+import { SyncChange } from './tripSync';
+
+/** A remote write made while offline, kept in localStorage until it can be replayed. */
+export interface PendingMutation extends SyncChange {
+  tripCode: string;
+  queuedAt: number;
+}
+
+const isSameOrChildPath = (path: string, parent: string) => path === parent || path.startsWith(`${parent}/`);
+
+/**
+ * Adds a write to the queue. Only the latest write per path is kept, and writes beneath a path
+ * that is overwritten are dropped so a replay cannot resurrect part of a removed entity.
+ */
+export const enqueueMutation = (queue: PendingMutation[], mutation: PendingMutation): PendingMutation[] => {
+  const previous = queue.find((item) => item.tripCode === mutation.tripCode && item.path === mutation.path);
+  const remaining = queue.filter((item) => item.tripCode !== mutation.tripCode || !isSameOrChildPath(item.path, mutation.path));
+  // Repeated offline edits to one field keep the first base, so the replay still notices a remote change made meanwhile.
+  const base = previous?.guarded && mutation.guarded ? previous.base : mutation.base;
+  return [...remaining, { ...mutation, base }];
+};
+
+export const countPendingForTrip = (queue: PendingMutation[], tripCode: string) =>
+  queue.filter((item) => item.tripCode === tripCode).length;
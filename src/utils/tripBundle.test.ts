@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ActivityEvent, Destination, Flight } from '../types';
+import { ACTIVITY_LIMIT } from './activity';
+import { TRIP_BUNDLE_VERSION, TripContent, applyTripImport, migrateTripBundle } from './tripBundle';
+
+const flight = (id: string, pricePerPerson = 100): Flight => ({ id, link: '', description: id, segments: [], pricePerPerson, currency: 'EUR' });
+
+const destination = (id: string, flights: Flight[] = []): Destination => ({
+  id,
+  name: id,
+  latitude: 0,
+  longitude: 0,
+  notes: '',
+  extraCosts: [],
+  budgetEstimator: { flightAssignments: {}, selectedAccommodationId: '', fixedAttemptId: '', attempts: [] },
+  flightDraft: {},
+  accommodationDraft: {},
+  flights,
+  accommodations: []
+});
+
+const event = (id: string, at: number): ActivityEvent => ({ id, at, actor: 'Ann', message: id, key: id });
+
+const trip = (overrides: Partial<TripContent> = {}): TripContent => ({
+  destinations: [],
+  settings: { totalBudget: 1000, peopleCount: 2, searchLinks: [], baseCurrency: 'EUR', exchangeRates: {} },
+  tripMembers: [],
+  votes: { destinations: {}, flights: {}, accommodations: {} },
+  availability: [],
+  activity: [],
+  ...overrides
+});
+
+describe('migrateTripBundle', () => {
+  test('wraps the original bare-array export and upgrades it', () => {
+    const { bundle, fromVersion } = migrateTripBundle([{ id: 'd1' }]);
+    assert.equal(fromVersion, 0);
+    assert.deepEqual(bundle, { schemaVersion: TRIP_BUNDLE_VERSION, destinations: [{ id: 'd1' }] });
+  });
+
+  test('leaves a current bundle as it is', () => {
+    const raw = { schemaVersion: TRIP_BUNDLE_VERSION, destinations: [], tripMembers: ['Ann'] };
+    assert.deepEqual(migrateTripBundle(raw), { bundle: raw, fromVersion: TRIP_BUNDLE_VERSION });
+  });
+
+  test('rejects files that are not exports or come from a newer planner', () => {
+    assert.throws(() => migrateTripBundle({ name: 'x' }), /not a trip export/);
+    assert.throws(() => migrateTripBundle({ schemaVersion: TRIP_BUNDLE_VERSION + 1, destinations: [] }), /newer version/);
+  });
+});
+
+describe('applyTripImport', () => {
+  test('merge keeps local items, takes same-id items from the file and combines members and votes', () => {
+    const current = trip({
+      destinations: [destination('d1', [flight('f1'), flight('f2')])],
+      tripMembers: ['Ann'],
+      votes: { destinations: { d1: ['Ann'] }, flights: {}, accommodations: {}, polls: { destinations: { status: 'closed' } } }
+    });
+    const incoming = trip({
+      destinations: [destination('d1', [flight('f2', 80)]), destination('d2')],
+      settings: { ...current.settings, totalBudget: 5000 },
+      tripMembers: ['Ann', 'Bob'],
+      votes: { destinations: { d1: ['Bob'], d2: ['Bob'] }, flights: {}, accommodations: {}, polls: { destinations: { status: 'open' } } }
+    });
+
+    const merged = applyTripImport(current, incoming, 'merge');
+    assert.deepEqual(merged.destinations.map((item) => item.id), ['d1', 'd2']);
+    assert.deepEqual(merged.destinations[0].flights, [flight('f1'), flight('f2', 80)]);
+    assert.equal(merged.settings.totalBudget, 1000);
+    assert.deepEqual(merged.tripMembers, ['Ann', 'Bob']);
+    assert.deepEqual(merged.votes.destinations, { d1: ['Ann', 'Bob'], d2: ['Bob'] });
+    assert.deepEqual(merged.votes.polls, { destinations: { status: 'closed' } });
+  });
+
+  test('a ballot from the file only fills in for a member without one', () => {
+    const current = trip({ votes: { destinations: {}, flights: {}, accommodations: {}, ballots: { destinations: { Ann: { voter: 'Ann', ranking: ['d1'] } } } } });
+    const incoming = trip({
+      votes: {
+        destinations: {},
+        flights: {},
+        accommodations: {},
+        ballots: { destinations: { Ann: { voter: 'Ann', ranking: ['d2'] }, Bob: { voter: 'Bob', ranking: ['d2'] } } }
+      }
+    });
+    assert.deepEqual(applyTripImport(current, incoming, 'merge').votes.ballots?.destinations, {
+      Ann: { voter: 'Ann', ranking: ['d1'] },
+      Bob: { voter: 'Bob', ranking: ['d2'] }
+    });
+  });
+
+  test('replace takes the file but keeps the activity already recorded', () => {
+    const current = trip({ destinations: [destination('d1')], activity: [event('a2', 2)] });
+    const incoming = trip({ destinations: [destination('d2')], activity: [event('a1', 1)] });
+    const replaced = applyTripImport(current, incoming, 'replace');
+    assert.deepEqual(replaced.destinations.map((item) => item.id), ['d2']);
+    assert.deepEqual(replaced.activity.map((item) => item.id), ['a1', 'a2']);
+  });
+
+  test('keeps only the newest events up to the activity limit', () => {
+    const events = (prefix: string, offset: number) => Array.from({ length: ACTIVITY_LIMIT }, (_, index) => event(`${prefix}${index}`, offset + index * 2));
+    const { activity } = applyTripImport(trip({ activity: events('local', 0) }), trip({ activity: events('file', 1) }), 'merge');
+    assert.equal(activity.length, ACTIVITY_LIMIT);
+    assert.equal(activity[activity.length - 1].id, `file${ACTIVITY_LIMIT - 1}`);
+    assert.equal(activity[0].at, ACTIVITY_LIMIT);
+  });
+});
@@ -0,0 +1,195 @@
+import { Destination, PlannerSettings, TripBundle, TripVotes } from '../types';
+import { ACTIVITY_LIMIT } from './activity';
+import { VOTE_CATEGORIES } from './voting';
+
+export const TRIP_BUNDLE_VERSION = 1;
+
+export type TripContent = Omit<TripBundle, 'schemaVersion' | 'exportedAt'>;
+export type ImportMode = 'merge' | 'replace';
+
+type RawBundle = Record<string, unknown>;
+
+/**
+ * Step n upgrades a version-n bundle to version n + 1. Field-level clean-up (old flight fields,
+ * missing currencies, …) is left to the normalizers that also handle synced data.
+ */
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // v0 is the original export: a bare array of destinations with nothing else.
+  0: (bundle) => ({ ...bundle, schemaVersion: 1 })
+};
+
+export const createTripBundle = (content: TripContent): TripBundle => ({
+  schemaVersion: TRIP_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...content
+});
+
+/** Brings any exported file up to the current schema, or throws with a message fit for the user. */
+export const migrateTripBundle = (raw: unknown): { bundle: RawBundle; fromVersion: number } => {
+  let bundle: RawBundle;
+  if (Array.isArray(raw)) {
+    bundle = { schemaVersion: 0, destinations: raw };
+  } else if (raw && typeof raw === 'object' && Array.isArray((raw as RawBundle).destinations)) {
+    bundle = raw as RawBundle;
+  } else {
+    throw new Error('This file is not a trip export.');
+  }
+
+  const fromVersion = typeof bundle.schemaVersion === 'number' && Number.isInteger(bundle.schemaVersion) ? bundle.schemaVersion : 0;
+  if (fromVersion > TRIP_BUNDLE_VERSION) {
+    throw new Error(`This file was exported by a newer version of the planner (schema ${fromVersion}).`);
+  }
+
+  for (let version = fromVersion; version < TRIP_BUNDLE_VERSION; version += 1) {
+    bundle = MIGRATIONS[version](bundle);
+  }
+  return { bundle, fromVersion };
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], mergeItem: (local: T, imported: T) => T = (_, imported) => imported) => {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]));
+  const currentIds = new Set(current.map((item) => item.id));
+  return [
+    ...current.map((item) => {
+      const imported = incomingById.get(item.id);
+      return imported ? mergeItem(item, imported) : item;
+    }),
+    ...incoming.filter((item) => !currentIds.has(item.id))
+  ];
+};
+
+const mergeDestination = (local: Destination, imported: Destination): Destination => ({
+  ...local,
+  ...imported,
+  flights: mergeById(local.flights, imported.flights),
+  accommodations: mergeById(local.accommodations, imported.accommodations),
+  extraCosts: mergeById(local.extraCosts, imported.extraCosts)
+});
+
+const mergeVoteRecord = (current: Record<string, string[]>, incoming: Record<string, string[]>) => {
+  const merged = { ...current };
+  for (const [entityId, voters] of Object.entries(incoming)) {
+    merged[entityId] = Array.from(new Set([...(merged[entityId] ?? []), ...voters]));
+  }
+  return merged;
+};
+
+// A member's ballot from the file only fills in for one this trip does not have yet.
+const mergeBallots = (current: TripVotes['ballots'], incoming: TripVotes['ballots']): TripVotes['ballots'] =>
+  Object.fromEntries(VOTE_CATEGORIES.map((category) => {
+    const local = current?.[category] ?? {};
+    const added = Object.entries(incoming?.[category] ?? {}).filter(([slot, ballot]) => !local[slot] && !Object.values(local).some((item) => item.voter === ballot.voter));
+    return [category, { ...local, ...Object.fromEntries(added) }];
+  }));
+
+// Blockers only ever add up: someone who can't make it here still can't after an import.
+const mergeBlockers = (current: TripVotes['blockers'], incoming: TripVotes['blockers']): TripVotes['blockers'] =>
+  Object.fromEntries(VOTE_CATEGORIES.map((category) => {
+    const merged = { ...current?.[category] };
+    for (const [key, blockers] of Object.entries(incoming?.[category] ?? {})) {
+      const local = merged[key] ?? [];
+      merged[key] = [...local, ...blockers.filter((blocker) => !local.some((item) => item.voter === blocker.voter))];
+    }
+    return [category, merged];
+  }));
+
+// Budget and currency stay as they are; only search links and rates this trip lacks are added.
+const mergeSettings = (current: PlannerSettings, incoming: PlannerSettings): PlannerSettings => ({
+  ...current,
+  searchLinks: mergeById(current.searchLinks, incoming.searchLinks, (local) => local),
+  exchangeRates: incoming.baseCurrency === current.baseCurrency
+    ? { ...incoming.exchangeRates, ...current.exchangeRates }
+    : current.exchangeRates
+});
+
+/**
+ * Merge keeps everything already here and adds what the file brings: items with the same id are
+ * taken from the file, members and votes are combined, and local budget settings win.
+ */
+export const applyTripImport = (current: TripContent, incoming: TripContent, mode: ImportMode): TripContent => {
+  // The activity feed is append-only, so even a replace keeps the history already recorded here,
+  // up to the same limit the live feed keeps.
+  const activity = mergeById(current.activity, incoming.activity).sort((a, b) => a.at - b.at).slice(-ACTIVITY_LIMIT);
+  if (mode === 'replace') {
+    return { ...incoming, activity };
+  }
+
+  const tripMembers = Array.from(new Set([...current.tripMembers, ...incoming.tripMembers]));
+  const secretBallot = current.votes.secretBallot ?? incoming.votes.secretBallot;
+  const votes: TripVotes = {
+    destinations: mergeVoteRecord(current.votes.destinations, incoming.votes.destinations),
+    flights: mergeVoteRecord(current.votes.flights, incoming.votes.flights),
+    accommodations: mergeVoteRecord(current.votes.accommodations, incoming.votes.accommodations),
+    modes: { ...incoming.votes.modes, ...current.votes.modes },
+    ballots: mergeBallots(current.votes.ballots, incoming.votes.ballots),
+    blockers: mergeBlockers(current.votes.blockers, incoming.votes.blockers),
+    // Like voting modes, polls already closed or decided here stay as they are.
+    polls: { ...incoming.votes.polls, ...current.votes.polls },
+    ...(secretBallot ? { secretBallot } : {})
+  };
+
+  return {
+    destinations: mergeById(current.destinations, incoming.destinations, mergeDestination),
+    settings: mergeSettings(current.settings, incoming.settings),
+    tripMembers,
+    votes,
+    // As with ballots, a member's calendar from the file only fills in for one this trip lacks.
+    availability: [...current.availability, ...incoming.availability.filter((entry) => !current.availability.some((item) => item.member === entry.member))],
+    activity
+  };
+};
+
+const countChanges = <T extends { id: string }>(current: T[], next: T[]) => {
+  const currentById = new Map(current.map((item) => [item.id, JSON.stringify(item)]));
+  const nextIds = new Set(next.map((item) => item.id));
+  return {
+    added: next.filter((item) => !currentById.has(item.id)).length,
+    updated: next.filter((item) => currentById.has(item.id) && currentById.get(item.id) !== JSON.stringify(item)).length,
+    removed: current.filter((item) => !nextIds.has(item.id)).length
+  };
+};
+
+const describeCounts = (noun: string, counts: { added: number; updated: number; removed: number }) => {
+  const parts = [
+    counts.added > 0 ? `${counts.added} added` : '',
+    counts.updated > 0 ? `${counts.updated} updated` : '',
+    counts.removed > 0 ? `${counts.removed} removed` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? `${noun}: ${parts.join(', ')}` : '';
+};
+
+const countVotes = (votes: TripVotes) =>
+  [votes.destinations, votes.flights, votes.accommodations].reduce((total, record) => total + Object.values(record).reduce((sum, voters) => sum + voters.length, 0), 0);
+
+/** One line per kind of change, for previewing an import before it is applied. */
+export const summarizeTripChanges = (current: TripContent, next: TripContent): string[] => {
+  const lines = [
+    describeCounts('Destinations', countChanges(current.destinations, next.destinations)),
+    describeCounts('Flights', countChanges(current.destinations.flatMap((d) => d.flights), next.destinations.flatMap((d) => d.flights))),
+    describeCounts('Stays', countChanges(current.destinations.flatMap((d) => d.accommodations), next.destinations.flatMap((d) => d.accommodations))),
+    describeCounts('Extra costs', countChanges(current.destinations.flatMap((d) => d.extraCosts), next.destinations.flatMap((d) => d.extraCosts)))
+  ];
+
+  const addedMembers = next.tripMembers.filter((member) => !current.tripMembers.includes(member));
+  const removedMembers = current.tripMembers.filter((member) => !next.tripMembers.includes(member));
+  if (addedMembers.length > 0) lines.push(`Members added: ${addedMembers.join(', ')}`);
+  if (removedMembers.length > 0) lines.push(`Members removed: ${removedMembers.join(', ')}`);
+
+  const voteDelta = countVotes(next.votes) - countVotes(current.votes);
+  if (voteDelta !== 0) lines.push(`Votes: ${voteDelta > 0 ? '+' : ''}${voteDelta}`);
+
+  if (current.settings.totalBudget !== next.settings.totalBudget) {
+    lines.push(`Total budget: ${current.settings.totalBudget} → ${next.settings.totalBudget}`);
+  }
+  if (current.settings.peopleCount !== next.settings.peopleCount) {
+    lines.push(`Group size: ${current.settings.peopleCount} → ${next.settings.peopleCount}`);
+  }
+  if (current.settings.baseCurrency !== next.settings.baseCurrency) {
+    lines.push(`Base currency: ${current.settings.baseCurrency} → ${next.settings.baseCurrency}`);
+  }
+  if (JSON.stringify(current.settings.searchLinks) !== JSON.stringify(next.settings.searchLinks)) {
+    lines.push('Search links change');
+  }
+
+  return lines.filter(Boolean);
+};
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Destination, Flight } from '../types';
+import { applySyncChanges, diffDestinations, diffTripSlices } from './tripSync';
+
+const flight = (id: string, pricePerPerson = 100): Flight => ({ id, link: '', description: `Flight ${id}`, segments: [], pricePerPerson, currency: 'EUR' });
+
+const destination = (id: string, overrides: Partial<Destination> = {}): Destination => ({
+  id,
+  name: id,
+  latitude: 0,
+  longitude: 0,
+  notes: '',
+  extraCosts: [],
+  budgetEstimator: { flightAssignments: {}, selectedAccommodationId: '', fixedAttemptId: '', attempts: [] },
+  flightDraft: {},
+  accommodationDraft: {},
+  flights: [],
+  accommodations: [],
+  ...overrides
+});
+
+describe('diffDestinations', () => {
+  test('writes one guarded path per changed field', () => {
+    const changes = diffDestinations([destination('d1', { name: 'Roma' })], [destination('d1', { name: 'Rome', notes: 'Pasta' })]);
+    assert.deepEqual(changes, [
+      { path: 'destinations/d1/name', value: 'Rome', base: 'Roma', guarded: true, label: 'Rome · name' },
+      { path: 'destinations/d1/notes', value: 'Pasta', base: '', guarded: true, label: 'Rome · notes' }
+    ]);
+  });
+
+  test('adds and removes entities whole and moves reordered ones by position', () => {
+    const previous = [destination('d1', { flights: [flight('f1'), flight('f2')] })];
+    const next = [destination('d1', { flights: [flight('f3'), flight('f1')] })];
+    assert.deepEqual(diffDestinations(previous, next), [
+      { path: 'destinations/d1/flights/f3', value: { ...flight('f3'), position: 0 }, base: null, guarded: false, label: 'd1 · Flight f3' },
+      { path: 'destinations/d1/flights/f1/position', value: 1, base: 0, guarded: false, label: 'd1 · Flight f1' },
+      { path: 'destinations/d1/flights/f2', value: null, base: null, guarded: false, label: 'd1 · Flight f2' }
+    ]);
+  });
+
+  test('reports nothing when only empty values changed shape', () => {
+    assert.deepEqual(diffDestinations([destination('d1', { stayLinks: [] })], [destination('d1')]), []);
+  });
+});
+
+type Slices = {
+  destinations?: Destination[];
+  tripMembers: string[];
+  currencySettings: { baseCurrency: string; exchangeRates: Record<string, number> };
+};
+
+describe('diffTripSlices', () => {
+  test('diffs objects key by key and writes arrays whole', () => {
+    const changes = diffTripSlices<Slices>(
+      { tripMembers: ['Ann'], currencySettings: { baseCurrency: 'EUR', exchangeRates: { GBP: 1.1 } } },
+      { tripMembers: ['Ann', 'Bob'], currencySettings: { baseCurrency: 'EUR', exchangeRates: { GBP: 1.2 } } }
+    );
+    assert.deepEqual(changes.map(({ path, value, base }) => ({ path, value, base })), [
+      { path: 'tripMembers', value: ['Ann', 'Bob'], base: ['Ann'] },
+      { path: 'currencySettings/exchangeRates/GBP', value: 1.2, base: 1.1 }
+    ]);
+  });
+});
+
+describe('applySyncChanges', () => {
+  test('replays a diff onto the state it was taken from', () => {
+    const previous = [destination('d1', { flights: [flight('f1'), flight('f2')] }), destination('d2')];
+    const next = [destination('d2', { notes: 'Beach' }), destination('d1', { flights: [flight('f2', 80)] })];
+    assert.deepEqual(applySyncChanges({ destinations: previous }, diffDestinations(previous, next)), { destinations: next });
+  });
+
+  test('skips a field edit when someone else changed the field first', () => {
+    const changes = diffDestinations([destination('d1', { name: 'Roma', flights: [] })], [destination('d1', { name: 'Rome', flights: [flight('f1')] })]);
+    const theirs = [destination('d1', { name: 'Firenze' })];
+    const result = applySyncChanges({ destinations: theirs }, changes);
+    assert.equal(result.destinations[0].name, 'Firenze');
+    assert.deepEqual(result.destinations[0].flights, [flight('f1')]);
+  });
+});
@@ -0,0 +1,261 @@
+import { Destination } from '../types';
+
+/**
+ * Remote layout: destinations, and the flights, accommodations and extra costs inside them,
+ * are stored as maps keyed by id with a `position` field for ordering. Keyed paths let two
+ * people edit different entities (or different fields of one entity) without overwriting
+ * each other, which a single array write cannot do.
+ */
+const ENTITY_LISTS = ['flights', 'accommodations', 'extraCosts'] as const;
+type EntityListKey = typeof ENTITY_LISTS[number];
+
+const ENTITY_LABELS: Record<EntityListKey, string> = {
+  flights: 'flight',
+  accommodations: 'stay',
+  extraCosts: 'extra cost'
+};
+
+export interface SyncChange {
+  /** Path relative to trips/{code}. */
+  path: string;
+  /** New value; null removes the path. */
+  value: unknown;
+  /** Value the edit was based on, used to detect that someone else changed it first. */
+  base: unknown;
+  /** Single-field edits are written with compare-and-set; adds, removals and reordering are not. */
+  guarded: boolean;
+  label: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  path: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+type Positioned = { id: string; position?: unknown };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Firebase stores neither undefined nor empty arrays/objects (and rejects writes holding undefined),
+// so values are compared, and guarded values written, in that shape.
+export const toStoredShape = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(toStoredShape);
+    return items.length > 0 ? items : null;
+  }
+  if (isRecord(value)) {
+    const entries = Object.entries(value)
+      .map(([key, item]) => [key, toStoredShape(item)] as const)
+      .filter(([, item]) => item !== null)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+  return value === undefined ? null : value;
+};
+
+export const isSameStoredValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(toStoredShape(a)) === JSON.stringify(toStoredShape(b));
+
+const toKeyedMap = <T extends { id: string }>(items: T[]) =>
+  Object.fromEntries(items.map((item, position) => [item.id, { ...item, position }]));
+
+const fromKeyedMap = (value: unknown): unknown => {
+  if (!isRecord(value)) {
+    // Arrays are the pre-keyed layout; anything else is left for the normalizers to reject.
+    return value;
+  }
+
+  const position = (item: Positioned) => (typeof item.position === 'number' ? item.position : Number.MAX_SAFE_INTEGER);
+  return Object.entries(value)
+    .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+    .map(([id, item]) => ({ id, ...item }) as Positioned)
+    .sort((a, b) => position(a) - position(b) || a.id.localeCompare(b.id))
+    .map(({ position: _, ...item }) => item);
+};
+
+export const encodeDestination = (destination: Destination, position: number) => ({
+  ...destination,
+  position,
+  flights: toKeyedMap(destination.flights),
+  accommodations: toKeyedMap(destination.accommodations),
+  extraCosts: toKeyedMap(destination.extraCosts)
+});
+
+export const encodeDestinations = (destinations: Destination[]) =>
+  Object.fromEntries(destinations.map((destination, position) => [destination.id, encodeDestination(destination, position)]));
+
+export const decodeDestinations = (value: unknown): unknown => {
+  const destinations = fromKeyedMap(value);
+  if (!Array.isArray(destinations)) {
+    return destinations;
+  }
+
+  return destinations.map((destination) => {
+    if (!isRecord(destination)) return destination;
+    return {
+      ...destination,
+      flights: fromKeyedMap(destination.flights),
+      accommodations: fromKeyedMap(destination.accommodations),
+      extraCosts: fromKeyedMap(destination.extraCosts)
+    };
+  });
+};
+
+/** True when the remote trip already uses the keyed layout (or has no destinations yet). */
+export const isKeyedLayout = (value: unknown) => value === undefined || value === null || isRecord(value);
+
+const unionKeys = (a: object, b: object) => Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+
+type SyncedEntity = { id: string; description?: string };
+
+const diffEntityList = (
+  basePath: string,
+  destinationName: string,
+  listKey: EntityListKey,
+  previous: SyncedEntity[],
+  next: SyncedEntity[]
+): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  const previousById = new Map(previous.map((item, position) => [item.id, { item, position }]));
+  const nextIds = new Set(next.map((item) => item.id));
+  const entityLabel = ENTITY_LABELS[listKey];
+
+  next.forEach((item, position) => {
+    const path = `${basePath}/${listKey}/${item.id}`;
+    const label = `${destinationName} · ${item.description || `Untitled ${entityLabel}`}`;
+    const before = previousById.get(item.id);
+    if (!before) {
+      changes.push({ path, value: { ...item, position }, base: null, guarded: false, label });
+      return;
+    }
+    if (before.position !== position) {
+      changes.push({ path: `${path}/position`, value: position, base: before.position, guarded: false, label });
+    }
+    const previousItem = before.item as Record<string, unknown>;
+    const nextItem = item as Record<string, unknown>;
+    for (const field of unionKeys(previousItem, nextItem)) {
+      if (isSameStoredValue(previousItem[field], nextItem[field])) continue;
+      changes.push({
+        path: `${path}/${field}`,
+        value: nextItem[field] ?? null,
+        base: previousItem[field] ?? null,
+        guarded: true,
+        label: `${label} · ${field}`
+      });
+    }
+  });
+
+  previous.forEach((item) => {
+    if (!nextIds.has(item.id)) {
+      changes.push({
+        path: `${basePath}/${listKey}/${item.id}`,
+        value: null,
+        base: null,
+        guarded: false,
+        label: `${destinationName} · ${item.description || `Untitled ${entityLabel}`}`
+      });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Turns a local edit into the smallest set of remote writes: whole entities for additions and
+ * removals, and one path per changed field otherwise.
+ */
+export const diffDestinations = (previous: Destination[], next: Destination[]): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  const previousById = new Map(previous.map((destination, position) => [destination.id, { destination, position }]));
+  const nextIds = new Set(next.map((destination) => destination.id));
+
+  next.forEach((destination, position) => {
+    const basePath = `destinations/${destination.id}`;
+    const before = previousById.get(destination.id);
+    if (!before) {
+      changes.push({ path: basePath, value: encodeDestination(destination, position), base: null, guarded: false, label: destination.name });
+      return;
+    }
+    if (before.position !== position) {
+      changes.push({ path: `${basePath}/position`, value: position, base: before.position, guarded: false, label: destination.name });
+    }
+
+    for (const key of unionKeys(before.destination, destination) as (keyof Destination)[]) {
+      if ((ENTITY_LISTS as readonly string[]).includes(key)) {
+        const listKey = key as EntityListKey;
+        changes.push(...diffEntityList(basePath, destination.name, listKey, before.destination[listKey], destination[listKey]));
+        continue;
+      }
+      if (isSameStoredValue(before.destination[key], destination[key])) continue;
+      changes.push({
+        path: `${basePath}/${key}`,
+        value: destination[key] ?? null,
+        base: before.destination[key] ?? null,
+        guarded: true,
+        label: `${destination.name} · ${key}`
+      });
+    }
+  });
+
+  previous.forEach((destination) => {
+    if (!nextIds.has(destination.id)) {
+      changes.push({ path: `destinations/${destination.id}`, value: null, base: null, guarded: false, label: destination.name });
+    }
+  });
+
+  return changes;
+};
+
+// Plain objects are compared key by key; arrays and other values are written whole.
+const diffValue = (path: string, previous: unknown, next: unknown): SyncChange[] => {
+  if (isSameStoredValue(previous, next)) return [];
+  if (isRecord(previous) && isRecord(next)) {
+    return unionKeys(previous, next).flatMap((key) => diffValue(`${path}/${key}`, previous[key], next[key]));
+  }
+  return [{ path, value: next ?? null, base: previous ?? null, guarded: true, label: path.split('/').join(' · ') }];
+};
+
+type TripSlices = { destinations?: Destination[] };
+
+/**
+ * The writes that turn one set of trip slices into another, used by undo and redo: destinations
+ * as in `diffDestinations`, every other slice one field edit per changed value.
+ */
+export const diffTripSlices = <T extends TripSlices>(previous: Partial<T>, next: Partial<T>): SyncChange[] =>
+  Object.keys(next).flatMap((key) => key === 'destinations'
+    ? diffDestinations(previous.destinations ?? [], next.destinations ?? [])
+    : diffValue(key, (previous as Record<string, unknown>)[key], (next as Record<string, unknown>)[key]));
+
+const getAtPath = (target: unknown, keys: string[]): unknown =>
+  keys.reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), target);
+
+const setAtPath = (target: unknown, keys: string[], value: unknown): Record<string, unknown> => {
+  const [key, ...rest] = keys;
+  const { [key]: current, ...others } = isRecord(target) ? target : {};
+  const next = rest.length === 0 ? value : setAtPath(current, rest, value);
+  return next === null || next === undefined ? others : { ...others, [key]: next };
+};
+
+/**
+ * Applies writes to local trip state the way the backend would, except that a field edit is
+ * skipped when the field no longer holds its base value, i.e. someone changed it since.
+ */
+export const applySyncChanges = <T extends TripSlices>(state: T, changes: SyncChange[]): T => {
+  let tree: Record<string, unknown> = state.destinations ? { ...state, destinations: encodeDestinations(state.destinations) } : { ...state };
+  for (const change of changes) {
+    const keys = change.path.split('/');
+    if (change.guarded && !isSameStoredValue(getAtPath(tree, keys), change.base)) continue;
+    tree = setAtPath(tree, keys, change.value);
+  }
+  return (state.destinations ? { ...tree, destinations: decodeDestinations(tree.destinations ?? {}) } : tree) as T;
+};
+
+export const formatConflictValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
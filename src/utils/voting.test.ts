@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Destination, TripVotes } from '../types';
+import { getVoterKey, isSameVoter, isVoterHash, pruneRemovedOptions, revealBlockers, revealVoters, runInstantRunoff, setBallotScope, setPoll, setSecretBallot, tallyVotes, toggleVote } from './voting';
+
+const emptyVotes: TripVotes = { destinations: {}, flights: {}, accommodations: {} };
+
+describe('runInstantRunoff', () => {
+  test('knocks out the last option and moves its ballots on until one has a majority', () => {
+    const rounds = runInstantRunoff([['a', 'b'], ['a', 'c'], ['b', 'c'], ['c', 'b'], ['c', 'b']], ['a', 'b', 'c', 'd']);
+    assert.deepEqual(rounds, [
+      { counts: { a: 2, b: 1, c: 2 }, eliminated: ['b'], exhausted: 0 },
+      { counts: { a: 2, c: 3 }, eliminated: [], exhausted: 0 }
+    ]);
+  });
+
+  test('knocks out every option tied for last and counts ballots with no choice left', () => {
+    assert.deepEqual(runInstantRunoff([['a'], ['b'], ['b'], ['c']], ['a', 'b', 'c']), [
+      { counts: { a: 1, b: 2, c: 1 }, eliminated: ['a', 'c'], exhausted: 0 },
+      { counts: { b: 2 }, eliminated: [], exhausted: 2 }
+    ]);
+  });
+
+  test('stops with a shared first place when every option is tied', () => {
+    assert.deepEqual(runInstantRunoff([['a'], ['b']], ['a', 'b']), [{ counts: { a: 1, b: 1 }, eliminated: [], exhausted: 0 }]);
+    assert.deepEqual(runInstantRunoff([], ['a']), []);
+  });
+});
+
+describe('tallyVotes', () => {
+  test('approval counts voters on options that still exist', () => {
+    const tally = tallyVotes({ ...emptyVotes, destinations: { a: ['Ann', 'Bob'], b: ['Cy'], c: [], gone: ['Ann'] } }, 'destinations', ['a', 'b', 'c']);
+    assert.deepEqual(tally.scores, { a: 2, b: 1 });
+    assert.deepEqual(tally.order, ['a', 'b']);
+  });
+
+  test('points add up across ballots', () => {
+    const votes: TripVotes = {
+      ...emptyVotes,
+      modes: { destinations: 'points' },
+      ballots: { destinations: { Ann: { voter: 'Ann', points: { a: 6, b: 4 } }, Bob: { voter: 'Bob', points: { b: 10 } } } }
+    };
+    const tally = tallyVotes(votes, 'destinations', ['a', 'b']);
+    assert.deepEqual(tally.scores, { a: 6, b: 14 });
+    assert.deepEqual(tally.order, ['b', 'a']);
+    assert.deepEqual(tally.supporters, { a: ['Ann'], b: ['Ann', 'Bob'] });
+  });
+
+  test('ranked choice orders options by how long they stayed in the race', () => {
+    const ranking = (voter: string, ...ids: string[]) => [voter, { voter, ranking: ids }] as const;
+    const votes: TripVotes = {
+      ...emptyVotes,
+      modes: { destinations: 'ranked' },
+      ballots: {
+        destinations: Object.fromEntries([
+          ranking('Ann', 'gone', 'a', 'b'),
+          ranking('Bob', 'a', 'c'),
+          ranking('Cy', 'b', 'c'),
+          ranking('Dee', 'c', 'b'),
+          ranking('Eve', 'c', 'b')
+        ])
+      }
+    };
+    const tally = tallyVotes(votes, 'destinations', ['a', 'b', 'c']);
+    assert.equal(tally.rounds.length, 2);
+    assert.deepEqual(tally.scores, { a: 2, b: 1, c: 3 });
+    assert.deepEqual(tally.eliminatedInRound, { b: 1 });
+    assert.deepEqual(tally.order, ['c', 'a', 'b']);
+  });
+});
+
+describe('pruneRemovedOptions', () => {
+  const destination: Destination = {
+    id: 'd1',
+    name: 'Rome',
+    latitude: 0,
+    longitude: 0,
+    notes: '',
+    extraCosts: [],
+    budgetEstimator: { flightAssignments: {}, selectedAccommodationId: '', fixedAttemptId: '', attempts: [] },
+    flightDraft: {},
+    accommodationDraft: {},
+    flights: [{ id: 'f1', link: '', description: 'f1', segments: [], pricePerPerson: 100, currency: 'EUR' }],
+    accommodations: [{ id: 's1', link: '', description: 's1', totalPrice: 300, currency: 'EUR', startDate: '', endDate: '' }]
+  };
+
+  test('drops approvals, ballot choices and blockers for removed options', () => {
+    const votes: TripVotes = {
+      destinations: { d1: ['Ann'], d2: ['Bob'] },
+      flights: { f1: ['Ann'], gone: ['Bob'] },
+      accommodations: {},
+      ballots: { destinations: { Ann: { voter: 'Ann', ranking: ['d2', 'd1'] }, Bob: { voter: 'Bob', ranking: ['d2'] } } },
+      blockers: {
+        flights: { 'no-start|no-end': [{ voter: 'Cy' }], '2026-01-01|2026-01-05': [{ voter: 'Ann' }] },
+        accommodations: { s1: [{ voter: 'Ann' }], s2: [{ voter: 'Bob' }] }
+      }
+    };
+    assert.deepEqual(pruneRemovedOptions(votes, [destination]), {
+      destinations: { d1: ['Ann'] },
+      flights: { f1: ['Ann'] },
+      accommodations: {},
+      ballots: { destinations: { Ann: { voter: 'Ann', ranking: ['d1'] } } },
+      blockers: { flights: { 'no-start|no-end': [{ voter: 'Cy' }] }, accommodations: { s1: [{ voter: 'Ann' }] } }
+    });
+  });
+
+  test('returns the same votes when nothing refers to a removed option', () => {
+    const votes: TripVotes = { ...emptyVotes, destinations: { d1: ['Ann'] }, ballots: { destinations: { Ann: { voter: 'Ann', points: { d1: 10 } } } } };
+    assert.equal(pruneRemovedOptions(votes, [destination]), votes);
+  });
+});
+
+describe('secret ballots', () => {
+  const members = ['Ann', 'Bob'];
+  const named: TripVotes = {
+    destinations: { d1: ['Ann', 'Bob'] },
+    flights: {},
+    accommodations: {},
+    ballots: { destinations: { Ann: { voter: 'Ann', ranking: ['d1'] } } },
+    blockers: { destinations: { d2: [{ voter: 'Bob', reason: 'Too far' }] } },
+    secretBallot: { enabled: false, salt: 'salt' }
+  };
+
+  test('turning them on hashes every stored voter, and turning them off restores the names', () => {
+    setBallotScope('TRIP01');
+    const secret = setSecretBallot(named, true, members);
+    const ann = getVoterKey(secret, 'Ann');
+    assert.ok(isVoterHash(ann));
+    assert.deepEqual(secret.destinations.d1, [ann, getVoterKey(secret, 'Bob')]);
+    assert.deepEqual(Object.values(secret.ballots?.destinations ?? {}), [{ voter: ann, ranking: ['d1'] }]);
+    assert.ok(!Object.keys(secret.ballots?.destinations ?? {}).includes('Ann'));
+    assert.equal(secret.blockers?.destinations?.d2[0].voter, getVoterKey(secret, 'Bob'));
+    assert.ok(!JSON.stringify(secret).includes('Ann'));
+
+    assert.deepEqual(setSecretBallot(secret, false, members), named);
+  });
+
+  test('a member hashes the same on every device, so a second vote withdraws the first', () => {
+    setBallotScope('TRIP01');
+    const secret = setSecretBallot({ ...emptyVotes, secretBallot: { enabled: false, salt: 'salt' } }, true, members);
+    const first = toggleVote(secret, 'destinations', 'd1', 'Ann');
+    const second = toggleVote(first.votes, 'destinations', 'd1', 'Ann');
+    assert.equal(second.isAdding, false);
+    assert.deepEqual(second.votes.destinations.d1, []);
+    assert.ok(isSameVoter(secret, getVoterKey(secret, 'Ann'), 'Ann'));
+
+    setBallotScope('OTHER1');
+    assert.notEqual(getVoterKey(secret, 'Ann'), first.votes.destinations.d1[0]);
+  });
+
+  test('shows only totals and your own vote until the poll closes, then the names', () => {
+    setBallotScope('TRIP01');
+    const secret = setSecretBallot(named, true, members);
+    const voters = secret.destinations.d1;
+    const open = revealVoters(secret, 'destinations', voters, 'Ann', members);
+    assert.equal(open[0], 'Ann');
+    assert.ok(isVoterHash(open[1]));
+
+    const closed = setPoll(secret, 'destinations', { status: 'closed' });
+    assert.deepEqual(revealVoters(closed, 'destinations', voters, '', members), ['Ann', 'Bob']);
+    assert.deepEqual(revealBlockers(closed, 'destinations', closed.blockers?.destinations?.d2 ?? [], '', members), [{ voter: 'Bob', reason: 'Too far' }]);
+  });
+});
@@ -0,0 +1,486 @@
+import { Destination, Flight, PollStatus, TripVotes, VoteBallot, VoteBlocker, VoteCategory, VoteMode, VotePoll } from '../types';
+import { getFlightEndDate, getFlightStartDate } from './flightSegments';
+
+export const VOTE_CATEGORIES: VoteCategory[] = ['destinations', 'flights', 'accommodations'];
+
+export const VOTE_MODES: { id: VoteMode; label: string; description: string }[] = [
+  { id: 'approval', label: 'Approval', description: 'Vote for every option you are happy with.' },
+  { id: 'ranked', label: 'Ranked choice', description: 'Order your picks; the last-placed option is knocked out each round until one has a majority.' },
+  { id: 'points', label: 'Points', description: 'Spread your points over the options you like.' }
+];
+
+export const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  decided: 'Decided'
+};
+
+/** Points each member can spread in point allocation mode. */
+export const POINTS_PER_VOTER = 10;
+
+export interface RunoffRound {
+  /** Ballots counting for each option still in the race. */
+  counts: Record<string, number>;
+  /** Options knocked out at the end of this round. */
+  eliminated: string[];
+  /** Ballots with no remaining choice left. */
+  exhausted: number;
+}
+
+export interface VoteTally {
+  mode: VoteMode;
+  /** Approval votes, points, or ranked-choice votes in the last round the option took part in. */
+  scores: Record<string, number>;
+  supporters: Record<string, string[]>;
+  /** Options with any support, best first. */
+  order: string[];
+  /** Ranked choice only. */
+  rounds: RunoffRound[];
+  /** Ranked choice only: the round an option was knocked out in, from 1. */
+  eliminatedInRound: Record<string, number>;
+}
+
+export const getVoteMode = (votes: TripVotes, category: VoteCategory): VoteMode => votes.modes?.[category] ?? 'approval';
+
+export const getVoteModeLabel = (mode: VoteMode): string => VOTE_MODES.find((item) => item.id === mode)?.label ?? 'Approval';
+
+// 53-bit string hash (cyrb53); not cryptographic, so what keeps voters secret is the trip code mixed in below.
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < value.length; index += 1) {
+    const code = value.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+const VOTER_HASH_PATTERN = /^#[0-9a-f]{14}$/;
+
+const createSalt = () =>
+  typeof window.crypto?.randomUUID === 'function'
+    ? window.crypto.randomUUID()
+    : `salt-${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+
+let ballotScope = '';
+
+/**
+ * Sets the trip code voter hashes are keyed by. Every member's device knows it, so the same member
+ * hashes the same everywhere, but it is only the path the trip is stored under, never part of it:
+ * the stored salt and member list alone do not tell whose hash is whose.
+ */
+export const setBallotScope = (tripCode: string) => {
+  ballotScope = tripCode;
+};
+
+const hashVoter = (salt: string, person: string): string => `#${hashString(`${salt}:${ballotScope}:${person}`)}`;
+
+export const isVoterHash = (voter: string): boolean => VOTER_HASH_PATTERN.test(voter);
+
+export const isSecretBallot = (votes: TripVotes): boolean => votes.secretBallot?.enabled === true;
+
+/** What a member's votes and blockers are stored under: their name, or their hash while ballots are secret. */
+export const getVoterKey = (votes: TripVotes, person: string): string =>
+  votes.secretBallot?.enabled && !isVoterHash(person) ? hashVoter(votes.secretBallot.salt, person) : person;
+
+/** Whether a stored voter entry belongs to `person`, by name or by hash. */
+export const isSameVoter = (votes: TripVotes, voter: string, person: string): boolean =>
+  voter === person || (votes.secretBallot !== undefined && voter === hashVoter(votes.secretBallot.salt, person));
+
+/** The member each of `members`' hashes stands for; hashes of anyone else stay unknown. */
+const getHashedMembers = (votes: TripVotes, members: string[]): Map<string, string> => {
+  const salt = votes.secretBallot?.salt;
+  return new Map(salt ? members.map((member) => [hashVoter(salt, member), member]) : []);
+};
+
+// Firebase keys may not contain . # $ [ ] or /, and voter hashes start with #.
+const getBallotSlot = (voter: string): string => encodeURIComponent(voter).replace(/\./g, '%2E');
+
+// Rewrites every stored voter entry; ballots move to the slot of their new voter.
+const mapVoters = (votes: TripVotes, mapVoter: (voter: string) => string): TripVotes => {
+  const mapRecord = (record: Record<string, string[]>) =>
+    Object.fromEntries(Object.entries(record).map(([entityId, voters]) => [entityId, Array.from(new Set(voters.map(mapVoter)))]));
+  return {
+    ...votes,
+    destinations: mapRecord(votes.destinations),
+    flights: mapRecord(votes.flights),
+    accommodations: mapRecord(votes.accommodations),
+    ...(votes.ballots ? {
+      ballots: Object.fromEntries(Object.entries(votes.ballots).map(([category, ballots]) => [
+        category,
+        Object.fromEntries(Object.values(ballots ?? {}).map((ballot) => {
+          const voter = mapVoter(ballot.voter);
+          return [getBallotSlot(voter), { ...ballot, voter }];
+        }))
+      ]))
+    } : {}),
+    ...(votes.blockers ? {
+      blockers: Object.fromEntries(Object.entries(votes.blockers).map(([category, blockers]) => [
+        category,
+        Object.fromEntries(Object.entries(blockers ?? {}).map(([key, items]) => [key, items.map((blocker) => ({ ...blocker, voter: mapVoter(blocker.voter) }))]))
+      ]))
+    } : {})
+  };
+};
+
+/**
+ * Turns secret ballots on or off. Turning them on stores every existing vote, ballot and blocker
+ * under its member's hash; turning them off puts the names of `members` back, and hashes of anyone
+ * no longer a member stay anonymous.
+ */
+export const setSecretBallot = (votes: TripVotes, enabled: boolean, members: string[]): TripVotes => {
+  const next: TripVotes = { ...votes, secretBallot: { enabled, salt: votes.secretBallot?.salt ?? createSalt() } };
+  if (enabled) {
+    return mapVoters(next, (voter) => getVoterKey(next, voter));
+  }
+  const names = getHashedMembers(next, members);
+  return mapVoters(next, (voter) => names.get(voter) ?? voter);
+};
+
+export const getBallots = (votes: TripVotes, category: VoteCategory): VoteBallot[] =>
+  Object.values(votes.ballots?.[category] ?? {});
+
+export const getBallot = (votes: TripVotes, category: VoteCategory, voter: string): VoteBallot | undefined =>
+  getBallots(votes, category).find((ballot) => isSameVoter(votes, ballot.voter, voter));
+
+export const getPointsUsed = (ballot: VoteBallot | undefined): number =>
+  Object.values(ballot?.points ?? {}).reduce((total, points) => total + points, 0);
+
+/**
+ * Replaces (or adds) one member's ballot under its own slot; a ballot with nothing on it is dropped.
+ * Any other slot holding the member's ballot, such as an index from the old list layout, is cleared.
+ */
+export const setBallot = (votes: TripVotes, category: VoteCategory, ballot: VoteBallot): TripVotes => {
+  const points = Object.fromEntries(Object.entries(ballot.points ?? {}).filter(([, value]) => value > 0));
+  const cleaned: VoteBallot = {
+    voter: getVoterKey(votes, ballot.voter),
+    ...(ballot.ranking && ballot.ranking.length > 0 ? { ranking: Array.from(new Set(ballot.ranking)) } : {}),
+    ...(Object.keys(points).length > 0 ? { points } : {})
+  };
+  const others = Object.fromEntries(Object.entries(votes.ballots?.[category] ?? {}).filter(([, item]) => !isSameVoter(votes, item.voter, ballot.voter)));
+  const next = cleaned.ranking || cleaned.points ? { ...others, [getBallotSlot(cleaned.voter)]: cleaned } : others;
+  return { ...votes, ballots: { ...votes.ballots, [category]: next } };
+};
+
+const getApprovedIds = (votes: TripVotes, category: VoteCategory, voter: string) =>
+  Object.entries(votes[category]).filter(([, voters]) => voters.some((item) => isSameVoter(votes, item, voter))).map(([entityId]) => entityId);
+
+/** Splits the point budget as evenly as it goes, earlier options taking any remainder. */
+const spreadPoints = (entityIds: string[]): Record<string, number> => {
+  const share = Math.floor(POINTS_PER_VOTER / entityIds.length);
+  const remainder = POINTS_PER_VOTER % entityIds.length;
+  return Object.fromEntries(entityIds.map((entityId, index) => [entityId, share + (index < remainder ? 1 : 0)]));
+};
+
+/**
+ * Switches a category's voting mode. Members who approved options but have no ballot for the new
+ * mode get one filled from their approvals, so switching away from approval loses no votes.
+ * Approval votes themselves are kept, so switching back restores them as they were.
+ */
+export const setVoteMode = (votes: TripVotes, category: VoteCategory, mode: VoteMode): TripVotes => {
+  let next: TripVotes = { ...votes, modes: { ...votes.modes, [category]: mode } };
+  if (mode === 'approval') return next;
+
+  const approvers = Array.from(new Set(Object.values(votes[category]).flat()));
+  for (const voter of approvers) {
+    const ballot = getBallot(next, category, voter) ?? { voter };
+    const approved = getApprovedIds(votes, category, voter);
+    if (mode === 'ranked' && !ballot.ranking) {
+      next = setBallot(next, category, { ...ballot, ranking: approved });
+    } else if (mode === 'points' && !ballot.points && approved.length > 0) {
+      next = setBallot(next, category, { ...ballot, points: spreadPoints(approved) });
+    }
+  }
+  return next;
+};
+
+/** Who backs each option under the category's current mode: approvers, anyone ranking it, or anyone giving it points. */
+export const getSupporterMap = (votes: TripVotes, category: VoteCategory): Record<string, string[]> => {
+  const mode = getVoteMode(votes, category);
+  if (mode === 'approval') return votes[category];
+
+  const supporters: Record<string, string[]> = {};
+  for (const ballot of getBallots(votes, category)) {
+    const entityIds = mode === 'ranked' ? ballot.ranking ?? [] : Object.keys(ballot.points ?? {});
+    for (const entityId of entityIds) {
+      supporters[entityId] = [...(supporters[entityId] ?? []), ballot.voter];
+    }
+  }
+  return supporters;
+};
+
+/**
+ * The one-click vote used by the vote buttons: approve or withdraw, add to or drop from the end of
+ * your ranking, or give one point to / take every point from an option. A point is only given while
+ * the member has points left.
+ */
+export const toggleVote = (votes: TripVotes, category: VoteCategory, entityId: string, voter: string): { votes: TripVotes; isAdding: boolean } => {
+  const mode = getVoteMode(votes, category);
+  const isAdding = !(getSupporterMap(votes, category)[entityId] ?? []).some((item) => isSameVoter(votes, item, voter));
+
+  if (mode === 'approval') {
+    const current = votes[category][entityId] ?? [];
+    const next = isAdding ? [...current, getVoterKey(votes, voter)] : current.filter((name) => !isSameVoter(votes, name, voter));
+    return { votes: { ...votes, [category]: { ...votes[category], [entityId]: next } }, isAdding };
+  }
+
+  const ballot = getBallot(votes, category, voter) ?? { voter };
+  if (mode === 'ranked') {
+    const ranking = ballot.ranking ?? [];
+    const next = isAdding ? [...ranking, entityId] : ranking.filter((id) => id !== entityId);
+    return { votes: setBallot(votes, category, { ...ballot, ranking: next }), isAdding };
+  }
+
+  if (isAdding && getPointsUsed(ballot) >= POINTS_PER_VOTER) return { votes, isAdding: false };
+  const points = { ...ballot.points };
+  if (isAdding) {
+    points[entityId] = 1;
+  } else {
+    delete points[entityId];
+  }
+  return { votes: setBallot(votes, category, { ...ballot, points }), isAdding };
+};
+
+/** Flights are blocked by their dates, so a blocker covers every flight with the same outbound and return day. */
+export const getFlightDateKey = (flight: Flight): string =>
+  `${getFlightStartDate(flight) || 'no-start'}|${getFlightEndDate(flight) || 'no-end'}`;
+
+/** "2026-05-01 to 2026-05-05" for a date key from `getFlightDateKey`. */
+export const formatFlightDateKey = (key: string): string => {
+  const [start, end] = key.split('|');
+  return `${start === 'no-start' ? 'undated' : start} to ${end === 'no-end' ? 'undated' : end}`;
+};
+
+export const getBlockers = (votes: TripVotes, category: VoteCategory, key: string): VoteBlocker[] =>
+  votes.blockers?.[category]?.[key] ?? [];
+
+/** Adds, updates or (with `reason` null) removes one member's blocker on an option; secret ballots hide who blocked. */
+export const setBlocker = (votes: TripVotes, category: VoteCategory, key: string, voter: string, reason: string | null): TripVotes => {
+  const others = getBlockers(votes, category, key).filter((blocker) => !isSameVoter(votes, blocker.voter, voter));
+  const trimmed = reason?.trim();
+  const next = reason === null ? others : [...others, { voter: getVoterKey(votes, voter), ...(trimmed ? { reason: trimmed } : {}) }];
+  const { [key]: _, ...rest } = votes.blockers?.[category] ?? {};
+  return {
+    ...votes,
+    blockers: { ...votes.blockers, [category]: next.length > 0 ? { ...rest, [key]: next } : rest }
+  };
+};
+
+/** Who blocks each flight of a destination, by flight id. */
+export const getFlightBlockerMap = (votes: TripVotes, flights: Flight[]): Record<string, VoteBlocker[]> =>
+  Object.fromEntries(flights.map((flight) => [flight.id, getBlockers(votes, 'flights', getFlightDateKey(flight))]).filter(([, blockers]) => blockers.length > 0));
+
+/** Ids of the destination's flights and stays someone has blocked; plans should leave these out. */
+export const getBlockedOptionIds = (votes: TripVotes, destination: Pick<Destination, 'flights' | 'accommodations'>): string[] => [
+  ...Object.keys(getFlightBlockerMap(votes, destination.flights)),
+  ...destination.accommodations.filter((accommodation) => getBlockers(votes, 'accommodations', accommodation.id).length > 0).map((accommodation) => accommodation.id)
+];
+
+/** Blockers by option id, shown as `revealBlockers` would, so your own shows and can be lifted as yours. */
+export const getRevealedBlockerMap = (votes: TripVotes, category: VoteCategory, currentPerson: string, members: string[]): Record<string, VoteBlocker[]> =>
+  Object.fromEntries(Object.entries(votes.blockers?.[category] ?? {}).map(([key, blockers]) => [key, revealBlockers(votes, category, blockers, currentPerson, members)]));
+
+const pruneRecord = <T>(record: Record<string, T>, validKeys: Set<string>): Record<string, T> | null =>
+  Object.keys(record).every((key) => validKeys.has(key))
+    ? null
+    : Object.fromEntries(Object.entries(record).filter(([key]) => validKeys.has(key)));
+
+// Keeps a ballot's choices among the options still there; a ballot left with nothing is dropped.
+const pruneBallot = (ballot: VoteBallot, validIds: Set<string>): VoteBallot | null => {
+  const ranking = ballot.ranking?.filter((entityId) => validIds.has(entityId)) ?? [];
+  const points = Object.fromEntries(Object.entries(ballot.points ?? {}).filter(([entityId]) => validIds.has(entityId)));
+  if (ranking.length === (ballot.ranking?.length ?? 0) && Object.keys(points).length === Object.keys(ballot.points ?? {}).length) return ballot;
+  if (ranking.length === 0 && Object.keys(points).length === 0) return null;
+  return {
+    voter: ballot.voter,
+    ...(ranking.length > 0 ? { ranking } : {}),
+    ...(Object.keys(points).length > 0 ? { points } : {})
+  };
+};
+
+/**
+ * Drops approvals, ballot choices and blockers for options that no longer exist. Returns `votes`
+ * itself when nothing refers to a removed option.
+ */
+export const pruneRemovedOptions = (votes: TripVotes, destinations: Destination[]): TripVotes => {
+  const validIds: Record<VoteCategory, Set<string>> = {
+    destinations: new Set(destinations.map((destination) => destination.id)),
+    flights: new Set(destinations.flatMap((destination) => destination.flights.map((flight) => flight.id))),
+    accommodations: new Set(destinations.flatMap((destination) => destination.accommodations.map((accommodation) => accommodation.id)))
+  };
+  const blockerKeys: Record<VoteCategory, Set<string>> = {
+    ...validIds,
+    flights: new Set(destinations.flatMap((destination) => destination.flights.map(getFlightDateKey)))
+  };
+
+  let next = votes;
+  for (const category of VOTE_CATEGORIES) {
+    const approvals = pruneRecord(votes[category], validIds[category]);
+    if (approvals) next = { ...next, [category]: approvals };
+
+    const ballots = Object.entries(votes.ballots?.[category] ?? {});
+    const prunedBallots = ballots.flatMap(([slot, ballot]) => {
+      const pruned = pruneBallot(ballot, validIds[category]);
+      return pruned ? [[slot, pruned] as const] : [];
+    });
+    if (prunedBallots.length !== ballots.length || prunedBallots.some(([, ballot], index) => ballot !== ballots[index][1])) {
+      next = { ...next, ballots: { ...next.ballots, [category]: Object.fromEntries(prunedBallots) } };
+    }
+
+    const blockers = pruneRecord(votes.blockers?.[category] ?? {}, blockerKeys[category]);
+    if (blockers) next = { ...next, blockers: { ...next.blockers, [category]: blockers } };
+  }
+  return next;
+};
+
+export const describeBlockers = (blockers: VoteBlocker[]): string =>
+  blockers.map((blocker) => {
+    const who = isVoterHash(blocker.voter) ? 'anonymous' : blocker.voter;
+    return blocker.reason ? `${who} (${blocker.reason})` : who;
+  }).join(', ');
+
+export const getPoll = (votes: TripVotes, category: VoteCategory): VotePoll => votes.polls?.[category] ?? { status: 'open' };
+
+/** An open poll past its deadline counts as closed; nothing is written when the deadline passes. */
+export const getPollStatus = (votes: TripVotes, category: VoteCategory, now = Date.now()): PollStatus => {
+  const poll = getPoll(votes, category);
+  return poll.status === 'open' && poll.deadline !== undefined && now >= poll.deadline ? 'closed' : poll.status;
+};
+
+export const isVotingOpen = (votes: TripVotes, category: VoteCategory, now = Date.now()): boolean =>
+  getPollStatus(votes, category, now) === 'open';
+
+/** While a secret ballot's poll is open only totals and your own vote are shown. */
+export const areVotersHidden = (votes: TripVotes, category: VoteCategory, now = Date.now()): boolean =>
+  isSecretBallot(votes) && isVotingOpen(votes, category, now);
+
+/**
+ * Stored voter entries as they may be shown: your own entry as your name, and while voters are
+ * hidden everyone else as a hash, which counts towards totals but is never shown by name (see
+ * `formatVoters`). Once the poll closes the hashes of `members` are shown as their names.
+ */
+export const revealVoters = (votes: TripVotes, category: VoteCategory, voters: string[], currentPerson: string, members: string[]): string[] => {
+  const hidden = areVotersHidden(votes, category);
+  const names = hidden ? new Map<string, string>() : getHashedMembers(votes, members);
+  return voters.map((voter) => {
+    if (currentPerson && isSameVoter(votes, voter, currentPerson)) return currentPerson;
+    return hidden ? getVoterKey(votes, voter) : names.get(voter) ?? voter;
+  });
+};
+
+export const getRevealedSupporterMap = (votes: TripVotes, category: VoteCategory, currentPerson: string, members: string[]): Record<string, string[]> =>
+  Object.fromEntries(Object.entries(getSupporterMap(votes, category)).map(([entityId, voters]) => [entityId, revealVoters(votes, category, voters, currentPerson, members)]));
+
+/** Blockers with their voters shown as `revealVoters` would. */
+export const revealBlockers = (votes: TripVotes, category: VoteCategory, blockers: VoteBlocker[], currentPerson: string, members: string[]): VoteBlocker[] => {
+  const voters = revealVoters(votes, category, blockers.map((blocker) => blocker.voter), currentPerson, members);
+  return blockers.map((blocker, index) => ({ ...blocker, voter: voters[index] }));
+};
+
+/** "Ann, Bob, 2 anonymous": names as they are, hashes only counted. */
+export const formatVoters = (voters: string[]): string => {
+  const hidden = voters.filter(isVoterHash).length;
+  return [...voters.filter((voter) => !isVoterHash(voter)), ...(hidden > 0 ? [`${hidden} anonymous`] : [])].join(', ');
+};
+
+/** A decision is only kept on a decided poll, so reopening or closing clears it. */
+export const setPoll = (votes: TripVotes, category: VoteCategory, poll: VotePoll): TripVotes => ({
+  ...votes,
+  polls: {
+    ...votes.polls,
+    [category]: {
+      status: poll.status,
+      ...(poll.deadline !== undefined ? { deadline: poll.deadline } : {}),
+      ...(poll.status === 'decided' && poll.decision ? { decision: poll.decision } : {})
+    }
+  }
+});
+
+/** The official choice of a decided category: a destination id, a flight date key or a stay id. */
+export const getDecision = (votes: TripVotes, category: VoteCategory): string | null => {
+  const poll = getPoll(votes, category);
+  return poll.status === 'decided' && poll.decision ? poll.decision : null;
+};
+
+export const isDecidedFlight = (votes: TripVotes, flight: Flight): boolean =>
+  getDecision(votes, 'flights') === getFlightDateKey(flight);
+
+/**
+ * Instant runoff: every ballot counts for its highest option still in the race. An option with more
+ * than half of the live ballots wins; otherwise every option tied for last is knocked out. When all
+ * remaining options are tied the count stops with them sharing first place.
+ */
+export const runInstantRunoff = (rankings: string[][], candidates: string[]): RunoffRound[] => {
+  const rounds: RunoffRound[] = [];
+  let remaining = candidates.filter((candidate) => rankings.some((ranking) => ranking.includes(candidate)));
+
+  while (remaining.length > 0) {
+    const counts: Record<string, number> = Object.fromEntries(remaining.map((candidate) => [candidate, 0]));
+    let exhausted = 0;
+    for (const ranking of rankings) {
+      const choice = ranking.find((candidate) => remaining.includes(candidate));
+      if (choice) {
+        counts[choice] += 1;
+      } else {
+        exhausted += 1;
+      }
+    }
+
+    const live = rankings.length - exhausted;
+    const values = remaining.map((candidate) => counts[candidate]);
+    const highest = Math.max(...values);
+    const lowest = Math.min(...values);
+    if (highest * 2 > live || highest === lowest) {
+      rounds.push({ counts, eliminated: [], exhausted });
+      break;
+    }
+
+    const eliminated = remaining.filter((candidate) => counts[candidate] === lowest);
+    rounds.push({ counts, eliminated, exhausted });
+    remaining = remaining.filter((candidate) => !eliminated.includes(candidate));
+  }
+
+  return rounds;
+};
+
+export const tallyVotes = (votes: TripVotes, category: VoteCategory, entityIds: string[]): VoteTally => {
+  const mode = getVoteMode(votes, category);
+  const valid = new Set(entityIds);
+  const supporters = Object.fromEntries(
+    Object.entries(getSupporterMap(votes, category)).filter(([entityId, voters]) => valid.has(entityId) && voters.length > 0)
+  );
+  const byScore = (scores: Record<string, number>) => Object.keys(supporters).sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0));
+
+  if (mode === 'approval') {
+    const scores = Object.fromEntries(Object.entries(supporters).map(([entityId, voters]) => [entityId, voters.length]));
+    return { mode, scores, supporters, order: byScore(scores), rounds: [], eliminatedInRound: {} };
+  }
+
+  const ballots = getBallots(votes, category);
+  if (mode === 'points') {
+    const scores: Record<string, number> = {};
+    for (const ballot of ballots) {
+      for (const [entityId, points] of Object.entries(ballot.points ?? {})) {
+        if (valid.has(entityId)) scores[entityId] = (scores[entityId] ?? 0) + points;
+      }
+    }
+    return { mode, scores, supporters, order: byScore(scores), rounds: [], eliminatedInRound: {} };
+  }
+
+  const rankings = ballots.map((ballot) => (ballot.ranking ?? []).filter((entityId) => valid.has(entityId))).filter((ranking) => ranking.length > 0);
+  const rounds = runInstantRunoff(rankings, entityIds);
+  const scores: Record<string, number> = {};
+  const eliminatedInRound: Record<string, number> = {};
+  rounds.forEach((round, index) => {
+    Object.assign(scores, round.counts);
+    round.eliminated.forEach((entityId) => { eliminatedInRound[entityId] = index + 1; });
+  });
+  // Still in the race first, then the later an option was knocked out the higher it places.
+  const order = Object.keys(scores).sort((a, b) =>
+    (eliminatedInRound[b] ?? Infinity) - (eliminatedInRound[a] ?? Infinity) || scores[b] - scores[a]
+  );
+  return { mode, scores, supporters, order, rounds, eliminatedInRound };
+};
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createXlsxBlob, toCsv } from './xlsx';
+
+describe('toCsv', () => {
+  test('quotes fields with commas, quotes or line breaks', () => {
+    assert.equal(toCsv([['Rome, Italy', 'say "ciao"', 'two\nlines', 12.5, null]]), '"Rome, Italy","say ""ciao""","two\nlines",12.5,');
+    assert.equal(toCsv([['a'], ['b']]), 'a\r\nb');
+  });
+
+  test('keeps text that starts like a formula from being run', () => {
+    assert.equal(toCsv([['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', 'a=b']]), `"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),a=b`);
+    assert.equal(toCsv([[-20]]), '-20');
+  });
+});
+
+describe('createXlsxBlob', () => {
+  const readEntries = async (sheets: Parameters<typeof createXlsxBlob>[0]) => {
+    const bytes = new Uint8Array(await createXlsxBlob(sheets).arrayBuffer());
+    // Entries are stored uncompressed, so the XML can be read straight out of the archive.
+    return { bytes, text: new TextDecoder().decode(bytes) };
+  };
+
+  test('writes a zip holding one worksheet per sheet', async () => {
+    const { bytes, text } = await readEntries([{ name: 'Summary', rows: [] }, { name: 'Rome', rows: [] }]);
+    assert.deepEqual(Array.from(bytes.slice(0, 4)), [0x50, 0x4b, 0x03, 0x04]);
+    assert.match(text, /xl\/worksheets\/sheet1\.xml/);
+    assert.match(text, /xl\/worksheets\/sheet2\.xml/);
+  });
+
+  test('writes numbers as values and escapes text', async () => {
+    const { text } = await readEntries([{ name: 'Plan', rows: [['Fish & <chips>', 12.5, null]] }]);
+    assert.match(text, /<c r="A1" t="inlineStr"><is><t xml:space="preserve">Fish &amp; &lt;chips&gt;<\/t><\/is><\/c><c r="B1"><v>12.5<\/v><\/c><\/row>/);
+  });
+
+  test('makes sheet names valid and unique', async () => {
+    const { text } = await readEntries([{ name: 'Rome: 1/2', rows: [] }, { name: 'rome  1 2', rows: [] }, { name: '', rows: [] }]);
+    assert.match(text, /<sheet name="Rome 1 2" sheetId="1"/);
+    assert.match(text, /<sheet name="rome 1 2 2" sheetId="2"/);
+    assert.match(text, /<sheet name="Sheet" sheetId="3"/);
+  });
+});